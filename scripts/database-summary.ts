@@ -3,6 +3,7 @@ import citiesData from '../src/data/cities.json';
 
 interface City {
   name: string;
+  aliases?: string[];
   country: string;
   timezone: string;
   coordinates: { lat: number; lon: number };
@@ -44,6 +45,7 @@ timezoneGroups.forEach((cities, timezone) => {
 console.log('=== CITY DATABASE SUMMARY ===\n');
 console.log(`Total Cities: ${cities.length}`);
 console.log(`Unique Timezones: ${timezoneGroups.size}`);
+console.log(`Cities with aliases: ${cities.filter(city => city.aliases?.length).length}`);
 console.log(`Timezones with DST: ${dstTimezones.size}`);
 console.log(`Timezones without DST: ${noDstTimezones.size}`);
 console.log(`Timezones with unusual offsets (30/45 min): ${unusualOffsets.size}\n`);
@@ -3,6 +3,7 @@ import citiesData from '../src/data/cities.json';
 
 interface City {
   name: string;
+  aliases?: string[];
   country: string;
   timezone: string;
   coordinates: { lat: number; lon: number };
@@ -77,6 +78,35 @@ if (invalidTimezones.length > 0) {
   process.exit(1);
 }
 
+// Aliases must be unique, and must not be another city's name, so a search
+// for one always leads to the same city
+const namesInUse = new Map<string, string>();
+cities.forEach(city => namesInUse.set(city.name.toLowerCase(), city.name));
+const invalidAliases: string[] = [];
+
+for (const city of cities) {
+  for (const alias of city.aliases ?? []) {
+    const key = typeof alias === 'string' ? alias.trim().toLowerCase() : '';
+    if (key === '') {
+      invalidAliases.push(`${city.name}: empty alias`);
+    } else if (namesInUse.has(key) && namesInUse.get(key) !== city.name) {
+      invalidAliases.push(`${city.name}: "${alias}" is already used by ${namesInUse.get(key)}`);
+    } else {
+      namesInUse.set(key, city.name);
+    }
+  }
+}
+
+const aliasCount = cities.reduce((count, city) => count + (city.aliases?.length ?? 0), 0);
+console.log(`\n=== ALIASES ===`);
+console.log(`Aliases: ${aliasCount} for ${cities.filter(city => city.aliases?.length).length} cities`);
+
+if (invalidAliases.length > 0) {
+  console.log('\n=== INVALID ALIASES ===');
+  invalidAliases.forEach(problem => console.log(`✗ ${problem}`));
+  process.exit(1);
+}
+
 console.log('\n=== DST TIMEZONES (Sample) ===');
 dstTimezones.slice(0, 10).forEach(tz => console.log(`  - ${tz}`));
 
@@ -84,5 +114,6 @@ console.log('\n=== NO DST TIMEZONES (Sample) ===');
 noDstTimezones.slice(0, 10).forEach(tz => console.log(`  - ${tz}`));
 
 console.log('\n✓ All timezone identifiers are valid IANA identifiers!');
+console.log('✓ Every alias leads to a single city');
 console.log('✓ Database includes cities with DST and without DST');
 console.log('✓ Database covers all major timezones');
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import App from './App';
 
@@ -8,6 +8,16 @@ import App from './App';
  * These tests verify that all features work together correctly
  */
 describe('App - End-to-End Integration Tests', () => {
+  // Pin "today" to a Wednesday so weekends never hide the results
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-17T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   it('should complete full user flow: select cities, customize hours, change date, and see results', async () => {
     const user = userEvent.setup();
     render(<App />);
@@ -207,6 +217,200 @@ describe('App - End-to-End Integration Tests', () => {
     });
   });
 
+  it('should rank upcoming days and select a day from the ranking', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    const cityAInput = screen.getByLabelText(/search for city a/i);
+    await user.type(cityAInput, 'London');
+    await waitFor(() => expect(screen.getByText('London')).toBeInTheDocument());
+    await user.click(screen.getByText('London'));
+
+    const cityBInput = screen.getByLabelText(/search for city b/i);
+    await user.type(cityBInput, 'Paris');
+    await waitFor(() => expect(screen.getByText('Paris')).toBeInTheDocument());
+    await user.click(screen.getByText('Paris'));
+
+    // Wait for the ranking of the next 14 days
+    await waitFor(() => {
+      expect(screen.getByRole('heading', { name: 'Best Days' })).toBeInTheDocument();
+    }, { timeout: 3000 });
+    expect(screen.getByRole('button', { name: 'Select Sat, Jan 20' })).toBeInTheDocument();
+
+    // Picking tomorrow from the ranking updates the selected date
+    await user.click(screen.getByRole('button', { name: 'Select Thu, Jan 18' }));
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: /select tomorrow/i })).toHaveAttribute('aria-pressed', 'true');
+    });
+  });
+
+  it('should plan a recurring meeting from the selected date', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState(null, '', '/?c0=London&c1=Paris&date=2024-01-18');
+    render(<App />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Plan series' })).toBeInTheDocument();
+    }, { timeout: 3000 });
+    await user.click(screen.getByRole('button', { name: 'Plan series' }));
+
+    const meetings = within(screen.getByRole('list', { name: 'Planned meetings' })).getAllByRole('listitem');
+    expect(meetings).toHaveLength(12);
+    expect(meetings[1]).toHaveTextContent('Thu, Jan 25');
+  });
+
+  it('should check a recurring meeting from the selected date', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState(null, '', '/?c0=London&c1=Paris&date=2024-01-18');
+    render(<App />);
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Check series' })).toBeInTheDocument();
+    }, { timeout: 3000 });
+    await user.click(screen.getByRole('button', { name: 'Check series' }));
+
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows).toHaveLength(13);
+    expect(rows[1]).toHaveTextContent('Thu, Jan 18 2024');
+    expect(rows[1]).toHaveTextContent('Thu 10:00 AM');
+  });
+
+  it('should avoid busy times imported from a calendar file', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    const cityAInput = screen.getByLabelText(/search for city a/i);
+    await user.type(cityAInput, 'London');
+    await waitFor(() => expect(screen.getByText('London')).toBeInTheDocument());
+    await user.click(screen.getByText('London'));
+
+    const cityBInput = screen.getByLabelText(/search for city b/i);
+    await user.type(cityBInput, 'Paris');
+    await waitFor(() => expect(screen.getByText('Paris')).toBeInTheDocument());
+    await user.click(screen.getByText('Paris'));
+
+    await waitFor(() => {
+      expect(screen.getByText(/09:00 am London ↔ 10:00 am Paris/i)).toBeInTheDocument();
+    }, { timeout: 3000 });
+
+    // London is in meetings for the whole shared working day
+    const calendar = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:offsite',
+      'DTSTART;TZID=Europe/London:20240117T090000',
+      'DTEND;TZID=Europe/London:20240117T170000',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+    await user.upload(
+      screen.getByLabelText('Import calendar for London'),
+      new File([calendar], 'london.ics', { type: 'text/calendar' })
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Existing meetings fill all of the overlapping working hours on this date.')).toBeInTheDocument();
+    });
+    expect(screen.getByText('1 busy time loaded from london.ics')).toBeInTheDocument();
+  });
+
+  it('should keep the scenario in the URL', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText(/search for city a/i), 'London');
+    await waitFor(() => expect(screen.getByText('London')).toBeInTheDocument());
+    await user.click(screen.getByText('London'));
+
+    await user.type(screen.getByLabelText(/search for city b/i), 'Paris');
+    await waitFor(() => expect(screen.getByText('Paris')).toBeInTheDocument());
+    await user.click(screen.getByText('Paris'));
+
+    await waitFor(() => {
+      const params = new URLSearchParams(window.location.search);
+      expect(params.get('c0')).toBe('London');
+      expect(params.get('c1')).toBe('Paris');
+      expect(params.get('date')).toBe('2024-01-17');
+    });
+  });
+
+  it('should restore a shared link', async () => {
+    window.history.replaceState(null, '', '/?c0=London&c1=Paris&c2=Tokyo&h2=17:00-23:00&date=2024-01-18&len=60');
+    render(<App />);
+
+    expect(screen.getByLabelText(/search for city c/i)).toHaveValue('Tokyo');
+    expect(screen.getByLabelText(/customize working hours/i)).toBeChecked();
+    expect(screen.getByRole('button', { name: /select tomorrow/i })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByLabelText('Meeting duration')).toHaveValue('60');
+
+    // Tokyo 17:00-23:00 is 08:00-14:00 UTC
+    await waitFor(() => {
+      expect(screen.getByText(/09:00 am London ↔ 10:00 am Paris ↔ 06:00 pm Tokyo/i)).toBeInTheDocument();
+    }, { timeout: 3000 });
+  });
+
+  it('should restore a timezone from a link and keep meeting preferences in it', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState(null, '', '/?c0=London&z0=America/New_York&c1=Paris&date=2024-01-18');
+    render(<App />);
+
+    expect(screen.getByLabelText(/customize working hours/i)).toBeChecked();
+    expect(screen.getByLabelText('Timezone for London')).toHaveValue('America/New_York');
+
+    await user.selectOptions(screen.getByLabelText('Earliest preferred meeting hour for Paris'), '14');
+
+    await waitFor(() => {
+      const params = new URLSearchParams(window.location.search);
+      expect(params.get('z0')).toBe('America/New_York');
+      expect(params.get('m1')).toBe('14:00-17:00');
+    });
+  });
+
+  it('should explain the parts of a link it cannot use', async () => {
+    const user = userEvent.setup();
+    window.history.replaceState(null, '', '/?c0=Atlantis&c1=Paris&len=7');
+    render(<App />);
+
+    const notice = screen.getByText(/some settings in this link could not be used/i).closest('.link-notice')!;
+    expect(notice).toHaveTextContent('Unknown city "Atlantis" for City A');
+    expect(notice).toHaveTextContent('Ignored invalid meeting length "7"');
+    expect(screen.getByLabelText(/search for city b/i)).toHaveValue('Paris');
+
+    await user.click(screen.getByRole('button', { name: 'Dismiss link notice' }));
+    expect(screen.queryByText(/some settings in this link could not be used/i)).not.toBeInTheDocument();
+  });
+
+  it('should save a team and load it after a reload', async () => {
+    const user = userEvent.setup();
+    const { unmount } = render(<App />);
+
+    await user.type(screen.getByLabelText(/search for city a/i), 'London');
+    await waitFor(() => expect(screen.getByText('London')).toBeInTheDocument());
+    await user.click(screen.getByText('London'));
+
+    await user.type(screen.getByLabelText(/search for city b/i), 'Paris');
+    await waitFor(() => expect(screen.getByText('Paris')).toBeInTheDocument());
+    await user.click(screen.getByText('Paris'));
+
+    await user.type(screen.getByLabelText('Team name'), 'Platform');
+    await user.type(screen.getByLabelText('Name for City B'), 'Marie');
+    await user.click(screen.getByRole('button', { name: 'Save team' }));
+    expect(screen.getByText('Saved Platform')).toBeInTheDocument();
+
+    unmount();
+    window.history.replaceState(null, '', '/');
+    render(<App />);
+
+    expect(screen.getByLabelText(/search for city a/i)).toHaveValue('');
+    await user.selectOptions(screen.getByLabelText('Saved teams'), 'Platform');
+
+    expect(screen.getByLabelText(/search for city a/i)).toHaveValue('London');
+    expect(screen.getByLabelText(/search for city b/i)).toHaveValue('Paris');
+    expect(screen.getByLabelText('Name for City B')).toHaveValue('Marie');
+    expect(screen.getByRole('list', { name: 'Members of Platform' })).toHaveTextContent('Marie (Paris)');
+  });
+
   it('should display error when working hours are invalid', async () => {
     const user = userEvent.setup();
     render(<App />);
@@ -231,7 +435,7 @@ describe('App - End-to-End Integration Tests', () => {
     const customHoursCheckbox = screen.getByLabelText(/customize working hours/i);
     await user.click(customHoursCheckbox);
 
-    // Set invalid hours (end before start)
+    // Set invalid hours (end equal to start)
     await waitFor(() => {
       const londonStartSelect = screen.getByLabelText(/start time for london/i);
       expect(londonStartSelect).toBeEnabled();
@@ -240,14 +444,14 @@ describe('App - End-to-End Integration Tests', () => {
     const londonStartSelect = screen.getByLabelText(/start time for london/i);
     const londonEndSelect = screen.getByLabelText(/end time for london/i);
 
-    // Set start to 18 (6 PM)
-    await user.selectOptions(londonStartSelect, '18');
-    // Set end to 9 (9 AM) - invalid!
-    await user.selectOptions(londonEndSelect, '9');
+    // Set start to 17 (5 PM)
+    await user.selectOptions(londonStartSelect, '17');
+    // Set end to 17 (5 PM) - invalid!
+    await user.selectOptions(londonEndSelect, '17');
 
     // Verify error is displayed
     await waitFor(() => {
-      expect(screen.getByText(/end time must be after start time/i)).toBeInTheDocument();
+      expect(screen.getByText(/end time must be different from start time/i)).toBeInTheDocument();
     });
   });
 });
@@ -121,18 +121,26 @@ describe('App Property-Based Tests', () => {
           const suggester = new MeetingSuggester();
 
           // Calculate overlap with first set of inputs
-          const overlap1 = calculator.calculateOverlap(cityA, cityB, hoursA, hoursB, date);
+          const participants1 = [
+            { city: cityA, workingHours: hoursA },
+            { city: cityB, workingHours: hoursB }
+          ];
+          const overlap1 = calculator.calculateOverlap(participants1, date);
           const suggestions1 = overlap1.hasOverlap 
-            ? suggester.generateSuggestions(overlap1, cityA, cityB, hoursA, hoursB)
+            ? suggester.generateSuggestions(overlap1, participants1)
             : [];
 
           // Modify working hours slightly
           const modifiedHoursA = { start: hoursA.start, end: Math.min(hoursA.end + 1, 23) };
           
           // Recalculate with modified inputs
-          const overlap2 = calculator.calculateOverlap(cityA, cityB, modifiedHoursA, hoursB, date);
+          const participants2 = [
+            { city: cityA, workingHours: modifiedHoursA },
+            { city: cityB, workingHours: hoursB }
+          ];
+          const overlap2 = calculator.calculateOverlap(participants2, date);
           const suggestions2 = overlap2.hasOverlap
-            ? suggester.generateSuggestions(overlap2, cityA, cityB, modifiedHoursA, hoursB)
+            ? suggester.generateSuggestions(overlap2, participants2)
             : [];
 
           // If working hours changed, the results should potentially be different
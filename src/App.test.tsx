@@ -191,4 +191,22 @@ describe('App Integration Tests', () => {
     // Check for prompt message
     expect(screen.getByText(/please select both cities/i)).toBeInTheDocument();
   });
+
+  /**
+   * Test adding and removing extra cities
+   */
+  it('should add and remove additional city inputs', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.click(screen.getByRole('button', { name: /add city/i }));
+
+    expect(screen.getByLabelText(/search for city c/i)).toBeInTheDocument();
+    expect(screen.getByText(/please select all cities/i)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /remove city c/i }));
+
+    expect(screen.queryByLabelText(/search for city c/i)).not.toBeInTheDocument();
+    expect(screen.getByText(/please select both cities/i)).toBeInTheDocument();
+  });
 });
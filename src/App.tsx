@@ -1,53 +1,206 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
-import type { City, WorkingHours, AppState } from './types';
+import type { City, WorkingHours, AppState, Participant, Weekday, SlotStep, BusyTime, ParticipantInput, ParticipantPreferences, Team } from './types';
 import { CityInput } from './components/CityInput';
 import { WorkingHoursInput } from './components/WorkingHoursInput';
+import { WorkingDaysInput } from './components/WorkingDaysInput';
+import { ParticipantPreferencesInput } from './components/ParticipantPreferencesInput';
+import { BusyTimeImport } from './components/BusyTimeImport';
+import { WorkingHoursOptimizer } from './components/WorkingHoursOptimizer';
+import { TeamManager } from './components/TeamManager';
+import { WorkingNowView } from './components/WorkingNowView';
 import { DateSelector } from './components/DateSelector';
 import { TimelineVisualizer } from './components/TimelineVisualizer';
 import { MeetingSuggestions } from './components/MeetingSuggestions';
-import { OverlapCalculator } from './calculators/OverlapCalculator';
-import { MeetingSuggester } from './calculators/MeetingSuggester';
+import { DayRanking } from './components/DayRanking';
+import { MeetingDurationSelector } from './components/MeetingDurationSelector';
+import { SeriesPlanView } from './components/SeriesPlanView';
+import { RecurrenceView } from './components/RecurrenceView';
+import { OverlapCalculator, DEFAULT_WORKING_HOURS } from './calculators/OverlapCalculator';
+import { MeetingSuggester, DEFAULT_MEETING_DURATION_MINUTES, DEFAULT_SLOT_STEP_MINUTES } from './calculators/MeetingSuggester';
+import { DateRangePlanner, DEFAULT_PLANNING_DAYS } from './calculators/DateRangePlanner';
+import { DSTWarningCalculator } from './calculators/DSTWarningCalculator';
+import { OverlapAdvisor } from './calculators/OverlapAdvisor';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { getStartMinutes, getEndMinutes } from './utils/workingHours';
+import { getWeekendDays } from './utils/schedule';
+import { findMissingHolidayData } from './utils/holidays';
+import { encodeScenario, decodeScenario } from './utils/shareUrl';
+import { hasCustomHours } from './utils/teams';
+import { getParticipantName } from './utils/participants';
 import './App.css';
 
+const MIN_PARTICIPANTS = 2;
+const MAX_PARTICIPANTS = 10;
+
+// Participants are labelled "City A", "City B", ... in the UI and in error messages
+const getParticipantLabel = (index: number): string => `City ${String.fromCharCode(65 + index)}`;
+
+// Once a city is chosen, a participant is shown by name and city, e.g. "Priya (Bangalore)"
+const getParticipantDisplayName = (participant: ParticipantInput, index: number): string =>
+  participant.city ? getParticipantName({ name: participant.name, city: participant.city }) : getParticipantLabel(index);
+
 function AppContent() {
-  // Initialize state with default values
+  // A shared link restores the scenario it was copied from
+  const [sharedLink] = useState(() => decodeScenario(window.location.search, MAX_PARTICIPANTS));
+  const shared = sharedLink.scenario;
+
+  // Initialize state from the link, or with default values
   const [state, setState] = useState<AppState>({
-    cityA: null,
-    cityB: null,
-    workingHoursA: { start: 9, end: 18 },
-    workingHoursB: { start: 9, end: 18 },
-    selectedDate: new Date(),
-    customHoursEnabled: false,
+    participants: shared?.participants ?? Array.from({ length: MIN_PARTICIPANTS }, () => ({
+      city: null,
+      workingHours: DEFAULT_WORKING_HOURS
+    })),
+    selectedDate: shared?.selectedDate ?? new Date(),
+    customHoursEnabled: shared?.customHoursEnabled ?? false,
     overlap: null,
     suggestions: []
   });
 
+  const [planningDays, setPlanningDays] = useState(DEFAULT_PLANNING_DAYS);
+  const [meetingDuration, setMeetingDuration] = useState(shared?.meetingDurationMinutes ?? DEFAULT_MEETING_DURATION_MINUTES);
+  const [slotStep, setSlotStep] = useState<SlotStep>(shared?.slotStep ?? DEFAULT_SLOT_STEP_MINUTES);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [linkProblems, setLinkProblems] = useState<string[]>(sharedLink.problems);
 
   // Memoize calculator instances to prevent recreation on every render
   const overlapCalculator = useMemo(() => new OverlapCalculator(), []);
   const meetingSuggester = useMemo(() => new MeetingSuggester(), []);
+  const dateRangePlanner = useMemo(() => new DateRangePlanner(), []);
+  const dstWarningCalculator = useMemo(() => new DSTWarningCalculator(), []);
+  const overlapAdvisor = useMemo(() => new OverlapAdvisor(meetingSuggester), [meetingSuggester]);
 
   // Memoize handlers to prevent unnecessary re-renders of child components
-  const handleCityASelect = useCallback((city: City | null) => {
-    setState(prev => ({ ...prev, cityA: city }));
+  const handleCitySelect = useCallback((index: number, city: City | null) => {
+    setState(prev => ({
+      ...prev,
+      participants: prev.participants.map((participant, i) =>
+        i === index ? { ...participant, city } : participant
+      )
+    }));
+    setError(null);
+  }, []);
+
+  const handleNameChange = useCallback((index: number, name: string) => {
+    setState(prev => ({
+      ...prev,
+      participants: prev.participants.map((participant, i) =>
+        i === index ? { ...participant, name } : participant
+      )
+    }));
+  }, []);
+
+  const handleWorkingHoursChange = useCallback((index: number, hours: WorkingHours) => {
+    setState(prev => ({
+      ...prev,
+      participants: prev.participants.map((participant, i) =>
+        i === index ? { ...participant, workingHours: hours } : participant
+      )
+    }));
+    setError(null);
+  }, []);
+
+  // Hours from the optimizer are custom hours for every city on every working day,
+  // so they replace any hours kept for a single weekday
+  const handleApplyHours = useCallback((hours: WorkingHours[]) => {
+    setState(prev => ({
+      ...prev,
+      customHoursEnabled: true,
+      participants: prev.participants.map((participant, i) =>
+        hours[i]
+          ? {
+            ...participant,
+            workingHours: hours[i],
+            schedule: participant.schedule?.daysOff ? { daysOff: participant.schedule.daysOff } : undefined
+          }
+          : participant
+      )
+    }));
+  }, []);
+
+  const handleDaysOffChange = useCallback((index: number, daysOff: Weekday[]) => {
+    setState(prev => ({
+      ...prev,
+      participants: prev.participants.map((participant, i) =>
+        i === index ? { ...participant, schedule: { ...participant.schedule, daysOff } } : participant
+      )
+    }));
+  }, []);
+
+  const handleTimezoneChange = useCallback((index: number, timezone: string | undefined) => {
+    setState(prev => ({
+      ...prev,
+      participants: prev.participants.map((participant, i) =>
+        i === index ? { ...participant, timezone } : participant
+      )
+    }));
     setError(null);
   }, []);
 
-  const handleCityBSelect = useCallback((city: City | null) => {
-    setState(prev => ({ ...prev, cityB: city }));
+  const handlePreferencesChange = useCallback((index: number, preferences: ParticipantPreferences | undefined) => {
+    setState(prev => ({
+      ...prev,
+      participants: prev.participants.map((participant, i) =>
+        i === index ? { ...participant, preferences } : participant
+      )
+    }));
+  }, []);
+
+  const handleBusyChange = useCallback((index: number, busy: BusyTime[] | undefined) => {
+    setState(prev => ({
+      ...prev,
+      participants: prev.participants.map((participant, i) =>
+        i === index ? { ...participant, busy } : participant
+      )
+    }));
     setError(null);
   }, []);
 
-  const handleWorkingHoursAChange = useCallback((hours: WorkingHours) => {
-    setState(prev => ({ ...prev, workingHoursA: hours }));
+  // Replace the cities with a saved team's members
+  const handleLoadTeam = useCallback((team: Team) => {
+    const members = team.members.slice(0, MAX_PARTICIPANTS);
+    const participants: ParticipantInput[] = members.map(member => ({
+      name: member.name,
+      city: member.city,
+      timezone: member.timezone,
+      workingHours: member.workingHours,
+      schedule: member.schedule,
+      preferences: member.preferences
+    }));
+    while (participants.length < MIN_PARTICIPANTS) {
+      participants.push({ city: null, workingHours: DEFAULT_WORKING_HOURS, schedule: undefined });
+    }
+
+    setState(prev => ({
+      ...prev,
+      participants,
+      customHoursEnabled: members.some(member => hasCustomHours(member, DEFAULT_WORKING_HOURS))
+    }));
     setError(null);
   }, []);
 
-  const handleWorkingHoursBChange = useCallback((hours: WorkingHours) => {
-    setState(prev => ({ ...prev, workingHoursB: hours }));
+  const handleAddParticipant = useCallback(() => {
+    setState(prev => {
+      if (prev.participants.length >= MAX_PARTICIPANTS) {
+        return prev;
+      }
+      return {
+        ...prev,
+        participants: [...prev.participants, { city: null, workingHours: DEFAULT_WORKING_HOURS }]
+      };
+    });
+  }, []);
+
+  const handleRemoveParticipant = useCallback((index: number) => {
+    setState(prev => {
+      if (prev.participants.length <= MIN_PARTICIPANTS) {
+        return prev;
+      }
+      return {
+        ...prev,
+        participants: prev.participants.filter((_, i) => i !== index)
+      };
+    });
     setError(null);
   }, []);
 
@@ -55,9 +208,16 @@ function AppContent() {
     setState(prev => ({ 
       ...prev, 
       customHoursEnabled: enabled,
-      // Reset to default hours when disabling custom hours
-      workingHoursA: enabled ? prev.workingHoursA : { start: 9, end: 18 },
-      workingHoursB: enabled ? prev.workingHoursB : { start: 9, end: 18 }
+      // Reset to default hours, the country's weekend and the city's timezone when disabling custom hours
+      participants: enabled
+        ? prev.participants
+        : prev.participants.map(participant => ({
+          ...participant,
+          timezone: undefined,
+          workingHours: DEFAULT_WORKING_HOURS,
+          schedule: undefined,
+          preferences: undefined
+        }))
     }));
   }, []);
 
@@ -67,26 +227,112 @@ function AppContent() {
 
   // Memoize validation function
   const validateWorkingHours = useCallback((hours: WorkingHours): boolean => {
-    return hours.end > hours.start;
+    // End before start is an overnight shift; only a zero-length day is invalid
+    return getEndMinutes(hours) !== getStartMinutes(hours);
   }, []);
 
+  // Participants whose city has been selected, in display order
+  const selectedParticipants = useMemo<Participant[]>(
+    () => state.participants
+      .filter(participant => participant.city !== null)
+      .map(participant => ({
+        name: participant.name,
+        city: participant.city!,
+        timezone: participant.timezone,
+        workingHours: participant.workingHours,
+        schedule: participant.schedule,
+        preferences: participant.preferences,
+        busy: participant.busy
+      })),
+    [state.participants]
+  );
+
+  // Countries whose irregular holidays are not listed for the selected year, so they are not blocked
+  const missingHolidayData = useMemo(
+    () => findMissingHolidayData(selectedParticipants.map(participant => participant.city), state.selectedDate.getFullYear()),
+    [selectedParticipants, state.selectedDate]
+  );
+
+  // Calculations run once every city slot has a selection
+  const calculationsEnabled = selectedParticipants.length === state.participants.length;
+
+  // Rank the coming days once the overlap for the selected date is known
+  const rankedDays = useMemo(() => {
+    if (!calculationsEnabled || !state.overlap) {
+      return [];
+    }
+
+    try {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      return dateRangePlanner.rankDays(
+        dateRangePlanner.planDays(selectedParticipants, today, planningDays, meetingDuration, slotStep)
+      );
+    } catch (err) {
+      console.error('Day ranking error:', err);
+      return [];
+    }
+  }, [calculationsEnabled, state.overlap, selectedParticipants, planningDays, meetingDuration, slotStep, dateRangePlanner]);
+
+  // Warn about clock changes that will move the best slot in the coming weeks
+  const dstWarnings = useMemo(() => {
+    if (state.suggestions.length === 0) {
+      return [];
+    }
+
+    try {
+      return dstWarningCalculator.findWarnings(
+        selectedParticipants,
+        meetingSuggester.findBestSuggestion(state.suggestions)
+      );
+    } catch (err) {
+      console.error('DST warning error:', err);
+      return [];
+    }
+  }, [state.suggestions, selectedParticipants, meetingSuggester, dstWarningCalculator]);
+
+  // Without shared working hours, look for the smallest change that creates some
+  const overlapAdvice = useMemo(() => {
+    if (!state.overlap || state.overlap.hasOverlap || state.overlap.reason) {
+      return null;
+    }
+
+    try {
+      return overlapAdvisor.findShiftOptions(selectedParticipants, state.selectedDate);
+    } catch (err) {
+      console.error('Overlap advice error:', err);
+      return null;
+    }
+  }, [state.overlap, selectedParticipants, state.selectedDate, overlapAdvisor]);
+
+  // Keep the address bar in step with the scenario, so it can be shared
+  useEffect(() => {
+    const query = state.participants.some(participant => participant.city !== null)
+      ? `?${encodeScenario({
+        participants: state.participants,
+        customHoursEnabled: state.customHoursEnabled,
+        selectedDate: state.selectedDate,
+        meetingDurationMinutes: meetingDuration,
+        slotStep
+      })}`
+      : '';
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${query}${window.location.hash}`);
+  }, [state.participants, state.customHoursEnabled, state.selectedDate, meetingDuration, slotStep]);
+
   // Calculate overlap and generate suggestions
   useEffect(() => {
-    // Only calculate if both cities are selected
-    if (!state.cityA || !state.cityB) {
+    // Only calculate if every city is selected
+    if (!calculationsEnabled) {
       setState(prev => ({ ...prev, overlap: null, suggestions: [] }));
       return;
     }
 
     // Validate working hours
-    if (!validateWorkingHours(state.workingHoursA)) {
-      setError('Invalid working hours for City A: End time must be after start time');
-      setState(prev => ({ ...prev, overlap: null, suggestions: [] }));
-      return;
-    }
-
-    if (!validateWorkingHours(state.workingHoursB)) {
-      setError('Invalid working hours for City B: End time must be after start time');
+    const invalidIndex = selectedParticipants.findIndex(
+      participant => !validateWorkingHours(participant.workingHours!)
+    );
+    if (invalidIndex !== -1) {
+      setError(`Invalid working hours for ${getParticipantLabel(invalidIndex)}: Start and end time must be different`);
       setState(prev => ({ ...prev, overlap: null, suggestions: [] }));
       return;
     }
@@ -97,22 +343,13 @@ function AppContent() {
 
       // Calculate overlap
       const overlapResult = overlapCalculator.calculateOverlap(
-        state.cityA,
-        state.cityB,
-        state.workingHoursA,
-        state.workingHoursB,
+        selectedParticipants,
         state.selectedDate
       );
 
       // Generate suggestions from overlap
       const suggestions = overlapResult.hasOverlap
-        ? meetingSuggester.generateSuggestions(
-            overlapResult,
-            state.cityA,
-            state.cityB,
-            state.workingHoursA,
-            state.workingHoursB
-          )
+        ? meetingSuggester.generateSuggestions(overlapResult, selectedParticipants, meetingDuration, slotStep)
         : [];
 
       setState(prev => ({
@@ -140,19 +377,13 @@ function AppContent() {
       setLoading(false);
     }
   }, [
-    state.cityA,
-    state.cityB,
-    state.workingHoursA,
-    state.workingHoursB,
-    state.selectedDate
+    calculationsEnabled,
+    selectedParticipants,
+    state.selectedDate,
+    meetingDuration,
+    slotStep
   ]);
 
-  // Memoize calculations enabled check
-  const calculationsEnabled = useMemo(
-    () => state.cityA !== null && state.cityB !== null,
-    [state.cityA, state.cityB]
-  );
-
   return (
     <div className="app">
       <a href="#main-content" className="skip-to-main">
@@ -160,27 +391,87 @@ function AppContent() {
       </a>
       <header className="app-header" role="banner">
         <h1>Time Zone Overlap Finder</h1>
-        <p>Find the best meeting times between two cities</p>
+        <p>Find the best meeting times across cities</p>
       </header>
 
       <main id="main-content" className="app-main" role="main">
+        {/* Parts of a shared link that could not be restored */}
+        {linkProblems.length > 0 && (
+          <div className="link-notice" role="status">
+            <div className="link-notice-content">
+              <p>Some settings in this link could not be used:</p>
+              <ul>
+                {linkProblems.map((problem, index) => (
+                  <li key={index}>{problem}</li>
+                ))}
+              </ul>
+            </div>
+            <button
+              type="button"
+              className="link-notice-dismiss"
+              onClick={() => setLinkProblems([])}
+              aria-label="Dismiss link notice"
+            >
+              ×
+            </button>
+          </div>
+        )}
+
+        {/* Saved Teams */}
+        <section className="input-section" aria-labelledby="saved-teams-heading">
+          <h2 id="saved-teams-heading" className="visually-hidden">Saved Teams</h2>
+          <TeamManager
+            participants={state.participants}
+            onLoadTeam={handleLoadTeam}
+            getLabel={getParticipantLabel}
+          />
+        </section>
+
         {/* City Selection */}
         <section className="input-section" aria-labelledby="city-selection-heading">
           <h2 id="city-selection-heading" className="visually-hidden">City Selection</h2>
           <div className="city-inputs">
-            <CityInput
-              label="City A"
-              onCitySelect={handleCityASelect}
-              placeholder="Search for first city..."
-              value={state.cityA}
-            />
-            <CityInput
-              label="City B"
-              onCitySelect={handleCityBSelect}
-              placeholder="Search for second city..."
-              value={state.cityB}
-            />
+            {state.participants.map((participant, index) => (
+              <div className="city-input-slot" key={index}>
+                <CityInput
+                  label={getParticipantLabel(index)}
+                  onCitySelect={(city) => handleCitySelect(index, city)}
+                  placeholder={`Search for ${getParticipantLabel(index).toLowerCase()}...`}
+                  value={participant.city}
+                  date={state.selectedDate}
+                />
+                {participant.city && (
+                  <input
+                    type="text"
+                    className="participant-name-input"
+                    value={participant.name ?? ''}
+                    onChange={(e) => handleNameChange(index, e.target.value)}
+                    placeholder="Name (optional)"
+                    aria-label={`Name for ${getParticipantLabel(index)}`}
+                  />
+                )}
+                {state.participants.length > MIN_PARTICIPANTS && (
+                  <button
+                    type="button"
+                    className="remove-participant-button"
+                    onClick={() => handleRemoveParticipant(index)}
+                    aria-label={`Remove ${getParticipantLabel(index)}`}
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
           </div>
+          {state.participants.length < MAX_PARTICIPANTS && (
+            <button
+              type="button"
+              className="add-participant-button"
+              onClick={handleAddParticipant}
+            >
+              + Add city
+            </button>
+          )}
         </section>
 
         {/* Date Selection */}
@@ -190,6 +481,23 @@ function AppContent() {
             onDateChange={handleDateChange}
             selectedDate={state.selectedDate}
           />
+          {missingHolidayData.length > 0 && (
+            <p className="holiday-data-notice" role="note">
+              Holiday data unavailable for {state.selectedDate.getFullYear()} in {missingHolidayData.join(', ')}.
+              Public holidays there are not blocked.
+            </p>
+          )}
+        </section>
+
+        {/* Meeting Length */}
+        <section className="input-section" aria-labelledby="meeting-length-heading">
+          <h2 id="meeting-length-heading" className="visually-hidden">Meeting Length</h2>
+          <MeetingDurationSelector
+            durationMinutes={meetingDuration}
+            stepMinutes={slotStep}
+            onDurationChange={setMeetingDuration}
+            onStepChange={setSlotStep}
+          />
         </section>
 
         {/* Working Hours Configuration */}
@@ -203,25 +511,49 @@ function AppContent() {
                   type="checkbox"
                   checked={state.customHoursEnabled}
                   onChange={(e) => handleCustomHoursToggle(e.target.checked)}
-                  aria-label="Customize working hours for both cities"
+                  aria-label="Customize working hours for all cities"
                 />
                 <span>Customize working hours</span>
               </label>
             </div>
             <div className="working-hours-inputs">
-              <WorkingHoursInput
-                label={state.cityA?.name || 'City A'}
-                workingHours={state.workingHoursA}
-                onChange={handleWorkingHoursAChange}
-                customEnabled={state.customHoursEnabled}
-              />
-              <WorkingHoursInput
-                label={state.cityB?.name || 'City B'}
-                workingHours={state.workingHoursB}
-                onChange={handleWorkingHoursBChange}
-                customEnabled={state.customHoursEnabled}
-              />
+              {state.participants.map((participant, index) => (
+                <div className="participant-hours" key={index}>
+                  <WorkingHoursInput
+                    label={getParticipantDisplayName(participant, index)}
+                    workingHours={participant.workingHours}
+                    onChange={(hours) => handleWorkingHoursChange(index, hours)}
+                    customEnabled={state.customHoursEnabled}
+                  />
+                  <WorkingDaysInput
+                    label={getParticipantDisplayName(participant, index)}
+                    daysOff={participant.schedule?.daysOff ?? getWeekendDays(participant.city?.country ?? '')}
+                    onChange={(daysOff) => handleDaysOffChange(index, daysOff)}
+                    disabled={!state.customHoursEnabled}
+                  />
+                  <ParticipantPreferencesInput
+                    label={getParticipantDisplayName(participant, index)}
+                    cityTimezone={participant.city?.timezone}
+                    timezone={participant.timezone}
+                    preferences={participant.preferences}
+                    onTimezoneChange={(timezone) => handleTimezoneChange(index, timezone)}
+                    onPreferencesChange={(preferences) => handlePreferencesChange(index, preferences)}
+                    disabled={!state.customHoursEnabled}
+                  />
+                  <BusyTimeImport
+                    label={getParticipantDisplayName(participant, index)}
+                    timezone={participant.timezone ?? participant.city?.timezone ?? 'UTC'}
+                    busy={participant.busy}
+                    onChange={(busy) => handleBusyChange(index, busy)}
+                  />
+                </div>
+              ))}
             </div>
+            <WorkingHoursOptimizer
+              participants={selectedParticipants}
+              date={state.selectedDate}
+              onApply={handleApplyHours}
+            />
           </section>
         )}
 
@@ -252,11 +584,9 @@ function AppContent() {
               <section className="results-section" aria-labelledby="timeline-heading">
                 <h2 id="timeline-heading" className="visually-hidden">Working Hours Timeline</h2>
                 <TimelineVisualizer
-                  cityA={state.cityA!}
-                  cityB={state.cityB!}
-                  workingHoursA={state.workingHoursA}
-                  workingHoursB={state.workingHoursB}
+                  participants={selectedParticipants}
                   overlap={state.overlap}
+                  date={state.selectedDate}
                 />
               </section>
             </ErrorBoundary>
@@ -271,21 +601,89 @@ function AppContent() {
                 <h2 id="suggestions-heading" className="visually-hidden">Meeting Time Suggestions</h2>
                 <MeetingSuggestions
                   suggestions={state.suggestions}
-                  cityA={state.cityA!}
-                  cityB={state.cityB!}
+                  participants={selectedParticipants}
                   overlapDurationMinutes={state.overlap.durationMinutes || 0}
+                  nonWorkingDays={state.overlap.nonWorkingDays}
+                  allBusy={state.overlap.reason === 'busy'}
+                  dstWarnings={dstWarnings}
+                  meetingDurationMinutes={meetingDuration}
+                  advice={overlapAdvice}
+                />
+              </section>
+            </ErrorBoundary>
+
+            {/* Day Ranking */}
+            {rankedDays.length > 0 && (
+              <ErrorBoundary fallback={
+                <div className="error-message" role="alert">
+                  Unable to display the day ranking. Please try refreshing the page.
+                </div>
+              }>
+                <section className="results-section" aria-labelledby="day-ranking-section-heading">
+                  <h2 id="day-ranking-section-heading" className="visually-hidden">Best Days to Meet</h2>
+                  <DayRanking
+                    plans={rankedDays}
+                    participants={selectedParticipants}
+                    selectedDate={state.selectedDate}
+                    days={planningDays}
+                    onDaysChange={setPlanningDays}
+                    onSelectDate={handleDateChange}
+                  />
+                </section>
+              </ErrorBoundary>
+            )}
+
+            {/* Recurring Meeting Plan */}
+            <ErrorBoundary fallback={
+              <div className="error-message" role="alert">
+                Unable to plan the recurring meeting. Please try refreshing the page.
+              </div>
+            }>
+              <section className="results-section" aria-labelledby="series-plan-heading">
+                <h2 id="series-plan-heading" className="visually-hidden">Recurring Meeting Plan</h2>
+                <SeriesPlanView
+                  participants={selectedParticipants}
+                  date={state.selectedDate}
+                  meetingDurationMinutes={meetingDuration}
+                  slotStep={slotStep}
                 />
               </section>
             </ErrorBoundary>
+
+            {/* Recurring Meeting Check */}
+            <ErrorBoundary fallback={
+              <div className="error-message" role="alert">
+                Unable to check the recurring meeting. Please try refreshing the page.
+              </div>
+            }>
+              <section className="results-section" aria-labelledby="recurrence-heading">
+                <h2 id="recurrence-heading" className="visually-hidden">Recurring Meeting Check</h2>
+                <RecurrenceView participants={selectedParticipants} date={state.selectedDate} />
+              </section>
+            </ErrorBoundary>
           </>
         )}
 
         {/* Prompt to select cities */}
         {!calculationsEnabled && (
           <div className="prompt-message" role="status" aria-live="polite">
-            Please select both cities to see meeting time suggestions.
+            {state.participants.length === MIN_PARTICIPANTS
+              ? 'Please select both cities to see meeting time suggestions.'
+              : 'Please select all cities to see meeting time suggestions.'}
           </div>
         )}
+
+        {/* Who Is Working Now */}
+        <ErrorBoundary fallback={
+          <div className="error-message" role="alert">
+            Unable to display who is working. Please try refreshing the page.
+          </div>
+        }>
+          <section className="results-section" aria-labelledby="working-now-heading">
+            <h2 id="working-now-heading" className="visually-hidden">Who Is Working Now</h2>
+            <WorkingNowView participants={selectedParticipants} />
+          </section>
+        </ErrorBoundary>
       </main>
     </div>
   );
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import { CurveScorer, DEFAULT_SCORE_CURVES } from './CurveScorer';
+import type { ScoringContext, WorkingHours } from '../types';
+
+describe('CurveScorer', () => {
+  const nineToSix: WorkingHours = { start: 9, end: 18 };
+
+  // Context for a time on a 9-to-6 day, or the given working hours
+  const contextAt = (hour: number, minute = 0, workingHours: WorkingHours = nineToSix): ScoringContext => ({
+    time: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour, minute }, { zone: 'Europe/London' }),
+    workingHours,
+    minutesSinceStart: (hour - workingHours.start) * 60 + minute,
+    totalMinutes: (workingHours.end - workingHours.start) * 60
+  });
+
+  it('should score the middle of the day above its edges', () => {
+    // No bonus or penalty applies at 3 PM or 5 PM
+    const scorer = new CurveScorer();
+
+    expect(scorer.score(contextAt(14))).toBe(DEFAULT_SCORE_CURVES.middleOfDay);
+    expect(scorer.score(contextAt(17))).toBe(DEFAULT_SCORE_CURVES.edgesOfDay);
+  });
+
+  it('should penalize the first hour, fading out as the hour passes', () => {
+    const scorer = new CurveScorer({ lateMorningBonus: 0 });
+
+    expect(scorer.score(contextAt(9))).toBe(55 - 15);
+    expect(scorer.score(contextAt(9, 30))).toBe(Math.round(55 - 7.5));
+    expect(scorer.score(contextAt(10))).toBe(55);
+  });
+
+  it('should penalize the hour after lunch', () => {
+    const scorer = new CurveScorer();
+    const withLunch: WorkingHours = { start: 9, end: 18, breaks: [{ start: 12, end: 13 }] };
+
+    expect(scorer.score(contextAt(13, 0, withLunch))).toBe(80 - 15);
+    expect(scorer.score(contextAt(13, 30, withLunch))).toBe(Math.round(80 - 7.5));
+    expect(scorer.score(contextAt(14, 0, withLunch))).toBe(80);
+  });
+
+  it('should prefer late morning', () => {
+    const scorer = new CurveScorer();
+
+    // 11 AM is the peak; 10 AM is an hour away and gets half the bonus
+    expect(scorer.score(contextAt(12))).toBeGreaterThan(scorer.score(contextAt(14)));
+    expect(scorer.score(contextAt(11, 0, { start: 8, end: 17 }))).toBe(80 + 10);
+    expect(scorer.score(contextAt(10, 0, { start: 8, end: 17 }))).toBe(55 + 5);
+  });
+
+  it('should use the given curves in place of the defaults', () => {
+    const scorer = new CurveScorer({ firstHourPenalty: 50, lateMorningPeak: 9 * 60, lateMorningBonus: 20 });
+
+    expect(scorer.score(contextAt(9))).toBe(55 - 50 + 20);
+  });
+
+  it('should keep scores within 0-100', () => {
+    expect(new CurveScorer({ middleOfDay: 150 }).score(contextAt(14))).toBe(100);
+    expect(new CurveScorer({ firstHourPenalty: 200 }).score(contextAt(9))).toBe(0);
+  });
+});
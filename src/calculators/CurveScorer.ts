@@ -0,0 +1,74 @@
+import type { MeetingScorer, ScoreCurves, ScoringContext } from '../types';
+import { getStartMinutes, getWorkingSegments, MINUTES_PER_DAY } from '../utils/workingHours';
+
+/**
+ * Curves used when none are given: the middle of the day scores best, the
+ * first hour and the hour after lunch are penalized and late morning is preferred
+ */
+export const DEFAULT_SCORE_CURVES: ScoreCurves = {
+  middleOfDay: 80,
+  edgesOfDay: 55,
+  firstHourPenalty: 15,
+  postLunchPenalty: 15,
+  lateMorningBonus: 10,
+  lateMorningPeak: 11 * 60
+};
+
+const PENALTY_MINUTES = 60;
+const BONUS_HALF_WIDTH_MINUTES = 120;
+
+/**
+ * CurveScorer scores meeting times by their position in the working day,
+ * adjusted by penalty and bonus curves that fade out linearly
+ */
+export class CurveScorer implements MeetingScorer {
+  private curves: ScoreCurves;
+
+  /**
+   * @param curves - Curves to override; the rest keep their default values
+   */
+  constructor(curves: Partial<ScoreCurves> = {}) {
+    this.curves = { ...DEFAULT_SCORE_CURVES, ...curves };
+  }
+
+  /**
+   * Score a time within working hours
+   * @param context - The time and the working day it falls in
+   * @returns Score from 0 to 100
+   */
+  score({ time, workingHours, minutesSinceStart, totalMinutes }: ScoringContext): number {
+    const position = minutesSinceStart / totalMinutes;
+    let score = position >= 1/3 && position < 2/3 ? this.curves.middleOfDay : this.curves.edgesOfDay;
+
+    score -= this.fade(this.curves.firstHourPenalty, minutesSinceStart, PENALTY_MINUTES);
+
+    // Every working segment after the first starts as a break ends
+    const startMinutes = getStartMinutes(workingHours);
+    for (const segment of getWorkingSegments(workingHours).slice(1)) {
+      score -= this.fade(
+        this.curves.postLunchPenalty,
+        minutesSinceStart - (segment.start - startMinutes),
+        PENALTY_MINUTES
+      );
+    }
+
+    const minuteOfDay = time.hour * 60 + time.minute;
+    const distanceFromPeak = Math.min(
+      Math.abs(minuteOfDay - this.curves.lateMorningPeak),
+      MINUTES_PER_DAY - Math.abs(minuteOfDay - this.curves.lateMorningPeak)
+    );
+    score += this.fade(this.curves.lateMorningBonus, distanceFromPeak, BONUS_HALF_WIDTH_MINUTES);
+
+    return Math.min(100, Math.max(0, Math.round(score)));
+  }
+
+  /**
+   * Full amount at distance 0, falling linearly to nothing at the given width
+   */
+  private fade(amount: number, distance: number, width: number): number {
+    if (distance < 0 || distance >= width) {
+      return 0;
+    }
+    return amount * (1 - distance / width);
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DateTime } from 'luxon';
+import { DSTWarningCalculator } from './DSTWarningCalculator';
+import type { City, MeetingSuggestion, Participant } from '../types';
+
+describe('DSTWarningCalculator', () => {
+  let calculator: DSTWarningCalculator;
+
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+  const paris: City = { name: 'Paris', country: 'France', timezone: 'Europe/Paris' };
+
+  const participants: Participant[] = [{ city: london }, { city: newYork }];
+
+  // Wednesday Mar 6, 2024 at 2 PM in London, 9 AM in New York
+  const slotAt = (cities: City[]): MeetingSuggestion => {
+    const utc = DateTime.fromISO('2024-03-06T14:00:00Z');
+    return {
+      localTimes: cities.map(city => utc.setZone(city.timezone)),
+      quality: 'Acceptable Time',
+      durationMinutes: 60
+    };
+  };
+
+  beforeEach(() => {
+    calculator = new DSTWarningCalculator();
+  });
+
+  describe('findWarnings', () => {
+    it('should warn about each clock change that moves the slot', () => {
+      const warnings = calculator.findWarnings(participants, slotAt([london, newYork]));
+
+      expect(warnings).toHaveLength(2);
+      expect(warnings[0].participantIndices).toEqual([1]);
+      expect(warnings[0].transition.at.toISOString()).toBe('2024-03-10T07:00:00.000Z');
+      expect(warnings[1].participantIndices).toEqual([0]);
+      expect(warnings[1].transition.at.toISOString()).toBe('2024-03-31T01:00:00.000Z');
+    });
+
+    it('should keep the slot at City A\'s local time', () => {
+      const [usChange, ukChange] = calculator.findWarnings(participants, slotAt([london, newYork]));
+
+      expect(usChange.slotBefore.map(time => time.toFormat('HH:mm'))).toEqual(['14:00', '09:00']);
+      expect(usChange.slotAfter.map(time => time.toFormat('HH:mm'))).toEqual(['14:00', '10:00']);
+      expect(usChange.slotAfter[0].toISODate()).toBe('2024-03-13');
+
+      expect(ukChange.slotBefore.map(time => time.toFormat('HH:mm'))).toEqual(['14:00', '10:00']);
+      expect(ukChange.slotAfter.map(time => time.toFormat('HH:mm'))).toEqual(['14:00', '09:00']);
+    });
+
+    it('should include the overlap before and after the change', () => {
+      const [usChange, ukChange] = calculator.findWarnings(participants, slotAt([london, newYork]));
+
+      expect(usChange.overlapBefore.durationMinutes).toBe(4 * 60);
+      expect(usChange.overlapAfter.durationMinutes).toBe(5 * 60);
+      expect(ukChange.overlapBefore.durationMinutes).toBe(5 * 60);
+      expect(ukChange.overlapAfter.durationMinutes).toBe(4 * 60);
+    });
+
+    it('should ignore changes every participant makes at the same moment', () => {
+      const warnings = calculator.findWarnings(
+        [{ city: london }, { city: paris }],
+        slotAt([london, paris])
+      );
+
+      expect(warnings).toEqual([]);
+    });
+
+    it('should only look ahead the given number of days', () => {
+      const warnings = calculator.findWarnings(participants, slotAt([london, newYork]), 7);
+
+      expect(warnings).toHaveLength(1);
+    });
+
+    it('should return no warnings without a slot', () => {
+      expect(calculator.findWarnings(participants, null)).toEqual([]);
+    });
+
+    it('should throw for an invalid lookahead', () => {
+      expect(() => calculator.findWarnings(participants, slotAt([london, newYork]), 0))
+        .toThrow('Number of lookahead days must be a positive whole number');
+    });
+  });
+
+  describe('formatWarning', () => {
+    it('should describe the change and where the slot moves', () => {
+      const [usChange, ukChange] = calculator.findWarnings(participants, slotAt([london, newYork]));
+
+      expect(calculator.formatWarning(usChange, participants))
+        .toBe('From Mar 10 (clocks go forward in New York), this slot moves to 10:00 AM in New York');
+      expect(calculator.formatWarning(ukChange, participants))
+        .toBe('From Mar 31 (clocks go forward in London), this slot moves to 09:00 AM in New York');
+    });
+
+    it('should name every city whose clocks change together', () => {
+      const threeCities: Participant[] = [{ city: london }, { city: paris }, { city: newYork }];
+      const warnings = calculator.findWarnings(threeCities, slotAt([london, paris, newYork]));
+
+      expect(calculator.formatWarning(warnings[1], threeCities))
+        .toBe('From Mar 31 (clocks go forward in London and Paris), this slot moves to 09:00 AM in New York');
+    });
+  });
+
+  describe('formatOverlapChange', () => {
+    it('should format the overlap before and after', () => {
+      const [usChange] = calculator.findWarnings(participants, slotAt([london, newYork]));
+
+      expect(calculator.formatOverlapChange(usChange)).toBe('Overlap: 4h before, 5h after');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { DateTime } from 'luxon';
+import type { Participant, MeetingSuggestion, OffsetTransition, DSTWarning } from '../types';
+import { OverlapCalculator } from './OverlapCalculator';
+import { TimeZoneConverter } from '../utils/TimeZoneConverter';
+import { formatDuration, getTotalDuration } from '../utils/workingHours';
+import { getParticipantName, getParticipantTimezone } from '../utils/participants';
+
+/**
+ * Number of days checked for clock changes when no lookahead is given
+ */
+export const DEFAULT_DST_LOOKAHEAD_DAYS = 56;
+
+/**
+ * DSTWarningCalculator finds the clock changes coming up in the participants'
+ * timezones and works out how each one moves a weekly meeting slot.
+ * The slot keeps City A's local time, as a recurring calendar invite would.
+ */
+export class DSTWarningCalculator {
+  private overlapCalculator: OverlapCalculator;
+  private timeZoneConverter: TimeZoneConverter;
+
+  constructor() {
+    this.overlapCalculator = new OverlapCalculator();
+    this.timeZoneConverter = new TimeZoneConverter();
+  }
+
+  /**
+   * Find the clock changes that move a meeting slot for some participants
+   * Changes that every participant makes at the same moment leave the slot
+   * in place and are not reported
+   * @param participants - Participants the slot was suggested for
+   * @param slot - Meeting slot on the selected date, or null if there is none
+   * @param lookaheadDays - Number of days after the slot to check (default: 56)
+   * @returns One warning per clock change, in chronological order
+   * @throws Error if the lookahead is not a positive whole number
+   */
+  findWarnings(
+    participants: Participant[],
+    slot: MeetingSuggestion | null,
+    lookaheadDays: number = DEFAULT_DST_LOOKAHEAD_DAYS
+  ): DSTWarning[] {
+    if (!Number.isInteger(lookaheadDays) || lookaheadDays < 1) {
+      throw new Error('Number of lookahead days must be a positive whole number');
+    }
+
+    if (!slot || slot.localTimes.length === 0) {
+      return [];
+    }
+
+    const anchor = slot.localTimes[0].setZone(getParticipantTimezone(participants[0]));
+
+    return this.findTransitions(participants, anchor, anchor.plus({ days: lookaheadDays }))
+      .flatMap(({ transition, participantIndices }) => {
+        // Compare the slot in the last week before the change with the first week after it
+        let weeks = 1;
+        while (anchor.plus({ weeks }).toMillis() < transition.at.getTime()) {
+          weeks++;
+        }
+        const before = anchor.plus({ weeks: weeks - 1 });
+        const after = anchor.plus({ weeks });
+
+        const slotBefore = participants.map(participant => before.setZone(getParticipantTimezone(participant)));
+        const slotAfter = participants.map(participant => after.setZone(getParticipantTimezone(participant)));
+
+        const moved = slotAfter.some((time, index) =>
+          time.toFormat('HH:mm') !== slotBefore[index].toFormat('HH:mm')
+        );
+        if (!moved) {
+          return [];
+        }
+
+        return [{
+          participantIndices,
+          transition,
+          slotBefore,
+          slotAfter,
+          overlapBefore: this.overlapCalculator.calculateOverlap(participants, before.toJSDate()),
+          overlapAfter: this.overlapCalculator.calculateOverlap(participants, after.toJSDate())
+        }];
+      });
+  }
+
+  /**
+   * Format a warning as a sentence
+   * Format: "From Mar 10 (clocks go forward in New York), this slot moves to 10:00 AM in New York"
+   * @param warning - The warning to format
+   * @param participants - Participants the warning was calculated for, in the same order
+   * @returns Formatted string
+   */
+  formatWarning(warning: DSTWarning, participants: Participant[]): string {
+    const { transition, participantIndices, slotBefore, slotAfter } = warning;
+    const changeDate = DateTime.fromJSDate(transition.at)
+      .setZone(getParticipantTimezone(participants[participantIndices[0]]))
+      .toFormat('LLL d');
+    const direction = transition.offsetAfter > transition.offsetBefore ? 'forward' : 'back';
+    const changingCities = this.joinNames(participantIndices.map(index => getParticipantName(participants[index])));
+
+    const movedTimes = slotAfter
+      .map((time, index) => ({ time, index }))
+      .filter(({ time, index }) => time.toFormat('HH:mm') !== slotBefore[index].toFormat('HH:mm'))
+      .map(({ time, index }) => `${time.toFormat('hh:mm a')} in ${getParticipantName(participants[index])}`);
+
+    return `From ${changeDate} (clocks go ${direction} in ${changingCities}), this slot moves to ${this.joinNames(movedTimes)}`;
+  }
+
+  /**
+   * Format the total overlap before and after a clock change
+   * Format: "Overlap: 5h before, 4h after"
+   * @param warning - The warning to format
+   * @returns Formatted string
+   */
+  formatOverlapChange(warning: DSTWarning): string {
+    const before = getTotalDuration(warning.overlapBefore);
+    const after = getTotalDuration(warning.overlapAfter);
+
+    return `Overlap: ${this.formatOverlapDuration(before)} before, ${this.formatOverlapDuration(after)} after`;
+  }
+
+  /**
+   * Find the clock changes in every participant's timezone, grouping
+   * participants whose clocks change at the same moment
+   */
+  private findTransitions(
+    participants: Participant[],
+    start: DateTime,
+    end: DateTime
+  ): { transition: OffsetTransition; participantIndices: number[] }[] {
+    const byInstant = new Map<number, { transition: OffsetTransition; participantIndices: number[] }>();
+
+    participants.forEach((participant, participantIndex) => {
+      const transitions = this.timeZoneConverter.findOffsetTransitions(
+        getParticipantTimezone(participant),
+        start.toJSDate(),
+        end.toJSDate()
+      );
+
+      for (const transition of transitions) {
+        const existing = byInstant.get(transition.at.getTime());
+        if (existing) {
+          existing.participantIndices.push(participantIndex);
+        } else {
+          byInstant.set(transition.at.getTime(), { transition, participantIndices: [participantIndex] });
+        }
+      }
+    });
+
+    return [...byInstant.values()].sort((a, b) => a.transition.at.getTime() - b.transition.at.getTime());
+  }
+
+  private formatOverlapDuration(minutes: number): string {
+    return minutes === 0 ? 'none' : formatDuration(minutes);
+  }
+
+  /**
+   * Join names as "A", "A and B" or "A, B and C"
+   */
+  private joinNames(names: string[]): string {
+    if (names.length <= 1) {
+      return names.join('');
+    }
+    return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DateRangePlanner } from './DateRangePlanner';
+import type { City, Participant } from '../types';
+
+describe('DateRangePlanner', () => {
+  let planner: DateRangePlanner;
+
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+
+  // Monday Jan 15, 2024 at noon UTC, so every zone shares the calendar date
+  const monday = new Date('2024-01-15T12:00:00Z');
+
+  beforeEach(() => {
+    planner = new DateRangePlanner();
+  });
+
+  describe('planDays', () => {
+    it('should plan 14 consecutive days by default', () => {
+      const plans = planner.planDays([{ city: london }, { city: newYork }], monday);
+
+      expect(plans).toHaveLength(14);
+      expect(plans[0].date.toISOString()).toBe('2024-01-15T12:00:00.000Z');
+      expect(plans[13].date.toISOString()).toBe('2024-01-28T12:00:00.000Z');
+    });
+
+    it('should report overlap, duration and best suggestion per day', () => {
+      const plans = planner.planDays([{ city: london }, { city: newYork }], monday, 7);
+
+      // Monday is Martin Luther King Jr. Day in the US
+      expect(plans[0].overlap.reason).toBe('non-working-day');
+      expect(plans[0].bestSuggestion).toBeNull();
+      expect(plans[0].durationMinutes).toBe(0);
+
+      // Tuesday: London 9-18 GMT and New York 9-18 EST share 14:00-18:00 UTC
+      expect(plans[1].overlap.hasOverlap).toBe(true);
+      expect(plans[1].durationMinutes).toBe(4 * 60);
+      expect(plans[1].bestSuggestion).not.toBeNull();
+
+      // Saturday and Sunday are the weekend
+      expect(plans[5].bestSuggestion).toBeNull();
+      expect(plans[6].bestSuggestion).toBeNull();
+    });
+
+    it('should add up every window when breaks split the day', () => {
+      const plans = planner.planDays(
+        [
+          { city: london, workingHours: { start: 9, end: 18, breaks: [{ start: 12, end: 13 }] } },
+          { city: { ...london, name: 'Manchester' } }
+        ],
+        new Date('2024-01-16T12:00:00Z'),
+        1
+      );
+
+      expect(plans[0].overlap.windows).toHaveLength(2);
+      expect(plans[0].durationMinutes).toBe(8 * 60);
+    });
+
+    it('should only find a best suggestion on days the meeting fits', () => {
+      // Wednesday leaves three shared hours; every other weekday has nine
+      const participants: Participant[] = [
+        { city: london, schedule: { hours: { 3: { start: 14, end: 17 } } } },
+        { city: { ...london, name: 'Manchester' } }
+      ];
+
+      const plans = planner.planDays(participants, monday, 5, 4 * 60, 60);
+
+      expect(plans[2].overlap.hasOverlap).toBe(true);
+      expect(plans[2].bestSuggestion).toBeNull();
+      expect(plans[3].bestSuggestion?.durationMinutes).toBe(4 * 60);
+    });
+
+    it('should throw for an invalid number of days', () => {
+      expect(() => planner.planDays([{ city: london }, { city: newYork }], monday, 0))
+        .toThrow('Number of days must be a positive whole number');
+      expect(() => planner.planDays([{ city: london }, { city: newYork }], monday, 1.5))
+        .toThrow('Number of days must be a positive whole number');
+    });
+  });
+
+  describe('rankDays', () => {
+    it('should rank days with longer overlap first and days without a meeting time last', () => {
+      // London works short days on Wednesdays
+      const participants: Participant[] = [
+        { city: london, schedule: { hours: { 3: { start: 14, end: 17 } } } },
+        { city: { ...london, name: 'Manchester' } }
+      ];
+
+      const ranked = planner.rankDays(planner.planDays(participants, monday, 7));
+      const rankedDays = ranked.map(plan => plan.date.toISOString().slice(0, 10));
+
+      // Full days first in date order, then the short Wednesday, then the weekend
+      expect(rankedDays).toEqual([
+        '2024-01-15', '2024-01-16', '2024-01-18', '2024-01-19',
+        '2024-01-17',
+        '2024-01-20', '2024-01-21'
+      ]);
+    });
+
+    it('should not modify the given plans', () => {
+      const plans = planner.planDays([{ city: london }, { city: newYork }], monday, 7);
+      const originalOrder = plans.map(plan => plan.date.getTime());
+
+      planner.rankDays(plans);
+
+      expect(plans.map(plan => plan.date.getTime())).toEqual(originalOrder);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { DateTime } from 'luxon';
+import type { Participant, DayPlan, SlotStep } from '../types';
+import { OverlapCalculator } from './OverlapCalculator';
+import { getTotalDuration } from '../utils/workingHours';
+import { MeetingSuggester, DEFAULT_MEETING_DURATION_MINUTES, DEFAULT_SLOT_STEP_MINUTES } from './MeetingSuggester';
+
+/**
+ * Number of days planned when no range is given
+ */
+export const DEFAULT_PLANNING_DAYS = 14;
+
+/**
+ * DateRangePlanner calculates the overlap and best meeting time for every day
+ * in a range, and ranks the days to find the best one for a call.
+ */
+export class DateRangePlanner {
+  private overlapCalculator: OverlapCalculator;
+  private meetingSuggester: MeetingSuggester;
+
+  constructor() {
+    this.overlapCalculator = new OverlapCalculator();
+    this.meetingSuggester = new MeetingSuggester();
+  }
+
+  /**
+   * Plan every day in a range
+   * @param participants - Cities and working hours to intersect (at least two)
+   * @param startDate - First day of the range (default: today)
+   * @param days - Number of consecutive days to plan (default: 14)
+   * @param meetingDurationMinutes - Length of the meeting to fit into each day (default: 30)
+   * @param stepMinutes - Minutes between suggested start times (default: 30)
+   * @returns One plan per day, in date order
+   * @throws Error if the number of days is not a positive whole number, or the participants
+   * or meeting settings are invalid
+   */
+  planDays(
+    participants: Participant[],
+    startDate: Date = new Date(),
+    days: number = DEFAULT_PLANNING_DAYS,
+    meetingDurationMinutes: number = DEFAULT_MEETING_DURATION_MINUTES,
+    stepMinutes: SlotStep = DEFAULT_SLOT_STEP_MINUTES
+  ): DayPlan[] {
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error('Number of days must be a positive whole number');
+    }
+
+    const start = DateTime.fromJSDate(startDate);
+
+    return Array.from({ length: days }, (_, dayIndex) => {
+      const date = start.plus({ days: dayIndex }).toJSDate();
+      const overlap = this.overlapCalculator.calculateOverlap(participants, date);
+      const suggestions = overlap.hasOverlap
+        ? this.meetingSuggester.generateSuggestions(overlap, participants, meetingDurationMinutes, stepMinutes)
+        : [];
+
+      return {
+        date,
+        overlap,
+        durationMinutes: getTotalDuration(overlap),
+        bestSuggestion: this.meetingSuggester.findBestSuggestion(suggestions)
+      };
+    });
+  }
+
+  /**
+   * Rank days from best to worst
+   * Days with a meeting time come first, ordered by the quality of their best
+   * suggestion, then by total overlap, then by date
+   * @param plans - Day plans to rank
+   * @returns A new array of the same plans, best first
+   */
+  rankDays(plans: DayPlan[]): DayPlan[] {
+    return [...plans].sort((a, b) => {
+      if (!a.bestSuggestion || !b.bestSuggestion) {
+        if (a.bestSuggestion || b.bestSuggestion) {
+          return a.bestSuggestion ? -1 : 1;
+        }
+        return a.date.getTime() - b.date.getTime();
+      }
+
+      const qualityDifference = this.meetingSuggester.getQualityRank(a.bestSuggestion.quality) -
+        this.meetingSuggester.getQualityRank(b.bestSuggestion.quality);
+
+      return qualityDifference ||
+        b.durationMinutes - a.durationMinutes ||
+        a.date.getTime() - b.date.getTime();
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HoursOptimizer } from './HoursOptimizer';
+import type { City, Participant } from '../types';
+
+describe('HoursOptimizer', () => {
+  let optimizer: HoursOptimizer;
+
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+  const sydney: City = { name: 'Sydney', country: 'Australia', region: 'New South Wales', timezone: 'Australia/Sydney' };
+
+  // Wednesday; London 9-18 GMT = 09:00-18:00 UTC, New York 9-18 EST = 14:00-23:00 UTC
+  const date = new Date('2024-01-17T12:00:00Z');
+
+  beforeEach(() => {
+    optimizer = new HoursOptimizer();
+  });
+
+  describe('optimize', () => {
+    it('should keep everyone\'s hours when the overlap is already long enough', () => {
+      const plan = optimizer.optimize([{ city: london }, { city: newYork }], date, 120);
+
+      expect(plan?.totalDeviationMinutes).toBe(0);
+      expect(plan?.adjustments.map(adjustment => adjustment.shiftMinutes)).toEqual([0, 0]);
+      expect(plan?.overlap.durationMinutes).toBe(4 * 60);
+    });
+
+    it('should make the smallest change, sharing it when that costs no more', () => {
+      const participants: Participant[] = [{ city: london }, { city: newYork }];
+      const plan = optimizer.optimize(participants, date, 5 * 60);
+
+      expect(plan?.totalDeviationMinutes).toBe(60);
+      expect(plan?.adjustments[1]).toEqual({
+        participantIndex: 1,
+        shiftMinutes: -30,
+        workingHours: { start: 8, startMinute: 30, end: 17, endMinute: 30 }
+      });
+      expect(plan?.overlap.durationMinutes).toBe(5 * 60);
+      expect(plan?.adjustments.map(adjustment => optimizer.formatAdjustment(adjustment, participants))).toEqual([
+        'London starts 30m later: 9:30 AM - 6:30 PM',
+        'New York starts 30m earlier: 8:30 AM - 5:30 PM'
+      ]);
+    });
+
+    it('should only move the people who are allowed to', () => {
+      const plan = optimizer.optimize([{ city: london }, { city: newYork }], date, 5 * 60, [60, 0]);
+
+      expect(plan?.adjustments.map(adjustment => adjustment.shiftMinutes)).toEqual([60, 0]);
+    });
+
+    it('should share the change when one person cannot move far enough', () => {
+      // Sydney 9-18 AEDT = 22:00-07:00 UTC, two hours before London starts
+      const plan = optimizer.optimize([{ city: london }, { city: sydney }], date, 120, [120, 120]);
+
+      expect(plan?.totalDeviationMinutes).toBe(240);
+      expect(plan?.adjustments.map(adjustment => adjustment.workingHours)).toEqual([
+        { start: 7, end: 16 },
+        { start: 11, end: 20 }
+      ]);
+    });
+
+    it('should move breaks with the working day and keep them out of the overlap', () => {
+      // London's 15:00 break splits the 14:00-18:00 overlap; only moving it past 17:00 leaves 3h
+      const plan = optimizer.optimize(
+        [{ city: london, workingHours: { start: 9, end: 18, breaks: [{ start: 15, end: 16 }] } }, { city: newYork }],
+        date,
+        3 * 60,
+        [180, 0]
+      );
+
+      expect(plan?.adjustments[0].workingHours).toEqual({ start: 11, end: 20, breaks: [{ start: 17, end: 18 }] });
+      expect(plan?.overlap.durationMinutes).toBe(3 * 60);
+    });
+
+    it('should return null when the limits are too tight or someone is off', () => {
+      expect(optimizer.optimize([{ city: london }, { city: sydney }], date, 120, [0, 120])).toBeNull();
+      expect(optimizer.optimize([{ city: london }, { city: newYork }], new Date('2024-01-20T12:00:00Z'), 60)).toBeNull();
+    });
+
+    it('should throw for an invalid target or limits', () => {
+      const participants: Participant[] = [{ city: london }, { city: newYork }];
+
+      expect(() => optimizer.optimize(participants, date, 0)).toThrow('Target overlap');
+      expect(() => optimizer.optimize(participants, date, 60, [60])).toThrow('flexibility limit');
+      expect(() => optimizer.optimize(participants, date, 60, [60, -15])).toThrow('flexibility limit');
+    });
+  });
+});
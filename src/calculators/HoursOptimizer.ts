@@ -0,0 +1,237 @@
+import { DateTime } from 'luxon';
+import type { Participant, Weekday, WorkingHours, TimeOfDayRange, HoursAdjustment, HoursPlan } from '../types';
+import { OverlapCalculator, DEFAULT_WORKING_HOURS } from './OverlapCalculator';
+import { getStartMinutes, getEndMinutes, fromMinutes, formatDuration, formatMinutesOfDay, areBreaksValid, MINUTES_PER_DAY } from '../utils/workingHours';
+import { getHoursForWeekday } from '../utils/schedule';
+import { getParticipantName, getParticipantTimezone } from '../utils/participants';
+
+/**
+ * How far each participant's day may move when no limits are given
+ */
+export const DEFAULT_FLEXIBILITY_MINUTES = 2 * 60;
+
+/**
+ * Days are moved in steps of this many minutes
+ */
+const STEP_MINUTES = 15;
+
+/**
+ * Most candidate plans checked against the full overlap calculation
+ */
+const MAX_VERIFIED_CANDIDATES = 25;
+
+/**
+ * A working day as minutes since the Unix epoch
+ */
+interface DayInUTC {
+  start: number;
+  end: number;
+}
+
+/**
+ * HoursOptimizer finds the smallest changes to the participants' working
+ * hours that give them a required amount of shared time each day.
+ * Each working day keeps its length and breaks, and moves earlier or later
+ * by no more than the participant's flexibility limit.
+ */
+export class HoursOptimizer {
+  private overlapCalculator: OverlapCalculator;
+
+  constructor() {
+    this.overlapCalculator = new OverlapCalculator();
+  }
+
+  /**
+   * Find per-participant hour shifts that reach a daily overlap
+   * The plan with the least total deviation from normal hours wins; ties
+   * go to the plan with the smallest single shift, then the earliest window.
+   * @param participants - Participants to plan for (at least two)
+   * @param date - The date whose hours are adjusted
+   * @param targetMinutes - Shared time needed in one window
+   * @param flexibilityMinutes - How far each participant's day may move either way,
+   *                             one per participant (default: 2 hours each)
+   * @returns The plan, or null when no plan within the limits reaches the target
+   *          or someone is not working on the date
+   * @throws Error if the target or a limit is invalid, or the participants are invalid
+   */
+  optimize(
+    participants: Participant[],
+    date: Date,
+    targetMinutes: number,
+    flexibilityMinutes: number[] = participants.map(() => DEFAULT_FLEXIBILITY_MINUTES)
+  ): HoursPlan | null {
+    if (!Number.isInteger(targetMinutes) || targetMinutes < 1 || targetMinutes >= MINUTES_PER_DAY) {
+      throw new Error('Target overlap must be a whole number of minutes between 1 and 1439');
+    }
+
+    if (
+      flexibilityMinutes.length !== participants.length ||
+      !flexibilityMinutes.every(limit => Number.isInteger(limit) && limit >= 0)
+    ) {
+      throw new Error('Give a flexibility limit of zero or more whole minutes for every participant');
+    }
+
+    if (this.overlapCalculator.calculateOverlap(participants, date).reason === 'non-working-day') {
+      return null;
+    }
+
+    const days = participants.map(participant => this.getDayInUTC(participant, date));
+    if (days.some(day => day === null)) {
+      return null;
+    }
+
+    for (const shifts of this.findCandidates(days as DayInUTC[], targetMinutes, flexibilityMinutes)) {
+      const adjustments = this.applyShifts(participants, date, shifts);
+      if (!adjustments) {
+        continue;
+      }
+
+      const adjusted = participants.map((participant, index) =>
+        this.withHours(participant, date, adjustments[index].workingHours)
+      );
+      const overlap = this.overlapCalculator.calculateOverlap(adjusted, date);
+      if (overlap.hasOverlap && (overlap.durationMinutes ?? 0) >= targetMinutes) {
+        return {
+          adjustments,
+          totalDeviationMinutes: shifts.reduce((total, shift) => total + Math.abs(shift), 0),
+          overlap
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Format an adjustment as a short instruction
+   * Format: "London starts 1h later: 10 AM - 7 PM" or "Tokyo keeps their usual hours"
+   * @param adjustment - The adjustment to format
+   * @param participants - Participants the plan was made for, in the same order
+   * @returns Formatted string
+   */
+  formatAdjustment(adjustment: HoursAdjustment, participants: Participant[]): string {
+    const name = getParticipantName(participants[adjustment.participantIndex]);
+    if (adjustment.shiftMinutes === 0) {
+      return `${name} keeps their usual hours`;
+    }
+
+    const direction = adjustment.shiftMinutes > 0 ? 'later' : 'earlier';
+    const hours = adjustment.workingHours;
+    return `${name} starts ${formatDuration(Math.abs(adjustment.shiftMinutes))} ${direction}: ${formatMinutesOfDay(getStartMinutes(hours))} - ${formatMinutesOfDay(getEndMinutes(hours))}`;
+  }
+
+  /**
+   * Get the start and end of a participant's working day on the date, in
+   * minutes since the Unix epoch, or null on a non-working day
+   */
+  private getDayInUTC(participant: Participant, date: Date): DayInUTC | null {
+    const localDay = DateTime.fromJSDate(date).setZone(getParticipantTimezone(participant)).startOf('day');
+    const hours = getHoursForWeekday(participant, localDay.weekday as Weekday, DEFAULT_WORKING_HOURS);
+    if (!hours) {
+      return null;
+    }
+
+    const startMinutes = getStartMinutes(hours);
+    let endMinutes = getEndMinutes(hours);
+    if (endMinutes <= startMinutes) {
+      endMinutes += MINUTES_PER_DAY;
+    }
+
+    const toEpochMinutes = (minutes: number) =>
+      localDay
+        .plus({ days: Math.floor(minutes / MINUTES_PER_DAY) })
+        .set({ hour: Math.floor((minutes % MINUTES_PER_DAY) / 60), minute: minutes % 60 })
+        .toMillis() / 60000;
+
+    return { start: toEpochMinutes(startMinutes), end: toEpochMinutes(endMinutes) };
+  }
+
+  /**
+   * List every distinct set of shifts that lines the days up on a shared
+   * window of the target length, best first
+   * For a window starting at w, each day must start by w and end after
+   * w + target; the cheapest shift is none if the day already does, or
+   * just enough otherwise.
+   */
+  private findCandidates(days: DayInUTC[], targetMinutes: number, flexibilityMinutes: number[]): number[][] {
+    if (days.some(day => day.end - day.start < targetMinutes)) {
+      return [];
+    }
+
+    const first = Math.min(...days.map((day, index) => day.start - flexibilityMinutes[index]));
+    const last = Math.max(...days.map((day, index) => day.end + flexibilityMinutes[index])) - targetMinutes;
+    const candidates = new Map<string, { shifts: number[]; total: number; largest: number; window: number }>();
+
+    for (let window = Math.floor(first / STEP_MINUTES) * STEP_MINUTES; window <= last; window += STEP_MINUTES) {
+      const shifts = days.map(day => Math.min(Math.max(0, window + targetMinutes - day.end), window - day.start));
+      if (shifts.some((shift, index) => Math.abs(shift) > flexibilityMinutes[index])) {
+        continue;
+      }
+
+      const key = shifts.join(',');
+      if (!candidates.has(key)) {
+        candidates.set(key, {
+          shifts,
+          total: shifts.reduce((total, shift) => total + Math.abs(shift), 0),
+          largest: Math.max(...shifts.map(Math.abs)),
+          window
+        });
+      }
+    }
+
+    return [...candidates.values()]
+      .sort((a, b) => a.total - b.total || a.largest - b.largest || a.window - b.window)
+      .slice(0, MAX_VERIFIED_CANDIDATES)
+      .map(candidate => candidate.shifts);
+  }
+
+  /**
+   * Move each participant's hours on the date by their shift
+   * @returns One adjustment per participant, or null when a day would start
+   *          outside the date or a break would no longer fit
+   */
+  private applyShifts(participants: Participant[], date: Date, shifts: number[]): HoursAdjustment[] | null {
+    const adjustments: HoursAdjustment[] = [];
+
+    for (const [participantIndex, participant] of participants.entries()) {
+      const weekday = DateTime.fromJSDate(date).setZone(getParticipantTimezone(participant)).weekday as Weekday;
+      const hours = getHoursForWeekday(participant, weekday, DEFAULT_WORKING_HOURS)!;
+      const shiftMinutes = shifts[participantIndex];
+
+      const start = getStartMinutes(hours) + shiftMinutes;
+      if (start < 0 || start >= MINUTES_PER_DAY) {
+        return null;
+      }
+
+      const workingHours: WorkingHours = {
+        ...this.shiftRange(hours, shiftMinutes),
+        ...(hours.breaks ? { breaks: hours.breaks.map(range => this.shiftRange(range, shiftMinutes)) } : {})
+      };
+      if (!areBreaksValid(workingHours)) {
+        return null;
+      }
+
+      adjustments.push({ participantIndex, shiftMinutes, workingHours });
+    }
+
+    return adjustments;
+  }
+
+  /**
+   * Move a time-of-day range, wrapping round midnight; an end at midnight stays 24:00
+   */
+  private shiftRange(range: TimeOfDayRange, minutes: number): TimeOfDayRange {
+    const wrap = (value: number) => ((value % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const start = wrap(getStartMinutes(range) + minutes);
+    const end = wrap(getEndMinutes(range) + minutes);
+    return fromMinutes(start, end === 0 ? MINUTES_PER_DAY : end);
+  }
+
+  /**
+   * Give a participant different hours on the date's weekday only
+   */
+  private withHours(participant: Participant, date: Date, workingHours: WorkingHours): Participant {
+    const weekday = DateTime.fromJSDate(date).setZone(getParticipantTimezone(participant)).weekday as Weekday;
+    return { ...participant, schedule: { ...participant.schedule, hours: { ...participant.schedule?.hours, [weekday]: workingHours } } };
+  }
+}
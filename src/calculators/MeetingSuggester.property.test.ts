@@ -42,8 +42,7 @@ describe('MeetingSuggester - Property-Based Tests', () => {
   }).filter(wh => wh.end > wh.start) as fc.Arbitrary<WorkingHours>;
 
   const meetingSuggestionArbitrary = fc.record({
-    timeInCityA: dateTimeArbitrary,
-    timeInCityB: dateTimeArbitrary,
+    localTimes: fc.tuple(dateTimeArbitrary, dateTimeArbitrary),
     quality: fc.constantFrom('Perfect Time', 'Acceptable Time', 'Not Recommended'),
     durationMinutes: fc.integer({ min: 30, max: 480 })
   }) as fc.Arbitrary<MeetingSuggestion>;
@@ -57,7 +56,7 @@ describe('MeetingSuggester - Property-Based Tests', () => {
         cityArbitrary,
         cityArbitrary,
         (suggestion, cityA, cityB) => {
-          const formatted = suggester.formatMeetingSuggestion(suggestion, cityA, cityB);
+          const formatted = suggester.formatMeetingSuggestion(suggestion, [{ city: cityA }, { city: cityB }]);
           
           // Check format matches pattern: "HH:MM AM/PM CityName ↔ HH:MM AM/PM CityName"
           const pattern = /^\d{2}:\d{2} [AP]M .+ ↔ \d{2}:\d{2} [AP]M .+$/;
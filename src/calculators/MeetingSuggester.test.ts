@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { DateTime } from 'luxon';
 import { MeetingSuggester } from './MeetingSuggester';
-import type { OverlapResult, City, WorkingHours } from '../types';
+import { OverlapCalculator } from './OverlapCalculator';
+import { registerScorer } from './scorerRegistry';
+import type { OverlapResult, City, WorkingHours, Participant, MeetingSuggestion, SlotStep } from '../types';
 
 describe('MeetingSuggester', () => {
   const suggester = new MeetingSuggester();
@@ -20,6 +22,11 @@ describe('MeetingSuggester', () => {
 
   const defaultWorkingHours: WorkingHours = { start: 9, end: 18 };
 
+  const participants: Participant[] = [
+    { city: cityA, workingHours: defaultWorkingHours },
+    { city: cityB, workingHours: defaultWorkingHours }
+  ];
+
   describe('generateSuggestions', () => {
     it('should generate suggestions at 30-minute intervals', () => {
       const overlap: OverlapResult = {
@@ -28,24 +35,23 @@ describe('MeetingSuggester', () => {
           start: DateTime.utc(2024, 1, 15, 14, 0),
           end: DateTime.utc(2024, 1, 15, 16, 0)
         },
-        overlapInCityA: {
+        localOverlaps: [{
           start: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 9, minute: 0 }, { zone: 'America/New_York' }),
           end: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 11, minute: 0 }, { zone: 'America/New_York' })
-        },
-        overlapInCityB: {
+        }, {
           start: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 14, minute: 0 }, { zone: 'Europe/London' }),
           end: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 16, minute: 0 }, { zone: 'Europe/London' })
-        },
+        }],
         durationMinutes: 120
       };
 
-      const suggestions = suggester.generateSuggestions(overlap, cityA, cityB, defaultWorkingHours, defaultWorkingHours);
+      const suggestions = suggester.generateSuggestions(overlap, participants);
 
       expect(suggestions.length).toBeGreaterThan(0);
       
       // Check that suggestions are 30 minutes apart
       for (let i = 1; i < suggestions.length; i++) {
-        const diff = suggestions[i].timeInCityA.diff(suggestions[i - 1].timeInCityA, 'minutes').minutes;
+        const diff = suggestions[i].localTimes[0].diff(suggestions[i - 1].localTimes[0], 'minutes').minutes;
         expect(diff).toBe(30);
       }
     });
@@ -55,7 +61,7 @@ describe('MeetingSuggester', () => {
         hasOverlap: false
       };
 
-      const suggestions = suggester.generateSuggestions(overlap, cityA, cityB, defaultWorkingHours, defaultWorkingHours);
+      const suggestions = suggester.generateSuggestions(overlap, participants);
 
       expect(suggestions).toEqual([]);
     });
@@ -67,26 +73,170 @@ describe('MeetingSuggester', () => {
           start: DateTime.utc(2024, 1, 15, 14, 0),
           end: DateTime.utc(2024, 1, 15, 14, 45)
         },
-        overlapInCityA: {
+        localOverlaps: [{
           start: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 9, minute: 0 }, { zone: 'America/New_York' }),
           end: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 9, minute: 45 }, { zone: 'America/New_York' })
-        },
-        overlapInCityB: {
+        }, {
           start: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 14, minute: 0 }, { zone: 'Europe/London' }),
           end: DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 14, minute: 45 }, { zone: 'Europe/London' })
-        },
+        }],
         durationMinutes: 45
       };
 
-      const suggestions = suggester.generateSuggestions(overlap, cityA, cityB, defaultWorkingHours, defaultWorkingHours);
+      const suggestions = suggester.generateSuggestions(overlap, participants);
 
       expect(suggestions.length).toBeGreaterThan(0);
       // Should have at least one suggestion even with short overlap
       expect(suggestions[0].durationMinutes).toBeLessThanOrEqual(45);
     });
+    it('should use the worst quality across all participants', () => {
+      const tokyo: City = { name: 'Tokyo', country: 'Japan', timezone: 'Asia/Tokyo' };
+      const overlap: OverlapResult = {
+        hasOverlap: true,
+        overlapInUTC: {
+          start: DateTime.utc(2024, 1, 15, 17, 0),
+          end: DateTime.utc(2024, 1, 15, 17, 30)
+        },
+        localOverlaps: [
+          DateTime.utc(2024, 1, 15, 17, 0).setZone('America/New_York'),
+          DateTime.utc(2024, 1, 15, 17, 0).setZone('Europe/London'),
+          DateTime.utc(2024, 1, 15, 17, 0).setZone('Asia/Tokyo')
+        ].map(start => ({ start, end: start.plus({ minutes: 30 }) })),
+        durationMinutes: 30
+      };
+
+      // 12 PM New York and 5 PM London are inside working hours, 2 AM Tokyo is not
+      const suggestions = suggester.generateSuggestions(overlap, [
+        ...participants,
+        { city: tokyo, workingHours: defaultWorkingHours }
+      ]);
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0].localTimes).toHaveLength(3);
+      expect(suggestions[0].quality).toBe('Not Recommended');
+    });
+
+    it('should score suggestions against the hours for that weekday', () => {
+      // London works 9-13 on Fridays, so 12:30 is the end of the day rather than the middle
+      const fridayParticipants: Participant[] = [
+        { city: cityB, schedule: { hours: { 5: { start: 9, end: 13 } } } },
+        { city: cityB, workingHours: defaultWorkingHours }
+      ];
+      const overlap = new OverlapCalculator().calculateOverlap(
+        fridayParticipants,
+        new Date('2024-01-19T12:00:00Z')
+      );
+
+      const suggestions = suggester.generateSuggestions(overlap, fridayParticipants);
+
+      expect(suggestions.map(suggestion => suggestion.localTimes[0].toFormat('HH:mm'))).toEqual([
+        '09:00', '09:30', '10:00', '10:30', '11:00', '11:30', '12:00', '12:30'
+      ]);
+      expect(suggestions[7].quality).toBe('Acceptable Time');
+    });
+
+    it('should never suggest a time during a break', () => {
+      const madrid: City = { name: 'Madrid', country: 'Spain', timezone: 'Europe/Madrid' };
+      const breakParticipants: Participant[] = [
+        { city: madrid, workingHours: { start: 9, end: 19, breaks: [{ start: 14, end: 16 }] } },
+        { city: cityB, workingHours: defaultWorkingHours }
+      ];
+      const overlap = new OverlapCalculator().calculateOverlap(
+        breakParticipants,
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      const suggestions = suggester.generateSuggestions(overlap, breakParticipants);
+      const madridTimes = suggestions.map(suggestion => suggestion.localTimes[0].toFormat('HH:mm'));
+
+      // Both windows produce suggestions: 10:00-13:30 and 16:00-18:30 Madrid time
+      expect(madridTimes).toContain('10:00');
+      expect(madridTimes).toContain('16:00');
+      expect(madridTimes.filter(time => time >= '14:00' && time < '16:00')).toEqual([]);
+      // The last meeting before the break ends as the break starts
+      expect(suggestions.find(suggestion => suggestion.localTimes[0].toFormat('HH:mm') === '13:30')?.durationMinutes).toBe(30);
+    });
+  });
+
+  describe('generateSuggestions with meeting duration and step', () => {
+    // 9-11 AM in New York, 2-4 PM in London
+    const twoHourOverlap: OverlapResult = {
+      hasOverlap: true,
+      overlapInUTC: {
+        start: DateTime.utc(2024, 1, 15, 14, 0),
+        end: DateTime.utc(2024, 1, 15, 16, 0)
+      },
+      localOverlaps: [
+        DateTime.utc(2024, 1, 15, 14, 0).setZone('America/New_York'),
+        DateTime.utc(2024, 1, 15, 14, 0).setZone('Europe/London')
+      ].map(start => ({ start, end: start.plus({ hours: 2 }) })),
+      durationMinutes: 120
+    };
+
+    const startTimes = (suggestions: MeetingSuggestion[]) =>
+      suggestions.map(suggestion => suggestion.localTimes[0].toFormat('HH:mm'));
+
+    it('should only suggest start times where the whole meeting fits', () => {
+      const suggestions = suggester.generateSuggestions(twoHourOverlap, participants, 60);
+
+      // 10:30 would leave only 30 minutes for a 60-minute meeting
+      expect(startTimes(suggestions)).toEqual(['09:00', '09:30', '10:00']);
+      expect(suggestions.every(suggestion => suggestion.durationMinutes === 60)).toBe(true);
+    });
+
+    it('should space start times by the step', () => {
+      expect(startTimes(suggester.generateSuggestions(twoHourOverlap, participants, 60, 15)))
+        .toEqual(['09:00', '09:15', '09:30', '09:45', '10:00']);
+      expect(startTimes(suggester.generateSuggestions(twoHourOverlap, participants, 30, 60)))
+        .toEqual(['09:00', '10:00']);
+    });
+
+    it('should return no suggestions when the meeting is longer than the overlap', () => {
+      expect(suggester.generateSuggestions(twoHourOverlap, participants, 150)).toEqual([]);
+    });
+
+    it('should keep meetings within a window when breaks split the day', () => {
+      const madrid: City = { name: 'Madrid', country: 'Spain', timezone: 'Europe/Madrid' };
+      const breakParticipants: Participant[] = [
+        { city: madrid, workingHours: { start: 9, end: 19, breaks: [{ start: 14, end: 16 }] } },
+        { city: cityB, workingHours: defaultWorkingHours }
+      ];
+      const overlap = new OverlapCalculator().calculateOverlap(
+        breakParticipants,
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      const madridTimes = startTimes(suggester.generateSuggestions(overlap, breakParticipants, 90, 60));
+
+      // Windows are 10:00-14:00 and 16:00-19:00 Madrid time
+      expect(madridTimes).toEqual(['10:00', '11:00', '12:00', '16:00', '17:00']);
+    });
+
+    it('should throw for an invalid meeting duration', () => {
+      expect(() => suggester.generateSuggestions(twoHourOverlap, participants, 0))
+        .toThrow('Meeting duration must be a positive whole number of minutes');
+    });
+
+    it('should throw for an unsupported step', () => {
+      expect(() => suggester.generateSuggestions(twoHourOverlap, participants, 30, 20 as SlotStep))
+        .toThrow('Slot step must be one of 15, 30, 60 minutes');
+    });
   });
 
   describe('categorizeMeetingTime', () => {
+    it('should categorize a time during a break as "Not Recommended"', () => {
+      const workingHours: WorkingHours = { start: 9, end: 18, breaks: [{ start: 12, end: 13 }] };
+      const lunchTime = DateTime.fromObject(
+        { year: 2024, month: 1, day: 15, hour: 12, minute: 30 },
+        { zone: 'Asia/Tokyo' }
+      );
+
+      expect(suggester.categorizeMeetingTime(lunchTime, workingHours, 'Asia/Tokyo')).toBe('Not Recommended');
+      // Right after lunch is penalized, an hour later it is not
+      expect(suggester.categorizeMeetingTime(lunchTime.plus({ minutes: 30 }), workingHours, 'Asia/Tokyo')).toBe('Acceptable Time');
+      expect(suggester.categorizeMeetingTime(lunchTime.plus({ minutes: 90 }), workingHours, 'Asia/Tokyo')).toBe('Perfect Time');
+    });
+
     it('should categorize middle of working hours as "Perfect Time"', () => {
       const workingHours: WorkingHours = { start: 9, end: 18 }; // 9 AM - 6 PM
       const middleTime = DateTime.fromObject(
@@ -135,6 +285,33 @@ describe('MeetingSuggester', () => {
       expect(quality).toBe('Not Recommended');
     });
 
+    it('should use minute-precision working hours', () => {
+      const workingHours: WorkingHours = { start: 8, startMinute: 30, end: 17, endMinute: 30 };
+      const zone = 'Asia/Kolkata';
+      const at = (hour: number, minute: number) =>
+        DateTime.fromObject({ year: 2024, month: 1, day: 15, hour, minute }, { zone });
+
+      expect(suggester.categorizeMeetingTime(at(8, 15), workingHours, zone)).toBe('Not Recommended');
+      expect(suggester.categorizeMeetingTime(at(8, 30), workingHours, zone)).toBe('Acceptable Time');
+      expect(suggester.categorizeMeetingTime(at(13, 0), workingHours, zone)).toBe('Perfect Time');
+      expect(suggester.categorizeMeetingTime(at(17, 15), workingHours, zone)).toBe('Acceptable Time');
+      expect(suggester.categorizeMeetingTime(at(17, 30), workingHours, zone)).toBe('Not Recommended');
+    });
+
+    it('should score overnight shifts across midnight', () => {
+      const workingHours: WorkingHours = { start: 22, end: 6 };
+      const zone = 'Asia/Manila';
+      const at = (hour: number) =>
+        DateTime.fromObject({ year: 2024, month: 1, day: 15, hour }, { zone });
+
+      expect(suggester.categorizeMeetingTime(at(21), workingHours, zone)).toBe('Not Recommended');
+      expect(suggester.categorizeMeetingTime(at(23), workingHours, zone)).toBe('Acceptable Time');
+      expect(suggester.categorizeMeetingTime(at(2), workingHours, zone)).toBe('Perfect Time');
+      expect(suggester.categorizeMeetingTime(at(5), workingHours, zone)).toBe('Acceptable Time');
+      expect(suggester.categorizeMeetingTime(at(6), workingHours, zone)).toBe('Not Recommended');
+      expect(suggester.categorizeMeetingTime(at(12), workingHours, zone)).toBe('Not Recommended');
+    });
+
     it('should handle boundary conditions correctly', () => {
       const workingHours: WorkingHours = { start: 9, end: 18 };
       
@@ -159,19 +336,21 @@ describe('MeetingSuggester', () => {
   describe('formatMeetingSuggestion', () => {
     it('should format suggestion with correct pattern', () => {
       const suggestion = {
-        timeInCityA: DateTime.fromObject(
-          { year: 2024, month: 1, day: 15, hour: 10, minute: 30 },
-          { zone: 'America/New_York' }
-        ),
-        timeInCityB: DateTime.fromObject(
-          { year: 2024, month: 1, day: 15, hour: 15, minute: 30 },
-          { zone: 'Europe/London' }
-        ),
+        localTimes: [
+          DateTime.fromObject(
+            { year: 2024, month: 1, day: 15, hour: 10, minute: 30 },
+            { zone: 'America/New_York' }
+          ),
+          DateTime.fromObject(
+            { year: 2024, month: 1, day: 15, hour: 15, minute: 30 },
+            { zone: 'Europe/London' }
+          )
+        ],
         quality: 'Perfect Time' as const,
         durationMinutes: 60
       };
 
-      const formatted = suggester.formatMeetingSuggestion(suggestion, cityA, cityB);
+      const formatted = suggester.formatMeetingSuggestion(suggestion, participants);
 
       expect(formatted).toContain('10:30 AM');
       expect(formatted).toContain('03:30 PM');
@@ -179,26 +358,188 @@ describe('MeetingSuggester', () => {
       expect(formatted).toContain('London');
       expect(formatted).toContain('↔');
     });
+
+    it('should list every participant in order', () => {
+      const tokyo: City = { name: 'Tokyo', country: 'Japan', timezone: 'Asia/Tokyo' };
+      const time = DateTime.utc(2024, 1, 15, 14, 0);
+      const suggestion = {
+        localTimes: [
+          time.setZone('America/New_York'),
+          time.setZone('Europe/London'),
+          time.setZone('Asia/Tokyo')
+        ],
+        quality: 'Not Recommended' as const,
+        durationMinutes: 60
+      };
+
+      const formatted = suggester.formatMeetingSuggestion(suggestion, [
+        ...participants,
+        { city: tokyo }
+      ]);
+
+      expect(formatted).toBe('09:00 AM New York ↔ 02:00 PM London ↔ 11:00 PM Tokyo');
+    });
+
+    it('should show named participants with their city', () => {
+      const time = DateTime.utc(2024, 1, 15, 14, 0);
+      const suggestion = {
+        localTimes: [time.setZone('America/New_York'), time.setZone('Europe/London')],
+        quality: 'Perfect Time' as const,
+        durationMinutes: 60
+      };
+
+      const formatted = suggester.formatMeetingSuggestion(suggestion, [
+        { name: 'Priya', city: participants[0].city },
+        participants[1]
+      ]);
+
+      expect(formatted).toBe('09:00 AM Priya (New York) ↔ 02:00 PM London');
+    });
+  });
+
+  describe('formatNonWorkingDays', () => {
+    it('should name the weekday, the city and the reason', () => {
+      const messages = suggester.formatNonWorkingDays(
+        [
+          { participantIndex: 0, weekday: 6, kind: 'weekend' },
+          { participantIndex: 1, weekday: 1, kind: 'day-off' }
+        ],
+        participants
+      );
+
+      expect(messages).toEqual(['Saturday is the weekend in New York', 'Monday is a day off in London']);
+    });
+
+    it('should name the public holiday', () => {
+      const messages = suggester.formatNonWorkingDays(
+        [{ participantIndex: 1, weekday: 1, kind: 'holiday', holidayName: 'Early May Bank Holiday' }],
+        participants
+      );
+
+      expect(messages).toEqual(['Monday is a public holiday in London (Early May Bank Holiday)']);
+    });
+  });
+
+  describe('findBestSuggestion', () => {
+    const suggestion = (hour: number, quality: MeetingSuggestion['quality'], durationMinutes: number) => ({
+      localTimes: [DateTime.utc(2024, 1, 15, hour), DateTime.utc(2024, 1, 15, hour)],
+      quality,
+      durationMinutes
+    });
+
+    it('should prefer quality, then duration, then the earliest time', () => {
+      const suggestions = [
+        suggestion(9, 'Acceptable Time', 60),
+        suggestion(11, 'Perfect Time', 30),
+        suggestion(12, 'Perfect Time', 60),
+        suggestion(13, 'Perfect Time', 60)
+      ];
+
+      expect(suggester.findBestSuggestion(suggestions)?.localTimes[0].hour).toBe(12);
+    });
+
+    it('should prefer the higher score between suggestions of the same quality', () => {
+      const suggestions = [
+        { ...suggestion(12, 'Perfect Time', 60), score: 75 },
+        { ...suggestion(11, 'Perfect Time', 30), score: 88 }
+      ];
+
+      expect(suggester.findBestSuggestion(suggestions)?.localTimes[0].hour).toBe(11);
+    });
+
+    it('should return null for empty array', () => {
+      expect(suggester.findBestSuggestion([])).toBeNull();
+    });
+  });
+
+  describe('scoring', () => {
+    const workingHours: WorkingHours = { start: 9, end: 18 };
+    const at = (hour: number, minute = 0) =>
+      DateTime.fromObject({ year: 2024, month: 1, day: 15, hour, minute }, { zone: 'Europe/London' });
+    const flatScorer = (score: number) => ({ score: () => score });
+
+    it('should score each participant and rate the slot by the lowest score', () => {
+      const overlap = new OverlapCalculator().calculateOverlap(participants, new Date('2024-01-16T12:00:00Z'));
+      const suggestions = suggester.generateSuggestions(overlap, participants);
+
+      for (const item of suggestions) {
+        expect(item.participantScores).toHaveLength(2);
+        expect(item.score).toBe(Math.min(...item.participantScores!));
+        expect(item.quality).toBe(suggester.getQualityForScore(item.score!));
+      }
+    });
+
+    it('should score times outside working hours as 0 whatever the scorer', () => {
+      const generous = new MeetingSuggester(flatScorer(100));
+
+      expect(generous.scoreMeetingTime(at(20), workingHours, 'Europe/London')).toBe(0);
+      expect(generous.scoreMeetingTime(at(10), workingHours, 'Europe/London')).toBe(100);
+    });
+
+    it('should keep custom scores within 0-100', () => {
+      expect(new MeetingSuggester(flatScorer(140)).scoreMeetingTime(at(10), workingHours, 'Europe/London')).toBe(100);
+      expect(new MeetingSuggester(flatScorer(NaN)).scoreMeetingTime(at(10), workingHours, 'Europe/London')).toBe(0);
+    });
+
+    it('should label scores using the thresholds', () => {
+      const strict = new MeetingSuggester(flatScorer(60));
+      const lenient = new MeetingSuggester(flatScorer(60), { perfect: 60, acceptable: 20 });
+
+      expect(strict.categorizeMeetingTime(at(10), workingHours, 'Europe/London')).toBe('Acceptable Time');
+      expect(lenient.categorizeMeetingTime(at(10), workingHours, 'Europe/London')).toBe('Perfect Time');
+      expect(new MeetingSuggester(flatScorer(10)).categorizeMeetingTime(at(10), workingHours, 'Europe/London'))
+        .toBe('Not Recommended');
+    });
+
+    it('should rate times outside preferred meeting hours as acceptable at best', () => {
+      const generous = new MeetingSuggester(flatScorer(100));
+      const morningPerson: Participant[] = [
+        { city: cityB, preferences: { meetingHours: { start: 9, end: 12 } } },
+        { city: cityB }
+      ];
+      const overlap = new OverlapCalculator().calculateOverlap(morningPerson, new Date('2024-01-16T12:00:00Z'));
+      const suggestions = generous.generateSuggestions(overlap, morningPerson, 60, 60);
+      const byStart = (hour: number) => suggestions.find(item => item.localTimes[0].hour === hour)!;
+
+      expect(byStart(11).quality).toBe('Perfect Time');
+      expect(byStart(12).participantScores).toEqual([40, 100]);
+      expect(byStart(12).quality).toBe('Acceptable Time');
+    });
+
+    it('should use a registered scorer by name', () => {
+      registerScorer('meeting-suggester-test', flatScorer(42));
+
+      expect(new MeetingSuggester('meeting-suggester-test').scoreMeetingTime(at(10), workingHours, 'Europe/London'))
+        .toBe(42);
+    });
+
+    it('should throw for an unknown scorer name', () => {
+      expect(() => new MeetingSuggester('no-such-scorer')).toThrow('Unknown scorer: no-such-scorer');
+    });
+
+    it('should throw for thresholds out of order', () => {
+      expect(() => new MeetingSuggester('default', { perfect: 30, acceptable: 60 }))
+        .toThrow('Quality thresholds must satisfy 0 < acceptable <= perfect <= 100');
+      expect(() => new MeetingSuggester('default', { perfect: 70, acceptable: 0 }))
+        .toThrow('Quality thresholds must satisfy 0 < acceptable <= perfect <= 100');
+    });
   });
 
   describe('findLargestOverlap', () => {
     it('should identify the suggestion with longest duration', () => {
       const suggestions = [
         {
-          timeInCityA: DateTime.now(),
-          timeInCityB: DateTime.now(),
+          localTimes: [DateTime.now(), DateTime.now()],
           quality: 'Perfect Time' as const,
           durationMinutes: 30
         },
         {
-          timeInCityA: DateTime.now(),
-          timeInCityB: DateTime.now(),
+          localTimes: [DateTime.now(), DateTime.now()],
           quality: 'Perfect Time' as const,
           durationMinutes: 60
         },
         {
-          timeInCityA: DateTime.now(),
-          timeInCityB: DateTime.now(),
+          localTimes: [DateTime.now(), DateTime.now()],
           quality: 'Perfect Time' as const,
           durationMinutes: 45
         }
@@ -1,135 +1,339 @@
 import { DateTime } from 'luxon';
-import type { OverlapResult, MeetingSuggestion, MeetingQuality, WorkingHours, City } from '../types';
+import type { OverlapResult, MeetingSuggestion, MeetingQuality, WorkingHours, Participant, NonWorkingDay, Weekday, SlotStep, MeetingScorer, QualityThresholds } from '../types';
+import { DEFAULT_WORKING_HOURS } from './OverlapCalculator';
+import { getStartMinutes, getEndMinutes, getWorkingSegments, isOvernight, MINUTES_PER_DAY } from '../utils/workingHours';
+import { getHoursForWeekday, WEEKDAY_NAMES } from '../utils/schedule';
+import { getScorer, DEFAULT_SCORER_NAME } from './scorerRegistry';
+import { getParticipantName, getParticipantTimezone } from '../utils/participants';
+
+/**
+ * Quality ratings from best to worst
+ */
+const QUALITY_ORDER: MeetingQuality[] = ['Perfect Time', 'Acceptable Time', 'Not Recommended'];
+
+/**
+ * Supported minutes between suggested start times
+ */
+export const SLOT_STEPS: SlotStep[] = [15, 30, 60];
+
+/**
+ * Meeting lengths offered to choose from, in minutes
+ */
+export const MEETING_DURATIONS = [15, 30, 45, 60, 90, 120];
+
+/**
+ * Meeting length used when none is given
+ */
+export const DEFAULT_MEETING_DURATION_MINUTES = 30;
+
+/**
+ * Minutes between suggested start times when no step is given
+ */
+export const DEFAULT_SLOT_STEP_MINUTES: SlotStep = 30;
+
+/**
+ * Scores at or above which a time is labelled "Perfect Time" or "Acceptable Time"
+ */
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = { perfect: 70, acceptable: 40 };
 
 /**
  * MeetingSuggester generates meeting time suggestions from overlap windows
  * and categorizes them by quality.
+ * Every participant's time gets a 0-100 score from a scorer; the quality
+ * labels come from thresholds on the lowest score.
  */
 export class MeetingSuggester {
+  private scorer: MeetingScorer;
+  private thresholds: QualityThresholds;
+
+  /**
+   * @param scorer - Scorer, or the name of a registered scorer (default: "default")
+   * @param thresholds - Lowest scores for "Perfect Time" and "Acceptable Time"
+   * @throws Error if the scorer name is unknown or the thresholds are out of order
+   */
+  constructor(
+    scorer: MeetingScorer | string = DEFAULT_SCORER_NAME,
+    thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS
+  ) {
+    if (!(thresholds.acceptable > 0 && thresholds.acceptable <= thresholds.perfect && thresholds.perfect <= 100)) {
+      throw new Error('Quality thresholds must satisfy 0 < acceptable <= perfect <= 100');
+    }
+
+    this.scorer = typeof scorer === 'string' ? getScorer(scorer) : scorer;
+    this.thresholds = thresholds;
+  }
+
   /**
-   * Generate meeting time suggestions from an overlap window
-   * Creates suggestions at 30-minute intervals within the overlap
+   * Generate meeting time suggestions from the overlap windows
+   * Creates a suggestion at every step within each window where the whole
+   * meeting fits, so no suggestion runs into a participant's break or past
+   * the end of the overlap
    * @param overlap - The calculated overlap result
-   * @param cityA - First city (for formatting)
-   * @param cityB - Second city (for formatting)
-   * @param workingHoursA - Working hours for city A
-   * @param workingHoursB - Working hours for city B
+   * @param participants - Participants the overlap was calculated for, in the same order
+   * @param meetingDurationMinutes - Length of the meeting (default: 30)
+   * @param stepMinutes - Minutes between suggested start times: 15, 30 or 60 (default: 30)
    * @returns Array of meeting suggestions
+   * @throws Error if the meeting duration or step is invalid
    */
   generateSuggestions(
     overlap: OverlapResult,
-    cityA: City,
-    cityB: City,
-    workingHoursA: WorkingHours,
-    workingHoursB: WorkingHours
+    participants: Participant[],
+    meetingDurationMinutes: number = DEFAULT_MEETING_DURATION_MINUTES,
+    stepMinutes: SlotStep = DEFAULT_SLOT_STEP_MINUTES
   ): MeetingSuggestion[] {
-    if (!overlap.hasOverlap || !overlap.overlapInCityA || !overlap.overlapInCityB) {
+    if (!Number.isInteger(meetingDurationMinutes) || meetingDurationMinutes < 1) {
+      throw new Error('Meeting duration must be a positive whole number of minutes');
+    }
+
+    if (!SLOT_STEPS.includes(stepMinutes)) {
+      throw new Error(`Slot step must be one of ${SLOT_STEPS.join(', ')} minutes`);
+    }
+
+    if (!overlap.hasOverlap || !overlap.localOverlaps || overlap.localOverlaps.length === 0) {
       return [];
     }
 
+    const windows = overlap.windows ?? [{ localOverlaps: overlap.localOverlaps }];
+
+    return windows.flatMap(window =>
+      this.generateWindowSuggestions(window.localOverlaps, participants, meetingDurationMinutes, stepMinutes)
+    );
+  }
+
+  /**
+   * Generate suggestions for a single overlap window
+   */
+  private generateWindowSuggestions(
+    localOverlaps: { start: DateTime; end: DateTime }[],
+    participants: Participant[],
+    meetingDurationMinutes: number,
+    stepMinutes: number
+  ): MeetingSuggestion[] {
     const suggestions: MeetingSuggestion[] = [];
-    const intervalMinutes = 30;
+    const windowEnd = localOverlaps[0].end;
 
-    // Generate suggestions at 30-minute intervals
-    let currentTimeA = overlap.overlapInCityA.start;
-    let currentTimeB = overlap.overlapInCityB.start;
+    let currentTimes = localOverlaps.map(range => range.start);
 
-    while (currentTimeA < overlap.overlapInCityA.end) {
-      // Calculate quality for this time slot
-      const qualityA = this.categorizeMeetingTime(currentTimeA, workingHoursA, cityA.timezone);
-      const qualityB = this.categorizeMeetingTime(currentTimeB, workingHoursB, cityB.timezone);
-      
-      // Overall quality is the worse of the two
-      const quality = this.combineQualities(qualityA, qualityB);
+    // Only offer start times that leave room for the whole meeting
+    while (currentTimes[0].plus({ minutes: meetingDurationMinutes }) <= windowEnd) {
+      // Score this time slot in every participant's zone; outside the hours
+      // someone prefers for meetings, a time is acceptable at best
+      const participantScores = currentTimes.map((time, index) => {
+        const score = this.scoreMeetingTime(
+          time,
+          this.getWorkingHoursAt(participants[index], time),
+          getParticipantTimezone(participants[index])
+        );
+        return this.isPreferredTime(participants[index], time, meetingDurationMinutes)
+          ? score
+          : Math.min(score, this.thresholds.acceptable);
+      });
 
-      // Calculate remaining duration from this point
-      const remainingDuration = overlap.overlapInCityA.end.diff(currentTimeA, 'minutes').minutes;
-      const durationMinutes = Math.min(remainingDuration, 60); // Cap at 60 minutes per suggestion
+      // The slot is only as good as it is for the worst-off participant
+      const score = Math.min(...participantScores);
 
       suggestions.push({
-        timeInCityA: currentTimeA,
-        timeInCityB: currentTimeB,
-        quality,
-        durationMinutes
+        localTimes: currentTimes,
+        quality: this.getQualityForScore(score),
+        durationMinutes: meetingDurationMinutes,
+        score,
+        participantScores
       });
 
-      // Move to next interval
-      currentTimeA = currentTimeA.plus({ minutes: intervalMinutes });
-      currentTimeB = currentTimeB.plus({ minutes: intervalMinutes });
+      // Move to next step
+      currentTimes = currentTimes.map(time => time.plus({ minutes: stepMinutes }));
     }
 
     return suggestions;
   }
 
   /**
-   * Categorize a meeting time based on its position within working hours
-   * @param time - The meeting time to categorize
+   * Check whether a meeting falls within the hours a participant prefers for meetings
+   * Participants without a preference are happy with any time
+   */
+  private isPreferredTime(participant: Participant, time: DateTime, meetingDurationMinutes: number): boolean {
+    const meetingHours = participant.preferences?.meetingHours;
+    if (!meetingHours) {
+      return true;
+    }
+
+    const localTime = time.setZone(getParticipantTimezone(participant));
+    const startMinutes = localTime.hour * 60 + localTime.minute;
+    return startMinutes >= getStartMinutes(meetingHours) && startMinutes + meetingDurationMinutes <= getEndMinutes(meetingHours);
+  }
+
+  /**
+   * Get the working hours that apply to a participant at a moment
+   * Early-morning times belong to the previous day's shift when it runs overnight
+   * @param participant - The participant
+   * @param time - The moment, in any timezone
+   * @returns Working hours for that moment's shift
+   */
+  getWorkingHoursAt(participant: Participant, time: DateTime): WorkingHours {
+    const localTime = time.setZone(getParticipantTimezone(participant));
+    const minuteOfDay = localTime.hour * 60 + localTime.minute;
+    const previousDay = getHoursForWeekday(
+      participant,
+      localTime.minus({ days: 1 }).weekday as Weekday,
+      DEFAULT_WORKING_HOURS
+    );
+
+    if (previousDay && isOvernight(previousDay) && minuteOfDay < getEndMinutes(previousDay)) {
+      return previousDay;
+    }
+
+    return getHoursForWeekday(participant, localTime.weekday as Weekday, DEFAULT_WORKING_HOURS)
+      ?? participant.workingHours
+      ?? DEFAULT_WORKING_HOURS;
+  }
+
+  /**
+   * Score a meeting time for one participant
+   * Times outside working hours or during a break always score 0; other
+   * times are scored by the scorer
+   * @param time - The meeting time to score
    * @param workingHours - The working hours to compare against
    * @param timezone - The timezone for the working hours
-   * @returns Quality category
+   * @returns Score from 0 to 100
    */
-  categorizeMeetingTime(
+  scoreMeetingTime(
     time: DateTime,
     workingHours: WorkingHours,
     timezone: string
-  ): MeetingQuality {
+  ): number {
     // Ensure time is in the correct timezone
     const localTime = time.setZone(timezone);
-    const hour = localTime.hour;
-    const minute = localTime.minute;
-    const timeInMinutes = hour * 60 + minute;
+    let timeInMinutes = localTime.hour * 60 + localTime.minute;
 
-    const startMinutes = workingHours.start * 60;
-    const endMinutes = workingHours.end * 60;
-    const totalMinutes = endMinutes - startMinutes;
+    const startMinutes = getStartMinutes(workingHours);
+    let endMinutes = getEndMinutes(workingHours);
 
-    // Check if outside working hours
-    if (timeInMinutes < startMinutes || timeInMinutes >= endMinutes) {
-      return 'Not Recommended';
+    // Overnight shifts end on the next day; times after midnight belong to
+    // the tail of the shift that started the evening before
+    if (endMinutes <= startMinutes) {
+      endMinutes += MINUTES_PER_DAY;
+      if (timeInMinutes < startMinutes) {
+        timeInMinutes += MINUTES_PER_DAY;
+      }
     }
 
-    // Calculate position within working hours (0 to 1)
-    const positionInDay = (timeInMinutes - startMinutes) / totalMinutes;
-
-    // Middle third (0.33 to 0.67) is "Perfect Time"
-    if (positionInDay >= 1/3 && positionInDay < 2/3) {
-      return 'Perfect Time';
+    // Check if outside working hours or during a break
+    const isWorking = getWorkingSegments(workingHours).some(
+      segment => timeInMinutes >= segment.start && timeInMinutes < segment.end
+    );
+    if (!isWorking) {
+      return 0;
     }
 
-    // First or last third is "Acceptable Time"
-    return 'Acceptable Time';
+    const score = this.scorer.score({
+      time: localTime,
+      workingHours,
+      minutesSinceStart: timeInMinutes - startMinutes,
+      totalMinutes: endMinutes - startMinutes
+    });
+
+    // Keep custom scorers within range
+    return Number.isFinite(score) ? Math.min(100, Math.max(0, score)) : 0;
+  }
+
+  /**
+   * Categorize a meeting time by thresholds on its score
+   * @param time - The meeting time to categorize
+   * @param workingHours - The working hours to compare against
+   * @param timezone - The timezone for the working hours
+   * @returns Quality category
+   */
+  categorizeMeetingTime(
+    time: DateTime,
+    workingHours: WorkingHours,
+    timezone: string
+  ): MeetingQuality {
+    return this.getQualityForScore(this.scoreMeetingTime(time, workingHours, timezone));
   }
 
   /**
-   * Combine two quality ratings to get the overall quality
-   * The overall quality is the worse of the two
+   * Label a score using the quality thresholds
+   * @param score - Score from 0 to 100
+   * @returns Quality category
    */
-  private combineQualities(qualityA: MeetingQuality, qualityB: MeetingQuality): MeetingQuality {
-    const qualityOrder: MeetingQuality[] = ['Perfect Time', 'Acceptable Time', 'Not Recommended'];
-    const indexA = qualityOrder.indexOf(qualityA);
-    const indexB = qualityOrder.indexOf(qualityB);
-    
-    // Return the worse quality (higher index)
-    return qualityOrder[Math.max(indexA, indexB)];
+  getQualityForScore(score: number): MeetingQuality {
+    if (score >= this.thresholds.perfect) {
+      return 'Perfect Time';
+    }
+    if (score >= this.thresholds.acceptable) {
+      return 'Acceptable Time';
+    }
+    return 'Not Recommended';
   }
 
   /**
    * Format a meeting suggestion as a string
-   * Format: "HH:MM AM/PM CityA ↔ HH:MM AM/PM CityB"
+   * Format: "HH:MM AM/PM CityA ↔ HH:MM AM/PM Name (CityB) ↔ ...", naming
+   * participants who have a name
    * @param suggestion - The meeting suggestion to format
-   * @param cityA - First city
-   * @param cityB - Second city
+   * @param participants - Participants the suggestion was generated for, in the same order
    * @returns Formatted string
    */
   formatMeetingSuggestion(
     suggestion: MeetingSuggestion,
-    cityA: City,
-    cityB: City
+    participants: Participant[]
   ): string {
-    const timeA = suggestion.timeInCityA.toFormat('hh:mm a');
-    const timeB = suggestion.timeInCityB.toFormat('hh:mm a');
-    
-    return `${timeA} ${cityA.name} ↔ ${timeB} ${cityB.name}`;
+    return suggestion.localTimes
+      .map((time, index) => `${time.toFormat('hh:mm a')} ${getParticipantName(participants[index])}`)
+      .join(' ↔ ');
+  }
+
+  /**
+   * Explain why there are no suggestions on a non-working day
+   * Format: "Friday is the weekend in Riyadh", "Monday is a day off in London"
+   * or "Monday is a public holiday in Mumbai (Diwali)"
+   * @param nonWorkingDays - Non-working days reported by the overlap calculation
+   * @param participants - Participants the overlap was calculated for, in the same order
+   * @returns One message per participant who is not working
+   */
+  formatNonWorkingDays(
+    nonWorkingDays: NonWorkingDay[],
+    participants: Participant[]
+  ): string[] {
+    return nonWorkingDays.map(({ participantIndex, weekday, kind, holidayName }) => {
+      const name = getParticipantName(participants[participantIndex]);
+      if (kind === 'holiday') {
+        return `${WEEKDAY_NAMES[weekday]} is a public holiday in ${name} (${holidayName})`;
+      }
+      const description = kind === 'weekend' ? 'the weekend' : 'a day off';
+      return `${WEEKDAY_NAMES[weekday]} is ${description} in ${name}`;
+    });
+  }
+
+  /**
+   * Identify the best suggestion: the highest quality, then the highest
+   * score, then the longest duration, then the earliest
+   * @param suggestions - Array of meeting suggestions in time order
+   * @returns The best suggestion, or null if empty
+   */
+  findBestSuggestion(suggestions: MeetingSuggestion[]): MeetingSuggestion | null {
+    if (suggestions.length === 0) {
+      return null;
+    }
+
+    return suggestions.reduce((best, current) => {
+      const qualityDifference = this.getQualityRank(current.quality) - this.getQualityRank(best.quality);
+      if (qualityDifference !== 0) {
+        return qualityDifference < 0 ? current : best;
+      }
+      const scoreDifference = (current.score ?? 0) - (best.score ?? 0);
+      if (scoreDifference !== 0) {
+        return scoreDifference > 0 ? current : best;
+      }
+      return current.durationMinutes > best.durationMinutes ? current : best;
+    });
+  }
+
+  /**
+   * Rank a quality rating, 0 being the best
+   */
+  getQualityRank(quality: MeetingQuality): number {
+    return QUALITY_ORDER.indexOf(quality);
   }
 
   /**
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OverlapAdvisor } from './OverlapAdvisor';
+import type { City, Participant } from '../types';
+
+describe('OverlapAdvisor', () => {
+  let advisor: OverlapAdvisor;
+
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const sydney: City = { name: 'Sydney', country: 'Australia', region: 'New South Wales', timezone: 'Australia/Sydney' };
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+
+  // London 9-18 GMT = 09:00-18:00 UTC; Sydney 9-18 AEDT = 22:00-07:00 UTC, two hours apart
+  const participants: Participant[] = [{ city: london }, { city: sydney }];
+  const date = new Date('2024-01-17T12:00:00Z');
+
+  beforeEach(() => {
+    advisor = new OverlapAdvisor();
+  });
+
+  describe('findShiftOptions', () => {
+    it('should find the smallest shift each way for every window length', () => {
+      const advice = advisor.findShiftOptions(participants, date);
+
+      expect(advice?.gapMinutes).toBe(120);
+      expect(advice?.options.map(option => [option.targetMinutes, advisor.formatShift(option.shift, participants)])).toEqual([
+        [30, 'London starts 2h 30m early'],
+        [30, 'Sydney stays 2h 30m late'],
+        [60, 'London starts 3h early'],
+        [60, 'Sydney stays 3h late']
+      ]);
+    });
+
+    it('should measure the gap to the minute', () => {
+      // London 7:50-18:00 GMT starts 50 minutes after Sydney's day ends at 07:00 UTC
+      const advice = advisor.findShiftOptions([{ city: london, workingHours: { start: 7, startMinute: 50, end: 18 } }, { city: sydney }], date, [30]);
+
+      expect(advice?.gapMinutes).toBe(50);
+      expect(advice?.options.map(option => option.shift.minutes)).toEqual([90, 90]);
+    });
+
+    it('should score the slot each shift creates', () => {
+      const advice = advisor.findShiftOptions(participants, date, [60]);
+      const [londonEarly, sydneyLate] = advice!.options;
+
+      expect(londonEarly.workingHours).toEqual({ start: 6, end: 18 });
+      expect(londonEarly.suggestion.localTimes.map(time => time.toFormat('HH:mm'))).toEqual(['06:00', '17:00']);
+      expect(sydneyLate.workingHours).toEqual({ start: 9, end: 21 });
+      expect(sydneyLate.suggestion.durationMinutes).toBe(60);
+      expect(sydneyLate.suggestion.score).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should return null when no shift within the limit helps', () => {
+      // New York 9-18 EST = 14:00-23:00 UTC, seven hours after Sydney's day ends
+      expect(advisor.findShiftOptions([{ city: newYork }, { city: sydney }], date)).toBeNull();
+      expect(advisor.findShiftOptions(participants, date, [30], 120)).toBeNull();
+    });
+
+    it('should return null when someone is not working on the date', () => {
+      expect(advisor.findShiftOptions(participants, new Date('2024-01-20T12:00:00Z'))).toBeNull();
+    });
+
+    it('should throw for invalid targets or limits', () => {
+      expect(() => advisor.findShiftOptions(participants, date, [])).toThrow('Target window lengths');
+      expect(() => advisor.findShiftOptions(participants, date, [30], 0)).toThrow('Maximum shift');
+    });
+  });
+
+  describe('formatShift', () => {
+    it('should name the participant', () => {
+      expect(advisor.formatShift(
+        { participantIndex: 1, edge: 'end', minutes: 90 },
+        [{ city: london }, { name: 'Priya', city: sydney }]
+      )).toBe('Priya (Sydney) stays 1h 30m late');
+    });
+  });
+});
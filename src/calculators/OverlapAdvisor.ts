@@ -0,0 +1,242 @@
+import { DateTime } from 'luxon';
+import type { Participant, Weekday, WorkingHours, OverlapAdvice, OverlapResult, ShiftOption, ScheduleShift } from '../types';
+import { OverlapCalculator, DEFAULT_WORKING_HOURS } from './OverlapCalculator';
+import { MeetingSuggester } from './MeetingSuggester';
+import { getStartMinutes, getEndMinutes, fromMinutes, formatDuration, areBreaksValid, MINUTES_PER_DAY } from '../utils/workingHours';
+import { getHoursForWeekday } from '../utils/schedule';
+import { getParticipantName, getParticipantTimezone } from '../utils/participants';
+
+/**
+ * Lengths of the shared windows advice is given for when none are asked for
+ */
+export const DEFAULT_ADVICE_TARGET_MINUTES = [30, 60];
+
+/**
+ * Furthest anyone is asked to move their start or end when no limit is given
+ */
+export const DEFAULT_MAX_SHIFT_MINUTES = 4 * 60;
+
+/**
+ * Shifts are tried in steps of this many minutes
+ */
+const SHIFT_STEP_MINUTES = 15;
+
+/**
+ * OverlapAdvisor explains how close participants without shared working
+ * hours come to overlapping, and finds the smallest change to one person's
+ * day that would make room for a meeting.
+ */
+export class OverlapAdvisor {
+  private overlapCalculator: OverlapCalculator;
+  private meetingSuggester: MeetingSuggester;
+
+  /**
+   * @param meetingSuggester - Suggester used to score the new slots (default: the default scorer)
+   */
+  constructor(meetingSuggester: MeetingSuggester = new MeetingSuggester()) {
+    this.overlapCalculator = new OverlapCalculator();
+    this.meetingSuggester = meetingSuggester;
+  }
+
+  /**
+   * Find the smallest schedule shifts that create a shared window
+   * Each option moves one participant's start earlier or end later on the
+   * date, and is scored as if they had agreed to the new hours.
+   * @param participants - Participants without shared working hours on the date
+   * @param date - The date to advise on
+   * @param targetMinutes - Lengths of the windows to create (default: 30 and 60)
+   * @param maxShiftMinutes - Furthest anyone is asked to move (default: 4 hours)
+   * @returns The gap and the options, or null when no single shift within the
+   *          limit helps or the hours are not the problem (someone is off or busy)
+   * @throws Error if a target or the limit is not a positive whole number, or
+   *         the participants are invalid
+   */
+  findShiftOptions(
+    participants: Participant[],
+    date: Date = new Date(),
+    targetMinutes: number[] = DEFAULT_ADVICE_TARGET_MINUTES,
+    maxShiftMinutes: number = DEFAULT_MAX_SHIFT_MINUTES
+  ): OverlapAdvice | null {
+    if (targetMinutes.length === 0 || !targetMinutes.every(target => Number.isInteger(target) && target > 0)) {
+      throw new Error('Target window lengths must be positive whole numbers of minutes');
+    }
+
+    if (!Number.isInteger(maxShiftMinutes) || maxShiftMinutes < 1) {
+      throw new Error('Maximum shift must be a positive whole number of minutes');
+    }
+
+    const overlap = this.overlapCalculator.calculateOverlap(participants, date);
+    if (overlap.reason) {
+      return null;
+    }
+
+    const options: ShiftOption[] = [];
+    const gaps: number[] = [];
+
+    participants.forEach((_, participantIndex) => {
+      for (const edge of ['start', 'end'] as const) {
+        const shifts = this.findSmallestShifts(participants, date, { participantIndex, edge }, targetMinutes, maxShiftMinutes);
+        options.push(...shifts.options);
+        if (shifts.gapMinutes !== null) {
+          gaps.push(shifts.gapMinutes);
+        }
+      }
+    });
+
+    if (options.length === 0) {
+      return null;
+    }
+
+    options.sort((a, b) => a.targetMinutes - b.targetMinutes || a.shift.minutes - b.shift.minutes);
+
+    return {
+      gapMinutes: Math.min(...gaps),
+      options
+    };
+  }
+
+  /**
+   * Find the smallest shift of one participant's start or end that reaches each target
+   * A longer shift never shrinks the overlap, so each target is found by a
+   * binary search over the shift lengths. Suggested shifts move in whole steps;
+   * the gap is measured to the minute, as one less than the shortest shift
+   * that gives a one-minute overlap.
+   * @returns The options, and the gap this edge closes (null when it cannot within the limit)
+   */
+  private findSmallestShifts(
+    participants: Participant[],
+    date: Date,
+    { participantIndex, edge }: Omit<ScheduleShift, 'minutes'>,
+    targetMinutes: number[],
+    maxShiftMinutes: number
+  ): { options: ShiftOption[]; gapMinutes: number | null } {
+    const shiftAt = (minutes: number): ScheduleShift => ({ participantIndex, edge, minutes });
+
+    // The longest shift the participant's day allows; a shift that is too long only gets worse
+    let low = 0;
+    let high = maxShiftMinutes;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.applyShift(participants, shiftAt(middle), date)) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    const allowedMinutes = low;
+
+    const results = new Map<number, { overlap: OverlapResult; participants: Participant[]; workingHours: WorkingHours }>();
+    const evaluate = (minutes: number) => {
+      if (!results.has(minutes)) {
+        const shifted = this.applyShift(participants, shiftAt(minutes), date)!;
+        results.set(minutes, { ...shifted, overlap: this.overlapCalculator.calculateOverlap(shifted.participants, date) });
+      }
+      return results.get(minutes)!;
+    };
+    const reaches = (minutes: number, target: number) => {
+      const { overlap } = evaluate(minutes);
+      return overlap.hasOverlap && (overlap.durationMinutes ?? 0) >= target;
+    };
+
+    // The smallest whole number of steps that reaches the target, in minutes
+    const findSmallest = (stepMinutes: number, target: number): number | null => {
+      const maxSteps = Math.floor(allowedMinutes / stepMinutes);
+      if (maxSteps === 0 || !reaches(maxSteps * stepMinutes, target)) {
+        return null;
+      }
+
+      let lowSteps = 1;
+      let highSteps = maxSteps;
+      while (lowSteps < highSteps) {
+        const middle = Math.floor((lowSteps + highSteps) / 2);
+        if (reaches(middle * stepMinutes, target)) {
+          highSteps = middle;
+        } else {
+          lowSteps = middle + 1;
+        }
+      }
+      return lowSteps * stepMinutes;
+    };
+
+    const options = [...new Set(targetMinutes)].flatMap(target => {
+      const minutes = findSmallest(SHIFT_STEP_MINUTES, target);
+      if (minutes === null) {
+        return [];
+      }
+
+      const { overlap, participants: shifted, workingHours } = evaluate(minutes);
+      const suggestion = this.meetingSuggester.findBestSuggestion(
+        this.meetingSuggester.generateSuggestions(overlap, shifted, target, SHIFT_STEP_MINUTES)
+      );
+      return suggestion ? [{ shift: shiftAt(minutes), targetMinutes: target, workingHours, suggestion }] : [];
+    });
+
+    const touching = findSmallest(1, 1);
+    return { options, gapMinutes: touching === null ? null : touching - 1 };
+  }
+
+  /**
+   * Format a shift as a short instruction
+   * Format: "Sydney starts 1h early" or "San Francisco stays 1h 30m late"
+   * @param shift - The shift to format
+   * @param participants - Participants the advice was given for, in the same order
+   * @returns Formatted string
+   */
+  formatShift(shift: ScheduleShift, participants: Participant[]): string {
+    const name = getParticipantName(participants[shift.participantIndex]);
+    const duration = formatDuration(shift.minutes);
+    return shift.edge === 'start' ? `${name} starts ${duration} early` : `${name} stays ${duration} late`;
+  }
+
+  /**
+   * Give one participant shifted hours on the date
+   * The shift only applies to the date's weekday, so the rest of the week
+   * keeps its usual hours
+   * @returns The participants with the shift applied, or null when the shift would
+   *          move the start before midnight, make the day 24 hours or longer, or leave
+   *          a break outside the new hours
+   */
+  private applyShift(
+    participants: Participant[],
+    shift: ScheduleShift,
+    date: Date
+  ): { participants: Participant[]; workingHours: WorkingHours } | null {
+    const participant = participants[shift.participantIndex];
+    const weekday = DateTime.fromJSDate(date).setZone(getParticipantTimezone(participant)).weekday as Weekday;
+    const hours = getHoursForWeekday(participant, weekday, DEFAULT_WORKING_HOURS);
+    if (!hours) {
+      return null;
+    }
+
+    const start = getStartMinutes(hours);
+    let length = getEndMinutes(hours) - start;
+    if (length <= 0) {
+      length += MINUTES_PER_DAY;
+    }
+
+    const newStart = shift.edge === 'start' ? start - shift.minutes : start;
+    const newLength = length + shift.minutes;
+    if (newStart < 0 || newLength >= MINUTES_PER_DAY) {
+      return null;
+    }
+
+    // An end past midnight wraps round to the next day, as an overnight shift
+    const newEnd = newStart + newLength;
+    const workingHours: WorkingHours = {
+      ...fromMinutes(newStart, newEnd > MINUTES_PER_DAY ? newEnd - MINUTES_PER_DAY : newEnd),
+      ...(hours.breaks ? { breaks: hours.breaks } : {})
+    };
+    if (!areBreaksValid(workingHours)) {
+      return null;
+    }
+
+    return {
+      participants: participants.map((current, index) =>
+        index === shift.participantIndex
+          ? { ...current, schedule: { ...current.schedule, hours: { ...current.schedule?.hours, [weekday]: workingHours } } }
+          : current
+      ),
+      workingHours
+    };
+  }
+}
@@ -30,12 +30,11 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 };
       const date = new Date('2024-06-15');
 
-      const result = calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB, date);
+      const result = calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }], date);
 
       expect(result.hasOverlap).toBe(false);
       expect(result.overlapInUTC).toBeUndefined();
-      expect(result.overlapInCityA).toBeUndefined();
-      expect(result.overlapInCityB).toBeUndefined();
+      expect(result.localOverlaps).toBeUndefined();
       expect(result.durationMinutes).toBeUndefined();
     });
 
@@ -56,16 +55,16 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 10, end: 17 };
       const date = new Date('2024-06-15');
 
-      const result = calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB, date);
+      const result = calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }], date);
 
       expect(result.hasOverlap).toBe(true);
       expect(result.durationMinutes).toBe(7 * 60); // 7 hours
       
       // In same timezone, overlap should be 10 AM - 5 PM
-      expect(result.overlapInCityA?.start.hour).toBe(10);
-      expect(result.overlapInCityA?.end.hour).toBe(17);
-      expect(result.overlapInCityB?.start.hour).toBe(10);
-      expect(result.overlapInCityB?.end.hour).toBe(17);
+      expect(result.localOverlaps?.[0].start.hour).toBe(10);
+      expect(result.localOverlaps?.[0].end.hour).toBe(17);
+      expect(result.localOverlaps?.[1].start.hour).toBe(10);
+      expect(result.localOverlaps?.[1].end.hour).toBe(17);
     });
 
     it('should handle working hours spanning midnight', () => {
@@ -86,7 +85,7 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 };
       const date = new Date('2024-06-15');
 
-      const result = calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB, date);
+      const result = calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }], date);
 
       // Should have some overlap or no overlap depending on the calculation
       expect(result).toBeDefined();
@@ -110,7 +109,7 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 }; // 9 AM - 6 PM
       const date = new Date('2024-06-15');
 
-      const result = calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB, date);
+      const result = calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }], date);
 
       // Verify the result structure is correct
       expect(result).toBeDefined();
@@ -120,8 +119,7 @@ describe('OverlapCalculator', () => {
       if (result.hasOverlap) {
         expect(result.durationMinutes).toBeGreaterThan(0);
         expect(result.overlapInUTC).toBeDefined();
-        expect(result.overlapInCityA).toBeDefined();
-        expect(result.overlapInCityB).toBeDefined();
+        expect(result.localOverlaps).toHaveLength(2);
       }
     });
 
@@ -141,7 +139,7 @@ describe('OverlapCalculator', () => {
       const date = new Date('2024-06-15');
 
       // Call without specifying working hours
-      const result = calculator.calculateOverlap(cityA, cityB, undefined, undefined, date);
+      const result = calculator.calculateOverlap([{ city: cityA }, { city: cityB }], date);
 
       expect(result).toBeDefined();
       expect(typeof result.hasOverlap).toBe('boolean');
@@ -168,13 +166,444 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 14, end: 15 }; // 1 hour (9-10 AM EST)
       const date = new Date('2024-06-15');
 
-      const result = calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB, date);
+      const result = calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }], date);
 
       expect(result).toBeDefined();
       expect(typeof result.hasOverlap).toBe('boolean');
     });
   });
 
+  describe('calculateOverlap with more than two participants', () => {
+    const newYork: City = { name: 'New York', country: 'USA', timezone: 'America/New_York' };
+    const london: City = { name: 'London', country: 'UK', timezone: 'Europe/London' };
+    const berlin: City = { name: 'Berlin', country: 'Germany', timezone: 'Europe/Berlin' };
+
+    it('should intersect the working hours of every participant', () => {
+      // New York 9-18 EDT = 13:00-22:00 UTC
+      // London 9-18 BST = 08:00-17:00 UTC
+      // Berlin 9-18 CEST = 07:00-16:00 UTC
+      const result = calculator.calculateOverlap(
+        [{ city: newYork }, { city: london }, { city: berlin }],
+        new Date('2024-06-12T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(true);
+      expect(result.durationMinutes).toBe(3 * 60);
+      expect(result.overlapInUTC?.start.hour).toBe(13);
+      expect(result.overlapInUTC?.end.hour).toBe(16);
+    });
+
+    it('should return local times for each participant in input order', () => {
+      const result = calculator.calculateOverlap(
+        [{ city: newYork }, { city: london }, { city: berlin }],
+        new Date('2024-06-12T12:00:00Z')
+      );
+
+      expect(result.localOverlaps).toHaveLength(3);
+      expect(result.localOverlaps?.[0].start.hour).toBe(9);
+      expect(result.localOverlaps?.[0].start.zoneName).toBe('America/New_York');
+      expect(result.localOverlaps?.[1].start.hour).toBe(14);
+      expect(result.localOverlaps?.[1].start.zoneName).toBe('Europe/London');
+      expect(result.localOverlaps?.[2].start.hour).toBe(15);
+      expect(result.localOverlaps?.[2].end.hour).toBe(18);
+    });
+
+    it('should use a participant\'s own timezone over their city\'s', () => {
+      // A London-based colleague keeping New York hours: 14:00-23:00 UTC in January
+      const result = calculator.calculateOverlap(
+        [{ name: 'Priya', city: london }, { name: 'Sam', city: london, timezone: 'America/New_York' }],
+        new Date('2024-01-17T12:00:00Z')
+      );
+
+      expect(result.overlapInUTC?.start.hour).toBe(14);
+      expect(result.overlapInUTC?.end.hour).toBe(18);
+      expect(result.localOverlaps?.[1].start.zoneName).toBe('America/New_York');
+      expect(result.localOverlaps?.[1].start.hour).toBe(9);
+    });
+
+    it('should report no overlap when any single participant does not overlap', () => {
+      const tokyo: City = { name: 'Tokyo', country: 'Japan', timezone: 'Asia/Tokyo' };
+
+      const result = calculator.calculateOverlap(
+        [{ city: london }, { city: berlin }, { city: newYork }, { city: tokyo }],
+        new Date('2024-06-12T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(false);
+      expect(result.localOverlaps).toBeUndefined();
+    });
+
+    it('should throw error when fewer than two participants are given', () => {
+      expect(() => {
+        calculator.calculateOverlap([{ city: london }]);
+      }).toThrow('At least two participants');
+    });
+
+    it('should name the invalid participant in working hours errors', () => {
+      expect(() => {
+        calculator.calculateOverlap([
+          { city: newYork },
+          { city: london },
+          { city: berlin, workingHours: { start: 9, end: 9 } }
+        ]);
+      }).toThrow('Invalid working hours for City C');
+    });
+  });
+
+  describe('calculateOverlap with minute-precision working hours', () => {
+    it('should honour half-hour starts and ends', () => {
+      const kolkata: City = { name: 'Kolkata', country: 'India', timezone: 'Asia/Kolkata' };
+      const london: City = { name: 'London', country: 'UK', timezone: 'Europe/London' };
+
+      // Kolkata 8:30-17:30 IST = 03:00-12:00 UTC
+      // London 9:00-18:00 GMT = 09:00-18:00 UTC
+      const result = calculator.calculateOverlap(
+        [
+          { city: kolkata, workingHours: { start: 8, startMinute: 30, end: 17, endMinute: 30 } },
+          { city: london, workingHours: { start: 9, end: 18 } }
+        ],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(true);
+      expect(result.durationMinutes).toBe(3 * 60);
+      expect(result.localOverlaps?.[0].start.toFormat('HH:mm')).toBe('14:30');
+      expect(result.localOverlaps?.[0].end.toFormat('HH:mm')).toBe('17:30');
+    });
+
+    it('should honour quarter-hour starts in a 45-minute offset zone', () => {
+      const kathmandu: City = { name: 'Kathmandu', country: 'Nepal', timezone: 'Asia/Kathmandu' };
+      const kolkata: City = { name: 'Kolkata', country: 'India', timezone: 'Asia/Kolkata' };
+
+      // Kathmandu 9:45 NPT = 04:00 UTC, Kolkata 9:00 IST = 03:30 UTC
+      const result = calculator.calculateOverlap(
+        [
+          { city: kathmandu, workingHours: { start: 9, startMinute: 45, end: 18 } },
+          { city: kolkata, workingHours: { start: 9, end: 18 } }
+        ],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.overlapInUTC?.start.toFormat('HH:mm')).toBe('04:00');
+      expect(result.localOverlaps?.[1].start.toFormat('HH:mm')).toBe('09:30');
+    });
+
+    it('should accept working hours ending at midnight', () => {
+      const london: City = { name: 'London', country: 'UK', timezone: 'Europe/London' };
+      const paris: City = { name: 'Paris', country: 'France', timezone: 'Europe/Paris' };
+
+      const result = calculator.calculateOverlap(
+        [
+          { city: london, workingHours: { start: 16, end: 24 } },
+          { city: paris, workingHours: { start: 9, end: 18 } }
+        ],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(true);
+      expect(result.durationMinutes).toBe(60);
+    });
+  });
+
+  describe('calculateOverlap with overnight working hours', () => {
+    const london: City = { name: 'London', country: 'UK', timezone: 'Europe/London' };
+    const sydney: City = { name: 'Sydney', country: 'Australia', timezone: 'Australia/Sydney' };
+    const manila: City = { name: 'Manila', country: 'Philippines', timezone: 'Asia/Manila' };
+
+    it('should overlap a night shift with a day shift later in the day', () => {
+      // Manila 22:00-06:00 PHT = 14:00-22:00 UTC, London 9-18 GMT = 09:00-18:00 UTC
+      const result = calculator.calculateOverlap(
+        [
+          { city: manila, workingHours: { start: 22, end: 6 } },
+          { city: london, workingHours: { start: 9, end: 18 } }
+        ],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(true);
+      expect(result.durationMinutes).toBe(4 * 60);
+      expect(result.localOverlaps?.[0].start.toFormat('HH:mm')).toBe('22:00');
+      expect(result.localOverlaps?.[0].end.toFormat('HH:mm')).toBe('02:00');
+    });
+
+    it('should include the tail of the previous night\'s shift', () => {
+      // Sydney 9-18 AEDT on Tuesday Jan 16 = Jan 15 22:00 - Jan 16 07:00 UTC
+      // London's night shift starting Monday Jan 15 22:00 GMT covers all of it
+      const result = calculator.calculateOverlap(
+        [
+          { city: london, workingHours: { start: 22, end: 6 } },
+          { city: sydney, workingHours: { start: 9, end: 18 } }
+        ],
+        new Date('2024-01-16T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(true);
+      expect(result.durationMinutes).toBe(8 * 60);
+      expect(result.localOverlaps?.[1].start.toFormat('HH:mm')).toBe('09:00');
+    });
+
+    it('should prefer the shift starting on the selected date when two nights overlap equally', () => {
+      const result = calculator.calculateOverlap(
+        [
+          { city: london, workingHours: { start: 22, end: 6 } },
+          { city: { ...london, name: 'Manchester' }, workingHours: { start: 22, end: 6 } }
+        ],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.durationMinutes).toBe(8 * 60);
+      expect(result.localOverlaps?.[0].start.toISODate()).toBe('2024-01-15');
+    });
+  });
+
+  describe('calculateOverlap with breaks', () => {
+    const madrid: City = { name: 'Madrid', country: 'Spain', timezone: 'Europe/Madrid' };
+    const london: City = { name: 'London', country: 'UK', timezone: 'Europe/London' };
+    const tokyo: City = { name: 'Tokyo', country: 'Japan', timezone: 'Asia/Tokyo' };
+    const kolkata: City = { name: 'Kolkata', country: 'India', timezone: 'Asia/Kolkata' };
+
+    it('should report a window on each side of a siesta', () => {
+      // Madrid 9-14 and 16-19 CET = 08:00-13:00 and 15:00-18:00 UTC
+      // London 9-18 GMT = 09:00-18:00 UTC
+      const result = calculator.calculateOverlap(
+        [
+          { city: madrid, workingHours: { start: 9, end: 19, breaks: [{ start: 14, end: 16 }] } },
+          { city: london, workingHours: { start: 9, end: 18 } }
+        ],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(true);
+      expect(result.windows).toHaveLength(2);
+      expect(result.windows?.map(window => window.durationMinutes)).toEqual([240, 180]);
+      expect(result.windows?.[1].localOverlaps[0].start.toFormat('HH:mm')).toBe('16:00');
+      expect(result.windows?.[1].localOverlaps[1].start.toFormat('HH:mm')).toBe('15:00');
+
+      // The longest window is reported as the overlap
+      expect(result.durationMinutes).toBe(240);
+      expect(result.localOverlaps?.[1].start.toFormat('HH:mm')).toBe('09:00');
+      expect(result.localOverlaps?.[1].end.toFormat('HH:mm')).toBe('13:00');
+    });
+
+    it('should exclude a lunch break from the overlap', () => {
+      // Tokyo 9-12 and 13-18 JST = 00:00-03:00 and 04:00-09:00 UTC
+      // Kolkata 9-18 IST = 03:30-12:30 UTC
+      const result = calculator.calculateOverlap(
+        [
+          { city: tokyo, workingHours: { start: 9, end: 18, breaks: [{ start: 12, end: 13 }] } },
+          { city: kolkata, workingHours: { start: 9, end: 18 } }
+        ],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.windows).toHaveLength(1);
+      expect(result.durationMinutes).toBe(5 * 60);
+      expect(result.overlapInUTC?.start.toFormat('HH:mm')).toBe('04:00');
+    });
+
+    it('should report no overlap when the only shared time is a break', () => {
+      const result = calculator.calculateOverlap(
+        [
+          { city: london, workingHours: { start: 9, end: 18, breaks: [{ start: 12, end: 18 }] } },
+          { city: tokyo, workingHours: { start: 21, end: 23 } }
+        ],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(false);
+    });
+
+    it('should throw for a break outside working hours', () => {
+      expect(() =>
+        calculator.calculateOverlap(
+          [
+            { city: london, workingHours: { start: 9, end: 18, breaks: [{ start: 19, end: 20 }] } },
+            { city: madrid, workingHours: { start: 9, end: 18 } }
+          ],
+          new Date('2024-01-15T12:00:00Z')
+        )
+      ).toThrow('Invalid working hours for City A');
+    });
+  });
+
+  describe('calculateOverlap with busy times', () => {
+    const london: City = { name: 'London', country: 'UK', timezone: 'Europe/London' };
+    const madrid: City = { name: 'Madrid', country: 'Spain', timezone: 'Europe/Madrid' };
+    const date = new Date('2024-01-15T12:00:00Z');
+
+    // London 9-18 GMT and Madrid 9-18 CET share 09:00-17:00 UTC
+    it('should remove each participant\'s busy times from the overlap', () => {
+      const result = calculator.calculateOverlap(
+        [
+          { city: london, busy: [{ start: new Date('2024-01-15T10:00:00Z'), end: new Date('2024-01-15T11:00:00Z') }] },
+          { city: madrid, busy: [{ start: new Date('2024-01-15T14:30:00Z'), end: new Date('2024-01-15T18:00:00Z') }] }
+        ],
+        date
+      );
+
+      expect(result.windows?.map(window =>
+        `${window.overlapInUTC.start.toFormat('HH:mm')}-${window.overlapInUTC.end.toFormat('HH:mm')}`
+      )).toEqual(['09:00-10:00', '11:00-14:30']);
+      expect(result.durationMinutes).toBe(210);
+    });
+
+    it('should ignore busy times on other days', () => {
+      const result = calculator.calculateOverlap(
+        [
+          { city: london, busy: [{ start: new Date('2024-01-16T09:00:00Z'), end: new Date('2024-01-16T17:00:00Z') }] },
+          { city: madrid }
+        ],
+        date
+      );
+
+      expect(result.durationMinutes).toBe(8 * 60);
+    });
+
+    it('should report when busy times fill the overlap', () => {
+      const result = calculator.calculateOverlap(
+        [
+          { city: london, busy: [{ start: new Date('2024-01-15T08:00:00Z'), end: new Date('2024-01-15T13:00:00Z') }] },
+          { city: madrid, busy: [{ start: new Date('2024-01-15T13:00:00Z'), end: new Date('2024-01-15T17:00:00Z') }] }
+        ],
+        date
+      );
+
+      expect(result).toEqual({ hasOverlap: false, reason: 'busy' });
+    });
+
+    it('should throw for an invalid busy time', () => {
+      expect(() =>
+        calculator.calculateOverlap(
+          [
+            { city: london },
+            { city: madrid, busy: [{ start: new Date('2024-01-15T13:00:00Z'), end: new Date('2024-01-15T12:00:00Z') }] }
+          ],
+          date
+        )
+      ).toThrow('Invalid busy times for City B');
+    });
+
+    it('should throw for preferred meeting hours running past midnight', () => {
+      expect(() =>
+        calculator.calculateOverlap(
+          [{ city: london }, { city: madrid, preferences: { meetingHours: { start: 22, end: 2 } } }],
+          date
+        )
+      ).toThrow('Invalid meeting preferences for City B');
+    });
+  });
+
+  describe('calculateOverlap with weekly schedules', () => {
+    const london: City = { name: 'London', country: 'United Kingdom', timezone: 'Europe/London' };
+    const paris: City = { name: 'Paris', country: 'France', timezone: 'Europe/Paris' };
+    const riyadh: City = { name: 'Riyadh', country: 'Saudi Arabia', timezone: 'Asia/Riyadh' };
+    const telAviv: City = { name: 'Tel Aviv', country: 'Israel', timezone: 'Asia/Jerusalem' };
+
+    it('should report a non-working day on a country weekend', () => {
+      // Friday Jan 19, 2024 is the weekend in Saudi Arabia
+      const result = calculator.calculateOverlap(
+        [{ city: london }, { city: riyadh }],
+        new Date('2024-01-19T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(false);
+      expect(result.reason).toBe('non-working-day');
+      expect(result.nonWorkingDays).toEqual([{ participantIndex: 1, weekday: 5, kind: 'weekend' }]);
+    });
+
+    it('should use each participant\'s local weekday', () => {
+      // Sunday Jan 21, 2024 is a working day in Israel and Saudi Arabia
+      const result = calculator.calculateOverlap(
+        [{ city: telAviv }, { city: riyadh }],
+        new Date('2024-01-21T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(true);
+      expect(result.reason).toBeUndefined();
+    });
+
+    it('should report every participant who is not working', () => {
+      const result = calculator.calculateOverlap(
+        [{ city: london }, { city: paris }, { city: telAviv }],
+        new Date('2024-01-20T12:00:00Z')
+      );
+
+      expect(result.nonWorkingDays?.map(day => day.participantIndex)).toEqual([0, 1, 2]);
+    });
+
+    it('should honour days off from the schedule', () => {
+      const result = calculator.calculateOverlap(
+        [{ city: london, schedule: { daysOff: [1] } }, { city: paris }],
+        new Date('2024-01-15T12:00:00Z')
+      );
+
+      expect(result.nonWorkingDays).toEqual([{ participantIndex: 0, weekday: 1, kind: 'day-off' }]);
+    });
+
+    it('should use per-weekday hours', () => {
+      // London works 9-13 on Fridays; Paris 9-18 CET = 08:00-17:00 UTC
+      const participants = [
+        { city: london, schedule: { hours: { 5: { start: 9, end: 13 } } } },
+        { city: paris }
+      ];
+
+      const friday = calculator.calculateOverlap(participants, new Date('2024-01-19T12:00:00Z'));
+      const thursday = calculator.calculateOverlap(participants, new Date('2024-01-18T12:00:00Z'));
+
+      expect(friday.durationMinutes).toBe(4 * 60);
+      expect(thursday.durationMinutes).toBe(8 * 60);
+    });
+
+    it('should throw for an invalid schedule', () => {
+      expect(() =>
+        calculator.calculateOverlap(
+          [{ city: london }, { city: paris, schedule: { hours: { 2: { start: 9, end: 9 } } } }],
+          new Date('2024-01-15T12:00:00Z')
+        )
+      ).toThrow('Invalid weekly schedule for City B');
+    });
+  });
+
+  describe('calculateOverlap with public holidays', () => {
+    const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+    const mumbai: City = { name: 'Mumbai', country: 'India', region: 'Maharashtra', timezone: 'Asia/Kolkata' };
+    const munich: City = { name: 'Munich', country: 'Germany', region: 'Bavaria', timezone: 'Europe/Berlin' };
+    const berlin: City = { name: 'Berlin', country: 'Germany', region: 'Berlin', timezone: 'Europe/Berlin' };
+
+    it('should report the participant who is on holiday', () => {
+      // Monday Oct 20, 2025 is Diwali
+      const result = calculator.calculateOverlap(
+        [{ city: london }, { city: mumbai }],
+        new Date('2025-10-20T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(false);
+      expect(result.reason).toBe('non-working-day');
+      expect(result.nonWorkingDays).toEqual([
+        { participantIndex: 1, weekday: 1, kind: 'holiday', holidayName: 'Diwali' }
+      ]);
+    });
+
+    it('should use regional holidays', () => {
+      // Tuesday Jan 6, 2026 is Epiphany in Bavaria but not in Berlin
+      const result = calculator.calculateOverlap(
+        [{ city: berlin }, { city: munich }],
+        new Date('2026-01-06T12:00:00Z')
+      );
+
+      expect(result.nonWorkingDays?.map(day => day.participantIndex)).toEqual([1]);
+    });
+
+    it('should find overlap on the next working day', () => {
+      const result = calculator.calculateOverlap(
+        [{ city: london }, { city: mumbai }],
+        new Date('2025-10-21T12:00:00Z')
+      );
+
+      expect(result.hasOverlap).toBe(true);
+    });
+  });
+
   describe('Error handling', () => {
     it('should throw error for invalid city A timezone', () => {
       const cityA: City = {
@@ -193,7 +622,7 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 };
 
       expect(() => {
-        calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB);
+        calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }]);
       }).toThrow('Unable to determine timezone');
     });
 
@@ -214,7 +643,7 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 };
 
       expect(() => {
-        calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB);
+        calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }]);
       }).toThrow('Unable to determine timezone');
     });
 
@@ -235,7 +664,7 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 };
 
       expect(() => {
-        calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB);
+        calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }]);
       }).toThrow('Invalid city A');
     });
 
@@ -256,7 +685,7 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 };
 
       expect(() => {
-        calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB);
+        calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }]);
       }).toThrow('Invalid working hours');
     });
 
@@ -277,7 +706,7 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 };
 
       expect(() => {
-        calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB);
+        calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }]);
       }).toThrow('Invalid working hours');
     });
 
@@ -298,7 +727,28 @@ describe('OverlapCalculator', () => {
       const workingHoursB: WorkingHours = { start: 9, end: 18 };
 
       expect(() => {
-        calculator.calculateOverlap(cityA, cityB, workingHoursA, workingHoursB);
+        calculator.calculateOverlap([{ city: cityA, workingHours: workingHoursA }, { city: cityB, workingHours: workingHoursB }]);
+      }).toThrow('Invalid working hours');
+    });
+
+    it('should throw error for invalid working hours (minute out of range)', () => {
+      const cityA: City = {
+        name: 'New York',
+        country: 'USA',
+        timezone: 'America/New_York'
+      };
+
+      const cityB: City = {
+        name: 'London',
+        country: 'UK',
+        timezone: 'Europe/London'
+      };
+
+      expect(() => {
+        calculator.calculateOverlap([
+          { city: cityA, workingHours: { start: 9, startMinute: 60, end: 18 } },
+          { city: cityB }
+        ]);
       }).toThrow('Invalid working hours');
     });
   });
@@ -1,10 +1,19 @@
 import { DateTime } from 'luxon';
-import type { City, WorkingHours, OverlapResult } from '../types';
+import type { Participant, WorkingHours, OverlapResult, OverlapWindow, TimeOfDayRange, NonWorkingDay, Weekday, BusyTime } from '../types';
 import { TimeZoneConverter } from '../utils/TimeZoneConverter';
+import { getStartMinutes, getEndMinutes, getWorkingSegments, areBreaksValid, isOvernight, MINUTES_PER_DAY } from '../utils/workingHours';
+import { getHoursForWeekday, getNonWorkingDayKind } from '../utils/schedule';
+import { findPublicHoliday } from '../utils/holidays';
+import { getParticipantName, getParticipantTimezone } from '../utils/participants';
 
 /**
- * OverlapCalculator calculates overlapping working hours between two cities
- * in different time zones.
+ * Working hours applied to a participant who has not specified any (9 AM - 6 PM)
+ */
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: 9, end: 18 };
+
+/**
+ * OverlapCalculator calculates overlapping working hours between any number
+ * of participants in different time zones.
  */
 export class OverlapCalculator {
   private converter: TimeZoneConverter;
@@ -14,79 +23,89 @@ export class OverlapCalculator {
   }
 
   /**
-   * Calculate the overlapping working hours between two cities
-   * @param cityA - First city
-   * @param cityB - Second city
-   * @param workingHoursA - Working hours for city A (default: 9 AM - 6 PM)
-   * @param workingHoursB - Working hours for city B (default: 9 AM - 6 PM)
+   * Calculate the working hours shared by every participant
+   * @param participants - Cities and working hours to intersect (at least two)
    * @param date - Date to calculate overlap for (default: today)
-   * @returns OverlapResult containing overlap information
-   * @throws Error if cities or timezones are invalid
+   * @returns OverlapResult with the longest shared window in UTC and in each participant's local time,
+   *          plus every shared window when breaks or busy times split the day. When the date is a weekend,
+   *          day off or public holiday for anyone, there is no overlap and the reason is 'non-working-day';
+   *          when busy times fill the shared working hours, the reason is 'busy'
+   * @throws Error if fewer than two participants are given, or a city, timezone, working hours
+   *         or busy time is invalid
    */
   calculateOverlap(
-    cityA: City,
-    cityB: City,
-    workingHoursA: WorkingHours = { start: 9, end: 18 },
-    workingHoursB: WorkingHours = { start: 9, end: 18 },
+    participants: Participant[],
     date: Date = new Date()
   ): OverlapResult {
-    // Validate inputs
-    if (!cityA || !cityA.timezone) {
-      throw new Error('Invalid city A: Missing timezone information');
+    if (!Array.isArray(participants) || participants.length < 2) {
+      throw new Error('At least two participants are required to calculate overlap');
     }
 
-    if (!cityB || !cityB.timezone) {
-      throw new Error('Invalid city B: Missing timezone information');
-    }
+    // Validate inputs
+    participants.forEach((participant, index) => {
+      const label = this.getParticipantLabel(index);
+      const city = participant?.city;
 
-    if (!this.converter.isValidTimezone(cityA.timezone)) {
-      throw new Error(`Unable to determine timezone for ${cityA.name}. Please try another city.`);
-    }
+      if (!city || !city.timezone) {
+        throw new Error(`Invalid city ${label}: Missing timezone information`);
+      }
 
-    if (!this.converter.isValidTimezone(cityB.timezone)) {
-      throw new Error(`Unable to determine timezone for ${cityB.name}. Please try another city.`);
-    }
+      if (!this.converter.isValidTimezone(getParticipantTimezone(participant))) {
+        throw new Error(`Unable to determine timezone for ${getParticipantName(participant)}. Please try another city.`);
+      }
 
-    // Validate working hours
-    if (!this.isValidWorkingHours(workingHoursA)) {
-      throw new Error('Invalid working hours for City A');
-    }
+      if (!this.isValidWorkingHours(participant.workingHours ?? DEFAULT_WORKING_HOURS)) {
+        throw new Error(`Invalid working hours for City ${label}`);
+      }
 
-    if (!this.isValidWorkingHours(workingHoursB)) {
-      throw new Error('Invalid working hours for City B');
-    }
+      if (!this.isValidSchedule(participant)) {
+        throw new Error(`Invalid weekly schedule for City ${label}`);
+      }
 
-    try {
-      // Convert working hours to UTC time ranges
-      const rangeA = this.workingHoursToUTC(workingHoursA, cityA.timezone, date);
-      const rangeB = this.workingHoursToUTC(workingHoursB, cityB.timezone, date);
+      if (!this.isValidBusyTimes(participant.busy)) {
+        throw new Error(`Invalid busy times for City ${label}`);
+      }
 
-      // Calculate intersection
-      const intersection = this.calculateIntersection(rangeA, rangeB);
+      if (!this.isValidPreferences(participant)) {
+        throw new Error(`Invalid meeting preferences for City ${label}`);
+      }
+    });
 
-      if (!intersection) {
-        return { hasOverlap: false };
+    try {
+      // Nobody can meet on a day someone is not working
+      const nonWorkingDays = this.findNonWorkingDays(participants, date);
+      if (nonWorkingDays.length > 0) {
+        return { hasOverlap: false, reason: 'non-working-day', nonWorkingDays };
       }
 
-      // Convert overlap back to local times
-      const overlapInCityA = {
-        start: this.converter.convertFromUTC(intersection.start, cityA.timezone),
-        end: this.converter.convertFromUTC(intersection.end, cityA.timezone)
-      };
+      // Convert each participant's working hours to UTC time ranges
+      const rangeSets = participants.map(participant => this.workingHoursToUTCRanges(participant, date));
 
-      const overlapInCityB = {
-        start: this.converter.convertFromUTC(intersection.start, cityB.timezone),
-        end: this.converter.convertFromUTC(intersection.end, cityB.timezone)
-      };
+      // Intersect all range sets
+      let windows = rangeSets[0];
+      for (const ranges of rangeSets.slice(1)) {
+        windows = this.intersectRangeSets(windows, ranges);
+        if (windows.length === 0) {
+          return { hasOverlap: false };
+        }
+      }
 
-      const durationMinutes = intersection.end.diff(intersection.start, 'minutes').minutes;
+      // Nobody is free during their existing meetings
+      windows = this.subtractBusyTimes(windows, participants.flatMap(participant => participant.busy ?? []));
+      if (windows.length === 0) {
+        return { hasOverlap: false, reason: 'busy' };
+      }
+
+      // Convert each window back to every participant's local time
+      const overlapWindows = windows.map(window => this.toOverlapWindow(window, participants));
+      const primary = this.pickPrimaryWindow(overlapWindows);
 
       return {
         hasOverlap: true,
-        overlapInUTC: intersection,
-        overlapInCityA,
-        overlapInCityB,
-        durationMinutes
+        overlapInUTC: primary.overlapInUTC,
+        localOverlaps: primary.localOverlaps,
+        durationMinutes: primary.durationMinutes,
+        windows: overlapWindows
       };
     } catch (error) {
       // Re-throw with more context if it's already an error we threw
@@ -99,44 +118,168 @@ export class OverlapCalculator {
   }
 
   /**
-   * Validate working hours
+   * Get the letter used to refer to a participant in messages (A, B, C, ...)
+   */
+  private getParticipantLabel(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
+  /**
+   * Validate working hours, including any breaks
    * @param hours - Working hours to validate
    * @returns true if valid, false otherwise
    */
   private isValidWorkingHours(hours: WorkingHours): boolean {
     return (
-      hours &&
-      typeof hours.start === 'number' &&
-      typeof hours.end === 'number' &&
-      hours.start >= 0 &&
-      hours.start < 24 &&
-      hours.end >= 0 &&
-      hours.end <= 24 &&
-      hours.start !== hours.end
+      this.isValidTimeOfDayRange(hours) &&
+      (hours.breaks === undefined || Array.isArray(hours.breaks)) &&
+      (hours.breaks ?? []).every(workBreak => this.isValidTimeOfDayRange(workBreak)) &&
+      areBreaksValid(hours)
     );
   }
 
   /**
-   * Convert working hours in a specific timezone to a UTC time range
-   * Handles edge cases like working hours spanning midnight
+   * Validate a participant's weekly schedule, if any
    */
-  private workingHoursToUTC(
-    workingHours: WorkingHours,
-    timezone: string,
+  private isValidSchedule(participant: Participant): boolean {
+    const schedule = participant.schedule;
+    if (schedule === undefined) {
+      return true;
+    }
+
+    const daysOffValid = schedule.daysOff === undefined || (
+      Array.isArray(schedule.daysOff) &&
+      schedule.daysOff.every(day => Number.isInteger(day) && day >= 1 && day <= 7)
+    );
+
+    return daysOffValid && Object.values(schedule.hours ?? {}).every(hours => this.isValidWorkingHours(hours));
+  }
+
+  /**
+   * Validate a participant's preferences, if any
+   * Preferred meeting hours cannot run past midnight
+   */
+  private isValidPreferences(participant: Participant): boolean {
+    const meetingHours = participant.preferences?.meetingHours;
+    return meetingHours === undefined || (
+      this.isValidTimeOfDayRange(meetingHours) && getStartMinutes(meetingHours) < getEndMinutes(meetingHours)
+    );
+  }
+
+  /**
+   * Validate a participant's busy times, if any
+   */
+  private isValidBusyTimes(busy: BusyTime[] | undefined): boolean {
+    return busy === undefined || (
+      Array.isArray(busy) &&
+      busy.every(({ start, end }) =>
+        start instanceof Date && end instanceof Date && !isNaN(start.getTime()) && start < end
+      )
+    );
+  }
+
+  /**
+   * Find the participants for whom the date is a weekend, day off or public holiday
+   * The date is taken in each participant's own timezone
+   * @param participants - Participants to check
+   * @param date - Instant whose local date is checked for each participant
+   * @returns One entry per participant who is not working that day
+   */
+  findNonWorkingDays(participants: Participant[], date: Date): NonWorkingDay[] {
+    return participants.flatMap((participant, participantIndex) => {
+      const localDay = this.getLocalDay(getParticipantTimezone(participant), date);
+      const weekday = localDay.weekday as Weekday;
+      const kind = getNonWorkingDayKind(participant, weekday);
+      if (kind) {
+        return [{ participantIndex, weekday, kind }];
+      }
+
+      const holiday = findPublicHoliday(participant.city, localDay);
+      return holiday ? [{ participantIndex, weekday, kind: 'holiday' as const, holidayName: holiday.name }] : [];
+    });
+  }
+
+  /**
+   * Get the start of the date in a timezone
+   */
+  private getLocalDay(timezone: string, date: Date): DateTime {
+    return DateTime.fromJSDate(date).setZone(timezone).startOf('day');
+  }
+
+  /**
+   * Validate a start/end pair used for working hours or a break
+   */
+  private isValidTimeOfDayRange(range: TimeOfDayRange): boolean {
+    return (
+      !!range &&
+      typeof range.start === 'number' &&
+      typeof range.end === 'number' &&
+      this.isValidMinute(range.startMinute) &&
+      this.isValidMinute(range.endMinute) &&
+      range.start >= 0 &&
+      range.start < 24 &&
+      range.end >= 0 &&
+      getEndMinutes(range) <= MINUTES_PER_DAY &&
+      getStartMinutes(range) !== getEndMinutes(range)
+    );
+  }
+
+  /**
+   * Validate an optional minute field (whole minutes 0-59)
+   */
+  private isValidMinute(minute: number | undefined): boolean {
+    return minute === undefined || (Number.isInteger(minute) && minute >= 0 && minute < 60);
+  }
+
+  /**
+   * Convert a participant's working hours to every UTC time range that touches the given date
+   * Each working segment between breaks becomes its own range. An overnight
+   * shift that started the previous day still covers the early hours of the
+   * date, so its segments are included alongside the shift starting on the date
+   */
+  private workingHoursToUTCRanges(
+    participant: Participant,
     date: Date
-  ): { start: DateTime; end: DateTime } {
-    // Create DateTime objects for the start and end of working hours
-    const baseDate = DateTime.fromJSDate(date).setZone(timezone).startOf('day');
-    
-    let start = baseDate.set({ hour: workingHours.start, minute: 0, second: 0, millisecond: 0 });
-    let end = baseDate.set({ hour: workingHours.end, minute: 0, second: 0, millisecond: 0 });
+  ): { start: DateTime; end: DateTime }[] {
+    const timezone = getParticipantTimezone(participant);
+    const localDay = this.getLocalDay(timezone, date);
+    const ranges: { start: DateTime; end: DateTime }[] = [];
 
-    // Handle case where end time is before or equal to start time (spanning midnight)
-    if (workingHours.end <= workingHours.start) {
-      // End time is on the next day
-      end = end.plus({ days: 1 });
+    for (const dayOffset of [-1, 0]) {
+      const shiftDay = localDay.plus({ days: dayOffset });
+      const hours = getHoursForWeekday(participant, shiftDay.weekday as Weekday, DEFAULT_WORKING_HOURS);
+
+      // Only an overnight shift from the previous day reaches into the date,
+      // and there is none when the previous day was a holiday
+      if (!hours || (dayOffset < 0 && (!isOvernight(hours) || findPublicHoliday(participant.city, shiftDay)))) {
+        continue;
+      }
+
+      ranges.push(...getWorkingSegments(hours).map(segment =>
+        this.segmentToUTC(segment, timezone, date, dayOffset)
+      ));
     }
 
+    return ranges;
+  }
+
+  /**
+   * Convert a working segment in a specific timezone to a UTC time range
+   * Segment minutes past 24:00 fall on the following day
+   * @param segment - Start and end in minutes from the start of the shift's day
+   * @param dayOffset - Days to shift the shift's start from the given date
+   */
+  private segmentToUTC(
+    segment: { start: number; end: number },
+    timezone: string,
+    date: Date,
+    dayOffset: number = 0
+  ): { start: DateTime; end: DateTime } {
+    // Create DateTime objects for the start and end of the segment
+    const baseDate = this.getLocalDay(timezone, date).plus({ days: dayOffset });
+    const start = this.atMinuteOfDay(baseDate, segment.start);
+    const end = this.atMinuteOfDay(baseDate, segment.end);
+
     // Convert to UTC
     const startUTC = this.converter.convertToUTC(start, timezone);
     const endUTC = this.converter.convertToUTC(end, timezone);
@@ -144,6 +287,93 @@ export class OverlapCalculator {
     return { start: startUTC, end: endUTC };
   }
 
+  /**
+   * Get the local wall-clock time a number of minutes after the start of a day
+   * Minutes past 24:00 roll over into the following day
+   */
+  private atMinuteOfDay(baseDate: DateTime, minutes: number): DateTime {
+    const dayOffset = Math.floor(minutes / MINUTES_PER_DAY);
+    const minuteOfDay = minutes % MINUTES_PER_DAY;
+
+    return baseDate
+      .plus({ days: dayOffset })
+      .set({ hour: Math.floor(minuteOfDay / 60), minute: minuteOfDay % 60, second: 0, millisecond: 0 });
+  }
+
+  /**
+   * Intersect two sets of time ranges, returning every non-empty intersection
+   * sorted by start time
+   */
+  private intersectRangeSets(
+    rangesA: { start: DateTime; end: DateTime }[],
+    rangesB: { start: DateTime; end: DateTime }[]
+  ): { start: DateTime; end: DateTime }[] {
+    const intersections: { start: DateTime; end: DateTime }[] = [];
+
+    for (const rangeA of rangesA) {
+      for (const rangeB of rangesB) {
+        const intersection = this.calculateIntersection(rangeA, rangeB);
+        if (intersection) {
+          intersections.push(intersection);
+        }
+      }
+    }
+
+    return intersections.sort((a, b) => a.start.toMillis() - b.start.toMillis());
+  }
+
+  /**
+   * Remove busy times from a set of time ranges, splitting any range a busy
+   * time falls inside of
+   */
+  private subtractBusyTimes(
+    ranges: { start: DateTime; end: DateTime }[],
+    busyTimes: BusyTime[]
+  ): { start: DateTime; end: DateTime }[] {
+    return busyTimes.reduce((remaining, busy) => {
+      const busyStart = DateTime.fromJSDate(busy.start, { zone: 'utc' });
+      const busyEnd = DateTime.fromJSDate(busy.end, { zone: 'utc' });
+
+      return remaining.flatMap(range => {
+        if (busyEnd <= range.start || busyStart >= range.end) {
+          return [range];
+        }
+        return [
+          { start: range.start, end: busyStart },
+          { start: busyEnd, end: range.end }
+        ].filter(part => part.start < part.end);
+      });
+    }, ranges);
+  }
+
+  /**
+   * Describe a UTC window in every participant's local time
+   */
+  private toOverlapWindow(
+    window: { start: DateTime; end: DateTime },
+    participants: Participant[]
+  ): OverlapWindow {
+    return {
+      overlapInUTC: window,
+      localOverlaps: participants.map(participant => ({
+        start: this.converter.convertFromUTC(window.start, getParticipantTimezone(participant)),
+        end: this.converter.convertFromUTC(window.end, getParticipantTimezone(participant))
+      })),
+      durationMinutes: window.end.diff(window.start, 'minutes').minutes
+    };
+  }
+
+  /**
+   * Pick the window reported as the overlap when several exist
+   * The longest window wins; on a tie the later one is used, so a shift
+   * starting on the selected date is preferred over the previous night's
+   */
+  private pickPrimaryWindow(windows: OverlapWindow[]): OverlapWindow {
+    return windows.reduce((best, current) =>
+      current.durationMinutes >= best.durationMinutes ? current : best
+    );
+  }
+
   /**
    * Calculate the intersection of two time ranges
    * Returns null if there is no overlap
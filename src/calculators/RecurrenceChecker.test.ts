@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecurrenceChecker } from './RecurrenceChecker';
+import type { City, Participant } from '../types';
+
+describe('RecurrenceChecker', () => {
+  let checker: RecurrenceChecker;
+
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+  const sydney: City = { name: 'Sydney', country: 'Australia', region: 'New South Wales', timezone: 'Australia/Sydney' };
+
+  // Sydney starts at 8 AM
+  const participants: Participant[] = [
+    { city: newYork },
+    { city: sydney, workingHours: { start: 8, end: 17 } }
+  ];
+
+  beforeEach(() => {
+    checker = new RecurrenceChecker();
+  });
+
+  it('should report every participant\'s local time and quality for each occurrence', () => {
+    const report = checker.checkRecurrence(participants, 'FREQ=WEEKLY;COUNT=52', 0, '2024-01-15T16:00');
+
+    expect(report.occurrences).toHaveLength(52);
+
+    // Monday 4 PM in New York is Tuesday 8 AM in Sydney in January...
+    const january = report.occurrences[0];
+    expect(january.start.toISOString()).toBe('2024-01-15T21:00:00.000Z');
+    expect(january.localTimes.map(time => time.toFormat('ccc HH:mm'))).toEqual(['Mon 16:00', 'Tue 08:00']);
+    expect(report.occurrences[1].qualities).toEqual(['Acceptable Time', 'Acceptable Time']);
+
+    // ...but 6 AM once New York is on summer time and Sydney is not
+    const july = report.occurrences[26];
+    expect(july.localTimes.map(time => time.toFormat('LLL d HH:mm'))).toEqual(['Jul 15 16:00', 'Jul 16 06:00']);
+    expect(july.qualities).toEqual(['Acceptable Time', 'Not Recommended']);
+  });
+
+  it('should summarize the qualities per participant', () => {
+    const report = checker.checkRecurrence(participants, 'FREQ=WEEKLY;COUNT=52', 0, '2024-01-15T16:00');
+
+    // Mar 11 to Oct 28 the call is before 8 AM in Sydney
+    expect(report.summary[1].qualityCounts['Not Recommended']).toBe(34);
+    // Six of the Mondays are US public holidays
+    expect(report.summary[0].qualityCounts).toEqual({ 'Perfect Time': 0, 'Acceptable Time': 46, 'Not Recommended': 6 });
+  });
+
+  it('should not recommend occurrences on a weekend or public holiday', () => {
+    const riyadh: City = { name: 'Riyadh', country: 'Saudi Arabia', timezone: 'Asia/Riyadh' };
+    // Thursday 10 AM in New York is 6 PM in Riyadh, within these long hours, but Friday is the weekend there
+    const report = checker.checkRecurrence(
+      [{ city: newYork }, { city: riyadh, workingHours: { start: 0, end: 23 } }],
+      'FREQ=WEEKLY;BYDAY=TH,FR;COUNT=2',
+      0,
+      '2024-01-11T10:00'
+    );
+
+    const [thursday, friday] = report.occurrences;
+    expect(thursday.qualities[1]).not.toBe('Not Recommended');
+    expect(thursday.nonWorkingDays).toEqual([]);
+    expect(friday.qualities[1]).toBe('Not Recommended');
+    expect(friday.nonWorkingDays).toEqual([{ participantIndex: 1, weekday: 5, kind: 'weekend' }]);
+
+    // Martin Luther King Jr. Day in New York
+    const holiday = checker.checkRecurrence(participants, 'FREQ=DAILY;COUNT=1', 0, '2024-01-15T16:00').occurrences[0];
+    expect(holiday.qualities[0]).toBe('Not Recommended');
+    expect(holiday.nonWorkingDays).toEqual([
+      { participantIndex: 0, weekday: 1, kind: 'holiday', holidayName: 'Martin Luther King Jr. Day' }
+    ]);
+  });
+
+  it('should anchor the series in any participant\'s zone', () => {
+    const report = checker.checkRecurrence(participants, 'FREQ=DAILY;COUNT=2', 1, '2024-01-16T08:00');
+
+    expect(report.occurrences[0].localTimes[1].toFormat('HH:mm')).toBe('08:00');
+    expect(report.occurrences[0].localTimes[0].toFormat('LLL d HH:mm')).toBe('Jan 15 16:00');
+  });
+
+  it('should throw for an invalid anchor or rule', () => {
+    expect(() => checker.checkRecurrence(participants, 'FREQ=WEEKLY', 5, '2024-01-15T16:00'))
+      .toThrow('Invalid anchor participant: 5');
+    expect(() => checker.checkRecurrence(participants, 'FREQ=WEEKLY', 0, 'next monday'))
+      .toThrow('Invalid anchor time: next monday');
+    expect(() => checker.checkRecurrence(participants, 'FREQ=SECONDLY', 0, '2024-01-15T16:00'))
+      .toThrow('Unsupported RRULE frequency: SECONDLY');
+  });
+});
@@ -0,0 +1,85 @@
+import { DateTime } from 'luxon';
+import type { Participant, MeetingQuality, RecurrenceReport, RecurrenceSummary } from '../types';
+import { MeetingSuggester } from './MeetingSuggester';
+import { OverlapCalculator } from './OverlapCalculator';
+import { TimeZoneConverter } from '../utils/TimeZoneConverter';
+import { parseRRule, expandRRule } from '../utils/rrule';
+import { getParticipantTimezone } from '../utils/participants';
+
+/**
+ * RecurrenceChecker expands a recurring meeting and reports how every
+ * occurrence lands for each participant, so drift caused by clock changes
+ * (such as a weekly call becoming a 6am meeting in Sydney for half the year)
+ * shows up before the series is created. An occurrence on someone's weekend,
+ * day off or public holiday is never a good time for them.
+ */
+export class RecurrenceChecker {
+  private meetingSuggester: MeetingSuggester;
+  private overlapCalculator: OverlapCalculator;
+  private timeZoneConverter: TimeZoneConverter;
+
+  /**
+   * @param meetingSuggester - Suggester used to rate each occurrence (default: the default scorer)
+   */
+  constructor(meetingSuggester: MeetingSuggester = new MeetingSuggester()) {
+    this.meetingSuggester = meetingSuggester;
+    this.overlapCalculator = new OverlapCalculator();
+    this.timeZoneConverter = new TimeZoneConverter();
+  }
+
+  /**
+   * Check every occurrence of a recurring meeting
+   * @param participants - Cities and working hours of the attendees
+   * @param rrule - RFC 5545 recurrence rule, e.g. "FREQ=WEEKLY;COUNT=52"
+   * @param anchorIndex - Participant whose timezone the series is created in
+   * @param anchorTime - Local date and time of the first occurrence in that zone, e.g. "2024-01-15T09:00"
+   * @returns Each occurrence's local time, quality and non-working days for every participant, and a summary per participant
+   * @throws Error if the rule, anchor participant or anchor time is invalid
+   */
+  checkRecurrence(
+    participants: Participant[],
+    rrule: string,
+    anchorIndex: number,
+    anchorTime: string
+  ): RecurrenceReport {
+    const anchor = participants[anchorIndex];
+    if (!anchor) {
+      throw new Error(`Invalid anchor participant: ${anchorIndex}`);
+    }
+
+    const start = DateTime.fromISO(anchorTime, { zone: getParticipantTimezone(anchor) });
+    if (!start.isValid) {
+      throw new Error(`Invalid anchor time: ${anchorTime}`);
+    }
+
+    const rule = parseRRule(rrule);
+    const summary: RecurrenceSummary[] = participants.map((_, participantIndex) => ({
+      participantIndex,
+      qualityCounts: { 'Perfect Time': 0, 'Acceptable Time': 0, 'Not Recommended': 0 }
+    }));
+
+    const occurrences = expandRRule(rule, start).map(occurrence => {
+      const utc = this.timeZoneConverter.convertToUTC(occurrence, getParticipantTimezone(anchor));
+
+      const localTimes = participants.map(participant =>
+        this.timeZoneConverter.convertFromUTC(utc, getParticipantTimezone(participant))
+      );
+      const nonWorkingDays = this.overlapCalculator.findNonWorkingDays(participants, utc.toJSDate());
+      const qualities: MeetingQuality[] = localTimes.map((time, index) =>
+        nonWorkingDays.some(day => day.participantIndex === index)
+          ? 'Not Recommended'
+          : this.meetingSuggester.categorizeMeetingTime(
+            time,
+            this.meetingSuggester.getWorkingHoursAt(participants[index], time),
+            getParticipantTimezone(participants[index])
+          )
+      );
+
+      qualities.forEach((quality, index) => summary[index].qualityCounts[quality]++);
+
+      return { start: utc.toJSDate(), localTimes, qualities, nonWorkingDays };
+    });
+
+    return { occurrences, summary };
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SeriesPlanner } from './SeriesPlanner';
+import type { City, Participant } from '../types';
+
+describe('SeriesPlanner', () => {
+  let planner: SeriesPlanner;
+
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const paris: City = { name: 'Paris', country: 'France', timezone: 'Europe/Paris' };
+  const sydney: City = { name: 'Sydney', country: 'Australia', region: 'New South Wales', timezone: 'Australia/Sydney' };
+
+  // Wednesday Jan 17, 2024 at noon UTC, so every zone shares the calendar date
+  const wednesday = new Date('2024-01-17T12:00:00Z');
+
+  beforeEach(() => {
+    planner = new SeriesPlanner();
+  });
+
+  it('should take the best slot every time when the overlap suits everyone', () => {
+    const plan = planner.planSeries([{ city: london }, { city: paris }], wednesday, 4);
+
+    expect(plan.occurrences).toHaveLength(4);
+    for (const occurrence of plan.occurrences) {
+      expect(occurrence.suggestion).not.toBeNull();
+      expect(occurrence.suggestion?.quality).not.toBe('Not Recommended');
+      expect(occurrence.inconveniencedParticipants).toEqual([]);
+    }
+    expect(plan.tally).toEqual([
+      { participantIndex: 0, notRecommendedCount: 0, minutesOutsideHours: 0 },
+      { participantIndex: 1, notRecommendedCount: 0, minutesOutsideHours: 0 }
+    ]);
+  });
+
+  it('should rotate the inconvenient slot when there is no overlap', () => {
+    // London 9-18 GMT and Sydney 9-18 AEDT never overlap
+    const participants: Participant[] = [{ city: london }, { city: sydney }];
+    const plan = planner.planSeries(participants, wednesday, 4);
+
+    expect(plan.occurrences.map(occurrence => occurrence.inconveniencedParticipants)).toEqual([
+      [0], [1], [0], [1]
+    ]);
+    expect(plan.tally.map(entry => entry.notRecommendedCount)).toEqual([2, 2]);
+    expect(plan.tally.map(entry => entry.minutesOutsideHours)).toEqual([60, 60]);
+  });
+
+  it('should report each participant\'s local time and quality for a rotated slot', () => {
+    const participants: Participant[] = [{ city: london }, { city: sydney }];
+    const [first, second] = planner.planSeries(participants, wednesday, 2).occurrences;
+
+    // London takes an early call, then Sydney a late one
+    expect(first.suggestion?.localTimes.map(time => time.toFormat('HH:mm'))).toEqual(['06:30', '17:30']);
+    expect(first.participantQualities).toEqual(['Not Recommended', 'Acceptable Time']);
+    expect(second.suggestion?.localTimes.map(time => time.toFormat('HH:mm'))).toEqual(['09:00', '20:00']);
+    expect(second.participantQualities).toEqual(['Acceptable Time', 'Not Recommended']);
+    expect(second.suggestion?.quality).toBe('Not Recommended');
+  });
+
+  it('should stay within a few hours of everyone\'s working day', () => {
+    const participants: Participant[] = [{ city: london }, { city: sydney }];
+    const plan = planner.planSeries(participants, wednesday, 6, 'weekly', 60);
+
+    for (const occurrence of plan.occurrences) {
+      const londonHour = occurrence.suggestion!.localTimes[0].hour;
+      expect(londonHour).toBeGreaterThanOrEqual(6);
+      expect(londonHour).toBeLessThan(21);
+    }
+  });
+
+  it('should step through occurrences by the cadence and skip days off', () => {
+    const participants: Participant[] = [{ city: london }, { city: paris }];
+
+    const daily = planner.planSeries(participants, wednesday, 5, 'daily');
+    expect(daily.occurrences.map(occurrence => occurrence.date.toISOString().slice(0, 10))).toEqual([
+      '2024-01-17', '2024-01-18', '2024-01-19', '2024-01-20', '2024-01-21'
+    ]);
+    expect(daily.occurrences[3].suggestion).toBeNull();
+    expect(daily.occurrences[4].suggestion).toBeNull();
+
+    const biweekly = planner.planSeries(participants, wednesday, 2, 'biweekly');
+    expect(biweekly.occurrences[1].date.toISOString().slice(0, 10)).toBe('2024-01-31');
+
+    const monthly = planner.planSeries(participants, wednesday, 2, 'monthly');
+    expect(monthly.occurrences[1].date.toISOString().slice(0, 10)).toBe('2024-02-17');
+  });
+
+  it('should not move a meeting onto imported busy times', () => {
+    // London's existing meetings fill the 09:00-17:00 UTC overlap with Paris
+    const busy = [{ start: new Date('2024-01-17T09:00:00Z'), end: new Date('2024-01-17T17:00:00Z') }];
+    const [occurrence] = planner.planSeries([{ city: london, busy }, { city: paris }], wednesday, 1).occurrences;
+
+    const start = occurrence.suggestion!.localTimes[0].toMillis();
+    const end = start + occurrence.suggestion!.durationMinutes * 60 * 1000;
+    expect(end <= busy[0].start.getTime() || start >= busy[0].end.getTime()).toBe(true);
+    expect(occurrence.inconveniencedParticipants.length).toBeGreaterThan(0);
+
+    // With the whole day booked there is no slot to take
+    const allDay = [{ start: new Date('2024-01-16T00:00:00Z'), end: new Date('2024-01-19T00:00:00Z') }];
+    const [booked] = planner.planSeries([{ city: london, busy: allDay }, { city: paris }], wednesday, 1).occurrences;
+    expect(booked.suggestion).toBeNull();
+  });
+
+  it('should throw for an invalid number of occurrences', () => {
+    expect(() => planner.planSeries([{ city: london }, { city: paris }], wednesday, 0))
+      .toThrow('Number of occurrences must be a positive whole number');
+  });
+});
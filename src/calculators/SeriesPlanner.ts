@@ -0,0 +1,319 @@
+import { DateTime } from 'luxon';
+import type {
+  Participant,
+  MeetingSuggestion,
+  MeetingQuality,
+  SeriesCadence,
+  SeriesOccurrence,
+  SeriesPlan,
+  InconvenienceTally,
+  SlotStep
+} from '../types';
+import { OverlapCalculator } from './OverlapCalculator';
+import { MeetingSuggester, DEFAULT_MEETING_DURATION_MINUTES, DEFAULT_SLOT_STEP_MINUTES } from './MeetingSuggester';
+import { getWorkingSegments, MINUTES_PER_DAY } from '../utils/workingHours';
+import { getParticipantTimezone } from '../utils/participants';
+
+/**
+ * How far outside their working day a participant can be asked to meet,
+ * in minutes, as long as some slot stays within that limit for everyone
+ */
+const MAX_STRETCH_MINUTES = 3 * 60;
+
+/**
+ * A slot considered for an occurrence, with how inconvenient it is for each participant
+ */
+interface Candidate {
+  suggestion: MeetingSuggestion;
+  minutesOutside: number[];
+  costs: number[]; // minutes outside plus the distance from working hours
+  inconvenienced: boolean[];
+}
+
+/**
+ * SeriesPlanner picks a time for every occurrence of a recurring meeting.
+ * When a slot works for everyone it takes the best one; when the overlap is
+ * too poor, it rotates the inconvenient slots so the burden of meeting
+ * outside working hours is spread evenly across the participants.
+ */
+export class SeriesPlanner {
+  private overlapCalculator: OverlapCalculator;
+  private meetingSuggester: MeetingSuggester;
+
+  /**
+   * @param meetingSuggester - Suggester used to score slots (default: the default scorer)
+   */
+  constructor(meetingSuggester: MeetingSuggester = new MeetingSuggester()) {
+    this.overlapCalculator = new OverlapCalculator();
+    this.meetingSuggester = meetingSuggester;
+  }
+
+  /**
+   * Plan a recurring meeting series
+   * @param participants - Cities and working hours of the attendees (at least two)
+   * @param startDate - Date of the first occurrence
+   * @param occurrences - Number of occurrences to plan
+   * @param cadence - How often the meeting repeats (default: weekly)
+   * @param meetingDurationMinutes - Length of each meeting (default: 30)
+   * @param stepMinutes - Minutes between candidate start times (default: 30)
+   * @returns The chosen slot for every occurrence and the inconvenience tally per participant
+   * @throws Error if the number of occurrences is not a positive whole number, or the
+   * participants or meeting settings are invalid
+   */
+  planSeries(
+    participants: Participant[],
+    startDate: Date,
+    occurrences: number,
+    cadence: SeriesCadence = 'weekly',
+    meetingDurationMinutes: number = DEFAULT_MEETING_DURATION_MINUTES,
+    stepMinutes: SlotStep = DEFAULT_SLOT_STEP_MINUTES
+  ): SeriesPlan {
+    if (!Number.isInteger(occurrences) || occurrences < 1) {
+      throw new Error('Number of occurrences must be a positive whole number');
+    }
+
+    const tally: InconvenienceTally[] = participants.map((_, participantIndex) => ({
+      participantIndex,
+      notRecommendedCount: 0,
+      minutesOutsideHours: 0
+    }));
+
+    const start = DateTime.fromJSDate(startDate);
+    const plannedOccurrences: SeriesOccurrence[] = [];
+
+    for (let index = 0; index < occurrences; index++) {
+      const date = this.getOccurrenceDate(start, cadence, index).toJSDate();
+      const candidate = this.chooseCandidate(participants, date, tally, meetingDurationMinutes, stepMinutes);
+
+      if (!candidate) {
+        plannedOccurrences.push({
+          date,
+          suggestion: null,
+          participantQualities: [],
+          inconveniencedParticipants: []
+        });
+        continue;
+      }
+
+      candidate.inconvenienced.forEach((inconvenienced, participantIndex) => {
+        if (inconvenienced) {
+          tally[participantIndex].notRecommendedCount++;
+        }
+        tally[participantIndex].minutesOutsideHours += candidate.minutesOutside[participantIndex];
+      });
+
+      plannedOccurrences.push({
+        date,
+        suggestion: candidate.suggestion,
+        participantQualities: this.getParticipantQualities(candidate),
+        inconveniencedParticipants: candidate.inconvenienced
+          .map((inconvenienced, participantIndex) => (inconvenienced ? participantIndex : -1))
+          .filter(participantIndex => participantIndex !== -1)
+      });
+    }
+
+    return { occurrences: plannedOccurrences, tally };
+  }
+
+  /**
+   * Get the date of an occurrence, counted from the first
+   */
+  private getOccurrenceDate(start: DateTime, cadence: SeriesCadence, index: number): DateTime {
+    switch (cadence) {
+      case 'daily':
+        return start.plus({ days: index });
+      case 'weekly':
+        return start.plus({ weeks: index });
+      case 'biweekly':
+        return start.plus({ weeks: index * 2 });
+      case 'monthly':
+        return start.plus({ months: index });
+    }
+  }
+
+  /**
+   * Choose the slot for one occurrence
+   * The best suggestion wins when it suits everyone; otherwise every start
+   * time of the day is considered and the burden goes to whoever has carried
+   * it least so far. Slots that clash with anyone's busy times are never used
+   * @returns The chosen candidate, or null when someone is not working that day
+   * or busy times leave no slot free
+   */
+  private chooseCandidate(
+    participants: Participant[],
+    date: Date,
+    tally: InconvenienceTally[],
+    meetingDurationMinutes: number,
+    stepMinutes: SlotStep
+  ): Candidate | null {
+    const overlap = this.overlapCalculator.calculateOverlap(participants, date);
+    if (overlap.reason === 'non-working-day') {
+      return null;
+    }
+
+    const convenient = this.meetingSuggester
+      .generateSuggestions(overlap, participants, meetingDurationMinutes, stepMinutes)
+      .map(suggestion => this.toCandidate(suggestion, participants))
+      .filter(candidate => !candidate.inconvenienced.some(Boolean));
+
+    if (convenient.length > 0) {
+      const best = this.meetingSuggester.findBestSuggestion(convenient.map(candidate => candidate.suggestion));
+      return convenient.find(candidate => candidate.suggestion === best) ?? null;
+    }
+
+    const candidates = this.getDayCandidates(participants, date, meetingDurationMinutes, stepMinutes)
+      .filter(candidate => !this.isBusy(participants, candidate.suggestion));
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const withinStretch = candidates.filter(candidate =>
+      candidate.costs.every((cost, index) => cost - candidate.minutesOutside[index] <= MAX_STRETCH_MINUTES)
+    );
+
+    return this.pickFairest(withinStretch.length > 0 ? withinStretch : candidates, tally);
+  }
+
+  /**
+   * Build a candidate for every start time across City A's local day
+   */
+  private getDayCandidates(
+    participants: Participant[],
+    date: Date,
+    meetingDurationMinutes: number,
+    stepMinutes: SlotStep
+  ): Candidate[] {
+    const dayStart = DateTime.fromJSDate(date).setZone(getParticipantTimezone(participants[0])).startOf('day');
+    const candidates: Candidate[] = [];
+
+    for (let minutes = 0; minutes < MINUTES_PER_DAY; minutes += stepMinutes) {
+      const startTime = dayStart.plus({ minutes });
+      const localTimes = participants.map(participant => startTime.setZone(getParticipantTimezone(participant)));
+      const participantScores = localTimes.map((time, index) =>
+        this.meetingSuggester.scoreMeetingTime(
+          time,
+          this.meetingSuggester.getWorkingHoursAt(participants[index], time),
+          getParticipantTimezone(participants[index])
+        )
+      );
+      const score = Math.min(...participantScores);
+
+      candidates.push(this.toCandidate({
+        localTimes,
+        quality: this.meetingSuggester.getQualityForScore(score),
+        durationMinutes: meetingDurationMinutes,
+        score,
+        participantScores
+      }, participants));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Check whether a suggestion overlaps any participant's busy times
+   */
+  private isBusy(participants: Participant[], suggestion: MeetingSuggestion): boolean {
+    const start = suggestion.localTimes[0].toMillis();
+    const end = start + suggestion.durationMinutes * 60 * 1000;
+
+    return participants.some(participant =>
+      (participant.busy ?? []).some(busy => busy.start.getTime() < end && busy.end.getTime() > start)
+    );
+  }
+
+  /**
+   * Work out how inconvenient a suggestion is for each participant
+   */
+  private toCandidate(suggestion: MeetingSuggestion, participants: Participant[]): Candidate {
+    const minutesOutside: number[] = [];
+    const costs: number[] = [];
+
+    participants.forEach((participant, index) => {
+      const { outside, distance } = this.measureOutsideHours(
+        participant,
+        suggestion.localTimes[index],
+        suggestion.durationMinutes
+      );
+      minutesOutside.push(outside);
+      costs.push(outside + distance);
+    });
+
+    const inconvenienced = participants.map((_, index) =>
+      costs[index] > 0 ||
+      this.meetingSuggester.getQualityForScore(suggestion.participantScores?.[index] ?? 0) === 'Not Recommended'
+    );
+
+    // The slot is rated by whoever it suits least
+    const quality = inconvenienced.some(Boolean) ? 'Not Recommended' : suggestion.quality;
+
+    return { suggestion: { ...suggestion, quality }, minutesOutside, costs, inconvenienced };
+  }
+
+  /**
+   * Measure how many meeting minutes fall outside a participant's working
+   * hours, and how far the meeting is from the nearest working minute
+   */
+  private measureOutsideHours(
+    participant: Participant,
+    time: DateTime,
+    durationMinutes: number
+  ): { outside: number; distance: number } {
+    const localTime = time.setZone(getParticipantTimezone(participant));
+    const hours = this.meetingSuggester.getWorkingHoursAt(participant, localTime);
+
+    const start = localTime.hour * 60 + localTime.minute;
+    const end = start + durationMinutes;
+
+    // Working segments of the previous, current and next day, which also
+    // covers the tail of an overnight shift
+    const segments = [-MINUTES_PER_DAY, 0, MINUTES_PER_DAY].flatMap(shift =>
+      getWorkingSegments(hours).map(segment => ({ start: segment.start + shift, end: segment.end + shift }))
+    );
+
+    const inside = segments.reduce(
+      (total, segment) => total + Math.max(0, Math.min(end, segment.end) - Math.max(start, segment.start)),
+      0
+    );
+    const outside = durationMinutes - inside;
+    const distance = outside === 0
+      ? 0
+      : Math.min(...segments.map(segment => Math.max(0, segment.start - end, start - segment.end)));
+
+    return { outside, distance };
+  }
+
+  /**
+   * Pick the candidate that spreads the burden most evenly: the lowest
+   * highest tally of inconvenient occurrences, then the fewest people
+   * inconvenienced, then the least total inconvenience, then the lowest
+   * highest tally of minutes, then the highest score, then the earliest
+   */
+  private pickFairest(candidates: Candidate[], tally: InconvenienceTally[]): Candidate {
+    const rank = (candidate: Candidate): number[] => [
+      Math.max(...tally.map((entry, index) => entry.notRecommendedCount + (candidate.inconvenienced[index] ? 1 : 0))),
+      candidate.inconvenienced.filter(Boolean).length,
+      candidate.costs.reduce((total, cost) => total + cost, 0),
+      Math.max(...tally.map((entry, index) => entry.minutesOutsideHours + candidate.minutesOutside[index])),
+      -(candidate.suggestion.score ?? 0)
+    ];
+
+    const compare = (a: number[], b: number[]): number => {
+      const index = a.findIndex((value, position) => value !== b[position]);
+      return index === -1 ? 0 : a[index] - b[index];
+    };
+
+    return candidates.reduce((best, current) => (compare(rank(current), rank(best)) < 0 ? current : best));
+  }
+
+  /**
+   * Get each participant's quality for a candidate
+   */
+  private getParticipantQualities(candidate: Candidate): MeetingQuality[] {
+    return candidate.inconvenienced.map((inconvenienced, index) =>
+      inconvenienced
+        ? 'Not Recommended'
+        : this.meetingSuggester.getQualityForScore(candidate.suggestion.participantScores?.[index] ?? 0)
+    );
+  }
+}
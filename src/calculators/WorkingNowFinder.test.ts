@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WorkingNowFinder } from './WorkingNowFinder';
+import type { City, Participant } from '../types';
+
+describe('WorkingNowFinder', () => {
+  let finder: WorkingNowFinder;
+
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+  const berlin: City = { name: 'Berlin', country: 'Germany', region: 'Berlin', timezone: 'Europe/Berlin' };
+
+  // Wednesday: 12:00 in London, 13:00 in Berlin, 07:00 in New York
+  const at = new Date('2024-01-17T12:00:00Z');
+
+  beforeEach(() => {
+    finder = new WorkingNowFinder();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('findWorking', () => {
+    it('should list who is inside their working hours, most time left first', () => {
+      const participants: Participant[] = [{ city: berlin }, { city: newYork }, { name: 'Priya', city: london }];
+      const working = finder.findWorking(participants, at);
+
+      expect(working.map(entry => entry.participantIndex)).toEqual([2, 0]);
+      expect(working.map(entry => finder.formatEntry(entry, participants))).toEqual([
+        'Priya (London): 12:00 PM, 6h left',
+        'Berlin: 01:00 PM, 5h left'
+      ]);
+    });
+
+    it('should use the current time when no instant is given', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(at);
+
+      expect(finder.findWorking([{ city: london }, { city: newYork }]).map(entry => entry.minutesLeft)).toEqual([6 * 60]);
+    });
+
+    it('should count down to the next break and skip people on one', () => {
+      const working = finder.findWorking([
+        { city: london, workingHours: { start: 9, end: 18, breaks: [{ start: 13, end: 14 }] } },
+        { city: berlin, workingHours: { start: 9, end: 18, breaks: [{ start: 13, end: 14 }] } }
+      ], at);
+
+      expect(working).toHaveLength(1);
+      expect(working[0]).toMatchObject({ participantIndex: 0, minutesLeft: 6 * 60, minutesToBreak: 60 });
+    });
+
+    it('should include a night shift that started the day before', () => {
+      // 03:00 on Wednesday in New York, inside Tuesday's 22:00-06:00 shift
+      const working = finder.findWorking(
+        [{ city: newYork, workingHours: { start: 22, end: 6 } }],
+        new Date('2024-01-17T08:00:00Z')
+      );
+
+      expect(working.map(entry => entry.minutesLeft)).toEqual([3 * 60]);
+    });
+
+    it('should skip weekends, public holidays and busy times', () => {
+      expect(finder.findWorking([{ city: london }], new Date('2024-01-20T12:00:00Z'))).toEqual([]);
+      expect(finder.findWorking([{ city: london }], new Date('2024-12-25T12:00:00Z'))).toEqual([]);
+      expect(finder.findWorking(
+        [{ city: london, busy: [{ start: new Date('2024-01-17T11:30:00Z'), end: new Date('2024-01-17T12:30:00Z') }] }],
+        at
+      )).toEqual([]);
+    });
+  });
+});
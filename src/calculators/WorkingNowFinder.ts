@@ -0,0 +1,96 @@
+import { DateTime } from 'luxon';
+import type { Participant, Weekday, WorkingNowEntry } from '../types';
+import { DEFAULT_WORKING_HOURS } from './OverlapCalculator';
+import { TimeZoneConverter } from '../utils/TimeZoneConverter';
+import { getWorkingSegments, formatDuration, MINUTES_PER_DAY } from '../utils/workingHours';
+import { getHoursForWeekday } from '../utils/schedule';
+import { findPublicHoliday } from '../utils/holidays';
+import { getParticipantName, getParticipantTimezone } from '../utils/participants';
+
+/**
+ * WorkingNowFinder answers "who can I reach right now?": it lists the
+ * participants who are inside their working hours at an instant, with how
+ * long each has left in their day.
+ * Weekends, days off, public holidays, breaks, overnight shifts and busy
+ * times follow the same rules as the overlap calculation.
+ */
+export class WorkingNowFinder {
+  private converter: TimeZoneConverter;
+
+  constructor() {
+    this.converter = new TimeZoneConverter();
+  }
+
+  /**
+   * Find the participants who are working at an instant
+   * @param participants - People or cities to check
+   * @param at - The instant to check (default: now)
+   * @returns One entry per working participant, most time left first
+   * @throws Error if a participant's timezone is invalid
+   */
+  findWorking(participants: Participant[], at?: Date): WorkingNowEntry[] {
+    return participants
+      .flatMap((participant, participantIndex) => {
+        const timezone = getParticipantTimezone(participant);
+        const localTime = at
+          ? DateTime.fromJSDate(at).setZone(timezone)
+          : this.converter.getCurrentTime(timezone);
+        const entry = this.checkParticipant(participant, localTime);
+        return entry ? [{ participantIndex, localTime, ...entry }] : [];
+      })
+      .sort((a, b) => b.minutesLeft - a.minutesLeft || a.participantIndex - b.participantIndex);
+  }
+
+  /**
+   * Format an entry for display
+   * Format: "Priya (Bangalore): 03:15 PM, 2h 45m left" with ", break in 30m"
+   * when a break comes first
+   * @param entry - The entry to format
+   * @param participants - Participants that were checked, in the same order
+   * @returns Formatted string
+   */
+  formatEntry(entry: WorkingNowEntry, participants: Participant[]): string {
+    const name = getParticipantName(participants[entry.participantIndex]);
+    const breakNote = entry.minutesToBreak !== undefined ? `, break in ${formatDuration(entry.minutesToBreak)}` : '';
+    return `${name}: ${entry.localTime.toFormat('hh:mm a')}, ${formatDuration(entry.minutesLeft)} left${breakNote}`;
+  }
+
+  /**
+   * Check whether a participant is working at a local time
+   * The shift that started the previous day is checked too, for overnight hours
+   */
+  private checkParticipant(
+    participant: Participant,
+    localTime: DateTime
+  ): Pick<WorkingNowEntry, 'minutesLeft' | 'minutesToBreak'> | null {
+    const instant = localTime.toMillis();
+    if ((participant.busy ?? []).some(({ start, end }) => start.getTime() <= instant && instant < end.getTime())) {
+      return null;
+    }
+
+    for (const dayOffset of [0, -1]) {
+      const shiftDay = localTime.startOf('day').plus({ days: dayOffset });
+      const hours = getHoursForWeekday(participant, shiftDay.weekday as Weekday, DEFAULT_WORKING_HOURS);
+      if (!hours) {
+        continue;
+      }
+
+      // Minutes since the start of the shift's day, counting past midnight for the previous day
+      const minute = localTime.hour * 60 + localTime.minute - dayOffset * MINUTES_PER_DAY;
+      const segments = getWorkingSegments(hours);
+      const current = segments.findIndex(segment => segment.start <= minute && minute < segment.end);
+      // Holidays take longest to look up, so they are checked last
+      if (current === -1 || findPublicHoliday(participant.city, shiftDay)) {
+        continue;
+      }
+
+      const isLast = current === segments.length - 1;
+      return {
+        minutesLeft: segments[segments.length - 1].end - minute,
+        ...(isLast ? {} : { minutesToBreak: segments[current].end - minute })
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { registerScorer, getScorer, getScorerNames, DEFAULT_SCORER_NAME } from './scorerRegistry';
+import { CurveScorer } from './CurveScorer';
+
+describe('scorerRegistry', () => {
+  it('should provide the default curve scorer', () => {
+    expect(getScorer(DEFAULT_SCORER_NAME)).toBeInstanceOf(CurveScorer);
+    expect(getScorerNames()).toContain(DEFAULT_SCORER_NAME);
+  });
+
+  it('should register and replace scorers by name', () => {
+    const early = { score: () => 90 };
+    const late = { score: () => 10 };
+
+    registerScorer('registry-test', early);
+    expect(getScorer('registry-test')).toBe(early);
+
+    registerScorer('registry-test', late);
+    expect(getScorer('registry-test')).toBe(late);
+    expect(getScorerNames().filter(name => name === 'registry-test')).toHaveLength(1);
+  });
+
+  it('should throw for unknown or empty names', () => {
+    expect(() => getScorer('missing')).toThrow('Unknown scorer: missing');
+    expect(() => registerScorer(' ', { score: () => 50 })).toThrow('Scorer name must not be empty');
+  });
+});
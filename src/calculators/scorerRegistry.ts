@@ -0,0 +1,44 @@
+import type { MeetingScorer } from '../types';
+import { CurveScorer } from './CurveScorer';
+
+/**
+ * Name of the scorer used when none is chosen
+ */
+export const DEFAULT_SCORER_NAME = 'default';
+
+const scorers = new Map<string, MeetingScorer>([[DEFAULT_SCORER_NAME, new CurveScorer()]]);
+
+/**
+ * Register a scorer so it can be chosen by name
+ * Registering an existing name replaces that scorer
+ * @param name - Name to register the scorer under
+ * @param scorer - The scorer
+ * @throws Error if the name is empty
+ */
+export function registerScorer(name: string, scorer: MeetingScorer): void {
+  if (!name || name.trim() === '') {
+    throw new Error('Scorer name must not be empty');
+  }
+  scorers.set(name, scorer);
+}
+
+/**
+ * Look up a registered scorer
+ * @param name - Name the scorer was registered under
+ * @returns The scorer
+ * @throws Error if no scorer is registered under the name
+ */
+export function getScorer(name: string): MeetingScorer {
+  const scorer = scorers.get(name);
+  if (!scorer) {
+    throw new Error(`Unknown scorer: ${name}`);
+  }
+  return scorer;
+}
+
+/**
+ * Get the names of every registered scorer, in registration order
+ */
+export function getScorerNames(): string[] {
+  return [...scorers.keys()];
+}
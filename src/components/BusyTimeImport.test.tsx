@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { BusyTimeImport } from './BusyTimeImport';
+
+describe('BusyTimeImport Component', () => {
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:1',
+    'DTSTART:20300115T090000Z',
+    'DTEND:20300115T100000Z',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].join('\r\n');
+
+  it('reads the busy times from a calendar file', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+
+    render(<BusyTimeImport label="London" timezone="Europe/London" onChange={handleChange} />);
+
+    const file = new File([ics], 'work.ics', { type: 'text/calendar' });
+    await user.upload(screen.getByLabelText('Import calendar for London'), file);
+
+    await waitFor(() => expect(handleChange).toHaveBeenCalled());
+    expect(handleChange.mock.calls[0][0]).toEqual([
+      { start: new Date('2030-01-15T09:00:00Z'), end: new Date('2030-01-15T10:00:00Z') }
+    ]);
+  });
+
+  it('shows how many busy times are loaded and clears them', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+    const busy = [{ start: new Date('2030-01-15T09:00:00Z'), end: new Date('2030-01-15T10:00:00Z') }];
+
+    render(<BusyTimeImport label="London" timezone="Europe/London" busy={busy} onChange={handleChange} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('1 busy time loaded');
+
+    await user.click(screen.getByRole('button', { name: 'Clear busy times for London' }));
+    expect(handleChange).toHaveBeenCalledWith(undefined);
+  });
+
+  it('explains why a file cannot be read', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+
+    render(<BusyTimeImport label="London" timezone="Europe/London" onChange={handleChange} />);
+
+    const file = new File(['not a calendar'], 'notes.ics', { type: 'text/calendar' });
+    await user.upload(screen.getByLabelText('Import calendar for London'), file);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Not an iCalendar file');
+    expect(handleChange).not.toHaveBeenCalled();
+  });
+
+  it('lists the events it had to skip', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+    const busy = [{ start: new Date('2030-01-15T09:00:00Z'), end: new Date('2030-01-15T10:00:00Z') }];
+    const withHourly = ics.replace(
+      'END:VCALENDAR',
+      ['BEGIN:VEVENT', 'SUMMARY:Hourly check', 'DTSTART:20300115T120000Z', 'RRULE:FREQ=HOURLY', 'END:VEVENT', 'END:VCALENDAR'].join('\r\n')
+    );
+
+    render(<BusyTimeImport label="London" timezone="Europe/London" busy={busy} onChange={handleChange} />);
+
+    const file = new File([withHourly], 'work.ics', { type: 'text/calendar' });
+    await user.upload(screen.getByLabelText('Import calendar for London'), file);
+
+    expect(await screen.findByRole('list', { name: 'Import warnings for London' })).toHaveTextContent(
+      'Skipped "Hourly check": Unsupported RRULE frequency: HOURLY'
+    );
+    expect(handleChange.mock.calls[0][0]).toEqual(busy);
+  });
+});
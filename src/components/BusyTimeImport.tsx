@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { DateTime } from 'luxon';
+import type { BusyTime } from '../types';
+import { parseBusyTimes } from '../utils/freebusy';
+import './BusyTimeImport.css';
+
+interface BusyTimeImportProps {
+  label: string;
+  timezone: string;
+  busy?: BusyTime[];
+  onChange: (busy: BusyTime[] | undefined) => void;
+}
+
+/**
+ * Read a file's text
+ */
+const readFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Unable to read ${file.name}`));
+    reader.readAsText(file);
+  });
+
+export const BusyTimeImport: React.FC<BusyTimeImportProps> = ({
+  label,
+  timezone,
+  busy,
+  onChange,
+}) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const id = `busy-import-${label}`;
+
+  // The file never leaves the browser
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const text = await readFile(file);
+      const result = parseBusyTimes(text, timezone, DateTime.now().startOf('day').toJSDate());
+      onChange(result.busyTimes);
+      setWarnings(result.warnings);
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Unable to read ${file.name}`);
+    }
+  };
+
+  const handleClear = () => {
+    onChange(undefined);
+    setFileName(null);
+    setError(null);
+    setWarnings([]);
+  };
+
+  return (
+    <div className="busy-import">
+      <label htmlFor={id} className="busy-import-label">Busy times</label>
+      <input
+        id={id}
+        type="file"
+        accept=".ics,text/calendar"
+        onChange={handleFile}
+        aria-label={`Import calendar for ${label}`}
+      />
+      {busy && (
+        <div className="busy-import-status" role="status">
+          <span>
+            {busy.length} busy {busy.length === 1 ? 'time' : 'times'} loaded{fileName ? ` from ${fileName}` : ''}
+          </span>
+          <button
+            type="button"
+            className="busy-import-clear"
+            onClick={handleClear}
+            aria-label={`Clear busy times for ${label}`}
+          >
+            Clear
+          </button>
+        </div>
+      )}
+      {busy && warnings.length > 0 && (
+        <ul className="busy-import-warnings" aria-label={`Import warnings for ${label}`}>
+          {warnings.map(warning => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <div className="busy-import-error" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
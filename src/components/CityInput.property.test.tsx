@@ -84,14 +84,12 @@ describe('CityInput Property Tests', () => {
     // Generator for strings that are NOT valid city names
     const invalidCityNameArbitrary = fc.string({ minLength: 3, maxLength: 20 })
       .filter(str => {
-        // Filter out strings that match any city in the database
+        // Filter out strings that match any city, alias or timezone location in the database
         const normalizedStr = str.toLowerCase().trim();
         if (!normalizedStr || /^\s+$/.test(str)) return false;
         // Filter out strings with special characters that userEvent interprets as keyboard commands
         if (/[\[\]{}]/.test(str)) return false;
-        return !allCities.some(city => 
-          city.name.toLowerCase() === normalizedStr
-        );
+        return cityDatabase.getCityByName(str) === null;
       });
 
     await fc.assert(
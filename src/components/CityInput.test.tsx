@@ -1,7 +1,9 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { CityInput } from './CityInput';
+import { TimeZoneConverter } from '../utils/TimeZoneConverter';
+import { CityDatabase } from '../utils/CityDatabase';
 import type { City } from '../types';
 
 describe('CityInput Component', () => {
@@ -11,6 +13,10 @@ describe('CityInput Component', () => {
     timezone: 'Europe/London',
   };
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   it('renders with correct label', () => {
     const handleCitySelect = vi.fn();
     render(<CityInput label="City A" onCitySelect={handleCitySelect} />);
@@ -35,6 +41,131 @@ describe('CityInput Component', () => {
     }, { timeout: 500 });
   });
 
+  it('shows which alias matched', async () => {
+    const user = userEvent.setup();
+    const handleCitySelect = vi.fn();
+    render(<CityInput label="City A" onCitySelect={handleCitySelect} />);
+
+    await user.type(screen.getByLabelText('City A'), 'Bombay');
+
+    const option = await screen.findByRole('option', {}, { timeout: 500 });
+    expect(option).toHaveTextContent('Mumbai');
+    expect(option.querySelector('.city-alias')).toHaveTextContent('Bombay');
+
+    await user.click(option);
+    expect(handleCitySelect).toHaveBeenCalledWith(expect.objectContaining({ name: 'Mumbai' }));
+  });
+
+  it('lists cities with the same name and country separately', async () => {
+    const user = userEvent.setup();
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(CityDatabase.prototype, 'searchCityMatches').mockReturnValue([
+      { city: { name: 'Springfield', country: 'United States', timezone: 'America/Chicago' } },
+      { city: { name: 'Springfield', country: 'United States', timezone: 'America/New_York' } }
+    ]);
+    render(<CityInput label="City A" onCitySelect={vi.fn()} />);
+
+    await user.type(screen.getByLabelText('City A'), 'Springfield');
+
+    await waitFor(() => expect(screen.getAllByRole('option')).toHaveLength(2), { timeout: 500 });
+    expect(consoleError.mock.calls.map(([message]) => String(message))).not.toContainEqual(expect.stringContaining('same key'));
+  });
+
+  it('lists each timezone an ambiguous abbreviation can mean', async () => {
+    const user = userEvent.setup();
+    const handleCitySelect = vi.fn();
+    render(<CityInput label="City A" onCitySelect={handleCitySelect} date={new Date(2024, 0, 17)} />);
+
+    await user.type(screen.getByLabelText('City A'), 'IST');
+
+    expect(await screen.findByText(/"IST" can mean 3 timezones/, {}, { timeout: 500 })).toBeInTheDocument();
+    const india = screen.getByRole('group', { name: 'IST · India Standard Time (UTC+5:30)' });
+    expect(india).toHaveTextContent('Mumbai');
+    expect(screen.getByRole('group', { name: 'IST · Israel Time (UTC+2)' })).toHaveTextContent('Jerusalem');
+
+    await user.click(screen.getByRole('option', { name: /Kolkata/ }));
+    expect(handleCitySelect).toHaveBeenCalledWith(expect.objectContaining({ name: 'Kolkata' }));
+  });
+
+  it('offers timezones that no city is in', async () => {
+    const user = userEvent.setup();
+    const handleCitySelect = vi.fn();
+    render(<CityInput label="City A" onCitySelect={handleCitySelect} />);
+
+    await user.type(screen.getByLabelText('City A'), 'Pacific/Chat');
+
+    const option = await screen.findByRole('option', { name: /Chatham/ }, { timeout: 500 });
+    expect(option).toHaveTextContent('Pacific/Chatham');
+
+    await user.click(option);
+    expect(handleCitySelect).toHaveBeenCalledWith({ name: 'Chatham', country: '', timezone: 'Pacific/Chatham' });
+  });
+
+  describe('use my location', () => {
+    const mockGeolocation = (getCurrentPosition: Geolocation['getCurrentPosition']) => {
+      Object.defineProperty(navigator, 'geolocation', { value: { getCurrentPosition }, configurable: true });
+    };
+
+    afterEach(() => {
+      Reflect.deleteProperty(navigator, 'geolocation');
+      vi.restoreAllMocks();
+    });
+
+    it('selects the nearest city', async () => {
+      const user = userEvent.setup();
+      const handleCitySelect = vi.fn();
+      mockGeolocation((success) => success({ coords: { latitude: 48.85, longitude: 2.35 } } as GeolocationPosition));
+      render(<CityInput label="City A" onCitySelect={handleCitySelect} />);
+
+      await user.click(screen.getByRole('button', { name: 'Use my location' }));
+
+      expect(handleCitySelect).toHaveBeenCalledWith(expect.objectContaining({ name: 'Paris' }));
+      expect(screen.getByLabelText('City A')).toHaveValue('Paris');
+      expect(screen.getByRole('status')).toHaveTextContent('Nearest city: Paris, 1 km away');
+    });
+
+    it('falls back to the system timezone when permission is denied', async () => {
+      const user = userEvent.setup();
+      const handleCitySelect = vi.fn();
+      vi.spyOn(TimeZoneConverter.prototype, 'getSystemTimezone').mockReturnValue('Asia/Tokyo');
+      mockGeolocation((_success, failure) => failure?.({ code: 1, PERMISSION_DENIED: 1 } as GeolocationPositionError));
+      render(<CityInput label="City A" onCitySelect={handleCitySelect} />);
+
+      await user.click(screen.getByRole('button', { name: 'Use my location' }));
+
+      expect(handleCitySelect).toHaveBeenCalledWith(expect.objectContaining({ name: 'Tokyo' }));
+      expect(screen.getByRole('status')).toHaveTextContent(
+        'Location permission was denied. Using your system timezone (Asia/Tokyo) instead.'
+      );
+    });
+
+    it('falls back to the system timezone when no listed city is close', async () => {
+      const user = userEvent.setup();
+      const handleCitySelect = vi.fn();
+      vi.spyOn(TimeZoneConverter.prototype, 'getSystemTimezone').mockReturnValue('Atlantic/Azores');
+      mockGeolocation((success) => success({ coords: { latitude: 30, longitude: -40 } } as GeolocationPosition));
+      render(<CityInput label="City A" onCitySelect={handleCitySelect} />);
+
+      await user.click(screen.getByRole('button', { name: 'Use my location' }));
+
+      expect(handleCitySelect).toHaveBeenCalledWith(expect.objectContaining({ timezone: 'Atlantic/Azores' }));
+      expect(screen.getByRole('status')).toHaveTextContent(
+        'No listed city is within 100 km of your location. Using your system timezone (Atlantic/Azores) instead.'
+      );
+    });
+
+    it('falls back to the system timezone without geolocation', async () => {
+      const user = userEvent.setup();
+      const handleCitySelect = vi.fn();
+      vi.spyOn(TimeZoneConverter.prototype, 'getSystemTimezone').mockReturnValue('Pacific/Chatham');
+      render(<CityInput label="City A" onCitySelect={handleCitySelect} />);
+
+      await user.click(screen.getByRole('button', { name: 'Use my location' }));
+
+      expect(handleCitySelect).toHaveBeenCalledWith({ name: 'Chatham', country: '', timezone: 'Pacific/Chatham' });
+    });
+  });
+
   it('selection clears dropdown', async () => {
     const user = userEvent.setup();
     const handleCitySelect = vi.fn();
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import type { City } from '../types';
-import { CityDatabase } from '../utils/CityDatabase';
+import type { City, CityMatch } from '../types';
+import { CityDatabase, LOCAL_CITY_MAX_DISTANCE_KM } from '../utils/CityDatabase';
+import { TimeZoneConverter } from '../utils/TimeZoneConverter';
 import './CityInput.css';
 
 interface CityInputProps {
@@ -8,20 +9,39 @@ interface CityInputProps {
   onCitySelect: (city: City | null) => void;
   placeholder?: string;
   value?: City | null;
+  date?: Date; // decides daylight saving time when searching by timezone abbreviation
 }
 
+/**
+ * Split suggestions into runs that share a timezone, so matches for an
+ * abbreviation with several meanings are listed under each meaning
+ */
+const groupByTimezone = (suggestions: CityMatch[]) =>
+  suggestions.reduce<{ zone?: string; start: number; matches: CityMatch[] }[]>((groups, match, index) => {
+    const last = groups[groups.length - 1];
+    if (last && last.zone === match.matchedZone) {
+      last.matches.push(match);
+    } else {
+      groups.push({ zone: match.matchedZone, start: index, matches: [match] });
+    }
+    return groups;
+  }, []);
+
 export const CityInput: React.FC<CityInputProps> = ({
   label,
   onCitySelect,
   placeholder = 'Search for a city...',
   value = null,
+  date,
 }) => {
   const [inputValue, setInputValue] = useState('');
-  const [suggestions, setSuggestions] = useState<City[]>([]);
+  const [suggestions, setSuggestions] = useState<CityMatch[]>([]);
   const [showDropdown, setShowDropdown] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const [debounceTimer, setDebounceTimer] = useState<ReturnType<typeof setTimeout> | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [locationMessage, setLocationMessage] = useState<string | null>(null);
   
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -45,6 +65,9 @@ export const CityInput: React.FC<CityInputProps> = ({
     }
   }, [value]);
 
+  // Timezones the current suggestions were found by, to say when an abbreviation is ambiguous
+  const timezoneCount = new Set(suggestions.flatMap(match => match.matchedZone ?? [])).size;
+
   // Debounced search function
   const performSearch = useCallback((query: string) => {
     if (!query.trim()) {
@@ -61,7 +84,7 @@ export const CityInput: React.FC<CityInputProps> = ({
     }
 
     try {
-      const results = cityDatabase.current.searchCities(query, 10);
+      const results = cityDatabase.current.searchCityMatches(query, 10, date);
       setSuggestions(results);
       setShowDropdown(results.length > 0);
       setSelectedIndex(-1);
@@ -71,13 +94,14 @@ export const CityInput: React.FC<CityInputProps> = ({
       setSuggestions([]);
       setShowDropdown(false);
     }
-  }, []);
+  }, [date]);
 
   // Handle input change with debouncing
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setInputValue(value);
     setError(null);
+    setLocationMessage(null);
 
     // Clear existing timer
     if (debounceTimer) {
@@ -102,6 +126,49 @@ export const CityInput: React.FC<CityInputProps> = ({
     onCitySelect(city);
   };
 
+  // Pick the city nearest to the user, preferring one in their system timezone,
+  // or the system timezone's city when the browser cannot or may not share
+  // their location or no listed city is close
+  const handleUseLocation = () => {
+    const timezone = new TimeZoneConverter().getSystemTimezone();
+    const fallBackToSystemTimezone = (reason: string) => {
+      const city = cityDatabase.current.getCityByTimezone(timezone);
+      setLocating(false);
+      if (city) {
+        handleCitySelect(city);
+        setLocationMessage(`${reason} Using your system timezone (${timezone}) instead.`);
+      } else {
+        setError(`${reason} Your system timezone (${timezone}) is not available either.`);
+      }
+    };
+
+    if (!navigator.geolocation) {
+      fallBackToSystemTimezone('Location is not available in this browser.');
+      return;
+    }
+
+    setLocating(true);
+    setLocationMessage(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const nearest = cityDatabase.current.findLocalCity(position.coords.latitude, position.coords.longitude, timezone);
+        if (!nearest) {
+          fallBackToSystemTimezone(`No listed city is within ${LOCAL_CITY_MAX_DISTANCE_KM} km of your location.`);
+          return;
+        }
+        setLocating(false);
+        handleCitySelect(nearest.city);
+        setLocationMessage(`Nearest city: ${nearest.city.name}, ${Math.round(nearest.distanceKm)} km away`);
+      },
+      (positionError) => fallBackToSystemTimezone(
+        positionError.code === positionError.PERMISSION_DENIED
+          ? 'Location permission was denied.'
+          : 'Your location could not be found.'
+      ),
+      { timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  };
+
   // Handle input blur - validate city
   const handleBlur = () => {
     // Delay to allow click on dropdown
@@ -137,7 +204,7 @@ export const CityInput: React.FC<CityInputProps> = ({
       case 'Enter':
         e.preventDefault();
         if (selectedIndex >= 0 && selectedIndex < suggestions.length) {
-          handleCitySelect(suggestions[selectedIndex]);
+          handleCitySelect(suggestions[selectedIndex].city);
         }
         break;
       case 'Escape':
@@ -150,12 +217,12 @@ export const CityInput: React.FC<CityInputProps> = ({
   // Scroll selected item into view
   useEffect(() => {
     if (selectedIndex >= 0 && dropdownRef.current) {
-      const selectedElement = dropdownRef.current.children[selectedIndex] as HTMLElement;
+      const selectedElement = document.getElementById(`city-option-${label}-${selectedIndex}`);
       if (selectedElement && selectedElement.scrollIntoView) {
         selectedElement.scrollIntoView({ block: 'nearest' });
       }
     }
-  }, [selectedIndex]);
+  }, [selectedIndex, label]);
 
   // Cleanup timer on unmount
   useEffect(() => {
@@ -200,26 +267,59 @@ export const CityInput: React.FC<CityInputProps> = ({
             role="listbox"
             aria-label={`${label} suggestions`}
           >
-            {suggestions.map((city, index) => (
-              <div
-                key={`${city.name}-${city.country}`}
-                id={`city-option-${label}-${index}`}
-                className={`city-option ${index === selectedIndex ? 'city-option-selected' : ''}`}
-                role="option"
-                aria-selected={index === selectedIndex}
-                onMouseDown={(e) => {
-                  e.preventDefault(); // Prevent blur
-                  handleCitySelect(city);
-                }}
-                onMouseEnter={() => setSelectedIndex(index)}
-              >
-                <span className="city-name">{city.name}</span>
-                <span className="city-country">{city.country}</span>
+            {timezoneCount > 1 && (
+              <div className="city-dropdown-note">
+                "{inputValue.trim()}" can mean {timezoneCount} timezones. Choose a city in the one you mean.
               </div>
-            ))}
+            )}
+            {groupByTimezone(suggestions).map(({ zone, start, matches }) => {
+              const options = matches.map(({ city, matchedAlias }, offset) => {
+                const index = start + offset;
+                // Locations that are only a timezone show their identifier instead of a country
+                const place = city.country || city.timezone;
+                return (
+                  <div
+                    key={`${index}-${city.name}-${city.timezone}`}
+                    id={`city-option-${label}-${index}`}
+                    className={`city-option ${index === selectedIndex ? 'city-option-selected' : ''}`}
+                    role="option"
+                    aria-selected={index === selectedIndex}
+                    onMouseDown={(e) => {
+                      e.preventDefault(); // Prevent blur
+                      handleCitySelect(city);
+                    }}
+                    onMouseEnter={() => setSelectedIndex(index)}
+                  >
+                    <span className="city-name">{city.name}</span>
+                    {matchedAlias && matchedAlias !== place && <span className="city-alias">{matchedAlias}</span>}
+                    <span className="city-country">{place}</span>
+                  </div>
+                );
+              });
+
+              return zone ? (
+                <div key={`zone-${start}`} className="city-dropdown-group" role="group" aria-label={zone}>
+                  <div className="city-dropdown-group-label" aria-hidden="true">{zone}</div>
+                  {options}
+                </div>
+              ) : options;
+            })}
           </div>
         )}
       </div>
+      <button
+        type="button"
+        className="city-locate-button"
+        onClick={handleUseLocation}
+        disabled={locating}
+      >
+        {locating ? 'Finding your location...' : 'Use my location'}
+      </button>
+      {locationMessage && (
+        <div className="city-locate-status" role="status">
+          {locationMessage}
+        </div>
+      )}
       {error && (
         <div id={`city-error-${label}`} className="city-input-error-message" role="alert" aria-live="assertive">
           {error}
@@ -123,4 +123,14 @@ describe('DateSelector Component', () => {
 
     expect(screen.getByText(expectedFormat)).toBeInTheDocument();
   });
+
+  it('shows neither button as active for a date further ahead', () => {
+    const handleDateChange = vi.fn();
+    const nextWeek = new Date();
+    nextWeek.setDate(nextWeek.getDate() + 7);
+    render(<DateSelector onDateChange={handleDateChange} selectedDate={nextWeek} />);
+
+    expect(screen.getByRole('button', { name: /today/i })).toHaveAttribute('aria-pressed', 'false');
+    expect(screen.getByRole('button', { name: /tomorrow/i })).toHaveAttribute('aria-pressed', 'false');
+  });
 });
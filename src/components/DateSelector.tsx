@@ -10,7 +10,8 @@ const DateSelectorComponent: React.FC<DateSelectorProps> = ({
   onDateChange,
   selectedDate,
 }) => {
-  const [activeDate, setActiveDate] = useState<'today' | 'tomorrow'>('today');
+  // 'other' is a date picked elsewhere, e.g. from the day ranking
+  const [activeDate, setActiveDate] = useState<'today' | 'tomorrow' | 'other'>('today');
   const [internalDate, setInternalDate] = useState<Date>(() => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -42,8 +43,10 @@ const DateSelectorComponent: React.FC<DateSelectorProps> = ({
 
       if (selected.getTime() === tomorrow.getTime()) {
         setActiveDate('tomorrow');
-      } else {
+      } else if (selected.getTime() === today.getTime()) {
         setActiveDate('today');
+      } else {
+        setActiveDate('other');
       }
     }
   }, [selectedDate]);
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DateTime } from 'luxon';
+import { DayRanking } from './DayRanking';
+import type { City, DayPlan, Participant } from '../types';
+
+describe('DayRanking Component', () => {
+  const london: City = { name: 'London', country: 'United Kingdom', timezone: 'Europe/London' };
+  const paris: City = { name: 'Paris', country: 'France', timezone: 'Europe/Paris' };
+  const participants: Participant[] = [{ city: london }, { city: paris }];
+
+  const tuesday = new Date(2024, 0, 16, 12);
+  const saturday = new Date(2024, 0, 20, 12);
+
+  const plans: DayPlan[] = [
+    {
+      date: tuesday,
+      overlap: { hasOverlap: true, durationMinutes: 480 },
+      durationMinutes: 480,
+      bestSuggestion: {
+        localTimes: [
+          DateTime.fromObject({ year: 2024, month: 1, day: 16, hour: 12 }, { zone: london.timezone }),
+          DateTime.fromObject({ year: 2024, month: 1, day: 16, hour: 13 }, { zone: paris.timezone }),
+        ],
+        quality: 'Perfect Time',
+        durationMinutes: 60,
+      },
+    },
+    {
+      date: saturday,
+      overlap: {
+        hasOverlap: false,
+        reason: 'non-working-day',
+        nonWorkingDays: [{ participantIndex: 0, weekday: 6, kind: 'weekend' }],
+      },
+      durationMinutes: 0,
+      bestSuggestion: null,
+    },
+  ];
+
+  const renderRanking = (overrides: Partial<React.ComponentProps<typeof DayRanking>> = {}) =>
+    render(
+      <DayRanking
+        plans={plans}
+        participants={participants}
+        selectedDate={tuesday}
+        days={14}
+        onDaysChange={vi.fn()}
+        onSelectDate={vi.fn()}
+        {...overrides}
+      />
+    );
+
+  it('lists days in ranked order with duration and best suggestion', () => {
+    renderRanking();
+
+    const items = screen.getAllByRole('listitem');
+    expect(items).toHaveLength(2);
+    expect(within(items[0]).getByText('Tue, Jan 16')).toBeInTheDocument();
+    expect(within(items[0]).getByText('8h overlap')).toBeInTheDocument();
+    expect(within(items[0]).getByText('Best: 12:00 PM London ↔ 01:00 PM Paris')).toBeInTheDocument();
+    expect(within(items[0]).getByText('Perfect Time')).toBeInTheDocument();
+  });
+
+  it('explains days without a meeting time', () => {
+    renderRanking();
+
+    const items = screen.getAllByRole('listitem');
+    expect(within(items[1]).getByText('Saturday is the weekend in London')).toBeInTheDocument();
+  });
+
+  it('marks the selected day and selects another', async () => {
+    const user = userEvent.setup();
+    const handleSelect = vi.fn();
+    renderRanking({ onSelectDate: handleSelect });
+
+    expect(screen.getByRole('button', { name: 'Select Tue, Jan 16' })).toHaveAttribute('aria-pressed', 'true');
+
+    await user.click(screen.getByRole('button', { name: 'Select Sat, Jan 20' }));
+    expect(handleSelect).toHaveBeenCalledWith(saturday);
+  });
+
+  it('changes the number of days planned', async () => {
+    const user = userEvent.setup();
+    const handleDaysChange = vi.fn();
+    renderRanking({ onDaysChange: handleDaysChange });
+
+    await user.selectOptions(screen.getByLabelText('Number of days to plan'), '7');
+    expect(handleDaysChange).toHaveBeenCalledWith(7);
+  });
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import { DateTime } from 'luxon';
+import type { DayPlan, Participant } from '../types';
+import { MeetingSuggester } from '../calculators/MeetingSuggester';
+import { formatDuration } from '../utils/workingHours';
+import './DayRanking.css';
+
+const RANGE_OPTIONS = [7, 14, 30];
+
+interface DayRankingProps {
+  plans: DayPlan[]; // ranked best first
+  participants: Participant[];
+  selectedDate: Date;
+  days: number;
+  onDaysChange: (days: number) => void;
+  onSelectDate: (date: Date) => void;
+}
+
+export const DayRanking: React.FC<DayRankingProps> = ({
+  plans,
+  participants,
+  selectedDate,
+  days,
+  onDaysChange,
+  onSelectDate,
+}) => {
+  const suggester = new MeetingSuggester();
+
+  const formatDay = (date: Date): string => DateTime.fromJSDate(date).toFormat('ccc, LLL d');
+
+  const isSameDay = (a: Date, b: Date): boolean =>
+    DateTime.fromJSDate(a).hasSame(DateTime.fromJSDate(b), 'day');
+
+  // Explain a day without a meeting time
+  const describeUnavailableDay = (plan: DayPlan): string => {
+    if (plan.overlap.reason === 'non-working-day' && plan.overlap.nonWorkingDays) {
+      return suggester.formatNonWorkingDays(plan.overlap.nonWorkingDays, participants).join('; ');
+    }
+    return 'No overlapping working hours';
+  };
+
+  return (
+    <div className="day-ranking">
+      <div className="day-ranking-header">
+        <h3 id="day-ranking-heading">Best Days</h3>
+        <label className="day-ranking-range">
+          <span>Plan ahead</span>
+          <select
+            value={days}
+            onChange={(e) => onDaysChange(parseInt(e.target.value, 10))}
+            className="time-select"
+            aria-label="Number of days to plan"
+          >
+            {RANGE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                Next {option} days
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <ol className="day-ranking-list" aria-labelledby="day-ranking-heading">
+        {plans.map((plan, index) => {
+          const dayLabel = formatDay(plan.date);
+          const isSelected = isSameDay(plan.date, selectedDate);
+
+          return (
+            <li
+              key={plan.date.getTime()}
+              className={`day-ranking-item${isSelected ? ' day-ranking-selected' : ''}${plan.bestSuggestion ? '' : ' day-ranking-unavailable'}`}
+            >
+              <span className="day-ranking-rank" aria-hidden="true">{index + 1}</span>
+              <div className="day-ranking-content">
+                <div className="day-ranking-date">{dayLabel}</div>
+                {plan.bestSuggestion ? (
+                  <div className="day-ranking-details">
+                    <span className="day-ranking-duration">{formatDuration(plan.durationMinutes)} overlap</span>
+                    <span className="day-ranking-suggestion">
+                      Best: {suggester.formatMeetingSuggestion(plan.bestSuggestion, participants)}
+                    </span>
+                    <span
+                      className={`quality-badge quality-${plan.bestSuggestion.quality.toLowerCase().replace(' ', '-')}`}
+                    >
+                      {plan.bestSuggestion.quality}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="day-ranking-details">{describeUnavailableDay(plan)}</div>
+                )}
+              </div>
+              <button
+                type="button"
+                className="day-ranking-select"
+                onClick={() => onSelectDate(plan.date)}
+                aria-pressed={isSelected}
+                aria-label={`Select ${dayLabel}`}
+              >
+                {isSelected ? 'Selected' : 'Select'}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
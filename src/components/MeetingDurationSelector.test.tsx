@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MeetingDurationSelector } from './MeetingDurationSelector';
+
+describe('MeetingDurationSelector Component', () => {
+  it('shows the selected duration and step', () => {
+    render(
+      <MeetingDurationSelector
+        durationMinutes={90}
+        stepMinutes={15}
+        onDurationChange={vi.fn()}
+        onStepChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText('Meeting duration')).toHaveValue('90');
+    expect(screen.getByRole('option', { name: '1h 30m' })).toHaveProperty('selected', true);
+    expect(screen.getByLabelText('Minutes between suggestions')).toHaveValue('15');
+  });
+
+  it('reports duration and step changes as numbers', async () => {
+    const user = userEvent.setup();
+    const handleDurationChange = vi.fn();
+    const handleStepChange = vi.fn();
+
+    render(
+      <MeetingDurationSelector
+        durationMinutes={30}
+        stepMinutes={30}
+        onDurationChange={handleDurationChange}
+        onStepChange={handleStepChange}
+      />
+    );
+
+    await user.selectOptions(screen.getByLabelText('Meeting duration'), '60');
+    expect(handleDurationChange).toHaveBeenCalledWith(60);
+
+    await user.selectOptions(screen.getByLabelText('Minutes between suggestions'), '15');
+    expect(handleStepChange).toHaveBeenCalledWith(15);
+  });
+});
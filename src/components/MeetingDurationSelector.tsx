@@ -0,0 +1,55 @@
+import React from 'react';
+import type { SlotStep } from '../types';
+import { SLOT_STEPS, MEETING_DURATIONS } from '../calculators/MeetingSuggester';
+import { formatDuration } from '../utils/workingHours';
+import './MeetingDurationSelector.css';
+
+interface MeetingDurationSelectorProps {
+  durationMinutes: number;
+  stepMinutes: SlotStep;
+  onDurationChange: (durationMinutes: number) => void;
+  onStepChange: (stepMinutes: SlotStep) => void;
+}
+
+export const MeetingDurationSelector: React.FC<MeetingDurationSelectorProps> = ({
+  durationMinutes,
+  stepMinutes,
+  onDurationChange,
+  onStepChange,
+}) => {
+  return (
+    <div className="meeting-duration-selector" role="group" aria-labelledby="meeting-duration-label">
+      <span id="meeting-duration-label" className="meeting-duration-label">Meeting length</span>
+      <div className="meeting-duration-fields">
+        <label className="meeting-duration-field">
+          <span>Duration</span>
+          <select
+            value={durationMinutes}
+            onChange={(e) => onDurationChange(parseInt(e.target.value, 10))}
+            aria-label="Meeting duration"
+          >
+            {MEETING_DURATIONS.map((option) => (
+              <option key={option} value={option}>
+                {formatDuration(option)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="meeting-duration-field">
+          <span>Suggest every</span>
+          <select
+            value={stepMinutes}
+            onChange={(e) => onStepChange(parseInt(e.target.value, 10) as SlotStep)}
+            aria-label="Minutes between suggestions"
+          >
+            {SLOT_STEPS.map((option) => (
+              <option key={option} value={option}>
+                {option} min
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -2,8 +2,10 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { MeetingSuggestions } from './MeetingSuggestions';
+import { DSTWarningCalculator } from '../calculators/DSTWarningCalculator';
+import { OverlapAdvisor } from '../calculators/OverlapAdvisor';
 import { DateTime } from 'luxon';
-import type { City, MeetingSuggestion } from '../types';
+import type { City, MeetingSuggestion, Participant } from '../types';
 
 describe('MeetingSuggestions', () => {
   const cityA: City = {
@@ -18,9 +20,13 @@ describe('MeetingSuggestions', () => {
     timezone: 'Europe/London',
   };
 
+  const participants: Participant[] = [{ city: cityA }, { city: cityB }];
+
   const createSuggestion = (hourA: number, hourB: number, quality: 'Perfect Time' | 'Acceptable Time' | 'Not Recommended'): MeetingSuggestion => ({
-    timeInCityA: DateTime.now().setZone(cityA.timezone).set({ hour: hourA, minute: 0, second: 0, millisecond: 0 }),
-    timeInCityB: DateTime.now().setZone(cityB.timezone).set({ hour: hourB, minute: 0, second: 0, millisecond: 0 }),
+    localTimes: [
+      DateTime.now().setZone(cityA.timezone).set({ hour: hourA, minute: 0, second: 0, millisecond: 0 }),
+      DateTime.now().setZone(cityB.timezone).set({ hour: hourB, minute: 0, second: 0, millisecond: 0 }),
+    ],
     quality,
     durationMinutes: 60,
   });
@@ -54,8 +60,7 @@ describe('MeetingSuggestions', () => {
     render(
       <MeetingSuggestions
         suggestions={suggestions}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={180}
       />
     );
@@ -75,8 +80,7 @@ describe('MeetingSuggestions', () => {
     render(
       <MeetingSuggestions
         suggestions={[]}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={0}
       />
     );
@@ -85,6 +89,73 @@ describe('MeetingSuggestions', () => {
     expect(screen.getByText(/Consider adjusting working hours or choosing different cities/i)).toBeInTheDocument();
   });
 
+  it('should show the closest shifts when there is no overlap', () => {
+    const sydney: City = { name: 'Sydney', country: 'Australia', timezone: 'Australia/Sydney' };
+    const advisor = new OverlapAdvisor();
+    const farApart: Participant[] = [{ city: cityB }, { name: 'Priya', city: sydney }];
+    const advice = advisor.findShiftOptions(farApart, new Date('2024-01-17T12:00:00Z'));
+
+    render(
+      <MeetingSuggestions
+        suggestions={[]}
+        participants={farApart}
+        overlapDurationMinutes={0}
+        advice={advice}
+      />
+    );
+
+    expect(screen.getByText(/No overlapping working hours found/i)).toBeInTheDocument();
+    expect(screen.getByText('The nearest working hours are 2h apart.')).toBeInTheDocument();
+    expect(screen.getByText('For a 30m meeting: London starts 2h 30m early or Priya (Sydney) stays 2h 30m late')).toBeInTheDocument();
+
+    const options = screen.getByRole('list', { name: 'Options for a 1h meeting' });
+    expect(options).toHaveTextContent('London starts 3h early');
+    expect(options).toHaveTextContent('06:00 AM London ↔ 05:00 PM Priya (Sydney)');
+    expect(options).toHaveTextContent(/score \d+/);
+  });
+
+  it('should explain when the meeting is longer than the overlap', () => {
+    render(
+      <MeetingSuggestions
+        suggestions={[]}
+        participants={participants}
+        overlapDurationMinutes={45}
+        meetingDurationMinutes={60}
+      />
+    );
+
+    expect(screen.getByText(/A 1h meeting does not fit into the 45m of overlapping working hours/i)).toBeInTheDocument();
+  });
+
+  it('should explain when existing meetings fill the overlap', () => {
+    render(
+      <MeetingSuggestions
+        suggestions={[]}
+        participants={participants}
+        overlapDurationMinutes={0}
+        allBusy
+      />
+    );
+
+    expect(screen.getByText('Existing meetings fill all of the overlapping working hours on this date.')).toBeInTheDocument();
+    expect(screen.queryByText(/No overlapping working hours found/i)).not.toBeInTheDocument();
+  });
+
+  it('should explain a non-working day', () => {
+    render(
+      <MeetingSuggestions
+        suggestions={[]}
+        participants={participants}
+        overlapDurationMinutes={0}
+        nonWorkingDays={[{ participantIndex: 1, weekday: 6, kind: 'weekend' }]}
+      />
+    );
+
+    expect(screen.getByText(/Non-working day/i)).toBeInTheDocument();
+    expect(screen.getByText('Saturday is the weekend in London')).toBeInTheDocument();
+    expect(screen.queryByText(/No overlapping working hours found/i)).not.toBeInTheDocument();
+  });
+
   it('should handle copy button click', async () => {
     const user = userEvent.setup();
     const suggestions = [createSuggestion(10, 15, 'Perfect Time')];
@@ -92,8 +163,7 @@ describe('MeetingSuggestions', () => {
     render(
       <MeetingSuggestions
         suggestions={suggestions}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={60}
       />
     );
@@ -114,8 +184,7 @@ describe('MeetingSuggestions', () => {
     render(
       <MeetingSuggestions
         suggestions={suggestions}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={60}
       />
     );
@@ -127,6 +196,41 @@ describe('MeetingSuggestions', () => {
     expect(await screen.findByText(/Copied/i)).toBeInTheDocument();
   });
 
+  it('should download the suggestion as an .ics file', async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn().mockReturnValue('blob:meeting');
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal('URL', { ...URL, createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    render(
+      <MeetingSuggestions
+        suggestions={[createSuggestion(10, 15, 'Perfect Time')]}
+        participants={participants}
+        overlapDurationMinutes={60}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /Download calendar event/i }));
+
+    const blob: Blob = createObjectURL.mock.calls[0][0];
+    expect(blob.type).toBe('text/calendar;charset=utf-8');
+    const ics = await new Promise<string>(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+    expect(ics).toContain('BEGIN:VTIMEZONE');
+    expect(ics).toMatch(/DTSTART;TZID=America\/New_York:\d{8}T100000/);
+    expect(ics).toMatch(/DTEND;TZID=America\/New_York:\d{8}T110000/);
+
+    const link = click.mock.instances[0] as unknown as HTMLAnchorElement;
+    expect(link.download).toMatch(/^meeting-\d{4}-\d{2}-\d{2}-1000\.ics$/);
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:meeting');
+
+    click.mockRestore();
+  });
+
   it('should have copy buttons for each suggestion', () => {
     const suggestions = [
       createSuggestion(10, 15, 'Perfect Time'),
@@ -136,8 +240,7 @@ describe('MeetingSuggestions', () => {
     render(
       <MeetingSuggestions
         suggestions={suggestions}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={120}
       />
     );
@@ -153,8 +256,7 @@ describe('MeetingSuggestions', () => {
     render(
       <MeetingSuggestions
         suggestions={suggestions}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={60}
       />
     );
@@ -169,8 +271,7 @@ describe('MeetingSuggestions', () => {
     render(
       <MeetingSuggestions
         suggestions={suggestions}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={45}
       />
     );
@@ -185,8 +286,7 @@ describe('MeetingSuggestions', () => {
     render(
       <MeetingSuggestions
         suggestions={suggestions}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={60}
       />
     );
@@ -194,6 +294,44 @@ describe('MeetingSuggestions', () => {
     expect(screen.queryByText(/Limited overlap/i)).not.toBeInTheDocument();
   });
 
+  it('should warn about upcoming clock changes with the overlap before and after', () => {
+    // Wednesday Mar 6, 2024: 9 AM in New York, 2 PM in London
+    const slotTime = DateTime.fromISO('2024-03-06T14:00:00Z');
+    const slot: MeetingSuggestion = {
+      localTimes: [slotTime.setZone(cityA.timezone), slotTime.setZone(cityB.timezone)],
+      quality: 'Acceptable Time',
+      durationMinutes: 60,
+    };
+    const dstWarnings = new DSTWarningCalculator().findWarnings(participants, slot, 14);
+
+    render(
+      <MeetingSuggestions
+        suggestions={[slot]}
+        participants={participants}
+        overlapDurationMinutes={240}
+        dstWarnings={dstWarnings}
+      />
+    );
+
+    const region = screen.getByRole('region', { name: 'Upcoming clock changes' });
+    expect(region).toHaveTextContent(
+      'From Mar 10 (clocks go forward in New York), this slot moves to 01:00 PM in London'
+    );
+    expect(region).toHaveTextContent('Overlap: 4h before, 5h after');
+  });
+
+  it('should not show clock changes when there are none', () => {
+    render(
+      <MeetingSuggestions
+        suggestions={[createSuggestion(10, 15, 'Perfect Time')]}
+        participants={participants}
+        overlapDurationMinutes={180}
+      />
+    );
+
+    expect(screen.queryByRole('region', { name: 'Upcoming clock changes' })).not.toBeInTheDocument();
+  });
+
   it('should highlight the largest overlap', () => {
     const suggestions = [
       createSuggestion(10, 15, 'Perfect Time'),
@@ -204,8 +342,7 @@ describe('MeetingSuggestions', () => {
     const { container } = render(
       <MeetingSuggestions
         suggestions={suggestions}
-        cityA={cityA}
-        cityB={cityB}
+        participants={participants}
         overlapDurationMinutes={180}
       />
     );
@@ -1,29 +1,44 @@
 import React, { useState } from 'react';
 import { DateTime } from 'luxon';
-import type { City, MeetingSuggestion } from '../types';
+import type { Participant, MeetingSuggestion, NonWorkingDay, DSTWarning, OverlapAdvice } from '../types';
 import { MeetingSuggester } from '../calculators/MeetingSuggester';
+import { DSTWarningCalculator } from '../calculators/DSTWarningCalculator';
+import { OverlapAdvisor } from '../calculators/OverlapAdvisor';
+import { formatDuration } from '../utils/workingHours';
+import { createMeetingEvent, getMeetingFileName } from '../utils/icalendar';
+import { getParticipantName, getParticipantTimezone } from '../utils/participants';
 import './MeetingSuggestions.css';
 
 interface MeetingSuggestionsProps {
   suggestions: MeetingSuggestion[];
-  cityA: City;
-  cityB: City;
+  participants: Participant[];
   overlapDurationMinutes: number;
+  nonWorkingDays?: NonWorkingDay[];
+  allBusy?: boolean; // existing meetings fill the overlapping working hours
+  dstWarnings?: DSTWarning[];
+  meetingDurationMinutes?: number;
+  advice?: OverlapAdvice | null; // schedule shifts that would create an overlap, when there is none
 }
 
 export const MeetingSuggestions: React.FC<MeetingSuggestionsProps> = ({
   suggestions,
-  cityA,
-  cityB,
+  participants,
   overlapDurationMinutes,
+  nonWorkingDays = [],
+  allBusy = false,
+  dstWarnings = [],
+  meetingDurationMinutes,
+  advice = null,
 }) => {
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [copyError, setCopyError] = useState<string | null>(null);
   const suggester = new MeetingSuggester();
+  const dstWarningCalculator = new DSTWarningCalculator();
+  const advisor = new OverlapAdvisor(suggester);
 
-  // Get current times for both cities
-  const currentTimeA = DateTime.now().setZone(cityA.timezone);
-  const currentTimeB = DateTime.now().setZone(cityB.timezone);
+  // Get current times for every participant's city
+  const now = DateTime.now();
+  const currentTimes = participants.map(participant => now.setZone(getParticipantTimezone(participant)));
 
   // Find the largest overlap
   const largestOverlap = suggester.findLargestOverlap(suggestions);
@@ -35,7 +50,7 @@ export const MeetingSuggestions: React.FC<MeetingSuggestionsProps> = ({
 
   // Handle copy to clipboard
   const handleCopy = async (suggestion: MeetingSuggestion, index: number) => {
-    const formattedText = suggester.formatMeetingSuggestion(suggestion, cityA, cityB);
+    const formattedText = suggester.formatMeetingSuggestion(suggestion, participants);
     
     // Check if clipboard API is available
     if (!isClipboardAvailable()) {
@@ -60,14 +75,98 @@ export const MeetingSuggestions: React.FC<MeetingSuggestionsProps> = ({
     }
   };
 
+  // Download the suggestion as an iCalendar file, built only when asked for
+  const handleDownload = (suggestion: MeetingSuggestion) => {
+    const blob = new Blob([createMeetingEvent(suggestion, participants)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getMeetingFileName(suggestion);
+    link.click();
+
+    URL.revokeObjectURL(url);
+  };
+
   // Show limited overlap warning
   const showLimitedOverlapWarning = overlapDurationMinutes < 60;
 
+  if (suggestions.length === 0 && nonWorkingDays.length > 0) {
+    return (
+      <div className="meeting-suggestions">
+        <h3>Meeting Suggestions</h3>
+        <div className="non-working-day" role="status">
+          <p className="no-suggestions">Non-working day: no meeting times are available on this date.</p>
+          <ul className="non-working-day-list">
+            {suggester.formatNonWorkingDays(nonWorkingDays, participants).map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  }
+
+  if (suggestions.length === 0 && allBusy) {
+    return (
+      <div className="meeting-suggestions">
+        <h3>Meeting Suggestions</h3>
+        <p className="no-suggestions">Existing meetings fill all of the overlapping working hours on this date.</p>
+      </div>
+    );
+  }
+
+  // The hours overlap, but not for long enough to fit the meeting
+  if (suggestions.length === 0 && meetingDurationMinutes && overlapDurationMinutes > 0) {
+    return (
+      <div className="meeting-suggestions">
+        <h3>Meeting Suggestions</h3>
+        <p className="no-suggestions">
+          A {formatDuration(meetingDurationMinutes)} meeting does not fit into the {formatDuration(overlapDurationMinutes)} of overlapping working hours. Try a shorter meeting.
+        </p>
+      </div>
+    );
+  }
+
   if (suggestions.length === 0) {
     return (
       <div className="meeting-suggestions">
         <h3>Meeting Suggestions</h3>
         <p className="no-suggestions">No overlapping working hours found. Consider adjusting working hours or choosing different cities.</p>
+        {advice && (
+          <div className="overlap-advice" role="region" aria-labelledby="overlap-advice-heading">
+            <h4 id="overlap-advice-heading">Closest to overlapping</h4>
+            <p className="overlap-advice-gap">
+              {advice.gapMinutes === 0
+                ? 'The working hours meet but do not overlap.'
+                : `The nearest working hours are ${formatDuration(advice.gapMinutes)} apart.`}
+            </p>
+            {[...new Set(advice.options.map(option => option.targetMinutes))].map(target => {
+              const options = advice.options.filter(option => option.targetMinutes === target);
+              return (
+                <div className="overlap-advice-target" key={target}>
+                  <p className="overlap-advice-summary">
+                    For a {formatDuration(target)} meeting: {options.map(option => advisor.formatShift(option.shift, participants)).join(' or ')}
+                  </p>
+                  <ul className="overlap-advice-list" aria-label={`Options for a ${formatDuration(target)} meeting`}>
+                    {options.map((option, index) => (
+                      <li className="overlap-advice-option" key={index}>
+                        <span className="overlap-advice-shift">{advisor.formatShift(option.shift, participants)}</span>
+                        <span className="overlap-advice-slot">
+                          {suggester.formatMeetingSuggestion(option.suggestion, participants)}
+                        </span>
+                        <span className={`quality-badge quality-${option.suggestion.quality.toLowerCase().replace(' ', '-')}`}>
+                          {option.suggestion.quality}
+                          {option.suggestion.score !== undefined && ` (score ${Math.round(option.suggestion.score)})`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
     );
   }
@@ -79,22 +178,16 @@ export const MeetingSuggestions: React.FC<MeetingSuggestionsProps> = ({
       {/* Current times display */}
       <div className="current-times" role="region" aria-labelledby="current-times-heading">
         <h4 id="current-times-heading" className="visually-hidden">Current Local Times</h4>
-        <div className="current-time">
-          <span className="current-time-label" id={`current-time-${cityA.name}`}>
-            Current time in {cityA.name}:
-          </span>
-          <span className="current-time-value" aria-labelledby={`current-time-${cityA.name}`}>
-            {currentTimeA.toFormat('hh:mm a')}
-          </span>
-        </div>
-        <div className="current-time">
-          <span className="current-time-label" id={`current-time-${cityB.name}`}>
-            Current time in {cityB.name}:
-          </span>
-          <span className="current-time-value" aria-labelledby={`current-time-${cityB.name}`}>
-            {currentTimeB.toFormat('hh:mm a')}
-          </span>
-        </div>
+        {participants.map((participant, index) => (
+          <div className="current-time" key={index}>
+            <span className="current-time-label" id={`current-time-${index}`}>
+              Current time in {getParticipantName(participant)}:
+            </span>
+            <span className="current-time-value" aria-labelledby={`current-time-${index}`}>
+              {currentTimes[index].toFormat('hh:mm a')}
+            </span>
+          </div>
+        ))}
       </div>
 
       {/* Limited overlap warning */}
@@ -104,6 +197,25 @@ export const MeetingSuggestions: React.FC<MeetingSuggestionsProps> = ({
         </div>
       )}
 
+      {/* Upcoming clock changes */}
+      {dstWarnings.length > 0 && (
+        <div className="dst-warnings" role="region" aria-labelledby="dst-warnings-heading">
+          <h4 id="dst-warnings-heading">Upcoming clock changes</h4>
+          <ul className="dst-warning-list">
+            {dstWarnings.map((warning, index) => (
+              <li className="dst-warning" key={index}>
+                <span className="dst-warning-message">
+                  {dstWarningCalculator.formatWarning(warning, participants)}
+                </span>
+                <span className="dst-warning-overlap">
+                  {dstWarningCalculator.formatOverlapChange(warning)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Copy error message */}
       {copyError && (
         <div className="copy-error" role="alert">
@@ -114,11 +226,10 @@ export const MeetingSuggestions: React.FC<MeetingSuggestionsProps> = ({
       {/* Suggestions list */}
       <div className="suggestions-list" role="list" aria-labelledby="meeting-suggestions-heading">
         {suggestions.map((suggestion, index) => {
-          const isLargest = largestOverlap && 
-            suggestion.timeInCityA.equals(largestOverlap.timeInCityA) &&
-            suggestion.timeInCityB.equals(largestOverlap.timeInCityB);
+          const isLargest = largestOverlap &&
+            suggestion.localTimes.every((time, timeIndex) => time.equals(largestOverlap.localTimes[timeIndex]));
           
-          const formattedText = suggester.formatMeetingSuggestion(suggestion, cityA, cityB);
+          const formattedText = suggester.formatMeetingSuggestion(suggestion, participants);
 
           return (
             <div
@@ -150,14 +261,24 @@ export const MeetingSuggestions: React.FC<MeetingSuggestionsProps> = ({
                   )}
                 </div>
               </div>
-              <button
-                className="copy-button"
-                onClick={() => handleCopy(suggestion, index)}
-                aria-label={`Copy meeting time: ${formattedText}`}
-                aria-describedby={`suggestion-time-${index}`}
-              >
-                {copiedIndex === index ? '✓ Copied' : '📋 Copy'}
-              </button>
+              <div className="suggestion-actions">
+                <button
+                  className="copy-button"
+                  onClick={() => handleCopy(suggestion, index)}
+                  aria-label={`Copy meeting time: ${formattedText}`}
+                  aria-describedby={`suggestion-time-${index}`}
+                >
+                  {copiedIndex === index ? '✓ Copied' : '📋 Copy'}
+                </button>
+                <button
+                  className="download-button"
+                  onClick={() => handleDownload(suggestion)}
+                  aria-label={`Download calendar event: ${formattedText}`}
+                  aria-describedby={`suggestion-time-${index}`}
+                >
+                  📅 Download .ics
+                </button>
+              </div>
             </div>
           );
         })}
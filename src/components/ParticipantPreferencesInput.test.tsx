@@ -0,0 +1,59 @@
+import type { ComponentProps } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ParticipantPreferencesInput } from './ParticipantPreferencesInput';
+
+describe('ParticipantPreferencesInput Component', () => {
+  const renderInput = (props: Partial<ComponentProps<typeof ParticipantPreferencesInput>> = {}) => {
+    const handlers = { onTimezoneChange: vi.fn(), onPreferencesChange: vi.fn() };
+    render(<ParticipantPreferencesInput label="London" cityTimezone="Europe/London" {...handlers} {...props} />);
+    return handlers;
+  };
+
+  it('keeps the city timezone until another is chosen', async () => {
+    const user = userEvent.setup();
+    const { onTimezoneChange } = renderInput();
+
+    const select = screen.getByLabelText('Timezone for London');
+    expect(select).toHaveValue('');
+
+    await user.selectOptions(select, 'America/New_York');
+    expect(onTimezoneChange).toHaveBeenLastCalledWith('America/New_York');
+
+    await user.selectOptions(select, '');
+    expect(onTimezoneChange).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it('sets preferred meeting hours and clears them with Any time', async () => {
+    const user = userEvent.setup();
+    const { onPreferencesChange } = renderInput();
+
+    expect(screen.getByLabelText('Latest preferred meeting hour for London')).toBeDisabled();
+
+    await user.selectOptions(screen.getByLabelText('Earliest preferred meeting hour for London'), '10');
+    expect(onPreferencesChange).toHaveBeenLastCalledWith({ meetingHours: { start: 10, end: 13 } });
+
+    await user.selectOptions(screen.getByLabelText('Earliest preferred meeting hour for London'), '');
+    expect(onPreferencesChange).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it('only offers end hours after the start', async () => {
+    const user = userEvent.setup();
+    const { onPreferencesChange } = renderInput({ preferences: { meetingHours: { start: 22, end: 23 } } });
+
+    const end = screen.getByLabelText('Latest preferred meeting hour for London');
+    expect(Array.from((end as HTMLSelectElement).options).map(option => option.value)).toEqual(['23', '24']);
+
+    await user.selectOptions(end, '24');
+    expect(onPreferencesChange).toHaveBeenLastCalledWith({ meetingHours: { start: 22, end: 24 } });
+  });
+
+  it('shows the chosen timezone while disabled', () => {
+    renderInput({ timezone: 'America/New_York', disabled: true });
+
+    const select = screen.getByLabelText('Timezone for London');
+    expect(select).toBeDisabled();
+    expect(select).toHaveValue('America/New_York');
+  });
+});
@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react';
+import type { ParticipantPreferences } from '../types';
+import { TimeZoneConverter } from '../utils/TimeZoneConverter';
+import './ParticipantPreferencesInput.css';
+
+// Meetings of at least an hour, so the earliest start is 23:00 and the latest end 24:00
+const START_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DEFAULT_PREFERRED_HOURS = 3;
+
+interface ParticipantPreferencesInputProps {
+  label: string;
+  cityTimezone?: string; // the zone used when no other timezone is set
+  timezone?: string;
+  preferences?: ParticipantPreferences;
+  onTimezoneChange: (timezone: string | undefined) => void;
+  onPreferencesChange: (preferences: ParticipantPreferences | undefined) => void;
+  disabled?: boolean;
+}
+
+const formatHour = (hour: number): string => `${hour.toString().padStart(2, '0')}:00`;
+
+export const ParticipantPreferencesInput: React.FC<ParticipantPreferencesInputProps> = ({
+  label,
+  cityTimezone,
+  timezone,
+  preferences,
+  onTimezoneChange,
+  onPreferencesChange,
+  disabled = false,
+}) => {
+  // The full list is only needed while it can be changed
+  const timezones = useMemo(
+    () => (disabled ? [] : new TimeZoneConverter().getSupportedTimezones()),
+    [disabled]
+  );
+  const meetingHours = preferences?.meetingHours;
+
+  const handleTimezoneChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    onTimezoneChange(value && value !== cityTimezone ? value : undefined);
+  };
+
+  // Keep the end after the new start, or offer a few hours from it
+  const handleStartChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === '') {
+      onPreferencesChange(undefined);
+      return;
+    }
+    const start = parseInt(e.target.value, 10);
+    const end = meetingHours && meetingHours.end > start
+      ? meetingHours.end
+      : Math.min(start + DEFAULT_PREFERRED_HOURS, 24);
+    onPreferencesChange({ ...preferences, meetingHours: { start, end } });
+  };
+
+  const handleEndChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (!meetingHours) {
+      return;
+    }
+    onPreferencesChange({
+      ...preferences,
+      meetingHours: { start: meetingHours.start, end: parseInt(e.target.value, 10) }
+    });
+  };
+
+  return (
+    <fieldset className="participant-preferences" disabled={disabled}>
+      <legend className="participant-preferences-legend">Timezone and meetings</legend>
+      <label className="participant-preferences-field">
+        <span>Keeps hours in</span>
+        <select
+          value={timezone ?? ''}
+          onChange={handleTimezoneChange}
+          aria-label={`Timezone for ${label}`}
+        >
+          <option value="">{cityTimezone ? `City's timezone (${cityTimezone})` : "City's timezone"}</option>
+          {timezone && !timezones.includes(timezone) && <option value={timezone}>{timezone}</option>}
+          {timezones.map(zone => (
+            <option key={zone} value={zone}>{zone}</option>
+          ))}
+        </select>
+      </label>
+      <div className="participant-preferences-field">
+        <span>Prefers meetings</span>
+        <div className="participant-preferences-hours">
+          <select
+            value={meetingHours?.start ?? ''}
+            onChange={handleStartChange}
+            aria-label={`Earliest preferred meeting hour for ${label}`}
+          >
+            <option value="">Any time</option>
+            {START_HOURS.map(hour => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+          <span aria-hidden="true">to</span>
+          <select
+            value={meetingHours?.end ?? ''}
+            onChange={handleEndChange}
+            disabled={!meetingHours}
+            aria-label={`Latest preferred meeting hour for ${label}`}
+          >
+            {!meetingHours && <option value="">Any time</option>}
+            {meetingHours && START_HOURS.map(hour => hour + 1).filter(hour => hour > meetingHours.start).map(hour => (
+              <option key={hour} value={hour}>{formatHour(hour)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </fieldset>
+  );
+};
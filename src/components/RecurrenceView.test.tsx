@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RecurrenceView } from './RecurrenceView';
+import type { City, Participant } from '../types';
+
+describe('RecurrenceView Component', () => {
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+
+  const participants: Participant[] = [{ city: london }, { name: 'Sam', city: newYork }];
+  const date = new Date(2024, 2, 4);
+
+  it('lists each meeting in local time as the clocks change', async () => {
+    const user = userEvent.setup();
+    render(<RecurrenceView participants={participants} date={date} />);
+
+    await user.clear(screen.getByLabelText('Recurrence rule'));
+    await user.type(screen.getByLabelText('Recurrence rule'), 'FREQ=WEEKLY;COUNT=2');
+    await user.clear(screen.getByLabelText('First meeting time'));
+    await user.type(screen.getByLabelText('First meeting time'), '14:00');
+    await user.click(screen.getByRole('button', { name: 'Check series' }));
+
+    // New York moves to summer time on March 10, three weeks before London
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toHaveTextContent('Mon, Mar 4 2024');
+    expect(rows[1]).toHaveTextContent('Mon 02:00 PM');
+    expect(rows[1]).toHaveTextContent('Mon 09:00 AM');
+    expect(rows[2]).toHaveTextContent('Mon 02:00 PM');
+    expect(rows[2]).toHaveTextContent('Mon 10:00 AM');
+    expect(rows[1]).not.toHaveTextContent('Weekend');
+
+    const summary = screen.getByRole('status');
+    expect(summary).toHaveTextContent(/London: \d+ perfect, \d+ acceptable, \d+ not recommended/);
+    expect(summary).toHaveTextContent(/Sam \(New York\): \d+ perfect/);
+  });
+
+  it('creates the series in the chosen participant\'s timezone', async () => {
+    const user = userEvent.setup();
+    render(<RecurrenceView participants={participants} date={date} />);
+
+    await user.clear(screen.getByLabelText('Recurrence rule'));
+    await user.type(screen.getByLabelText('Recurrence rule'), 'FREQ=DAILY;COUNT=1');
+    await user.selectOptions(screen.getByLabelText('Series timezone'), '1');
+    await user.click(screen.getByRole('button', { name: 'Check series' }));
+
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent('Mon 02:00 PM');
+    expect(rows[1]).toHaveTextContent('Mon 09:00 AM');
+  });
+
+  it('marks meetings on someone\'s weekend', async () => {
+    const user = userEvent.setup();
+    render(<RecurrenceView participants={participants} date={date} />);
+
+    await user.clear(screen.getByLabelText('Recurrence rule'));
+    await user.type(screen.getByLabelText('Recurrence rule'), 'FREQ=DAILY;COUNT=6');
+    await user.click(screen.getByRole('button', { name: 'Check series' }));
+
+    // March 9 and 10, 2024 are a Saturday and Sunday
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows[6]).toHaveTextContent('Sat, Mar 9 2024');
+    expect(rows[6]).toHaveTextContent('Not RecommendedWeekend');
+    expect(screen.getByRole('status')).toHaveTextContent(/London: \d+ perfect, \d+ acceptable, 1 not recommended/);
+  });
+
+  it('shows why a rule cannot be used', async () => {
+    const user = userEvent.setup();
+    render(<RecurrenceView participants={participants} date={date} />);
+
+    await user.clear(screen.getByLabelText('Recurrence rule'));
+    await user.type(screen.getByLabelText('Recurrence rule'), 'FREQ=HOURLY');
+    await user.click(screen.getByRole('button', { name: 'Check series' }));
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Unsupported RRULE frequency: HOURLY');
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+  });
+});
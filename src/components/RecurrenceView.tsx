@@ -0,0 +1,165 @@
+import React, { useState, useMemo } from 'react';
+import { DateTime } from 'luxon';
+import type { MeetingQuality, NonWorkingDay, Participant, RecurrenceReport } from '../types';
+import { RecurrenceChecker } from '../calculators/RecurrenceChecker';
+import { getParticipantName } from '../utils/participants';
+import './RecurrenceView.css';
+
+const DEFAULT_RULE = 'FREQ=WEEKLY;COUNT=12';
+const DEFAULT_TIME = '09:00';
+
+interface RecurrenceViewProps {
+  participants: Participant[];
+  date: Date; // the first meeting's date until another is chosen
+}
+
+const getQualityClass = (quality: MeetingQuality): string =>
+  `quality-badge quality-${quality.toLowerCase().replace(' ', '-')}`;
+
+const describeNonWorkingDay = (day: NonWorkingDay): string => {
+  switch (day.kind) {
+    case 'weekend':
+      return 'Weekend';
+    case 'day-off':
+      return 'Day off';
+    case 'holiday':
+      return day.holidayName ?? 'Public holiday';
+  }
+};
+
+export const RecurrenceView: React.FC<RecurrenceViewProps> = ({ participants, date }) => {
+  const [rule, setRule] = useState(DEFAULT_RULE);
+  const [anchorIndex, setAnchorIndex] = useState(0);
+  const [anchorDate, setAnchorDate] = useState<string | null>(null);
+  const [anchorTime, setAnchorTime] = useState(DEFAULT_TIME);
+  const [result, setResult] = useState<{
+    report: RecurrenceReport;
+    participants: Participant[];
+    anchorIndex: number;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const checker = useMemo(() => new RecurrenceChecker(), []);
+
+  // A report only applies to the people it was checked for
+  const current = result && result.participants === participants ? result : null;
+  const selectedAnchor = Math.min(anchorIndex, participants.length - 1);
+  const firstDate = anchorDate ?? DateTime.fromJSDate(date).toISODate()!;
+
+  const handleCheck = () => {
+    try {
+      const report = checker.checkRecurrence(participants, rule.trim(), selectedAnchor, `${firstDate}T${anchorTime}`);
+      setResult({ report, participants, anchorIndex: selectedAnchor });
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Unable to check the recurring meeting');
+    }
+  };
+
+  return (
+    <div className="recurrence-view" role="group" aria-labelledby="recurrence-view-label">
+      <span id="recurrence-view-label" className="recurrence-view-label">Check a recurring meeting</span>
+      <div className="recurrence-view-fields">
+        <label className="recurrence-view-field recurrence-view-rule">
+          <span>Repeats (RRULE)</span>
+          <input
+            type="text"
+            value={rule}
+            onChange={(e) => setRule(e.target.value)}
+            placeholder={DEFAULT_RULE}
+            aria-label="Recurrence rule"
+            spellCheck={false}
+          />
+        </label>
+        <label className="recurrence-view-field">
+          <span>Scheduled by</span>
+          <select
+            value={selectedAnchor}
+            onChange={(e) => setAnchorIndex(parseInt(e.target.value, 10))}
+            aria-label="Series timezone"
+          >
+            {participants.map((participant, index) => (
+              <option key={index} value={index}>
+                {getParticipantName(participant)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="recurrence-view-field">
+          <span>First meeting</span>
+          <input
+            type="date"
+            value={firstDate}
+            onChange={(e) => setAnchorDate(e.target.value)}
+            aria-label="First meeting date"
+          />
+        </label>
+        <label className="recurrence-view-field">
+          <span>At</span>
+          <input
+            type="time"
+            value={anchorTime}
+            onChange={(e) => setAnchorTime(e.target.value)}
+            aria-label="First meeting time"
+          />
+        </label>
+      </div>
+      <button type="button" className="recurrence-view-button" onClick={handleCheck}>
+        Check series
+      </button>
+
+      {current && (
+        <div className="recurrence-view-result" role="status">
+          <ul className="recurrence-view-summary">
+            {current.report.summary.map((summary) => (
+              <li key={summary.participantIndex}>
+                {getParticipantName(participants[summary.participantIndex])}:{' '}
+                {summary.qualityCounts['Perfect Time']} perfect, {summary.qualityCounts['Acceptable Time']} acceptable,{' '}
+                {summary.qualityCounts['Not Recommended']} not recommended
+              </li>
+            ))}
+          </ul>
+          <div className="recurrence-view-table-container">
+            <table className="recurrence-view-table">
+              <caption className="visually-hidden">Local time and quality of each meeting</caption>
+              <thead>
+                <tr>
+                  <th scope="col">Date</th>
+                  {participants.map((participant, index) => (
+                    <th scope="col" key={index}>{getParticipantName(participant)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {current.report.occurrences.map((occurrence) => (
+                  <tr key={occurrence.start.getTime()}>
+                    <th scope="row">{occurrence.localTimes[current.anchorIndex].toFormat('ccc, LLL d yyyy')}</th>
+                    {occurrence.localTimes.map((time, index) => {
+                      const nonWorkingDay = occurrence.nonWorkingDays.find(day => day.participantIndex === index);
+                      return (
+                        <td key={index}>
+                          <span className="recurrence-view-time">{time.toFormat('ccc hh:mm a')}</span>
+                          <span className={getQualityClass(occurrence.qualities[index])}>
+                            {occurrence.qualities[index]}
+                          </span>
+                          {nonWorkingDay && (
+                            <span className="recurrence-view-day-off">{describeNonWorkingDay(nonWorkingDay)}</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      {error && (
+        <div className="recurrence-view-error" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
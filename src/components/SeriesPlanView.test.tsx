@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SeriesPlanView } from './SeriesPlanView';
+import type { City, Participant } from '../types';
+
+describe('SeriesPlanView Component', () => {
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const paris: City = { name: 'Paris', country: 'France', timezone: 'Europe/Paris' };
+  const sydney: City = { name: 'Sydney', country: 'Australia', region: 'New South Wales', timezone: 'Australia/Sydney' };
+
+  const wednesday = new Date('2024-01-17T12:00:00Z');
+
+  it('shares the inconvenient meetings out and tallies them per person', async () => {
+    const user = userEvent.setup();
+    const participants: Participant[] = [{ city: london }, { name: 'Mia', city: sydney }];
+    render(<SeriesPlanView participants={participants} date={wednesday} meetingDurationMinutes={30} slotStep={30} />);
+
+    await user.selectOptions(screen.getByLabelText('Number of meetings'), '4');
+    await user.click(screen.getByRole('button', { name: 'Plan series' }));
+
+    // London 9-18 GMT and Sydney 9-18 AEDT never overlap, so each takes two of the four
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent('London21h');
+    expect(rows[2]).toHaveTextContent('Mia (Sydney)21h');
+
+    const meetings = within(screen.getByRole('list', { name: 'Planned meetings' })).getAllByRole('listitem');
+    expect(meetings).toHaveLength(4);
+    expect(meetings[0]).toHaveTextContent('Wed, Jan 17');
+    expect(meetings[0]).toHaveTextContent('06:30 AM London ↔ 05:30 PM Mia (Sydney)');
+    expect(meetings[0]).toHaveTextContent('Outside hours for London');
+    expect(meetings[1]).toHaveTextContent('Outside hours for Mia (Sydney)');
+  });
+
+  it('steps through the dates by the cadence', async () => {
+    const user = userEvent.setup();
+    const participants: Participant[] = [{ city: london }, { city: paris }];
+    render(<SeriesPlanView participants={participants} date={wednesday} meetingDurationMinutes={30} slotStep={30} />);
+
+    await user.selectOptions(screen.getByLabelText('Series cadence'), 'daily');
+    await user.selectOptions(screen.getByLabelText('Number of meetings'), '4');
+    await user.click(screen.getByRole('button', { name: 'Plan series' }));
+
+    const meetings = within(screen.getByRole('list', { name: 'Planned meetings' })).getAllByRole('listitem');
+    expect(meetings.map(meeting => meeting.querySelector('.series-plan-date')?.textContent)).toEqual([
+      'Wed, Jan 17', 'Thu, Jan 18', 'Fri, Jan 19', 'Sat, Jan 20'
+    ]);
+    expect(meetings[3]).toHaveTextContent('No meeting: someone is off or fully booked');
+    expect(within(screen.getByRole('table')).getAllByRole('row')[1]).toHaveTextContent('London0None');
+  });
+});
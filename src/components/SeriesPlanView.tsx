@@ -0,0 +1,142 @@
+import React, { useState, useMemo } from 'react';
+import { DateTime } from 'luxon';
+import type { Participant, SeriesCadence, SeriesPlan, SlotStep } from '../types';
+import { SeriesPlanner } from '../calculators/SeriesPlanner';
+import { MeetingSuggester } from '../calculators/MeetingSuggester';
+import { formatDuration } from '../utils/workingHours';
+import { getParticipantName } from '../utils/participants';
+import './SeriesPlanView.css';
+
+const CADENCE_OPTIONS: { value: SeriesCadence; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekly', label: 'Every week' },
+  { value: 'biweekly', label: 'Every two weeks' },
+  { value: 'monthly', label: 'Every month' }
+];
+const OCCURRENCE_OPTIONS = [4, 8, 12, 26, 52];
+const DEFAULT_OCCURRENCES = 12;
+
+interface SeriesPlanViewProps {
+  participants: Participant[];
+  date: Date; // the first meeting's date
+  meetingDurationMinutes: number;
+  slotStep: SlotStep;
+}
+
+export const SeriesPlanView: React.FC<SeriesPlanViewProps> = ({
+  participants,
+  date,
+  meetingDurationMinutes,
+  slotStep,
+}) => {
+  const [cadence, setCadence] = useState<SeriesCadence>('weekly');
+  const [occurrences, setOccurrences] = useState(DEFAULT_OCCURRENCES);
+  const [result, setResult] = useState<{ plan: SeriesPlan; participants: Participant[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const suggester = useMemo(() => new MeetingSuggester(), []);
+  const planner = useMemo(() => new SeriesPlanner(suggester), [suggester]);
+
+  // A plan only applies to the people it was made for
+  const current = result && result.participants === participants ? result : null;
+
+  const handlePlan = () => {
+    try {
+      const plan = planner.planSeries(participants, date, occurrences, cadence, meetingDurationMinutes, slotStep);
+      setResult({ plan, participants });
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Unable to plan the meeting series');
+    }
+  };
+
+  return (
+    <div className="series-plan" role="group" aria-labelledby="series-plan-label">
+      <span id="series-plan-label" className="series-plan-label">Share out a recurring meeting fairly</span>
+      <div className="series-plan-fields">
+        <label className="series-plan-field">
+          <span>Repeats</span>
+          <select
+            value={cadence}
+            onChange={(e) => setCadence(e.target.value as SeriesCadence)}
+            aria-label="Series cadence"
+          >
+            {CADENCE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="series-plan-field">
+          <span>Meetings</span>
+          <select
+            value={occurrences}
+            onChange={(e) => setOccurrences(parseInt(e.target.value, 10))}
+            aria-label="Number of meetings"
+          >
+            {OCCURRENCE_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <button type="button" className="series-plan-button" onClick={handlePlan}>
+        Plan series
+      </button>
+
+      {current && (
+        <div className="series-plan-result" role="status">
+          <table className="series-plan-tally">
+            <caption className="visually-hidden">Meetings outside working hours per person</caption>
+            <thead>
+              <tr>
+                <th scope="col">Person</th>
+                <th scope="col">Meetings outside hours</th>
+                <th scope="col">Time outside hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {current.plan.tally.map((entry) => (
+                <tr key={entry.participantIndex}>
+                  <th scope="row">{getParticipantName(participants[entry.participantIndex])}</th>
+                  <td>{entry.notRecommendedCount}</td>
+                  <td>{entry.minutesOutsideHours > 0 ? formatDuration(entry.minutesOutsideHours) : 'None'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <ol className="series-plan-occurrences" aria-label="Planned meetings">
+            {current.plan.occurrences.map((occurrence) => (
+              <li key={occurrence.date.getTime()}>
+                <span className="series-plan-date">{DateTime.fromJSDate(occurrence.date).toFormat('ccc, LLL d')}</span>
+                {occurrence.suggestion ? (
+                  <>
+                    <span>{suggester.formatMeetingSuggestion(occurrence.suggestion, participants)}</span>
+                    {occurrence.inconveniencedParticipants.length > 0 && (
+                      <span className="series-plan-outside">
+                        Outside hours for{' '}
+                        {occurrence.inconveniencedParticipants
+                          .map(participantIndex => getParticipantName(participants[participantIndex]))
+                          .join(', ')}
+                      </span>
+                    )}
+                  </>
+                ) : (
+                  <span className="series-plan-none">No meeting: someone is off or fully booked</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {error && (
+        <div className="series-plan-error" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TeamManager } from './TeamManager';
+import { loadTeams, saveTeam } from '../utils/teams';
+import type { City, ParticipantInput } from '../types';
+
+describe('TeamManager Component', () => {
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const bangalore: City = { name: 'Bangalore', country: 'India', timezone: 'Asia/Kolkata' };
+  const getLabel = (index: number) => `City ${String.fromCharCode(65 + index)}`;
+
+  const participants: ParticipantInput[] = [
+    { name: 'Priya', city: bangalore, workingHours: { start: 10, end: 19 } },
+    { city: london, workingHours: { start: 9, end: 18 } }
+  ];
+
+  it('saves the selected cities as a named team', async () => {
+    const user = userEvent.setup();
+    render(<TeamManager participants={participants} onLoadTeam={vi.fn()} getLabel={getLabel} />);
+
+    expect(screen.getByText(/no saved teams yet/i)).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText('Team name'), 'Platform');
+    await user.type(screen.getByLabelText('Notes for City A'), 'Prefers mornings');
+    await user.click(screen.getByRole('button', { name: 'Save team' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Saved Platform');
+    expect(loadTeams()).toEqual([{
+      name: 'Platform',
+      members: [
+        { name: 'Priya', city: bangalore, workingHours: { start: 10, end: 19 }, notes: 'Prefers mornings' },
+        { name: 'London', city: london, workingHours: { start: 9, end: 18 } }
+      ]
+    }]);
+    expect(screen.getByRole('list', { name: 'Members of Platform' })).toHaveTextContent('Priya (Bangalore) 10 AM - 7 PM');
+  });
+
+  it('fills the calculator from a saved team', async () => {
+    const user = userEvent.setup();
+    const handleLoadTeam = vi.fn();
+    const [team] = saveTeam({
+      name: 'Offices',
+      members: [{ name: 'Sam', city: london, workingHours: { start: 9, end: 18 }, notes: 'Mornings only' }]
+    });
+
+    render(<TeamManager participants={participants} onLoadTeam={handleLoadTeam} getLabel={getLabel} />);
+
+    await user.selectOptions(screen.getByLabelText('Saved teams'), 'Offices');
+
+    expect(handleLoadTeam).toHaveBeenCalledWith(team);
+    expect(screen.getByLabelText('Team name')).toHaveValue('Offices');
+    expect(screen.getByLabelText('Notes for City A')).toHaveValue('Mornings only');
+  });
+
+  it('deletes a saved team', async () => {
+    const user = userEvent.setup();
+    saveTeam({ name: 'Offices', members: [{ name: 'Sam', city: london, workingHours: { start: 9, end: 18 } }] });
+
+    render(<TeamManager participants={participants} onLoadTeam={vi.fn()} getLabel={getLabel} />);
+
+    await user.selectOptions(screen.getByLabelText('Saved teams'), 'Offices');
+    await user.click(screen.getByRole('button', { name: 'Delete team Offices' }));
+
+    expect(loadTeams()).toEqual([]);
+    expect(screen.getByText(/no saved teams yet/i)).toBeInTheDocument();
+  });
+
+  it('needs a team name and a selected city to save', async () => {
+    const user = userEvent.setup();
+    render(
+      <TeamManager
+        participants={[{ city: null, workingHours: { start: 9, end: 18 } }]}
+        onLoadTeam={vi.fn()}
+        getLabel={getLabel}
+      />
+    );
+
+    await user.type(screen.getByLabelText('Team name'), 'Platform');
+    expect(screen.getByRole('button', { name: 'Save team' })).toBeDisabled();
+  });
+
+  it('explains instead of crashing when the browser blocks local storage', async () => {
+    const user = userEvent.setup();
+    const blocked = vi.spyOn(window, 'localStorage', 'get').mockImplementation(() => {
+      throw new DOMException('The operation is insecure.', 'SecurityError');
+    });
+
+    try {
+      render(<TeamManager participants={participants} onLoadTeam={vi.fn()} getLabel={getLabel} />);
+
+      expect(screen.getByText(/no saved teams yet/i)).toBeInTheDocument();
+
+      await user.type(screen.getByLabelText('Team name'), 'Platform');
+      await user.click(screen.getByRole('button', { name: 'Save team' }));
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Your browser may be blocking local storage');
+    } finally {
+      blocked.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import type { ParticipantInput, Team, TeamMember } from '../types';
+import { loadTeams, saveTeam, deleteTeam } from '../utils/teams';
+import { getStartMinutes, getEndMinutes, formatMinutesOfDay } from '../utils/workingHours';
+import { getParticipantName } from '../utils/participants';
+import './TeamManager.css';
+
+interface TeamManagerProps {
+  participants: ParticipantInput[];
+  onLoadTeam: (team: Team) => void;
+  getLabel: (index: number) => string;
+}
+
+export const TeamManager: React.FC<TeamManagerProps> = ({
+  participants,
+  onLoadTeam,
+  getLabel,
+}) => {
+  const [teams, setTeams] = useState<Team[]>(() => loadTeams());
+  const [selectedName, setSelectedName] = useState('');
+  const [teamName, setTeamName] = useState('');
+  const [notes, setNotes] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTeam = teams.find(team => team.name === selectedName) ?? null;
+  const canSave = participants.some(participant => participant.city !== null) && teamName.trim() !== '';
+
+  // Choosing a team fills the calculator with its members
+  const handleSelect = (name: string) => {
+    setSelectedName(name);
+    setMessage(null);
+    setError(null);
+
+    const team = teams.find(saved => saved.name === name);
+    if (team) {
+      onLoadTeam(team);
+      setTeamName(team.name);
+      setNotes(team.members.map(member => member.notes ?? ''));
+    }
+  };
+
+  const handleNotesChange = (index: number, value: string) => {
+    setNotes(prev => {
+      const next = [...prev];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const members: TeamMember[] = participants.flatMap((participant, index) =>
+      participant.city
+        ? [{
+          name: participant.name ?? '',
+          city: participant.city,
+          ...(participant.timezone ? { timezone: participant.timezone } : {}),
+          workingHours: participant.workingHours,
+          ...(participant.schedule ? { schedule: participant.schedule } : {}),
+          ...(participant.preferences ? { preferences: participant.preferences } : {}),
+          notes: notes[index]
+        }]
+        : []
+    );
+
+    try {
+      const saved = saveTeam({ name: teamName, members });
+      setTeams(saved);
+      setSelectedName(saved.find(team => team.name.toLowerCase() === teamName.trim().toLowerCase())?.name ?? '');
+      setMessage(`Saved ${teamName.trim()}`);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to save the team');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selectedTeam) {
+      return;
+    }
+
+    try {
+      setTeams(deleteTeam(selectedTeam.name));
+      setMessage(`Deleted ${selectedTeam.name}`);
+      setSelectedName('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to delete the team');
+    }
+  };
+
+  return (
+    <div className="team-manager">
+      <div className="team-picker">
+        <span className="team-manager-label" id="team-picker-label">Saved teams</span>
+        {teams.length === 0 ? (
+          <p className="team-picker-empty">No saved teams yet. Save the selected cities to reuse them next time.</p>
+        ) : (
+          <div className="team-picker-controls">
+            <select
+              aria-labelledby="team-picker-label"
+              value={selectedName}
+              onChange={(e) => handleSelect(e.target.value)}
+            >
+              <option value="">Choose a team...</option>
+              {teams.map(team => (
+                <option key={team.name} value={team.name}>
+                  {team.name} ({team.members.length})
+                </option>
+              ))}
+            </select>
+            {selectedTeam && (
+              <button
+                type="button"
+                className="team-delete-button"
+                onClick={handleDelete}
+                aria-label={`Delete team ${selectedTeam.name}`}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+        {selectedTeam && (
+          <ul className="team-members" aria-label={`Members of ${selectedTeam.name}`}>
+            {selectedTeam.members.map((member, index) => (
+              <li key={index}>
+                <span className="team-member-name">{getParticipantName(member)}</span>
+                {' '}
+                <span className="team-member-hours">
+                  {formatMinutesOfDay(getStartMinutes(member.workingHours))} - {formatMinutesOfDay(getEndMinutes(member.workingHours))}
+                  {member.timezone && ` ${member.timezone} time`}
+                </span>
+                {member.notes && <span className="team-member-notes">{member.notes}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form className="team-save" onSubmit={handleSave} aria-label="Save cities as a team">
+        <span className="team-manager-label">Save these cities as a team</span>
+        <input
+          type="text"
+          value={teamName}
+          onChange={(e) => setTeamName(e.target.value)}
+          placeholder="Team name"
+          aria-label="Team name"
+        />
+        {participants.map((participant, index) => participant.city && (
+          <div className="team-save-member" key={index}>
+            <span className="team-save-city">
+              {getParticipantName({ name: participant.name, city: participant.city })}
+            </span>
+            <input
+              type="text"
+              value={notes[index] ?? ''}
+              onChange={(e) => handleNotesChange(index, e.target.value)}
+              placeholder="Notes (optional)"
+              aria-label={`Notes for ${getLabel(index)}`}
+            />
+          </div>
+        ))}
+        <button type="submit" className="team-save-button" disabled={!canSave}>
+          Save team
+        </button>
+      </form>
+
+      {message && (
+        <div className="team-manager-message" role="status">
+          {message}
+        </div>
+      )}
+      {error && (
+        <div className="team-manager-error" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -50,14 +50,13 @@ describe('TimelineVisualizer Property Tests', () => {
         return {
           hasOverlap: true,
           overlapInUTC: { start: startUTC, end: endUTC },
-          overlapInCityA: {
+          localOverlaps: [{
             start: startUTC.setZone(cityA.timezone),
             end: endUTC.setZone(cityA.timezone),
-          },
-          overlapInCityB: {
+          }, {
             start: startUTC.setZone(cityB.timezone),
             end: endUTC.setZone(cityB.timezone),
-          },
+          }],
           durationMinutes: durationHours * 60,
         };
       });
@@ -80,23 +79,22 @@ describe('TimelineVisualizer Property Tests', () => {
           const overlap: OverlapResult = {
             hasOverlap: true,
             overlapInUTC: { start: startUTC, end: endUTC },
-            overlapInCityA: {
+            localOverlaps: [{
               start: startUTC.setZone(cityA.timezone),
               end: endUTC.setZone(cityA.timezone),
-            },
-            overlapInCityB: {
+            }, {
               start: startUTC.setZone(cityB.timezone),
               end: endUTC.setZone(cityB.timezone),
-            },
+            }],
             durationMinutes: durationHours * 60,
           };
 
           const { container } = render(
             <TimelineVisualizer
-              cityA={cityA}
-              cityB={cityB}
-              workingHoursA={workingHoursA}
-              workingHoursB={workingHoursB}
+              participants={[
+                { city: cityA, workingHours: workingHoursA },
+                { city: cityB, workingHours: workingHoursB },
+              ]}
               overlap={overlap}
             />
           );
@@ -139,10 +137,10 @@ describe('TimelineVisualizer Property Tests', () => {
 
           const { container } = render(
             <TimelineVisualizer
-              cityA={cityA}
-              cityB={cityB}
-              workingHoursA={workingHoursA}
-              workingHoursB={workingHoursB}
+              participants={[
+                { city: cityA, workingHours: workingHoursA },
+                { city: cityB, workingHours: workingHoursB },
+              ]}
               overlap={noOverlap}
             />
           );
@@ -184,24 +182,23 @@ describe('TimelineVisualizer Property Tests', () => {
                   start: DateTime.utc().set({ hour: 10, minute: 0 }),
                   end: DateTime.utc().set({ hour: 14, minute: 0 }),
                 },
-                overlapInCityA: {
+                localOverlaps: [{
                   start: DateTime.utc().set({ hour: 10, minute: 0 }).setZone(cityA.timezone),
                   end: DateTime.utc().set({ hour: 14, minute: 0 }).setZone(cityA.timezone),
-                },
-                overlapInCityB: {
+                }, {
                   start: DateTime.utc().set({ hour: 10, minute: 0 }).setZone(cityB.timezone),
                   end: DateTime.utc().set({ hour: 14, minute: 0 }).setZone(cityB.timezone),
-                },
+                }],
                 durationMinutes: 240,
               }
             : { hasOverlap: false };
 
           const { container } = render(
             <TimelineVisualizer
-              cityA={cityA}
-              cityB={cityB}
-              workingHoursA={workingHoursA}
-              workingHoursB={workingHoursB}
+              participants={[
+                { city: cityA, workingHours: workingHoursA },
+                { city: cityB, workingHours: workingHoursB },
+              ]}
               overlap={overlap}
             />
           );
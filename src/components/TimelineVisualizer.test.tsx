@@ -29,23 +29,22 @@ describe('TimelineVisualizer', () => {
         start: DateTime.utc(2024, 1, 1, 14, 0),
         end: DateTime.utc(2024, 1, 1, 18, 0),
       },
-      overlapInCityA: {
+      localOverlaps: [{
         start: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 9, minute: 0 }, { zone: 'America/New_York' }),
         end: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 13, minute: 0 }, { zone: 'America/New_York' }),
-      },
-      overlapInCityB: {
+      }, {
         start: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 14, minute: 0 }, { zone: 'Europe/London' }),
         end: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 18, minute: 0 }, { zone: 'Europe/London' }),
-      },
+      }],
       durationMinutes: 240,
     };
 
     const { container } = render(
       <TimelineVisualizer
-        cityA={cityA}
-        cityB={cityB}
-        workingHoursA={defaultWorkingHours}
-        workingHoursB={defaultWorkingHours}
+        participants={[
+          { city: cityA, workingHours: defaultWorkingHours },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
         overlap={overlap}
       />
     );
@@ -71,10 +70,10 @@ describe('TimelineVisualizer', () => {
 
     const { container } = render(
       <TimelineVisualizer
-        cityA={cityA}
-        cityB={cityB}
-        workingHoursA={defaultWorkingHours}
-        workingHoursB={defaultWorkingHours}
+        participants={[
+          { city: cityA, workingHours: defaultWorkingHours },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
         overlap={noOverlap}
       />
     );
@@ -112,23 +111,22 @@ describe('TimelineVisualizer', () => {
         start: DateTime.utc(2024, 1, 1, 17, 0),
         end: DateTime.utc(2024, 1, 1, 26, 0),
       },
-      overlapInCityA: {
+      localOverlaps: [{
         start: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 9, minute: 0 }, { zone: 'America/Los_Angeles' }),
         end: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 18, minute: 0 }, { zone: 'America/Los_Angeles' }),
-      },
-      overlapInCityB: {
+      }, {
         start: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 9, minute: 0 }, { zone: 'America/Los_Angeles' }),
         end: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 18, minute: 0 }, { zone: 'America/Los_Angeles' }),
-      },
+      }],
       durationMinutes: 540,
     };
 
     const { container } = render(
       <TimelineVisualizer
-        cityA={sameCityA}
-        cityB={sameCityB}
-        workingHoursA={defaultWorkingHours}
-        workingHoursB={defaultWorkingHours}
+        participants={[
+          { city: sameCityA, workingHours: defaultWorkingHours },
+          { city: sameCityB, workingHours: defaultWorkingHours },
+        ]}
         overlap={overlap}
       />
     );
@@ -154,23 +152,22 @@ describe('TimelineVisualizer', () => {
         start: DateTime.utc(2024, 1, 1, 14, 0),
         end: DateTime.utc(2024, 1, 1, 18, 0),
       },
-      overlapInCityA: {
+      localOverlaps: [{
         start: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 9, minute: 0 }, { zone: 'America/New_York' }),
         end: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 13, minute: 0 }, { zone: 'America/New_York' }),
-      },
-      overlapInCityB: {
+      }, {
         start: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 14, minute: 0 }, { zone: 'Europe/London' }),
         end: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 18, minute: 0 }, { zone: 'Europe/London' }),
-      },
+      }],
       durationMinutes: 240,
     };
 
     render(
       <TimelineVisualizer
-        cityA={cityA}
-        cityB={cityB}
-        workingHoursA={defaultWorkingHours}
-        workingHoursB={defaultWorkingHours}
+        participants={[
+          { city: cityA, workingHours: defaultWorkingHours },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
         overlap={overlap}
       />
     );
@@ -197,23 +194,22 @@ describe('TimelineVisualizer', () => {
         start: DateTime.utc(2024, 1, 1, 15, 0),
         end: DateTime.utc(2024, 1, 1, 21, 0),
       },
-      overlapInCityA: {
+      localOverlaps: [{
         start: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 10, minute: 0 }, { zone: 'America/New_York' }),
         end: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 16, minute: 0 }, { zone: 'America/New_York' }),
-      },
-      overlapInCityB: {
+      }, {
         start: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 15, minute: 0 }, { zone: 'Europe/London' }),
         end: DateTime.fromObject({ year: 2024, month: 1, day: 1, hour: 21, minute: 0 }, { zone: 'Europe/London' }),
-      },
+      }],
       durationMinutes: 360,
     };
 
     render(
       <TimelineVisualizer
-        cityA={cityA}
-        cityB={cityB}
-        workingHoursA={customHoursA}
-        workingHoursB={customHoursB}
+        participants={[
+          { city: cityA, workingHours: customHoursA },
+          { city: cityB, workingHours: customHoursB },
+        ]}
         overlap={overlap}
       />
     );
@@ -230,10 +226,10 @@ describe('TimelineVisualizer', () => {
 
     render(
       <TimelineVisualizer
-        cityA={cityA}
-        cityB={cityB}
-        workingHoursA={defaultWorkingHours}
-        workingHoursB={defaultWorkingHours}
+        participants={[
+          { city: cityA, workingHours: defaultWorkingHours },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
         overlap={noOverlap}
       />
     );
@@ -245,4 +241,168 @@ describe('TimelineVisualizer', () => {
     expect(screen.getByText('12 PM')).toBeTruthy();
     expect(screen.getByText('6 PM')).toBeTruthy();
   });
+
+  it('should render a row for every participant', () => {
+    const cityC: City = {
+      name: 'Tokyo',
+      country: 'Japan',
+      timezone: 'Asia/Tokyo',
+    };
+
+    const { container } = render(
+      <TimelineVisualizer
+        participants={[
+          { city: cityA, workingHours: defaultWorkingHours },
+          { city: cityB, workingHours: defaultWorkingHours },
+          { city: cityC, workingHours: { start: 8, end: 17 } },
+        ]}
+        overlap={{ hasOverlap: false }}
+      />
+    );
+
+    expect(screen.getByText('Tokyo')).toBeTruthy();
+    expect(screen.getByText('8 AM - 5 PM')).toBeTruthy();
+    expect(container.querySelectorAll('.participant-block').length).toBe(3);
+    expect(container.querySelector('.city-c-block')).toBeTruthy();
+  });
+
+  it('should label minute-precision working hours', () => {
+    render(
+      <TimelineVisualizer
+        participants={[
+          { city: cityA, workingHours: { start: 8, startMinute: 30, end: 17, endMinute: 30 } },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
+        overlap={{ hasOverlap: false }}
+      />
+    );
+
+    expect(screen.getByText('8:30 AM - 5:30 PM')).toBeTruthy();
+  });
+
+  it('should split overnight working hours across midnight', () => {
+    const { container } = render(
+      <TimelineVisualizer
+        participants={[
+          { city: cityA, workingHours: { start: 22, end: 6 } },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
+        overlap={{ hasOverlap: false }}
+      />
+    );
+
+    const blocks = container.querySelectorAll<HTMLElement>('.city-a-block');
+    expect(blocks.length).toBe(2);
+    expect(blocks[0].style.left).toBe(`${(22 / 24) * 100}%`);
+    expect(blocks[1].style.left).toBe('0%');
+    expect(blocks[1].style.width).toBe('25%');
+
+    // The label is shown once, in the larger early-morning block
+    expect(screen.getAllByText('10 PM - 6 AM').length).toBe(1);
+    expect(blocks[1].textContent).toBe('10 PM - 6 AM');
+  });
+
+  it('should draw a block for each segment between breaks', () => {
+    const { container } = render(
+      <TimelineVisualizer
+        participants={[
+          { city: cityA, workingHours: { start: 9, end: 19, breaks: [{ start: 14, end: 16 }] } },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
+        overlap={{ hasOverlap: false }}
+      />
+    );
+
+    const blocks = container.querySelectorAll<HTMLElement>('.city-a-block');
+    expect(blocks.length).toBe(2);
+    expect(blocks[0].style.width).toBe(`${(5 / 24) * 100}%`);
+    expect(blocks[1].style.left).toBe(`${(16 / 24) * 100}%`);
+    expect(blocks[1].classList.contains('timeline-block-continued')).toBe(false);
+    expect(blocks[0].getAttribute('aria-label')).toBe(
+      'New York working hours from 9 AM to 7 PM, with breaks from 2 PM to 4 PM'
+    );
+    expect(blocks[1].getAttribute('aria-hidden')).toBe('true');
+  });
+
+  it('should draw every overlap window', () => {
+    const window = (startHour: number, endHour: number) => ({
+      overlapInUTC: { start: DateTime.utc(2024, 1, 1, startHour), end: DateTime.utc(2024, 1, 1, endHour) },
+      localOverlaps: [
+        { start: DateTime.utc(2024, 1, 1, startHour), end: DateTime.utc(2024, 1, 1, endHour) },
+        { start: DateTime.utc(2024, 1, 1, startHour), end: DateTime.utc(2024, 1, 1, endHour) },
+      ],
+      durationMinutes: (endHour - startHour) * 60,
+    });
+    const morning = window(9, 13);
+    const overlap: OverlapResult = { hasOverlap: true, ...morning, windows: [morning, window(15, 18)] };
+
+    const { container } = render(
+      <TimelineVisualizer
+        participants={[
+          { city: cityB, workingHours: { start: 9, end: 18, breaks: [{ start: 13, end: 15 }] } },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
+        overlap={overlap}
+      />
+    );
+
+    expect(container.querySelectorAll('.overlap-block').length).toBe(2);
+    expect(screen.getByText('240 min')).toBeTruthy();
+    expect(screen.getByText('180 min')).toBeTruthy();
+    expect(screen.getByText(/Overlapping periods: 240 and 180 minutes/)).toBeTruthy();
+  });
+
+  it('should mark a participant on a non-working day', () => {
+    const { container } = render(
+      <TimelineVisualizer
+        participants={[
+          { city: cityA, workingHours: defaultWorkingHours },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
+        overlap={{
+          hasOverlap: false,
+          reason: 'non-working-day',
+          nonWorkingDays: [{ participantIndex: 1, weekday: 6, kind: 'weekend' }],
+        }}
+      />
+    );
+
+    expect(screen.getByText('Non-working day')).toBeTruthy();
+    expect(container.querySelectorAll('.city-a-block').length).toBe(1);
+    expect(container.querySelectorAll('.city-b-block').length).toBe(0);
+    expect(screen.getByText(/London: Non-working day/)).toBeTruthy();
+  });
+
+  it('should name the public holiday a participant is on', () => {
+    render(
+      <TimelineVisualizer
+        participants={[
+          { city: cityA, workingHours: defaultWorkingHours },
+          { city: cityB, workingHours: defaultWorkingHours },
+        ]}
+        overlap={{
+          hasOverlap: false,
+          reason: 'non-working-day',
+          nonWorkingDays: [{ participantIndex: 0, weekday: 4, kind: 'holiday', holidayName: 'Thanksgiving Day' }],
+        }}
+      />
+    );
+
+    expect(screen.getByText('Public holiday: Thanksgiving Day')).toBeTruthy();
+  });
+
+  it('should draw the hours for the weekday of the selected date', () => {
+    render(
+      <TimelineVisualizer
+        participants={[
+          { city: cityA, workingHours: defaultWorkingHours },
+          { city: cityB, schedule: { hours: { 5: { start: 9, end: 13 } } } },
+        ]}
+        overlap={{ hasOverlap: false }}
+        date={new Date('2024-01-19T12:00:00Z')}
+      />
+    );
+
+    expect(screen.getByText('9 AM - 1 PM')).toBeTruthy();
+  });
 });
@@ -1,72 +1,144 @@
 import React from 'react';
-import type { City, WorkingHours, OverlapResult } from '../types';
+import { DateTime } from 'luxon';
+import type { Participant, OverlapResult, Weekday } from '../types';
+import { DEFAULT_WORKING_HOURS } from '../calculators/OverlapCalculator';
+import { getStartMinutes, getEndMinutes, getWorkingSegments, formatMinutesOfDay, MINUTES_PER_DAY } from '../utils/workingHours';
+import { getHoursForWeekday } from '../utils/schedule';
+import { getParticipantName, getParticipantTimezone } from '../utils/participants';
 import './TimelineVisualizer.css';
 
 interface TimelineVisualizerProps {
-  cityA: City;
-  cityB: City;
-  workingHoursA: WorkingHours;
-  workingHoursB: WorkingHours;
+  participants: Participant[];
   overlap: OverlapResult;
+  date?: Date; // selects each participant's hours for that weekday
 }
 
 export const TimelineVisualizer: React.FC<TimelineVisualizerProps> = ({
-  cityA,
-  cityB,
-  workingHoursA,
-  workingHoursB,
+  participants,
   overlap,
+  date,
 }) => {
   // Generate time markers for 24-hour period (every 3 hours)
   const timeMarkers = [0, 3, 6, 9, 12, 15, 18, 21, 24];
 
   // Format hour to 12-hour format with AM/PM
-  const formatHour = (hour: number): string => {
-    if (hour === 0 || hour === 24) return '12 AM';
-    if (hour === 12) return '12 PM';
-    if (hour < 12) return `${hour} AM`;
-    return `${hour - 12} PM`;
-  };
+  const formatHour = (hour: number): string => formatMinutesOfDay(hour * 60);
 
-  // Calculate position and width percentages for working hours blocks
-  const calculateBlockStyle = (start: number, end: number) => {
-    // Handle midnight spanning
-    if (end <= start) {
-      end = end + 24;
-    }
-    
+  // Calculate position and width percentages for a block within one day
+  const calculateBlockStyle = (start: number, end: number, continued: boolean) => {
     const left = (start / 24) * 100;
     const width = ((end - start) / 24) * 100;
     
-    return { left: `${left}%`, width: `${width}%` };
+    return { left: `${left}%`, width: `${width}%`, widthHours: end - start, continued };
+  };
+
+  // Calculate the blocks for a time range, splitting ranges that span
+  // midnight into an evening block and an early-morning block
+  const calculateBlockStyles = (start: number, end: number) => {
+    if (end > start) {
+      return [calculateBlockStyle(start, end, false)];
+    }
+
+    const blocks = [calculateBlockStyle(start, 24, false)];
+    if (end > 0) {
+      blocks.push(calculateBlockStyle(0, end, true));
+    }
+    return blocks;
   };
 
-  // Calculate overlap block style if overlap exists
-  const getOverlapStyle = () => {
-    if (!overlap.hasOverlap || !overlap.overlapInCityA) {
+  // Calculate the blocks for each working segment between breaks
+  // Segments of an overnight shift that start after midnight continue the shift
+  const calculateSegmentBlocks = (segments: { start: number; end: number }[]) =>
+    segments.flatMap(segment => {
+      if (segment.start >= MINUTES_PER_DAY) {
+        return [calculateBlockStyle(
+          (segment.start - MINUTES_PER_DAY) / 60,
+          (segment.end - MINUTES_PER_DAY) / 60,
+          true
+        )];
+      }
+      return calculateBlockStyles(segment.start / 60, (segment.end % MINUTES_PER_DAY) / 60);
+    });
+
+  // Calculate the blocks for every overlap window if overlap exists
+  const getOverlapWindowBlocks = () => {
+    if (!overlap.hasOverlap || !overlap.localOverlaps || overlap.localOverlaps.length === 0) {
       return null;
     }
 
-    const overlapStart = overlap.overlapInCityA.start.hour + overlap.overlapInCityA.start.minute / 60;
-    const overlapEnd = overlap.overlapInCityA.end.hour + overlap.overlapInCityA.end.minute / 60;
-    
-    return calculateBlockStyle(overlapStart, overlapEnd);
+    const windows = overlap.windows ?? [{
+      localOverlaps: overlap.localOverlaps,
+      durationMinutes: overlap.durationMinutes ?? 0
+    }];
+
+    // The timeline is drawn in the first participant's local time
+    return windows.map(window => {
+      const referenceOverlap = window.localOverlaps[0];
+      const overlapStart = referenceOverlap.start.hour + referenceOverlap.start.minute / 60;
+      const overlapEnd = referenceOverlap.end.hour + referenceOverlap.end.minute / 60;
+
+      return {
+        durationMinutes: Math.round(window.durationMinutes),
+        blocks: calculateBlockStyles(overlapStart, overlapEnd)
+      };
+    });
   };
 
-  const cityAStyle = calculateBlockStyle(workingHoursA.start, workingHoursA.end);
-  const cityBStyle = calculateBlockStyle(workingHoursB.start, workingHoursB.end);
-  const overlapStyle = getOverlapStyle();
+  const rows = participants.map((participant, index) => {
+    const letter = String.fromCharCode(97 + index);
+    const fallbackHours = participant.workingHours ?? DEFAULT_WORKING_HOURS;
+    const weekday = date
+      ? DateTime.fromJSDate(date).setZone(getParticipantTimezone(participant)).weekday as Weekday
+      : null;
+    const hours = weekday
+      ? getHoursForWeekday(participant, weekday, DEFAULT_WORKING_HOURS) ?? fallbackHours
+      : fallbackHours;
+    const nonWorkingDay = overlap.nonWorkingDays?.find(day => day.participantIndex === index);
+    const startMinutes = getStartMinutes(hours);
+    const endMinutes = getEndMinutes(hours);
+    const breakLabels = (hours.breaks ?? []).map(workBreak =>
+      `${formatMinutesOfDay(getStartMinutes(workBreak))} to ${formatMinutesOfDay(getEndMinutes(workBreak))}`
+    );
+
+    return {
+      participant,
+      startLabel: formatMinutesOfDay(startMinutes),
+      endLabel: formatMinutesOfDay(endMinutes),
+      breakDescription: breakLabels.length > 0 ? `, with breaks from ${breakLabels.join(' and ')}` : '',
+      isOvernight: endMinutes <= startMinutes,
+      isNonWorkingDay: !!nonWorkingDay,
+      nonWorkingDayLabel: nonWorkingDay?.kind === 'holiday'
+        ? `Public holiday: ${nonWorkingDay.holidayName}`
+        : 'Non-working day',
+      labelId: `city-${letter}-label`,
+      blockClassName: `city-${letter}-block`,
+      blocks: calculateSegmentBlocks(getWorkingSegments(hours)),
+    };
+  });
+  const overlapWindows = getOverlapWindowBlocks();
+
+  // Block labels go in the widest block so split blocks stay readable
+  const getLabelledBlockIndex = (blocks: { widthHours: number }[]): number =>
+    blocks.reduce((widest, block, index) => (block.widthHours > blocks[widest].widthHours ? index : widest), 0);
 
   // Create descriptive text for screen readers
   const getScreenReaderDescription = (): string => {
-    const cityAHours = `${cityA.name} working hours: ${formatHour(workingHoursA.start)} to ${formatHour(workingHoursA.end)}`;
-    const cityBHours = `${cityB.name} working hours: ${formatHour(workingHoursB.start)} to ${formatHour(workingHoursB.end)}`;
-    
-    if (overlap.hasOverlap && overlap.durationMinutes) {
+    const participantHours = rows
+      .map(({ participant, startLabel, endLabel, breakDescription, isNonWorkingDay, nonWorkingDayLabel }) =>
+        isNonWorkingDay
+          ? `${getParticipantName(participant)}: ${nonWorkingDayLabel}`
+          : `${getParticipantName(participant)} working hours: ${startLabel} to ${endLabel}${breakDescription}`
+      )
+      .join('. ');
+
+    if (overlapWindows && overlapWindows.length > 1) {
+      const durations = overlapWindows.map(window => `${window.durationMinutes}`).join(' and ');
+      return `${participantHours}. Overlapping periods: ${durations} minutes.`;
+    } else if (overlap.hasOverlap && overlap.durationMinutes) {
       const overlapDesc = `Overlapping period: ${Math.round(overlap.durationMinutes)} minutes`;
-      return `${cityAHours}. ${cityBHours}. ${overlapDesc}.`;
+      return `${participantHours}. ${overlapDesc}.`;
     } else {
-      return `${cityAHours}. ${cityBHours}. No overlapping working hours found.`;
+      return `${participantHours}. No overlapping working hours found.`;
     }
   };
 
@@ -84,47 +156,41 @@ export const TimelineVisualizer: React.FC<TimelineVisualizerProps> = ({
         <h3>Working Hours Comparison</h3>
       </div>
 
-      {/* City A Timeline */}
-      <div className="timeline-row">
-        <div className="timeline-label" id="city-a-label">
-          <span className="city-name">{cityA.name}</span>
-          <span className="timezone-info">{cityA.timezone}</span>
-        </div>
-        <div className="timeline-track" role="presentation">
-          <div
-            className="timeline-block city-a-block"
-            style={cityAStyle}
-            role="img"
-            aria-labelledby="city-a-label"
-            aria-label={`${cityA.name} working hours from ${formatHour(workingHoursA.start)} to ${formatHour(workingHoursA.end)}`}
-          >
-            <span className="block-label" aria-hidden="true">
-              {formatHour(workingHoursA.start)} - {formatHour(workingHoursA.end)}
-            </span>
+      {/* Participant Timelines */}
+      {rows.map(({ participant, startLabel, endLabel, breakDescription, isOvernight, isNonWorkingDay, nonWorkingDayLabel, labelId, blockClassName, blocks }) => (
+        <div className="timeline-row" key={labelId}>
+          <div className="timeline-label" id={labelId}>
+            <span className="city-name">{getParticipantName(participant)}</span>
+            <span className="timezone-info">{getParticipantTimezone(participant)}</span>
           </div>
-        </div>
-      </div>
-
-      {/* City B Timeline */}
-      <div className="timeline-row">
-        <div className="timeline-label" id="city-b-label">
-          <span className="city-name">{cityB.name}</span>
-          <span className="timezone-info">{cityB.timezone}</span>
-        </div>
-        <div className="timeline-track" role="presentation">
-          <div
-            className="timeline-block city-b-block"
-            style={cityBStyle}
-            role="img"
-            aria-labelledby="city-b-label"
-            aria-label={`${cityB.name} working hours from ${formatHour(workingHoursB.start)} to ${formatHour(workingHoursB.end)}`}
-          >
-            <span className="block-label" aria-hidden="true">
-              {formatHour(workingHoursB.start)} - {formatHour(workingHoursB.end)}
-            </span>
+          <div className="timeline-track" role="presentation">
+            {isNonWorkingDay && (
+              <div className="non-working-day-indicator">
+                <span>{nonWorkingDayLabel}</span>
+              </div>
+            )}
+            {!isNonWorkingDay && blocks.map(({ left, width, continued }, blockIndex) => (
+              <div
+                key={blockIndex}
+                className={`timeline-block participant-block ${blockClassName}${continued ? ' timeline-block-continued' : ''}`}
+                style={{ left, width }}
+                role={blockIndex === 0 ? 'img' : undefined}
+                aria-hidden={blockIndex > 0 ? 'true' : undefined}
+                aria-labelledby={blockIndex === 0 ? labelId : undefined}
+                aria-label={blockIndex === 0
+                  ? `${getParticipantName(participant)} working hours from ${startLabel} to ${endLabel}${isOvernight ? ', continuing past midnight' : ''}${breakDescription}`
+                  : undefined}
+              >
+                {blockIndex === getLabelledBlockIndex(blocks) && (
+                  <span className="block-label" aria-hidden="true">
+                    {startLabel} - {endLabel}
+                  </span>
+                )}
+              </div>
+            ))}
           </div>
         </div>
-      </div>
+      ))}
 
       {/* Overlap Visualization */}
       <div className="timeline-row overlap-row">
@@ -134,18 +200,28 @@ export const TimelineVisualizer: React.FC<TimelineVisualizerProps> = ({
           </span>
         </div>
         <div className="timeline-track" role="presentation">
-          {overlap.hasOverlap && overlapStyle ? (
-            <div
-              className="timeline-block overlap-block"
-              style={overlapStyle}
-              role="img"
-              aria-labelledby="overlap-label"
-              aria-label={`Overlapping period: ${Math.round(overlap.durationMinutes || 0)} minutes`}
-            >
-              <span className="block-label" aria-hidden="true">
-                {Math.round(overlap.durationMinutes || 0)} min
-              </span>
-            </div>
+          {overlap.hasOverlap && overlapWindows ? (
+            overlapWindows.flatMap(({ durationMinutes, blocks }, windowIndex) =>
+              blocks.map(({ left, width, continued }, blockIndex) => (
+                <div
+                  key={`${windowIndex}-${blockIndex}`}
+                  className={`timeline-block overlap-block${continued ? ' timeline-block-continued' : ''}`}
+                  style={{ left, width }}
+                  role={blockIndex === 0 ? 'img' : undefined}
+                  aria-hidden={blockIndex > 0 ? 'true' : undefined}
+                  aria-labelledby={blockIndex === 0 ? 'overlap-label' : undefined}
+                  aria-label={blockIndex === 0
+                    ? `Overlapping period: ${durationMinutes} minutes`
+                    : undefined}
+                >
+                  {blockIndex === getLabelledBlockIndex(blocks) && (
+                    <span className="block-label" aria-hidden="true">
+                      {durationMinutes} min
+                    </span>
+                  )}
+                </div>
+              ))
+            )
           ) : (
             <div className="no-overlap-indicator" role="status" aria-live="polite">
               <span>No overlapping hours</span>
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { WorkingDaysInput } from './WorkingDaysInput';
+
+describe('WorkingDaysInput Component', () => {
+  it('checks every day except the days off', () => {
+    render(<WorkingDaysInput label="Tel Aviv" daysOff={[5, 6]} onChange={vi.fn()} />);
+
+    expect(screen.getByLabelText('Sunday is a working day for Tel Aviv')).toBeChecked();
+    expect(screen.getByLabelText('Friday is a working day for Tel Aviv')).not.toBeChecked();
+    expect(screen.getByLabelText('Saturday is a working day for Tel Aviv')).not.toBeChecked();
+  });
+
+  it('adds and removes days off when toggled', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+
+    render(<WorkingDaysInput label="London" daysOff={[6, 7]} onChange={handleChange} />);
+
+    await user.click(screen.getByLabelText('Monday is a working day for London'));
+    expect(handleChange).toHaveBeenLastCalledWith([1, 6, 7]);
+
+    await user.click(screen.getByLabelText('Saturday is a working day for London'));
+    expect(handleChange).toHaveBeenLastCalledWith([7]);
+  });
+
+  it('disables every day when disabled', () => {
+    render(<WorkingDaysInput label="London" daysOff={[6, 7]} onChange={vi.fn()} disabled />);
+
+    expect(screen.getByLabelText('Monday is a working day for London')).toBeDisabled();
+  });
+});
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { Weekday } from '../types';
+import { WEEKDAY_NAMES } from '../utils/schedule';
+import './WorkingDaysInput.css';
+
+const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5, 6, 7];
+
+interface WorkingDaysInputProps {
+  label: string;
+  daysOff: Weekday[];
+  onChange: (daysOff: Weekday[]) => void;
+  disabled?: boolean;
+}
+
+export const WorkingDaysInput: React.FC<WorkingDaysInputProps> = ({
+  label,
+  daysOff,
+  onChange,
+  disabled = false,
+}) => {
+  // Checking a day makes it a working day; unchecking makes it a day off
+  const handleToggle = (weekday: Weekday, working: boolean) => {
+    const newDaysOff = working
+      ? daysOff.filter(day => day !== weekday)
+      : [...daysOff, weekday].sort((a, b) => a - b);
+    onChange(newDaysOff);
+  };
+
+  return (
+    <fieldset className="working-days" disabled={disabled}>
+      <legend className="working-days-legend">Working days</legend>
+      <div className="working-days-options">
+        {WEEKDAYS.map((weekday) => {
+          const id = `working-day-${label}-${weekday}`;
+          return (
+            <label key={weekday} htmlFor={id} className="working-day-option">
+              <input
+                id={id}
+                type="checkbox"
+                checked={!daysOff.includes(weekday)}
+                onChange={(e) => handleToggle(weekday, e.target.checked)}
+                aria-label={`${WEEKDAY_NAMES[weekday]} is a working day for ${label}`}
+              />
+              <span aria-hidden="true">{WEEKDAY_NAMES[weekday].slice(0, 3)}</span>
+            </label>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+};
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { WorkingHoursInput } from './WorkingHoursInput';
 import type { WorkingHours } from '../types';
@@ -26,7 +26,7 @@ describe('WorkingHoursInput Component', () => {
     expect(endInput.value).toBe('18');
   });
 
-  it('displays validation error when end time is before start time', async () => {
+  it('displays validation error when end time equals start time', async () => {
     const user = userEvent.setup();
     const handleChange = vi.fn();
     const { container } = render(
@@ -41,11 +41,11 @@ describe('WorkingHoursInput Component', () => {
     const startInput = screen.getByLabelText(/start time/i);
     await user.selectOptions(startInput, '18');
 
-    // End time is still 18, so start >= end (invalid)
+    // End time is still 18, so start === end (invalid)
     // Wait for validation error to appear
     const errorMessage = container.querySelector('[role="alert"]');
     expect(errorMessage).toBeInTheDocument();
-    expect(errorMessage?.textContent).toMatch(/end time must be after start time/i);
+    expect(errorMessage?.textContent).toMatch(/end time must be different from start time/i);
   });
 
   it('supports custom hours toggle', async () => {
@@ -113,7 +113,7 @@ describe('WorkingHoursInput Component', () => {
     const endInput = screen.getByLabelText(/end time/i);
     await user.selectOptions(endInput, '9');
 
-    // Should NOT call onChange because hours are invalid (start >= end)
+    // Should NOT call onChange because hours are invalid (start === end)
     expect(handleChange).not.toHaveBeenCalled();
   });
 
@@ -154,4 +154,119 @@ describe('WorkingHoursInput Component', () => {
     expect(startInput.disabled).toBe(false);
     expect(endInput.disabled).toBe(false);
   });
+
+  it('calls onChange with minutes when a start minute is selected', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+
+    render(
+      <WorkingHoursInput
+        label="City A Working Hours"
+        workingHours={defaultHours}
+        onChange={handleChange}
+      />
+    );
+
+    const startMinuteInput = screen.getByLabelText(/start minute/i);
+    await user.selectOptions(startMinuteInput, '30');
+
+    expect(handleChange).toHaveBeenCalledWith({ start: 9, startMinute: 30, end: 18 });
+  });
+
+  it('displays minute-precision working hours', () => {
+    const handleChange = vi.fn();
+
+    render(
+      <WorkingHoursInput
+        label="City A Working Hours"
+        workingHours={{ start: 9, startMinute: 45, end: 17, endMinute: 7 }}
+        onChange={handleChange}
+      />
+    );
+
+    expect((screen.getByLabelText(/start time/i) as HTMLSelectElement).value).toBe('9');
+    expect((screen.getByLabelText(/start minute/i) as HTMLSelectElement).value).toBe('45');
+    expect((screen.getByLabelText(/end time/i) as HTMLSelectElement).value).toBe('17');
+    // Values off the 5-minute grid remain selectable
+    expect((screen.getByLabelText(/end minute/i) as HTMLSelectElement).value).toBe('7');
+  });
+
+  it('accepts overnight shifts that end the next day', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+
+    render(
+      <WorkingHoursInput
+        label="City A Working Hours"
+        workingHours={{ start: 22, end: 18 }}
+        onChange={handleChange}
+      />
+    );
+
+    const endInput = screen.getByLabelText(/end time/i);
+    await user.selectOptions(endInput, '6');
+
+    expect(handleChange).toHaveBeenCalledWith({ start: 22, end: 6 });
+    expect(screen.getByText(/overnight shift/i)).toBeInTheDocument();
+    expect(screen.queryByText(/must be different/i)).not.toBeInTheDocument();
+  });
+
+  it('adds a break in the middle of the working day', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+
+    render(
+      <WorkingHoursInput
+        label="City A Working Hours"
+        workingHours={defaultHours}
+        onChange={handleChange}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /add break/i }));
+
+    expect(handleChange).toHaveBeenCalledWith({ start: 9, end: 18, breaks: [{ start: 13, end: 14 }] });
+    expect((screen.getByLabelText(/break 1 start/i) as HTMLInputElement).value).toBe('13:00');
+    expect((screen.getByLabelText(/break 1 end/i) as HTMLInputElement).value).toBe('14:00');
+  });
+
+  it('updates and removes breaks', async () => {
+    const user = userEvent.setup();
+    const handleChange = vi.fn();
+
+    render(
+      <WorkingHoursInput
+        label="City A Working Hours"
+        workingHours={{ start: 9, end: 18, breaks: [{ start: 12, end: 13 }] }}
+        onChange={handleChange}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText(/break 1 end/i), { target: { value: '13:30' } });
+    expect(handleChange).toHaveBeenLastCalledWith({
+      start: 9,
+      end: 18,
+      breaks: [{ start: 12, end: 13, endMinute: 30 }]
+    });
+
+    await user.click(screen.getByRole('button', { name: /remove break 1/i }));
+    expect(handleChange).toHaveBeenLastCalledWith({ start: 9, end: 18 });
+  });
+
+  it('displays an error for a break outside working hours', () => {
+    const handleChange = vi.fn();
+
+    render(
+      <WorkingHoursInput
+        label="City A Working Hours"
+        workingHours={{ start: 9, end: 18, breaks: [{ start: 12, end: 13 }] }}
+        onChange={handleChange}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText(/break 1 end/i), { target: { value: '19:00' } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/breaks must be within working hours/i);
+    expect(handleChange).not.toHaveBeenCalled();
+  });
 });
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import type { WorkingHours } from '../types';
+import type { WorkingHours, TimeOfDayRange } from '../types';
+import { getStartMinutes, getEndMinutes, fromMinutes, areBreaksValid, MINUTES_PER_DAY } from '../utils/workingHours';
 import './WorkingHoursInput.css';
 
+const SAME_TIME_ERROR = 'End time must be different from start time';
+const BREAK_ERROR = 'Breaks must be within working hours and have different start and end times';
+
 interface WorkingHoursInputProps {
   label: string;
   workingHours: WorkingHours;
@@ -17,46 +21,100 @@ export const WorkingHoursInput: React.FC<WorkingHoursInputProps> = ({
   customEnabled = true,
   onToggleCustom,
 }) => {
-  const [startTime, setStartTime] = useState(workingHours.start);
-  const [endTime, setEndTime] = useState(workingHours.end);
+  // Local state is kept in minutes since midnight
+  const [startTime, setStartTime] = useState(getStartMinutes(workingHours));
+  const [endTime, setEndTime] = useState(getEndMinutes(workingHours));
+  const [breaks, setBreaks] = useState<TimeOfDayRange[]>(workingHours.breaks ?? []);
   const [error, setError] = useState<string | null>(null);
 
+  // Combine times and breaks into working hours
+  const buildWorkingHours = (start: number, end: number, newBreaks: TimeOfDayRange[]): WorkingHours =>
+    newBreaks.length > 0 ? { ...fromMinutes(start, end), breaks: newBreaks } : fromMinutes(start, end);
+
+  // Get the validation error for working hours, if any
+  const getError = (hours: WorkingHours): string | null => {
+    if (getEndMinutes(hours) === getStartMinutes(hours)) {
+      return SAME_TIME_ERROR;
+    }
+    if (!areBreaksValid(hours)) {
+      return BREAK_ERROR;
+    }
+    return null;
+  };
+
   // Update local state when props change
   useEffect(() => {
-    setStartTime(workingHours.start);
-    setEndTime(workingHours.end);
+    setStartTime(getStartMinutes(workingHours));
+    setEndTime(getEndMinutes(workingHours));
+    setBreaks(workingHours.breaks ?? []);
     // Validate on prop change
-    if (workingHours.end <= workingHours.start) {
-      setError('End time must be after start time');
-    } else {
-      setError(null);
-    }
+    setError(getError(workingHours));
   }, [workingHours]);
 
   // Validate and emit changes
-  const validateAndEmit = (newStart: number, newEnd: number) => {
-    if (newEnd <= newStart) {
-      setError('End time must be after start time');
+  // An end time before the start time is an overnight shift ending the next day
+  const validateAndEmit = (newStart: number, newEnd: number, newBreaks: TimeOfDayRange[] = breaks) => {
+    const hours = buildWorkingHours(newStart, newEnd, newBreaks);
+    const validationError = getError(hours);
+    setError(validationError);
+    if (validationError) {
       return false;
-    } else {
-      setError(null);
-      onChange({ start: newStart, end: newEnd });
-      return true;
     }
+    onChange(hours);
+    return true;
+  };
+
+  const handleStartHourChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newStart = parseInt(e.target.value, 10) * 60 + (startTime % 60);
+    setStartTime(newStart);
+    validateAndEmit(newStart, endTime);
   };
 
-  const handleStartChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newStart = parseInt(e.target.value, 10);
+  const handleStartMinuteChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newStart = Math.floor(startTime / 60) * 60 + parseInt(e.target.value, 10);
     setStartTime(newStart);
     validateAndEmit(newStart, endTime);
   };
 
-  const handleEndChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newEnd = parseInt(e.target.value, 10);
+  const handleEndHourChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newEnd = parseInt(e.target.value, 10) * 60 + (endTime % 60);
     setEndTime(newEnd);
     validateAndEmit(startTime, newEnd);
   };
 
+  const handleEndMinuteChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newEnd = Math.floor(endTime / 60) * 60 + parseInt(e.target.value, 10);
+    setEndTime(newEnd);
+    validateAndEmit(startTime, newEnd);
+  };
+
+  const updateBreaks = (newBreaks: TimeOfDayRange[]) => {
+    setBreaks(newBreaks);
+    validateAndEmit(startTime, endTime, newBreaks);
+  };
+
+  // New breaks last an hour from the middle of the working day
+  const handleAddBreak = () => {
+    const span = endTime > startTime ? endTime - startTime : endTime + MINUTES_PER_DAY - startTime;
+    const breakStart = Math.floor((startTime + span / 2) / 60) * 60 % MINUTES_PER_DAY;
+    updateBreaks([...breaks, fromMinutes(breakStart, (breakStart + 60) % MINUTES_PER_DAY)]);
+  };
+
+  const handleRemoveBreak = (index: number) => {
+    updateBreaks(breaks.filter((_, i) => i !== index));
+  };
+
+  const handleBreakTimeChange = (index: number, field: 'start' | 'end', value: string) => {
+    const [hour, minute] = value.split(':').map(part => parseInt(part, 10));
+    if (Number.isNaN(hour) || Number.isNaN(minute)) {
+      return;
+    }
+    const current = breaks[index];
+    const newStart = field === 'start' ? hour * 60 + minute : getStartMinutes(current);
+    const newEnd = field === 'end' ? hour * 60 + minute : getEndMinutes(current);
+    updateBreaks(breaks.map((workBreak, i) => (i === index ? fromMinutes(newStart, newEnd) : workBreak)));
+  };
+
   const handleToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (onToggleCustom) {
       onToggleCustom(e.target.checked);
@@ -66,6 +124,20 @@ export const WorkingHoursInput: React.FC<WorkingHoursInputProps> = ({
   // Generate hour options (0-23)
   const hourOptions = Array.from({ length: 24 }, (_, i) => i);
 
+  // Generate minute options in 5-minute steps, keeping any other current value selectable
+  const getMinuteOptions = (current: number): number[] => {
+    const options = Array.from({ length: 12 }, (_, i) => i * 5);
+    return options.includes(current) ? options : [...options, current].sort((a, b) => a - b);
+  };
+
+  const formatMinute = (minute: number): string => `:${String(minute).padStart(2, '0')}`;
+
+  // Format minutes since midnight as a time input value (e.g., "12:30")
+  const toTimeValue = (minutes: number): string => {
+    const minuteOfDay = minutes % MINUTES_PER_DAY;
+    return `${String(Math.floor(minuteOfDay / 60)).padStart(2, '0')}:${String(minuteOfDay % 60).padStart(2, '0')}`;
+  };
+
   // Format hour for display (e.g., "9 AM", "18 (6 PM)")
   const formatHour = (hour: number): string => {
     if (hour === 0) return '0 (12 AM)';
@@ -97,47 +169,134 @@ export const WorkingHoursInput: React.FC<WorkingHoursInputProps> = ({
           <label htmlFor={`start-time-${label}`} className="time-label">
             Start time
           </label>
-          <select
-            id={`start-time-${label}`}
-            value={startTime}
-            onChange={handleStartChange}
-            disabled={!customEnabled}
-            className="time-select"
-            aria-label={`Start time for ${label}`}
-            aria-describedby={error ? `error-${label}` : undefined}
-            aria-invalid={error ? 'true' : 'false'}
-          >
-            {hourOptions.map((hour) => (
-              <option key={hour} value={hour}>
-                {formatHour(hour)}
-              </option>
-            ))}
-          </select>
+          <div className="time-select-row">
+            <select
+              id={`start-time-${label}`}
+              value={Math.floor(startTime / 60)}
+              onChange={handleStartHourChange}
+              disabled={!customEnabled}
+              className="time-select"
+              aria-label={`Start time for ${label}`}
+              aria-describedby={error ? `error-${label}` : undefined}
+              aria-invalid={error ? 'true' : 'false'}
+            >
+              {hourOptions.map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+            <select
+              id={`start-minute-${label}`}
+              value={startTime % 60}
+              onChange={handleStartMinuteChange}
+              disabled={!customEnabled}
+              className="time-select minute-select"
+              aria-label={`Start minute for ${label}`}
+              aria-describedby={error ? `error-${label}` : undefined}
+              aria-invalid={error ? 'true' : 'false'}
+            >
+              {getMinuteOptions(startTime % 60).map((minute) => (
+                <option key={minute} value={minute}>
+                  {formatMinute(minute)}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         <div className="time-input-group">
           <label htmlFor={`end-time-${label}`} className="time-label">
             End time
           </label>
-          <select
-            id={`end-time-${label}`}
-            value={endTime}
-            onChange={handleEndChange}
-            disabled={!customEnabled}
-            className="time-select"
-            aria-label={`End time for ${label}`}
-            aria-describedby={error ? `error-${label}` : undefined}
-            aria-invalid={error ? 'true' : 'false'}
-          >
-            {hourOptions.map((hour) => (
-              <option key={hour} value={hour}>
-                {formatHour(hour)}
-              </option>
-            ))}
-          </select>
+          <div className="time-select-row">
+            <select
+              id={`end-time-${label}`}
+              value={Math.floor(endTime / 60)}
+              onChange={handleEndHourChange}
+              disabled={!customEnabled}
+              className="time-select"
+              aria-label={`End time for ${label}`}
+              aria-describedby={error ? `error-${label}` : undefined}
+              aria-invalid={error ? 'true' : 'false'}
+            >
+              {hourOptions.map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+            <select
+              id={`end-minute-${label}`}
+              value={endTime % 60}
+              onChange={handleEndMinuteChange}
+              disabled={!customEnabled}
+              className="time-select minute-select"
+              aria-label={`End minute for ${label}`}
+              aria-describedby={error ? `error-${label}` : undefined}
+              aria-invalid={error ? 'true' : 'false'}
+            >
+              {getMinuteOptions(endTime % 60).map((minute) => (
+                <option key={minute} value={minute}>
+                  {formatMinute(minute)}
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
 
+      <div className="working-hours-breaks">
+        {breaks.map((workBreak, index) => (
+          <div className="break-row" key={index}>
+            <span className="time-label">Break {index + 1}</span>
+            <input
+              type="time"
+              className="time-select break-time-input"
+              value={toTimeValue(getStartMinutes(workBreak))}
+              onChange={(e) => handleBreakTimeChange(index, 'start', e.target.value)}
+              disabled={!customEnabled}
+              aria-label={`Break ${index + 1} start for ${label}`}
+              aria-describedby={error ? `error-${label}` : undefined}
+            />
+            <span className="break-separator" aria-hidden="true">–</span>
+            <input
+              type="time"
+              className="time-select break-time-input"
+              value={toTimeValue(getEndMinutes(workBreak))}
+              onChange={(e) => handleBreakTimeChange(index, 'end', e.target.value)}
+              disabled={!customEnabled}
+              aria-label={`Break ${index + 1} end for ${label}`}
+              aria-describedby={error ? `error-${label}` : undefined}
+            />
+            <button
+              type="button"
+              className="remove-break-button"
+              onClick={() => handleRemoveBreak(index)}
+              disabled={!customEnabled}
+              aria-label={`Remove break ${index + 1} for ${label}`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="add-break-button"
+          onClick={handleAddBreak}
+          disabled={!customEnabled}
+          aria-label={`Add break for ${label}`}
+        >
+          + Add break
+        </button>
+      </div>
+
+      {!error && endTime < startTime && (
+        <div className="working-hours-note" role="status">
+          Overnight shift: ends the next day
+        </div>
+      )}
+
       {error && (
         <div id={`error-${label}`} className="working-hours-error" role="alert" aria-live="assertive">
           {error}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { WorkingHoursOptimizer } from './WorkingHoursOptimizer';
+import type { City, Participant } from '../types';
+
+describe('WorkingHoursOptimizer Component', () => {
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+
+  // London 09:00-18:00 UTC and New York 14:00-23:00 UTC share 4 hours
+  const participants: Participant[] = [{ city: london }, { name: 'Sam', city: newYork }];
+  const date = new Date('2024-01-17T12:00:00Z');
+
+  it('finds and applies hours for the required overlap', async () => {
+    const user = userEvent.setup();
+    const handleApply = vi.fn();
+    const { rerender } = render(<WorkingHoursOptimizer participants={participants} date={date} onApply={handleApply} />);
+
+    await user.selectOptions(screen.getByLabelText('Required daily overlap'), '300');
+    await user.selectOptions(screen.getByLabelText('Flexibility for Sam (New York)'), '0');
+    await user.click(screen.getByRole('button', { name: 'Find hours' }));
+
+    const result = screen.getByRole('status');
+    expect(result).toHaveTextContent('London starts 1h later: 10 AM - 7 PM');
+    expect(result).toHaveTextContent('Sam (New York) keeps their usual hours');
+    expect(result).toHaveTextContent('Total change: 1h');
+
+    await user.click(screen.getByRole('button', { name: 'Use these hours every day' }));
+    expect(handleApply).toHaveBeenCalledWith([{ start: 10, end: 19 }, { start: 9, end: 18 }]);
+
+    // The plan is for the old hours, so once they change it gives way to a note
+    rerender(<WorkingHoursOptimizer participants={[...participants]} date={date} onApply={handleApply} />);
+    expect(screen.getByRole('status')).toHaveTextContent('The new hours now apply on every working day');
+    expect(screen.queryByText('Total change: 1h')).not.toBeInTheDocument();
+  });
+
+  it('says when the overlap is already long enough', async () => {
+    const user = userEvent.setup();
+    render(<WorkingHoursOptimizer participants={participants} date={date} onApply={vi.fn()} />);
+
+    await user.click(screen.getByRole('button', { name: 'Find hours' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Everyone already shares 2h.');
+    expect(screen.queryByRole('button', { name: 'Use these hours every day' })).not.toBeInTheDocument();
+  });
+
+  it('says when no change within the limits is enough', async () => {
+    const user = userEvent.setup();
+    render(<WorkingHoursOptimizer participants={participants} date={date} onApply={vi.fn()} />);
+
+    await user.selectOptions(screen.getByLabelText('Required daily overlap'), '360');
+    await user.selectOptions(screen.getByLabelText('Flexibility for London'), '30');
+    await user.selectOptions(screen.getByLabelText('Flexibility for Sam (New York)'), '0');
+    await user.click(screen.getByRole('button', { name: 'Find hours' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('No change within these limits gives 6h of overlap on this date.');
+  });
+});
@@ -0,0 +1,145 @@
+import React, { useState, useMemo } from 'react';
+import type { HoursPlan, Participant, WorkingHours } from '../types';
+import { HoursOptimizer, DEFAULT_FLEXIBILITY_MINUTES } from '../calculators/HoursOptimizer';
+import { formatDuration } from '../utils/workingHours';
+import { getParticipantName } from '../utils/participants';
+import './WorkingHoursOptimizer.css';
+
+const TARGET_OPTIONS = [30, 60, 90, 120, 180, 240, 300, 360];
+const FLEXIBILITY_OPTIONS = [0, 30, 60, 120, 180, 240];
+const DEFAULT_TARGET_MINUTES = 120;
+
+interface WorkingHoursOptimizerProps {
+  participants: Participant[];
+  date: Date;
+  onApply: (hours: WorkingHours[]) => void; // one per participant, in the same order, for every working day
+}
+
+export const WorkingHoursOptimizer: React.FC<WorkingHoursOptimizerProps> = ({
+  participants,
+  date,
+  onApply,
+}) => {
+  const [targetMinutes, setTargetMinutes] = useState(DEFAULT_TARGET_MINUTES);
+  const [flexibility, setFlexibility] = useState<number[]>([]);
+  const [result, setResult] = useState<{
+    plan: HoursPlan | null;
+    participants: Participant[];
+    date: Date;
+    targetMinutes: number;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [applied, setApplied] = useState(false);
+  const optimizer = useMemo(() => new HoursOptimizer(), []);
+
+  // A plan only applies to the cities, hours and date it was found for
+  const current = result && result.participants === participants && result.date === date ? result : null;
+
+  const getFlexibility = (index: number) => flexibility[index] ?? DEFAULT_FLEXIBILITY_MINUTES;
+
+  const handleFlexibilityChange = (index: number, minutes: number) => {
+    setFlexibility(prev => {
+      const next = participants.map((_, i) => prev[i] ?? DEFAULT_FLEXIBILITY_MINUTES);
+      next[index] = minutes;
+      return next;
+    });
+  };
+
+  const handleFind = () => {
+    try {
+      const plan = optimizer.optimize(participants, date, targetMinutes, participants.map((_, index) => getFlexibility(index)));
+      setResult({ plan, participants, date, targetMinutes });
+      setError(null);
+      setApplied(false);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Unable to adjust the working hours');
+    }
+  };
+
+  return (
+    <div className="hours-optimizer" role="group" aria-labelledby="hours-optimizer-label">
+      <span id="hours-optimizer-label" className="hours-optimizer-label">Find hours for a daily overlap</span>
+      <div className="hours-optimizer-fields">
+        <label className="hours-optimizer-field">
+          <span>Overlap needed</span>
+          <select
+            value={targetMinutes}
+            onChange={(e) => setTargetMinutes(parseInt(e.target.value, 10))}
+            aria-label="Required daily overlap"
+          >
+            {TARGET_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {formatDuration(option)}
+              </option>
+            ))}
+          </select>
+        </label>
+        {participants.map((participant, index) => (
+          <label className="hours-optimizer-field" key={index}>
+            <span>{getParticipantName(participant)} can move</span>
+            <select
+              value={getFlexibility(index)}
+              onChange={(e) => handleFlexibilityChange(index, parseInt(e.target.value, 10))}
+              aria-label={`Flexibility for ${getParticipantName(participant)}`}
+            >
+              {FLEXIBILITY_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option === 0 ? 'Not at all' : `Up to ${formatDuration(option)}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <button type="button" className="hours-optimizer-button" onClick={handleFind}>
+        Find hours
+      </button>
+
+      {current && (
+        <div className="hours-optimizer-result" role="status">
+          {current.plan ? (
+            <>
+              <ul className="hours-optimizer-adjustments">
+                {current.plan.adjustments.map((adjustment) => (
+                  <li key={adjustment.participantIndex}>{optimizer.formatAdjustment(adjustment, participants)}</li>
+                ))}
+              </ul>
+              <p className="hours-optimizer-total">
+                {current.plan.totalDeviationMinutes === 0
+                  ? `Everyone already shares ${formatDuration(current.targetMinutes)}.`
+                  : `Total change: ${formatDuration(current.plan.totalDeviationMinutes)}`}
+              </p>
+              {current.plan.totalDeviationMinutes > 0 && (
+                <button
+                  type="button"
+                  className="hours-optimizer-button"
+                  onClick={() => {
+                    onApply(current.plan!.adjustments.map(adjustment => adjustment.workingHours));
+                    setApplied(true);
+                  }}
+                >
+                  Use these hours every day
+                </button>
+              )}
+            </>
+          ) : (
+            <p className="hours-optimizer-none">
+              No change within these limits gives {formatDuration(current.targetMinutes)} of overlap on this date.
+            </p>
+          )}
+        </div>
+      )}
+      {applied && !current && (
+        <p className="hours-optimizer-applied" role="status">
+          The new hours now apply on every working day, and the overlap has been worked out again.
+        </p>
+      )}
+      {error && (
+        <div className="hours-optimizer-error" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
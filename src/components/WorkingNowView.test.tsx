@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DateTime } from 'luxon';
+import { WorkingNowView } from './WorkingNowView';
+import { saveTeam } from '../utils/teams';
+import type { City, Participant } from '../types';
+
+describe('WorkingNowView Component', () => {
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+  const tokyo: City = { name: 'Tokyo', country: 'Japan', timezone: 'Asia/Tokyo' };
+
+  // Wednesday: 12:00 in London, 07:00 in New York, 21:00 in Tokyo
+  const now = new Date('2024-01-17T12:00:00Z');
+  const participants: Participant[] = [{ name: 'Priya', city: london }, { city: newYork }];
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists the selected cities that are working right now', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    render(<WorkingNowView participants={participants} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('1 of 2 working right now');
+    expect(screen.getByRole('list', { name: 'Working' })).toHaveTextContent('Priya (London): 12:00 PM, 6h left');
+    expect(screen.getByRole('button', { name: 'Now' })).toHaveAttribute('aria-pressed', 'true');
+  });
+
+  it('checks a chosen time and goes back to now', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    const user = userEvent.setup();
+    render(<WorkingNowView participants={participants} />);
+
+    // 16:00 in London, 11:00 in New York
+    const chosen = DateTime.fromISO('2024-01-17T16:00:00Z').toLocal().toFormat("yyyy-MM-dd'T'HH:mm");
+    fireEvent.change(screen.getByLabelText('Time to check'), { target: { value: chosen } });
+
+    expect(screen.getByRole('status')).toHaveTextContent('2 of 2 working at this time');
+    expect(screen.getByRole('list', { name: 'Working' })).toHaveTextContent('New York: 11:00 AM, 7h left');
+
+    await user.click(screen.getByRole('button', { name: 'Now' }));
+    expect(screen.getByRole('status')).toHaveTextContent('1 of 2 working right now');
+  });
+
+  it('asks for cities when none are selected', () => {
+    render(<WorkingNowView participants={[]} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Choose cities or a team to check.');
+  });
+
+  it('checks a saved team or every city', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-17T02:00:00Z'));
+    saveTeam({ name: 'Platform', members: [{ name: 'Kenji', city: tokyo, workingHours: { start: 9, end: 18 } }] });
+    const user = userEvent.setup();
+    render(<WorkingNowView participants={participants} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Nobody is working at this time.');
+
+    await user.selectOptions(screen.getByLabelText('People to check'), 'team:Platform');
+    expect(screen.getByRole('list', { name: 'Working' })).toHaveTextContent('Kenji (Tokyo): 11:00 AM, 7h left');
+
+    await user.selectOptions(screen.getByLabelText('People to check'), 'all');
+    expect(screen.getByRole('list', { name: 'Working' })).toHaveTextContent('Tokyo: 11:00 AM, 7h left');
+  });
+});
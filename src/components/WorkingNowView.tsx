@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DateTime } from 'luxon';
+import type { Participant } from '../types';
+import { WorkingNowFinder } from '../calculators/WorkingNowFinder';
+import { CityDatabase } from '../utils/CityDatabase';
+import { loadTeams } from '../utils/teams';
+import './WorkingNowView.css';
+
+const SELECTED_SOURCE = 'selected';
+const ALL_CITIES_SOURCE = 'all';
+const TEAM_SOURCE_PREFIX = 'team:';
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Format for datetime-local inputs, in the viewer's own timezone
+ */
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+interface WorkingNowViewProps {
+  participants: Participant[]; // the cities currently selected in the calculator
+}
+
+export const WorkingNowView: React.FC<WorkingNowViewProps> = ({ participants }) => {
+  const [source, setSource] = useState(SELECTED_SOURCE);
+  const [at, setAt] = useState<Date | null>(null);
+  const [teams, setTeams] = useState(() => loadTeams());
+  const [now, setNow] = useState(() => new Date());
+  const finder = useMemo(() => new WorkingNowFinder(), []);
+  const allCities = useMemo<Participant[]>(() => new CityDatabase().getAllCities().map(city => ({ city })), []);
+
+  // While showing the current time, check again every minute
+  useEffect(() => {
+    if (at) {
+      return;
+    }
+    const timer = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [at]);
+
+  const people = useMemo<Participant[]>(() => {
+    if (source === SELECTED_SOURCE) {
+      return participants;
+    }
+    if (source.startsWith(TEAM_SOURCE_PREFIX)) {
+      const team = teams.find(saved => saved.name === source.slice(TEAM_SOURCE_PREFIX.length));
+      return team?.members ?? [];
+    }
+    return allCities;
+  }, [source, participants, teams, allCities]);
+
+  // Checking every city takes a while, so only check again when something changes
+  const working = useMemo(
+    () => finder.findWorking(people, at ?? now),
+    [finder, people, at, now]
+  );
+
+  const handleNow = () => {
+    setAt(null);
+    setNow(new Date());
+  };
+
+  const handleTimeChange = (value: string) => {
+    const chosen = DateTime.fromFormat(value, INPUT_FORMAT);
+    setAt(chosen.isValid ? chosen.toJSDate() : null);
+  };
+
+  return (
+    <div className="working-now">
+      <span className="working-now-label">Who is working</span>
+      <div className="working-now-controls">
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          onFocus={() => setTeams(loadTeams())}
+          aria-label="People to check"
+        >
+          <option value={SELECTED_SOURCE}>Selected cities ({participants.length})</option>
+          {teams.map(team => (
+            <option key={team.name} value={`${TEAM_SOURCE_PREFIX}${team.name}`}>
+              {team.name} ({team.members.length})
+            </option>
+          ))}
+          <option value={ALL_CITIES_SOURCE}>All cities ({allCities.length})</option>
+        </select>
+        <input
+          type="datetime-local"
+          value={at ? DateTime.fromJSDate(at).toFormat(INPUT_FORMAT) : ''}
+          onChange={(e) => handleTimeChange(e.target.value)}
+          aria-label="Time to check"
+        />
+        <button
+          type="button"
+          className="working-now-button"
+          onClick={handleNow}
+          aria-pressed={at === null}
+        >
+          Now
+        </button>
+      </div>
+
+      <p className="working-now-summary" role="status">
+        {people.length === 0
+          ? 'Choose cities or a team to check.'
+          : working.length === 0
+            ? 'Nobody is working at this time.'
+            : `${working.length} of ${people.length} working ${at ? 'at this time' : 'right now'}`}
+      </p>
+      {working.length > 0 && (
+        <ul className="working-now-list" aria-label="Working">
+          {working.map(entry => (
+            <li key={entry.participantIndex}>{finder.formatEntry(entry, people)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1 +1,9 @@
 import '@testing-library/jest-dom';
+import { afterEach } from 'vitest';
+
+// The app keeps its scenario in the URL and its teams in localStorage;
+// start every test from a clean slate
+afterEach(() => {
+  window.history.replaceState(null, '', '/');
+  window.localStorage.clear();
+});
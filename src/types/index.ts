@@ -2,7 +2,9 @@ import { DateTime } from 'luxon';
 
 export interface City {
   name: string;
-  country: string;
+  aliases?: string[]; // former, short and native-script names, e.g. "Bombay", "NYC", "東京"
+  country: string; // empty for a location that is only a timezone, e.g. "Chatham" for Pacific/Chatham
+  region?: string; // state or province, for regional public holidays
   timezone: string;
   coordinates?: {
     lat: number;
@@ -10,9 +12,74 @@ export interface City {
   };
 }
 
-export interface WorkingHours {
+export interface CityMatch {
+  city: City;
+  matchedAlias?: string; // the alias that matched the search better than the city's name
+  matchedZone?: string; // the timezone the city was found by, e.g. "IST · India Standard Time (UTC+5:30)"
+}
+
+export interface NearbyCity {
+  city: City;
+  distanceKm: number; // great-circle distance
+}
+
+export interface TimezoneMatch {
+  label: string; // abbreviation in use, name and offset, e.g. "PDT · Pacific Time (UTC-7)"
+  cities: City[];
+}
+
+export interface TimeOfDayRange {
   start: number; // hour in 24h format (0-23)
-  end: number;   // hour in 24h format (0-23)
+  end: number;   // hour in 24h format (0-24)
+  startMinute?: number; // minute past the start hour (0-59), defaults to 0
+  endMinute?: number;   // minute past the end hour (0-59), defaults to 0
+}
+
+export interface WorkingHours extends TimeOfDayRange {
+  breaks?: TimeOfDayRange[]; // unavailable periods within the day, e.g. lunch or siesta
+}
+
+export type Weekday = 1 | 2 | 3 | 4 | 5 | 6 | 7; // ISO weekday, Monday = 1
+
+export interface WeeklySchedule {
+  daysOff?: Weekday[]; // replaces the country's default weekend when set
+  hours?: Partial<Record<Weekday, WorkingHours>>; // per-weekday hours, falling back to workingHours
+}
+
+export interface BusyTime {
+  start: Date;
+  end: Date;
+}
+
+export interface CalendarImport {
+  busyTimes: BusyTime[]; // in time order, overlapping ones merged
+  warnings: string[]; // events that were skipped and timezones that were not found, for the import summary
+}
+
+export interface ParticipantPreferences {
+  meetingHours?: TimeOfDayRange; // when they would rather meet, within working hours; other times are at best acceptable
+}
+
+export interface Participant {
+  name?: string; // display name, e.g. "Priya"; output falls back to the city name
+  city: City; // where the participant is
+  timezone?: string; // IANA zone when it differs from the city's, e.g. someone keeping another office's hours
+  preferences?: ParticipantPreferences;
+  workingHours?: WorkingHours; // defaults to 9 AM - 6 PM
+  schedule?: WeeklySchedule; // defaults to the country's weekend with the same hours every working day
+  busy?: BusyTime[]; // existing meetings, e.g. imported from a calendar file
+}
+
+export interface PublicHoliday {
+  date: string; // ISO date (YYYY-MM-DD)
+  name: string;
+}
+
+export interface NonWorkingDay {
+  participantIndex: number; // index into the participants the overlap was calculated for
+  weekday: Weekday; // weekday of the selected date in the participant's timezone
+  kind: 'weekend' | 'day-off' | 'holiday'; // country weekend, a day off in the participant's own schedule, or a public holiday
+  holidayName?: string; // set for public holidays
 }
 
 export interface TimeRange {
@@ -20,28 +87,208 @@ export interface TimeRange {
   end: DateTime;
 }
 
+export interface OverlapWindow {
+  overlapInUTC: { start: DateTime; end: DateTime };
+  localOverlaps: { start: DateTime; end: DateTime }[]; // one per participant, in input order
+  durationMinutes: number;
+}
+
 export interface OverlapResult {
   hasOverlap: boolean;
   overlapInUTC?: { start: DateTime; end: DateTime };
-  overlapInCityA?: { start: DateTime; end: DateTime };
-  overlapInCityB?: { start: DateTime; end: DateTime };
+  localOverlaps?: { start: DateTime; end: DateTime }[]; // one per participant, in input order
   durationMinutes?: number;
+  windows?: OverlapWindow[]; // every shared window in time order; the fields above describe the longest
+  reason?: 'non-working-day' | 'busy'; // set when there is no overlap because someone is off on the date, or existing meetings fill it
+  nonWorkingDays?: NonWorkingDay[];
 }
 
 export type MeetingQuality = 'Perfect Time' | 'Acceptable Time' | 'Not Recommended';
 
+export type SlotStep = 15 | 30 | 60; // minutes between suggested start times
+
 export interface MeetingSuggestion {
-  timeInCityA: DateTime;
-  timeInCityB: DateTime;
+  localTimes: DateTime[]; // one per participant, in input order
   quality: MeetingQuality;
   durationMinutes: number;
+  score?: number; // 0-100, the lowest of the participant scores
+  participantScores?: number[]; // 0-100, one per participant
+}
+
+export interface ScoringContext {
+  time: DateTime; // in the participant's timezone
+  workingHours: WorkingHours;
+  minutesSinceStart: number; // since the start of the working day, counting breaks
+  totalMinutes: number; // length of the working day from start to end
+}
+
+export interface MeetingScorer {
+  // Scores a time within working hours from 0 (worst) to 100 (best)
+  score(context: ScoringContext): number;
+}
+
+export interface ScoreCurves {
+  middleOfDay: number; // base score in the middle third of the working day
+  edgesOfDay: number; // base score in the first and last thirds
+  firstHourPenalty: number; // subtracted at the start of the day, fading out over the first hour
+  postLunchPenalty: number; // subtracted as a break ends, fading out over the following hour
+  lateMorningBonus: number; // added at the peak, fading out two hours either side
+  lateMorningPeak: number; // minutes since midnight
+}
+
+export interface QualityThresholds {
+  perfect: number; // lowest score labelled "Perfect Time"
+  acceptable: number; // lowest score labelled "Acceptable Time"
+}
+
+export interface DayPlan {
+  date: Date;
+  overlap: OverlapResult;
+  durationMinutes: number; // total shared minutes across every window, 0 without overlap
+  bestSuggestion: MeetingSuggestion | null;
+}
+
+export interface ScheduleShift {
+  participantIndex: number;
+  edge: 'start' | 'end'; // start earlier, or stay later
+  minutes: number; // how far the start or end moves
+}
+
+export interface ShiftOption {
+  shift: ScheduleShift;
+  targetMinutes: number; // length of the shared window the shift creates
+  workingHours: WorkingHours; // the participant's hours on the date after the shift
+  suggestion: MeetingSuggestion; // best slot in the new window, scored with the shifted hours
+}
+
+export interface OverlapAdvice {
+  gapMinutes: number; // between the nearest working windows
+  options: ShiftOption[]; // by target length, then smallest shift first
+}
+
+export interface HoursAdjustment {
+  participantIndex: number;
+  shiftMinutes: number; // positive moves the working day later, negative earlier
+  workingHours: WorkingHours; // the adjusted hours, the same length as usual
+}
+
+export interface HoursPlan {
+  adjustments: HoursAdjustment[]; // one per participant, in input order
+  totalDeviationMinutes: number; // sum of every participant's shift, either way
+  overlap: OverlapResult; // with the adjusted hours
+}
+
+export interface WorkingNowEntry {
+  participantIndex: number; // index into the participants that were checked
+  localTime: DateTime; // the checked instant in the participant's timezone
+  minutesLeft: number; // until the end of their working day
+  minutesToBreak?: number; // until their next break, when one comes before the end of the day
+}
+
+export interface OffsetTransition {
+  at: Date; // first instant with the new offset
+  offsetBefore: number; // minutes from UTC
+  offsetAfter: number;
+}
+
+export interface DSTWarning {
+  participantIndices: number[]; // participants whose clocks change
+  transition: OffsetTransition;
+  slotBefore: DateTime[]; // the slot's local times in the week before the change, one per participant
+  slotAfter: DateTime[]; // the same slot in the first week after, kept at City A's local time
+  overlapBefore: OverlapResult;
+  overlapAfter: OverlapResult;
+}
+
+export type SeriesCadence = 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+export interface SeriesOccurrence {
+  date: Date;
+  suggestion: MeetingSuggestion | null; // null when someone is not working that day or busy times fill it
+  participantQualities: MeetingQuality[]; // one per participant, "Not Recommended" when outside their hours
+  inconveniencedParticipants: number[]; // indices of participants outside their working hours
+}
+
+export interface InconvenienceTally {
+  participantIndex: number;
+  notRecommendedCount: number; // occurrences outside the participant's working hours
+  minutesOutsideHours: number; // meeting minutes outside working hours, across the series
+}
+
+export interface SeriesPlan {
+  occurrences: SeriesOccurrence[];
+  tally: InconvenienceTally[]; // one per participant, in input order
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: { weekday: Weekday; nth?: number }[]; // nth counts from the end when negative
+  byMonthDay?: number[]; // counts from the end of the month when negative
+  byMonth?: number[];
+}
+
+export interface RecurrenceOccurrence {
+  start: Date;
+  localTimes: DateTime[]; // one per participant, in input order
+  qualities: MeetingQuality[]; // one per participant, in input order; "Not Recommended" on a non-working day
+  nonWorkingDays: NonWorkingDay[]; // participants for whom the occurrence falls on a weekend, day off or public holiday
+}
+
+export interface RecurrenceSummary {
+  participantIndex: number;
+  qualityCounts: Record<MeetingQuality, number>;
+}
+
+export interface RecurrenceReport {
+  occurrences: RecurrenceOccurrence[];
+  summary: RecurrenceSummary[]; // one per participant, in input order
+}
+
+export interface ParticipantInput {
+  name?: string;
+  city: City | null;
+  timezone?: string; // set when the participant keeps another zone's hours
+  workingHours: WorkingHours;
+  schedule?: WeeklySchedule;
+  preferences?: ParticipantPreferences;
+  busy?: BusyTime[];
+}
+
+export interface TeamMember {
+  name: string;
+  city: City;
+  timezone?: string;
+  workingHours: WorkingHours;
+  schedule?: WeeklySchedule;
+  preferences?: ParticipantPreferences;
+  notes?: string;
+}
+
+export interface Team {
+  name: string; // unique, case-insensitively
+  members: TeamMember[];
+}
+
+export interface SharedScenario {
+  participants: ParticipantInput[]; // busy times are never shared
+  customHoursEnabled: boolean;
+  selectedDate?: Date;
+  meetingDurationMinutes?: number;
+  slotStep?: SlotStep;
+}
+
+export interface SharedScenarioResult {
+  scenario: SharedScenario | null; // null when the URL has no scenario
+  problems: string[]; // parameters that were ignored, for a notice
 }
 
 export interface AppState {
-  cityA: City | null;
-  cityB: City | null;
-  workingHoursA: WorkingHours;
-  workingHoursB: WorkingHours;
+  participants: ParticipantInput[];
   selectedDate: Date;
   customHoursEnabled: boolean;
   overlap: OverlapResult | null;
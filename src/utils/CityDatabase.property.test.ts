@@ -7,7 +7,7 @@ describe('CityDatabase - Property-Based Tests', () => {
   // Validates: Requirements 1.2
   it('Property 1: City search returns valid database entries', () => {
     const db = new CityDatabase();
-    const allCities = db.getAllCities();
+    const allCities = [...db.getAllCities(), ...db.getTimezoneLocations()];
 
     fc.assert(
       fc.property(
@@ -86,6 +86,11 @@ describe('CityDatabase - Unit Tests', () => {
       expect(results).toEqual([]);
     });
 
+    it('should tolerate typos', () => {
+      expect(db.searchCities('Lodnon')[0].name).toBe('London');
+      expect(db.searchCities('Sao Pualo')[0].name).toBe('São Paulo');
+    });
+
     it('should handle queries with numbers', () => {
       const results = db.searchCities('123');
       // Should return empty or valid results, but not crash
@@ -93,6 +98,165 @@ describe('CityDatabase - Unit Tests', () => {
     });
   });
 
+  describe('searchCityMatches', () => {
+    it.each([
+      ['Bombay', 'Mumbai', 'Bombay'],
+      ['NYC', 'New York', 'NYC'],
+      ['SF', 'San Francisco', 'SF'],
+      ['Peking', 'Beijing', 'Peking'],
+      ['saigon', 'Ho Chi Minh City', 'Saigon'],
+      ['東京', 'Tokyo', '東京']
+    ])('should find %s by its alias', (query, name, alias) => {
+      const [best] = db.searchCityMatches(query);
+
+      expect(best.city.name).toBe(name);
+      expect(best.matchedAlias).toBe(alias);
+    });
+
+    it('should match aliases by prefix', () => {
+      expect(db.searchCityMatches('Calc')[0]).toMatchObject({ city: { name: 'Kolkata' }, matchedAlias: 'Calcutta' });
+    });
+
+    it('should not report an alias when the name matches as well', () => {
+      const [best] = db.searchCityMatches('New York');
+
+      expect(best.city.name).toBe('New York');
+      expect(best.matchedAlias).toBeUndefined();
+    });
+
+    it('should rank an exact name above an exact alias', () => {
+      const customDb = new CityDatabase([
+        { name: 'Springfield', aliases: ['Capital'], country: 'Testland', timezone: 'UTC' },
+        { name: 'Capital', country: 'Testland', timezone: 'UTC' }
+      ]);
+
+      expect(customDb.searchCityMatches('capital').map(match => match.city.name)).toEqual(['Capital', 'Springfield']);
+    });
+  });
+
+  describe('searching by timezone', () => {
+    it('should find cities by abbreviation, labelled with the timezone', () => {
+      const [best] = db.searchCityMatches('CET', 10, new Date(2024, 0, 17));
+
+      expect(best).toEqual({ city: db.getCityByName('Paris'), matchedZone: 'CET · Central European Time (UTC+1)' });
+    });
+
+    it('should find cities by UTC offset', () => {
+      const results = db.searchCities('UTC+9', 10, new Date(2024, 0, 17));
+
+      // Cities come before locations that are only a timezone
+      expect(results.slice(0, 3).map(city => city.name)).toEqual(['Tokyo', 'Osaka', 'Seoul']);
+      expect(results.slice(3).every(city => city.country === '')).toBe(true);
+    });
+
+    it('should keep names that start with the query first', () => {
+      const matches = db.searchCityMatches('Ist', 10, new Date(2024, 0, 17));
+
+      expect(matches[0]).toEqual({ city: db.getCityByName('Istanbul') });
+      expect(matches[1].matchedZone).toBe('IST · Israel Time (UTC+2)');
+    });
+  });
+
+  describe('timezone locations', () => {
+    it('should offer timezones no city is in', () => {
+      const locations = db.getTimezoneLocations();
+
+      expect(locations).toContainEqual({ name: 'Chatham', country: '', timezone: 'Pacific/Chatham' });
+      expect(locations).toContainEqual({ name: 'St Johns', country: '', timezone: 'America/St_Johns' });
+      // Kathmandu is a city, even where the browser spells its zone Asia/Katmandu
+      expect(locations.some(location => /Kat(h)?mandu/.test(location.timezone))).toBe(false);
+    });
+
+    it('should find a timezone location by name or identifier, after cities', () => {
+      expect(db.searchCityMatches('Chatham')[0]).toEqual({ city: { name: 'Chatham', country: '', timezone: 'Pacific/Chatham' } });
+      expect(db.searchCities('America/St_Johns')[0].timezone).toBe('America/St_Johns');
+      expect(db.searchCityMatches('Asia/Kathmandu')[0]).toEqual({ city: db.getCityByName('Kathmandu'), matchedAlias: 'Asia/Kathmandu' });
+    });
+
+    it('should look up a timezone location by name or identifier', () => {
+      expect(db.getCityByName('Chatham')?.timezone).toBe('Pacific/Chatham');
+      expect(db.getCityByName('pacific/chatham')?.name).toBe('Chatham');
+    });
+
+    it('should only offer valid timezones given to a custom database', () => {
+      const customDb = new CityDatabase(
+        [{ name: 'TestCity', country: 'TestCountry', timezone: 'Asia/Kolkata' }],
+        ['Asia/Calcutta', 'Pacific/Chatham', 'Mars/Olympus_Mons']
+      );
+
+      expect(customDb.getTimezoneLocations().map(location => location.timezone)).toEqual(['Pacific/Chatham']);
+      expect(new CityDatabase([{ name: 'TestCity', country: 'TestCountry', timezone: 'UTC' }]).getTimezoneLocations()).toEqual([]);
+    });
+  });
+
+  describe('findNearestCities', () => {
+    it('should list the nearest cities by great-circle distance', () => {
+      const nearest = db.findNearestCities(51.5074, -0.1278, 3);
+
+      expect(nearest.map(({ city }) => city.name)).toEqual(['London', 'Brussels', 'Paris']);
+      expect(nearest[0].distanceKm).toBe(0);
+      expect(nearest[2].distanceKm).toBeCloseTo(344, 0);
+    });
+
+    it('should measure across the antimeridian', () => {
+      // Just east of the antimeridian, Fiji (178°E) is nearer than Apia (172°W)
+      const [nearest] = db.findNearestCities(-16, -179.5, 1);
+
+      expect(nearest.city.name).toBe('Fiji');
+      expect(nearest.distanceKm).toBeLessThan(400);
+    });
+
+    it('should skip cities without coordinates', () => {
+      const customDb = new CityDatabase([
+        { name: 'Nowhere', country: 'Testland', timezone: 'UTC' },
+        { name: 'Somewhere', country: 'Testland', timezone: 'UTC', coordinates: { lat: 10, lon: 10 } }
+      ]);
+
+      expect(customDb.findNearestCities(0, 0).map(({ city }) => city.name)).toEqual(['Somewhere']);
+    });
+
+    it('should reject coordinates out of range', () => {
+      expect(() => db.findNearestCities(91, 0)).toThrow('Invalid coordinates: 91, 0');
+      expect(() => db.findNearestCities(0, NaN)).toThrow('Invalid coordinates');
+    });
+  });
+
+  describe('findLocalCity', () => {
+    // Two made-up towns either side of a timezone border, 33 km apart
+    const borderDb = new CityDatabase([
+      { name: 'Westside', country: 'Testland', timezone: 'America/Chicago', coordinates: { lat: 40, lon: -87.2 } },
+      { name: 'Eastside', country: 'Testland', timezone: 'America/New_York', coordinates: { lat: 40, lon: -86.8 } }
+    ]);
+
+    it('should prefer the nearest city in the given timezone', () => {
+      expect(borderDb.findLocalCity(40, -86.9, 'America/New_York')?.city.name).toBe('Eastside');
+      expect(borderDb.findLocalCity(40, -86.9, 'America/Chicago')?.city.name).toBe('Westside');
+    });
+
+    it('should fall back to the nearest city in another timezone', () => {
+      expect(borderDb.findLocalCity(40, -86.9, 'Europe/London')?.city.name).toBe('Eastside');
+    });
+
+    it('should not pick a city further away than the limit', () => {
+      expect(db.findLocalCity(48.85, 2.35, 'Europe/Paris')?.city.name).toBe('Paris');
+      // The middle of the Atlantic
+      expect(db.findLocalCity(30, -40, 'Atlantic/Azores')).toBeNull();
+      expect(borderDb.findLocalCity(40, -86.9, 'America/Chicago', 5)).toBeNull();
+    });
+  });
+
+  describe('getCityByTimezone', () => {
+    it('should find the first city in a timezone, in any spelling', () => {
+      expect(db.getCityByTimezone('Europe/London')?.name).toBe('London');
+      expect(db.getCityByTimezone('Asia/Calcutta')?.name).toBe('Mumbai');
+    });
+
+    it('should fall back to the timezone location', () => {
+      expect(db.getCityByTimezone('Pacific/Chatham')?.name).toBe('Chatham');
+      expect(db.getCityByTimezone('Mars/Olympus_Mons')).toBeNull();
+    });
+  });
+
   describe('getCityByName', () => {
     it('should return city for exact name match', () => {
       const city = db.getCityByName('London');
@@ -128,6 +292,12 @@ describe('CityDatabase - Unit Tests', () => {
       expect(city).not.toBeNull();
       expect(city?.name).toBe('São Paulo');
     });
+
+    it('should fall back to an exact alias', () => {
+      expect(db.getCityByName('Bombay')?.name).toBe('Mumbai');
+      expect(db.getCityByName('서울')?.name).toBe('Seoul');
+      expect(db.getCityByName('Bomb')).toBeNull();
+    });
   });
 
   describe('getAllCities', () => {
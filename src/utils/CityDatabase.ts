@@ -1,10 +1,102 @@
-import type { City } from '../types';
+import type { City, CityMatch, NearbyCity } from '../types';
 import citiesData from '../data/cities.json';
+import { TimezoneCityIndex } from './timezoneSearch';
+import { TimeZoneConverter } from './TimeZoneConverter';
+import { CitySearchIndex, normalizeSearchText } from './CitySearchIndex';
+
+/**
+ * Name matches scoring at least this much (a name or alias starting with the
+ * query) are kept alongside timezone matches, so typing "Ist" still shows Istanbul first
+ */
+const STRONG_MATCH_SCORE = 450;
+
+/**
+ * Locations that are only a timezone are listed when their name or identifier
+ * contains the query, so hundreds of them do not crowd out fuzzy city matches
+ */
+const TIMEZONE_LOCATION_MIN_SCORE = 200;
+
+/**
+ * Furthest a city can be from someone's location and still be picked as theirs
+ */
+export const LOCAL_CITY_MAX_DISTANCE_KM = 100;
+
+/**
+ * Mean radius of the Earth
+ */
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Locations for every supported timezone, shared by every database using the bundled cities
+ */
+let supportedTimezoneLocations: City[] | null = null;
+
+interface SearchIndexes {
+  cities: CitySearchIndex;
+  timezoneLocations: CitySearchIndex;
+  timezones: TimezoneCityIndex; // the cities, then the timezone locations
+}
+
+/**
+ * Search indexes for the bundled cities and their timezone locations, shared the same way
+ */
+let bundledSearchIndexes: SearchIndexes | null = null;
+
+/**
+ * Get the identifier the browser uses for a timezone, so "Asia/Kolkata" and
+ * "Asia/Calcutta" are recognised as the same zone
+ */
+function getCanonicalTimezone(timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: timezone }).resolvedOptions().timeZone;
+  } catch {
+    return timezone;
+  }
+}
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ */
+function getDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Turn timezones that no city is in into selectable locations,
+ * e.g. { name: "Chatham", country: "", timezone: "Pacific/Chatham" }
+ */
+function createTimezoneLocations(timezones: string[], cities: City[]): City[] {
+  const converter = new TimeZoneConverter();
+  const covered = new Set(cities.map(city => getCanonicalTimezone(city.timezone)));
+
+  return timezones
+    .filter(timezone => converter.isValidTimezone(timezone) && !covered.has(getCanonicalTimezone(timezone)))
+    .map(timezone => ({
+      name: timezone.split('/').pop()!.replace(/_/g, ' '),
+      country: '',
+      timezone
+    }));
+}
 
 export class CityDatabase {
   private cities: City[];
+  private timezones: string[] | null; // null for every timezone the browser supports
+  private timezoneLocations: City[] | null = null;
+  private searchIndexes: SearchIndexes | null = null;
+
+  /**
+   * @param cities - Cities to search (default: the bundled cities)
+   * @param timezones - IANA timezones to offer as locations when no city is in them
+   * (default: every supported timezone with the bundled cities, none with custom cities)
+   */
+  constructor(cities?: City[], timezones?: string[]) {
+    this.timezones = timezones ?? (cities ? [] : null);
 
-  constructor(cities?: City[]) {
     try {
       this.cities = cities || (citiesData as City[]);
       
@@ -39,151 +131,187 @@ export class CityDatabase {
 
   /**
    * Search for cities matching the query string
-   * Uses fuzzy matching to find cities by name or country
+   * Uses a prebuilt index to find cities by name, alias or country, allowing
+   * for typos ("Lodnon"), and also
+   * finds cities by timezone abbreviation ("PST") or UTC offset ("UTC+5:30")
    * @param query - Search string
    * @param limit - Maximum number of results to return (default: 10)
+   * @param date - Date that decides daylight saving time for timezone searches (default: today)
    * @returns Array of matching cities
    */
-  searchCities(query: string, limit: number = 10): City[] {
+  searchCities(query: string, limit: number = 10, date: Date = new Date()): City[] {
+    return this.searchCityMatches(query, limit, date).map(match => match.city);
+  }
+
+  /**
+   * Search for cities matching the query string, noting which alias matched
+   * An alias is only reported when it matched better than the city's own name,
+   * e.g. "Bombay" for Mumbai but not "New York City" for "new york".
+   * A timezone abbreviation or UTC offset also lists the cities in each
+   * timezone it can mean, labelled with that timezone. A query with a "/" is
+   * matched against timezone identifiers ("Asia/Kathmandu") as well. Locations
+   * that are only a timezone come after the cities.
+   * @param query - Search string
+   * @param limit - Maximum number of results to return (default: 10)
+   * @param date - Date that decides daylight saving time for timezone searches (default: today)
+   * @returns Array of matching cities, best match first
+   */
+  searchCityMatches(query: string, limit: number = 10, date: Date = new Date()): CityMatch[] {
     if (!query || query.trim() === '') {
       return [];
     }
 
-    const normalizedQuery = this.normalizeString(query);
-    
     // After normalization, check if query is still valid
-    if (normalizedQuery === '') {
+    if (normalizeSearchText(query) === '') {
       return [];
     }
-    
-    const queryWords = normalizedQuery.split(/\s+/);
-
-    // Score each city based on how well it matches the query
-    const scoredCities = this.cities.map(city => ({
-      city,
-      score: this.calculateMatchScore(city, normalizedQuery, queryWords)
-    }));
 
-    // Filter out cities with no meaningful match (minimum score threshold of 25)
-    // and sort by score
+    // Filter out cities with no meaningful match (minimum score threshold of 25);
+    // the index returns the best scoring ones first
     const MIN_SCORE_THRESHOLD = 25;
-    return scoredCities
-      .filter(item => item.score >= MIN_SCORE_THRESHOLD)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map(item => item.city);
+    const indexes = this.getSearchIndexes();
+    const matchIdentifier = query.includes('/');
+    const nameMatches = [
+      ...indexes.cities.search(query, { limit, minScore: MIN_SCORE_THRESHOLD, matchIdentifier }),
+      ...indexes.timezoneLocations.search(query, { limit, minScore: TIMEZONE_LOCATION_MIN_SCORE, matchIdentifier })
+    ].slice(0, limit);
+    const toMatch = ({ city, matchedAlias }: { city: City; matchedAlias?: string }): CityMatch =>
+      (matchedAlias ? { city, matchedAlias } : { city });
+
+    const timezoneMatches = indexes.timezones.search(query, date);
+    if (!timezoneMatches) {
+      return nameMatches.map(toMatch);
+    }
+
+    // Strong name matches, then each timezone the query can mean; weaker name
+    // matches for a timezone search are only fuzzy noise ("UTC+9" and Kuwait City)
+    const seen = new Set<City>();
+    return [
+      ...nameMatches.filter(item => item.score >= STRONG_MATCH_SCORE).map(toMatch),
+      ...timezoneMatches.flatMap(group => group.cities.map(city => ({ city, matchedZone: group.label })))
+    ].filter(match => {
+      if (seen.has(match.city)) {
+        return false;
+      }
+      seen.add(match.city);
+      return true;
+    }).slice(0, limit);
   }
 
   /**
-   * Get a city by exact name match
-   * @param name - City name to look up
+   * Get a city by exact name match, falling back to an exact alias match, then
+   * to a timezone location by name or identifier ("Chatham" or "Pacific/Chatham")
+   * @param name - City name or alias to look up
    * @returns City object or null if not found
    */
   getCityByName(name: string): City | null {
-    const normalizedName = this.normalizeString(name);
+    const normalizedName = normalizeSearchText(name);
+    if (normalizedName === '') {
+      return null;
+    }
     const city = this.cities.find(
-      c => this.normalizeString(c.name) === normalizedName
+      c => normalizeSearchText(c.name) === normalizedName
+    ) ?? this.cities.find(
+      c => (c.aliases ?? []).some(alias => normalizeSearchText(alias) === normalizedName)
+    ) ?? this.getTimezoneLocations().find(
+      c => normalizeSearchText(c.name) === normalizedName || c.timezone.toLowerCase() === name.trim().toLowerCase()
     );
     return city || null;
   }
 
   /**
-   * Get all cities in the database
-   * @returns Array of all cities
+   * Get the city for a timezone: the first city in it, or else its timezone location
+   * @param timezone - IANA timezone identifier, in any spelling the browser knows
+   * @returns City object or null if the timezone is unknown
    */
-  getAllCities(): City[] {
-    return [...this.cities];
+  getCityByTimezone(timezone: string): City | null {
+    const canonical = getCanonicalTimezone(timezone);
+    return (
+      this.cities.find(city => getCanonicalTimezone(city.timezone) === canonical) ??
+      this.getTimezoneLocations().find(location => getCanonicalTimezone(location.timezone) === canonical) ??
+      null
+    );
   }
 
   /**
-   * Normalize a string for comparison (lowercase, remove accents, remove special chars, trim)
+   * Find the cities nearest to a point
+   * Cities without coordinates are skipped.
+   * @param lat - Latitude in degrees (-90 to 90)
+   * @param lon - Longitude in degrees (-180 to 180)
+   * @param limit - Maximum number of cities to return (default: 5)
+   * @returns The nearest cities with their great-circle distance, nearest first
+   * @throws Error if the coordinates are out of range
    */
-  private normalizeString(str: string): string {
-    return str
-      .toLowerCase()
-      .normalize('NFD')
-      .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
-      .replace(/[^a-z0-9\s]/g, '') // Remove special characters, keep only letters, numbers, and spaces
-      .replace(/\s+/g, ' ') // Normalize multiple spaces to single space
-      .trim();
+  findNearestCities(lat: number, lon: number, limit: number = 5): NearbyCity[] {
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      throw new Error(`Invalid coordinates: ${lat}, ${lon}`);
+    }
+
+    return this.cities
+      .flatMap(city => city.coordinates
+        ? [{ city, distanceKm: getDistanceKm(lat, lon, city.coordinates.lat, city.coordinates.lon) }]
+        : [])
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+      .slice(0, limit);
   }
 
   /**
-   * Calculate a match score for a city based on the query
-   * Higher scores indicate better matches
+   * Find the city to use for someone at a point
+   * The nearest city in their own timezone wins, so someone near a timezone
+   * border keeps their own clocks; cities further away are never picked.
+   * @param lat - Latitude in degrees (-90 to 90)
+   * @param lon - Longitude in degrees (-180 to 180)
+   * @param timezone - The person's timezone, e.g. the browser's
+   * @param maxDistanceKm - Furthest a city may be (default: 100 km)
+   * @returns The city with its distance, or null when no city is close enough
+   * @throws Error if the coordinates are out of range
    */
-  private calculateMatchScore(city: City, normalizedQuery: string, queryWords: string[]): number {
-    const normalizedCityName = this.normalizeString(city.name);
-    const normalizedCountry = this.normalizeString(city.country);
+  findLocalCity(lat: number, lon: number, timezone: string, maxDistanceKm: number = LOCAL_CITY_MAX_DISTANCE_KM): NearbyCity | null {
+    const canonical = getCanonicalTimezone(timezone);
+    const nearby = this.findNearestCities(lat, lon, this.cities.length)
+      .filter(({ distanceKm }) => distanceKm <= maxDistanceKm);
 
-    let score = 0;
-
-    // Exact match gets highest score
-    if (normalizedCityName === normalizedQuery) {
-      score += 1000;
-    }
-    // Starts with query gets high score
-    else if (normalizedCityName.startsWith(normalizedQuery)) {
-      score += 500;
-    }
-    // Contains query gets medium score
-    else if (normalizedCityName.includes(normalizedQuery)) {
-      score += 250;
-    }
-
-    // Check country match
-    if (normalizedCountry === normalizedQuery) {
-      score += 100;
-    } else if (normalizedCountry.startsWith(normalizedQuery)) {
-      score += 50;
-    } else if (normalizedCountry.includes(normalizedQuery)) {
-      score += 25;
-    }
-
-    // Check individual word matches (for multi-word queries)
-    for (const word of queryWords) {
-      if (word.length < 2) continue; // Skip very short words
+    return nearby.find(({ city }) => getCanonicalTimezone(city.timezone) === canonical) ?? nearby[0] ?? null;
+  }
 
-      if (normalizedCityName.includes(word)) {
-        score += 50;
-      }
-      if (normalizedCountry.includes(word)) {
-        score += 25;
-      }
-    }
+  /**
+   * Get all cities in the database
+   * @returns Array of all cities
+   */
+  getAllCities(): City[] {
+    return [...this.cities];
+  }
 
-    // Fuzzy matching: check for character-by-character similarity
-    if (score === 0) {
-      const fuzzyScore = this.fuzzyMatch(normalizedCityName, normalizedQuery);
-      if (fuzzyScore > 0.6) {
-        score += Math.floor(fuzzyScore * 100);
+  /**
+   * Get a location for every timezone no city is in, named after the last part
+   * of its identifier (e.g. "Chatham" for Pacific/Chatham) with an empty country
+   * Built the first time it is needed, as checking every zone takes a moment.
+   * @returns Array of timezone locations
+   */
+  getTimezoneLocations(): City[] {
+    if (this.timezoneLocations === null) {
+      if (this.timezones === null) {
+        supportedTimezoneLocations ??= createTimezoneLocations(new TimeZoneConverter().getSupportedTimezones(), this.cities);
+        this.timezoneLocations = supportedTimezoneLocations;
+      } else {
+        this.timezoneLocations = createTimezoneLocations(this.timezones, this.cities);
       }
     }
-
-    return score;
+    return [...this.timezoneLocations];
   }
 
   /**
-   * Calculate fuzzy match score between two strings
-   * Returns a value between 0 and 1, where 1 is a perfect match
+   * Get the search indexes for the cities and the timezone locations, built the first time they are needed
    */
-  private fuzzyMatch(str: string, pattern: string): number {
-    if (pattern.length === 0) return 0;
-    if (str.length === 0) return 0;
-
-    let patternIdx = 0;
-    let strIdx = 0;
-    let matches = 0;
-
-    while (strIdx < str.length && patternIdx < pattern.length) {
-      if (str[strIdx] === pattern[patternIdx]) {
-        matches++;
-        patternIdx++;
-      }
-      strIdx++;
+  private getSearchIndexes(): SearchIndexes {
+    if (this.searchIndexes === null) {
+      const build = (): SearchIndexes => ({
+        cities: new CitySearchIndex(this.cities),
+        timezoneLocations: new CitySearchIndex(this.getTimezoneLocations()),
+        timezones: new TimezoneCityIndex([...this.cities, ...this.getTimezoneLocations()])
+      });
+      this.searchIndexes = this.timezones === null ? (bundledSearchIndexes ??= build()) : build();
     }
-
-    // Return ratio of matched characters to pattern length
-    return matches / pattern.length;
+    return this.searchIndexes;
   }
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { CitySearchIndex, normalizeSearchText } from './CitySearchIndex';
+import { CityDatabase } from './CityDatabase';
+import type { City } from '../types';
+
+const options = { limit: 10, minScore: 25, matchIdentifier: false };
+
+/**
+ * A large made-up dataset, the same every run
+ */
+function createCities(count: number): City[] {
+  const syllables = [
+    'ba', 'ko', 'ri', 'san', 'tel', 'mar', 'vo', 'lin', 'de', 'os', 'ka', 'nu', 'pre', 'gho', 'al', 'vik', 'zu', 'em', 'tor', 'ha',
+    'gu', 'ne', 'sto', 'wa', 'bri', 'lo', 'fen', 'cha', 'mi', 'ut', 'ver', 'qui', 'ja', 'rom', 'sel', 'ty', 'do', 'ar', 'pil', 'ke'
+  ];
+  const prefixes = ['San ', 'Port ', 'New ', 'North ', ...Array<string>(96).fill('')];
+  const timezones = ['Europe/London', 'Europe/Paris', 'America/New_York', 'America/Chicago', 'Asia/Tokyo', 'Asia/Kolkata', 'Australia/Sydney', 'Africa/Lagos'];
+  let seed = 42;
+  const next = (max: number) => {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+    return Math.floor((seed / 2 ** 32) * max);
+  };
+  const word = (length: number) => {
+    const text = Array.from({ length }, () => syllables[next(syllables.length)]).join('');
+    return text[0].toUpperCase() + text.slice(1);
+  };
+  const countries = Array.from({ length: 200 }, () => word(3));
+
+  return Array.from({ length: count }, (_, i) => ({
+    name: `${prefixes[next(prefixes.length)]}${word(2 + next(3))}`,
+    ...(i % 10 === 0 ? { aliases: [word(3)] } : {}),
+    country: countries[next(countries.length)],
+    timezone: timezones[next(timezones.length)]
+  }));
+}
+
+describe('CitySearchIndex', () => {
+  const cities = new CityDatabase().getAllCities();
+  const index = new CitySearchIndex(cities);
+  const names = (query: string) => index.search(query, options).map(match => match.city.name);
+
+  it('should rank exact, prefix and country matches like the city search', () => {
+    expect(names('London')[0]).toBe('London');
+    expect(names('New')).toContain('New York');
+    expect(index.search('Japan', options).every(match => match.city.country === 'Japan')).toBe(true);
+  });
+
+  it('should find names with swapped, missing or extra letters', () => {
+    expect(names('Lodnon')[0]).toBe('London');
+    expect(names('Sydeny')[0]).toBe('Sydney');
+    expect(names('Toyko')[0]).toBe('Tokyo');
+    expect(names('Barcelonna')[0]).toBe('Barcelona');
+  });
+
+  it('should find the start of a misspelled name', () => {
+    expect(names('Lodno')[0]).toBe('London');
+  });
+
+  it('should report a misspelled alias', () => {
+    expect(index.search('Bombai', options)[0]).toMatchObject({ city: { name: 'Mumbai' } });
+    expect(index.search('Calcuta', options)[0]).toMatchObject({ city: { name: 'Kolkata' }, matchedAlias: 'Calcutta' });
+  });
+
+  it('should rank exact matches above typos', () => {
+    const customIndex = new CitySearchIndex([
+      { name: 'Parris', country: 'United States', timezone: 'America/Chicago' },
+      { name: 'Paris', country: 'France', timezone: 'Europe/Paris' }
+    ]);
+
+    expect(customIndex.search('Paris', options).map(match => match.city.name)).toEqual(['Paris', 'Parris']);
+  });
+
+  it('should not allow typos in short queries', () => {
+    expect(names('Lnd')).toEqual([]);
+  });
+
+  it('should order equal scores by name, country and timezone, whatever the input order', () => {
+    const springfields: City[] = [
+      { name: 'Springfield', country: 'United States', timezone: 'America/New_York' },
+      { name: 'Springfield', country: 'United States', timezone: 'America/Chicago' },
+      { name: 'Springfield', country: 'Australia', timezone: 'Australia/Sydney' },
+      { name: 'Springdale', country: 'United States', timezone: 'America/Chicago' }
+    ];
+    const expected = [
+      'Springdale United States',
+      'Springfield Australia',
+      'Springfield United States',
+      'Springfield United States'
+    ];
+
+    for (const list of [springfields, [...springfields].reverse()]) {
+      const results = new CitySearchIndex(list).search('Spring', options);
+      expect(results.map(match => `${match.city.name} ${match.city.country}`)).toEqual(expected);
+      expect(results[2].city.timezone).toBe('America/Chicago');
+    }
+  });
+
+  it('should respect the limit and minimum score', () => {
+    expect(index.search('a', { ...options, limit: 3 })).toHaveLength(3);
+    expect(index.search('London', { ...options, limit: 0 })).toEqual([]);
+    expect(index.search('Lodnon', { ...options, minScore: 200 })).toEqual([]);
+  });
+
+  it('should return nothing for a query without letters or numbers', () => {
+    expect(index.search('!!!', options)).toEqual([]);
+  });
+
+  it('should only score the cities that share a word or spelling with the query', () => {
+    const large = createCities(150000);
+    const largeIndex = new CitySearchIndex(large);
+    const scoredCount = (query: string) => {
+      largeIndex.search(query, options);
+      return largeIndex.getLastScoredCount();
+    };
+
+    for (const city of large.slice(0, 40)) {
+      const name = normalizeSearchText(city.name);
+      const swapped = `${name.slice(0, 2)}${name[3]}${name[2]}${name.slice(4)}`;
+
+      // Even a single letter or a common word like "New" leaves most of the list unscored
+      for (const query of [name, name[0], name.slice(0, 3), city.country]) {
+        expect(scoredCount(query)).toBeLessThan(large.length / 5);
+      }
+      // A misspelt single word only reaches the few spellings near it
+      if (!name.includes(' ')) {
+        expect(scoredCount(swapped)).toBeLessThan(large.length / 100);
+      }
+    }
+
+    expect(largeIndex.search(large[0].name, options)[0].city.name).toBe(large[0].name);
+  }, 60000);
+});
@@ -0,0 +1,542 @@
+import type { City } from '../types';
+
+/**
+ * Queries shorter than a trigram are only matched at the start of a name or
+ * word, as almost every name contains one or two given letters somewhere
+ */
+const TRIGRAM_LENGTH = 3;
+
+/**
+ * Score of a name with one typo; a second typo, a misspelled start of a name
+ * and a misspelled alias each score less
+ */
+const MAX_TYPO_SCORE = 80;
+
+/**
+ * The typo pass collects at most this many spellings, in alphabetical order
+ */
+const MAX_TYPO_CANDIDATES = 500;
+
+export interface CitySearchOptions {
+  limit: number;
+  minScore: number; // cities scoring less are left out
+  matchIdentifier: boolean; // also match the timezone identifier, as an alias
+}
+
+export interface ScoredCity {
+  city: City;
+  score: number;
+  matchedAlias?: string; // only when an alias matched better than the name
+}
+
+/**
+ * A city with its searchable text normalized once, when the index is built
+ */
+interface IndexedCity {
+  city: City;
+  order: number; // position in the list the index was built from
+  name: string;
+  country: string;
+  timezone: string;
+  aliases: { text: string; alias: string }[]; // normalized, and as written
+  spellings: { text: string; alias?: string }[]; // name, aliases and their words, for typos
+}
+
+type RankedCity = ScoredCity & { entry: IndexedCity };
+
+/**
+ * Normalize a string for comparison (lowercase, remove accents, remove special chars, trim)
+ * Letters from any script are kept, so native-script names like "東京" can be searched
+ */
+export function normalizeSearchText(str: string): string {
+  return str
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
+    .replace(/[^\p{L}\p{N}\s]/gu, '') // Remove special characters, keep only letters, numbers, and spaces
+    .replace(/\s+/g, ' ') // Normalize multiple spaces to single space
+    .trim();
+}
+
+/**
+ * Typos allowed in a query: none up to 3 characters, one up to 7, then two
+ */
+function getMaxTypos(length: number): number {
+  return length <= TRIGRAM_LENGTH ? 0 : length < 8 ? 1 : 2;
+}
+
+/**
+ * Distinct trigrams of a string, e.g. "lon", "ond", "ndo", "don" for "london"
+ */
+function getTrigrams(text: string): string[] {
+  const trigrams = new Set<string>();
+  for (let i = 0; i + TRIGRAM_LENGTH <= text.length; i++) {
+    trigrams.add(text.slice(i, i + TRIGRAM_LENGTH));
+  }
+  return [...trigrams];
+}
+
+/**
+ * Next row of a Damerau-Levenshtein (optimal string alignment) table, so
+ * swapping two neighbouring letters ("Lodnon") counts as one typo
+ * @param rows - Rows so far; rows[k] holds the distances from the first k letters of text to each start of query
+ * @param depth - Letters of text already in rows
+ * @returns The distances from the first depth + 1 letters of text to each start of query
+ */
+function getEditRow(rows: number[][], query: string, text: string, depth: number): number[] {
+  const above = rows[depth];
+  const letter = text[depth];
+  const row = [depth + 1];
+  for (let j = 1; j <= query.length; j++) {
+    let distance = Math.min(above[j] + 1, row[j - 1] + 1, above[j - 1] + (query[j - 1] === letter ? 0 : 1));
+    if (depth > 0 && j > 1 && query[j - 1] === text[depth - 1] && query[j - 2] === letter) {
+      distance = Math.min(distance, rows[depth - 1][j - 2] + 1);
+    }
+    row.push(distance);
+  }
+  return row;
+}
+
+/**
+ * First row of an edit distance table: the distance from nothing to each start of the query
+ */
+function getFirstEditRow(query: string): number[] {
+  return Array.from({ length: query.length + 1 }, (_, j) => j);
+}
+
+/**
+ * Edit distance between the query and a text
+ * @returns The distance, or max + 1 once it is known to be more than max
+ */
+function getEditDistance(query: string, text: string, max: number): number {
+  if (Math.abs(query.length - text.length) > max) {
+    return max + 1;
+  }
+
+  const rows = [getFirstEditRow(query)];
+  for (let depth = 0; depth < text.length; depth++) {
+    rows.push(getEditRow(rows, query, text, depth));
+    if (Math.min(...rows[depth + 1]) > max) {
+      return max + 1;
+    }
+  }
+  return Math.min(rows[text.length][query.length], max + 1);
+}
+
+/**
+ * Score a spelling a few typos away from the query: 80 for one typo, 60 for
+ * two, and 20 less when only the start of the spelling is close to the query
+ */
+function getTypoScore(text: string, query: string, maxTypos: number): number {
+  const typos = getEditDistance(query, text, maxTypos);
+  if (typos <= maxTypos) {
+    return MAX_TYPO_SCORE - 20 * (typos - 1);
+  }
+
+  // The query may stop partway through the name, a letter short or over
+  let startTypos = maxTypos + 1;
+  for (const length of [query.length - 1, query.length, query.length + 1]) {
+    if (length < text.length) {
+      startTypos = Math.min(startTypos, getEditDistance(query, text.slice(0, length), maxTypos));
+    }
+  }
+  return startTypos <= maxTypos ? MAX_TYPO_SCORE - 20 * startTypos : 0;
+}
+
+/**
+ * Compare by code units, so ties sort the same whatever the browser's locale
+ */
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Prebuilt index for ranked, typo-tolerant city search
+ * Names, aliases, countries and timezone identifiers, and each of their words,
+ * are kept as sorted terms so a prefix is found by binary search (a flattened
+ * prefix trie), and names a few typos away by walking that trie with an
+ * edit distance table. Every term is also listed under its trigrams, to find
+ * names containing the query. Only those candidates are scored, so a query
+ * stays fast on datasets of 100,000+ cities. Equal scores are ordered by name,
+ * country, timezone, then position in the list.
+ */
+export class CitySearchIndex {
+  private entries: IndexedCity[];
+  private terms: string[]; // sorted
+  private termNames: number[][]; // entries the term is the whole name or an alias of
+  private termParts: number[][]; // entries with the term as a word, country or timezone
+  private spellingTerms: Uint8Array; // 1 for names and aliases and their words, which can have typos
+  private trigramTerms = new Map<string, number[]>();
+  private lastScoredIn: Uint32Array; // the search each city was last scored in
+  private searchCount = 0;
+  private lastScoredCount = 0;
+
+  /**
+   * @param cities - Cities to search
+   */
+  constructor(cities: City[]) {
+    const normalized = new Map<string, string>();
+    const normalize = (text: string) => {
+      let result = normalized.get(text);
+      if (result === undefined) {
+        result = normalizeSearchText(text);
+        normalized.set(text, result);
+      }
+      return result;
+    };
+
+    this.entries = cities.map((city, order) => {
+      const name = normalize(city.name);
+      const aliases = (city.aliases ?? []).map(alias => ({ text: normalize(alias), alias }));
+      const spellings: IndexedCity['spellings'] = [];
+      for (const { text, alias } of [{ text: name }, ...aliases]) {
+        const words = text.split(' ');
+        for (const spelling of words.length > 1 ? [text, ...words] : [text]) {
+          spellings.push(alias === undefined ? { text: spelling } : { text: spelling, alias });
+        }
+      }
+      return { city, order, name, country: normalize(city.country), timezone: normalize(city.timezone), aliases, spellings };
+    });
+
+    // Each term with the entries it comes from, and whether it is a name or alias spelling
+    const termMap = new Map<string, { names: number[]; parts: number[]; spelling: boolean }>();
+    const addTerm = (term: string, id: number, whole: boolean, spelling: boolean) => {
+      if (term === '') return;
+      const found = termMap.get(term) ?? { names: [], parts: [], spelling: false };
+      const cities = whole ? found.names : found.parts;
+      if (cities[cities.length - 1] !== id) {
+        cities.push(id);
+      }
+      found.spelling ||= spelling;
+      termMap.set(term, found);
+    };
+    this.entries.forEach((entry, id) => {
+      for (const text of [entry.name, ...entry.aliases.map(alias => alias.text)]) {
+        addTerm(text, id, true, true);
+        text.split(' ').forEach(word => addTerm(word, id, false, true));
+      }
+      for (const text of [entry.country, entry.timezone]) {
+        addTerm(text, id, false, false);
+        text.split(' ').forEach(word => addTerm(word, id, false, false));
+      }
+    });
+
+    this.terms = [...termMap.keys()].sort(compareText);
+    this.termNames = this.terms.map(term => termMap.get(term)!.names);
+    this.termParts = this.terms.map(term => termMap.get(term)!.parts);
+    this.spellingTerms = Uint8Array.from(this.terms, term => (termMap.get(term)!.spelling ? 1 : 0));
+    this.lastScoredIn = new Uint32Array(this.entries.length);
+    this.terms.forEach((term, termId) => {
+      for (const trigram of getTrigrams(term)) {
+        const termIds = this.trigramTerms.get(trigram);
+        if (termIds) {
+          termIds.push(termId);
+        } else {
+          this.trigramTerms.set(trigram, [termId]);
+        }
+      }
+    });
+  }
+
+  /**
+   * Find the best matching cities for a query
+   * A name scores 1000 for an exact match, 500 when it starts with the query
+   * and 250 when it contains it; an alias scores 900, 450 or 200 and counts
+   * instead of the name when it matches better. Country and word matches add
+   * to the score. When nothing else matches, a name or alias up to two typos
+   * away scores up to 80, so "Lodnon" finds London.
+   * @param query - Search string
+   * @param options - Result limit, minimum score and whether to match timezone identifiers
+   * @returns Up to limit cities, best match first
+   */
+  search(query: string, options: CitySearchOptions): ScoredCity[] {
+    const normalizedQuery = normalizeSearchText(query);
+    if (normalizedQuery === '' || options.limit <= 0) {
+      return [];
+    }
+
+    const queryWords = normalizedQuery.split(' ');
+    const searchWords = queryWords.filter(word => word.length >= 2);
+    const texts = [...new Set([normalizedQuery, ...searchWords])];
+    const maxTypos = getMaxTypos(normalizedQuery.length);
+
+    // Many cities share a spelling, so each is only checked for typos once a search
+    const typoScores = new Map<string, number>();
+    const scoreTypo = (text: string) => {
+      let typoScore = typoScores.get(text);
+      if (typoScore === undefined) {
+        typoScore = maxTypos > 0 ? getTypoScore(text, normalizedQuery, maxTypos) : 0;
+        typoScores.set(text, typoScore);
+      }
+      return typoScore;
+    };
+
+    const best: RankedCity[] = [];
+    const searchId = ++this.searchCount;
+    this.lastScoredCount = 0;
+    const scoreCity = (id: number) => {
+      if (this.lastScoredIn[id] === searchId) return;
+      this.lastScoredIn[id] = searchId;
+      this.lastScoredCount++;
+
+      const entry = this.entries[id];
+      const match = this.calculateMatchScore(entry, normalizedQuery, queryWords, options.matchIdentifier, scoreTypo);
+      const fits = best.length < options.limit || match.score >= best[best.length - 1].score;
+      if (match.score >= options.minScore && fits) {
+        this.insertRanked(best, { entry, city: entry.city, ...match }, options.limit);
+      }
+    };
+    const rank = (termIds: number[], wholeNamesOnly = false) => {
+      for (const termId of termIds) {
+        this.termNames[termId].forEach(scoreCity);
+        if (!wholeNamesOnly) {
+          this.termParts[termId].forEach(scoreCity);
+        }
+      }
+    };
+    // Later passes only find weaker matches, so stop once the list is full of better ones
+    const isSettled = (maxScore: number) =>
+      best.length === options.limit && best[best.length - 1].score > maxScore;
+
+    // Names and aliases starting with the query score 450 or more. Otherwise a
+    // name contains the query at best, scoring 250, plus 100 for the country
+    // and 75 for each word; a timezone identifier can start with it though
+    rank(this.findTermsStartingWith(normalizedQuery), true);
+    if (options.matchIdentifier || !isSettled(350 + 75 * searchWords.length)) {
+      texts.forEach(text => rank(this.findTermsStartingWith(text)));
+      texts.forEach(text => rank(this.findTermsContaining(text)));
+    }
+
+    if (maxTypos > 0 && !isSettled(MAX_TYPO_SCORE)) {
+      rank(this.findTermsWithTypos(normalizedQuery, maxTypos));
+    }
+
+    return best.map(({ city, score, matchedAlias }) => (matchedAlias ? { city, score, matchedAlias } : { city, score }));
+  }
+
+  /**
+   * Get how many cities the last search scored
+   * The work a search does grows with this rather than with the number of
+   * cities, so it shows how much of the index the search had to look at.
+   * @returns Number of cities scored
+   */
+  getLastScoredCount(): number {
+    return this.lastScoredCount;
+  }
+
+  /**
+   * Add a scored city to a list kept in rank order, dropping what falls past the limit
+   */
+  private insertRanked(best: RankedCity[], item: RankedCity, limit: number): void {
+    let index = best.length;
+    while (index > 0 && this.compareRank(item, best[index - 1]) < 0) {
+      index--;
+    }
+    if (index < limit) {
+      best.splice(index, 0, item);
+      best.length = Math.min(best.length, limit);
+    }
+  }
+
+  /**
+   * Order by score, then name, country, timezone and position in the list
+   */
+  private compareRank(a: RankedCity, b: RankedCity): number {
+    return b.score - a.score ||
+      compareText(a.entry.name, b.entry.name) ||
+      compareText(a.entry.country, b.entry.country) ||
+      compareText(a.entry.timezone, b.entry.timezone) ||
+      a.entry.order - b.entry.order;
+  }
+
+  /**
+   * Terms starting with a prefix are next to each other in sorted order
+   */
+  private findTermsStartingWith(prefix: string): number[] {
+    let low = 0;
+    let high = this.terms.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.terms[middle] < prefix) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const end = this.findEndOfPrefix(prefix, low);
+    return Array.from({ length: end - low }, (_, offset) => low + offset);
+  }
+
+  /**
+   * Find where the terms starting with a prefix end
+   * @param prefix - Start shared by the terms
+   * @param first - The first term starting with it
+   * @returns The first term after them
+   */
+  private findEndOfPrefix(prefix: string, first: number): number {
+    let low = first;
+    let high = this.terms.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.terms[middle].startsWith(prefix)) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Terms containing the text, found among the terms with its rarest trigram
+   */
+  private findTermsContaining(text: string): number[] {
+    if (text.length < TRIGRAM_LENGTH) {
+      return [];
+    }
+
+    let rarest: number[] | undefined;
+    for (const trigram of getTrigrams(text)) {
+      const termIds = this.trigramTerms.get(trigram) ?? [];
+      if (!rarest || termIds.length < rarest.length) {
+        rarest = termIds;
+      }
+    }
+    return (rarest ?? []).filter(termId => this.terms[termId].includes(text));
+  }
+
+  /**
+   * Names and aliases, or their words, a few typos away from the query or starting that close to it
+   * Walks the sorted terms as a trie: terms with the same start share the rows
+   * of the edit distance table for it, and every term under a start that is
+   * already too far from the query is skipped at once.
+   */
+  private findTermsWithTypos(query: string, maxTypos: number): number[] {
+    const found: number[] = [];
+    const add = (from: number, to: number) => {
+      for (let termId = from; termId < to && found.length < MAX_TYPO_CANDIDATES; termId++) {
+        if (this.spellingTerms[termId] === 1) {
+          found.push(termId);
+        }
+      }
+    };
+
+    const rows = [getFirstEditRow(query)];
+    let walked = ''; // the start of a term the rows are for
+    let termId = 0;
+    while (termId < this.terms.length && found.length < MAX_TYPO_CANDIDATES) {
+      const term = this.terms[termId];
+      let depth = 0;
+      while (depth < walked.length && term[depth] === walked[depth]) {
+        depth++;
+      }
+
+      let next = termId + 1;
+      let settled = false;
+      while (depth < term.length && !settled) {
+        rows[depth + 1] = getEditRow(rows, query, term, depth);
+        const row = rows[++depth];
+        if (Math.min(...row) > maxTypos) {
+          next = this.findEndOfPrefix(term.slice(0, depth), termId);
+          settled = true;
+        } else if (depth < term.length && Math.abs(depth - query.length) <= 1 && row[query.length] <= maxTypos) {
+          // The query stops partway through every term starting like this
+          next = this.findEndOfPrefix(term.slice(0, depth), termId);
+          add(termId, next);
+          settled = true;
+        }
+      }
+      if (!settled && rows[depth][query.length] <= maxTypos) {
+        add(termId, next);
+      }
+
+      walked = term.slice(0, depth);
+      termId = next;
+    }
+    return found;
+  }
+
+  /**
+   * Calculate a match score for a city based on the query
+   * Higher scores indicate better matches
+   */
+  private calculateMatchScore(
+    entry: IndexedCity,
+    normalizedQuery: string,
+    queryWords: string[],
+    matchIdentifier: boolean,
+    scoreTypo: (text: string) => number
+  ): { score: number; matchedAlias?: string } {
+    let score = 0;
+    let matchedAlias: string | undefined;
+
+    // Exact match gets highest score
+    if (entry.name === normalizedQuery) {
+      score += 1000;
+    }
+    // Starts with query gets high score
+    else if (entry.name.startsWith(normalizedQuery)) {
+      score += 500;
+    }
+    // Contains query gets medium score
+    else if (entry.name.includes(normalizedQuery)) {
+      score += 250;
+    }
+
+    // An alias counts instead of the name when it matches better, a little below the name itself;
+    // so does the timezone identifier when the query looks like one
+    const aliases = matchIdentifier
+      ? [...entry.aliases, { text: entry.timezone, alias: entry.city.timezone }]
+      : entry.aliases;
+    for (const { text, alias } of aliases) {
+      let aliasScore = 0;
+      if (text === normalizedQuery) {
+        aliasScore = 900;
+      } else if (text.startsWith(normalizedQuery)) {
+        aliasScore = 450;
+      } else if (text.includes(normalizedQuery)) {
+        aliasScore = 200;
+      }
+
+      if (aliasScore > score) {
+        score = aliasScore;
+        matchedAlias = alias;
+      }
+    }
+
+    // Check country match
+    if (entry.country === normalizedQuery) {
+      score += 100;
+    } else if (entry.country.startsWith(normalizedQuery)) {
+      score += 50;
+    } else if (entry.country.includes(normalizedQuery)) {
+      score += 25;
+    }
+
+    // Check individual word matches (for multi-word queries)
+    for (const word of queryWords) {
+      if (word.length < 2) continue; // Skip very short words
+
+      if (entry.name.includes(word)) {
+        score += 50;
+      }
+      if (entry.country.includes(word)) {
+        score += 25;
+      }
+    }
+
+    // Typo matching: the closest spelling of the name, an alias or one of their words
+    if (score === 0) {
+      for (const { text, alias } of entry.spellings) {
+        const typoScore = scoreTypo(text) - (alias === undefined ? 0 : 10);
+        if (typoScore > score) {
+          score = typoScore;
+          matchedAlias = alias;
+        }
+      }
+    }
+
+    return { score, matchedAlias };
+  }
+}
@@ -26,6 +26,23 @@ describe('TimeZoneConverter', () => {
     });
   });
 
+  describe('getSupportedTimezones', () => {
+    it('should list the IANA timezones the runtime knows', () => {
+      const timezones = converter.getSupportedTimezones();
+
+      expect(timezones).toContain('Pacific/Chatham');
+      expect(timezones).toContain('America/St_Johns');
+      expect(timezones.length).toBeGreaterThan(300);
+    });
+  });
+
+  describe('getSystemTimezone', () => {
+    it('should return the device timezone', () => {
+      expect(converter.getSystemTimezone()).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone);
+      expect(converter.isValidTimezone(converter.getSystemTimezone())).toBe(true);
+    });
+  });
+
   describe('convertToUTC', () => {
     it('should convert New York time to UTC correctly', () => {
       // January 15, 2024, 12:00 PM in New York (EST, UTC-5)
@@ -197,6 +214,60 @@ describe('TimeZoneConverter', () => {
     });
   });
 
+  describe('findOffsetTransitions', () => {
+    it('should find the start of DST in New York to the minute', () => {
+      const transitions = converter.findOffsetTransitions(
+        'America/New_York',
+        new Date('2024-03-01T00:00:00Z'),
+        new Date('2024-04-01T00:00:00Z')
+      );
+
+      expect(transitions).toEqual([
+        { at: new Date('2024-03-10T07:00:00Z'), offsetBefore: -300, offsetAfter: -240 }
+      ]);
+    });
+
+    it('should find both changes in a year', () => {
+      const transitions = converter.findOffsetTransitions(
+        'Europe/London',
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2025-01-01T00:00:00Z')
+      );
+
+      expect(transitions.map(transition => transition.at.toISOString())).toEqual([
+        '2024-03-31T01:00:00.000Z',
+        '2024-10-27T01:00:00.000Z'
+      ]);
+      expect(transitions[1]).toMatchObject({ offsetBefore: 60, offsetAfter: 0 });
+    });
+
+    it('should find a 30-minute change', () => {
+      const transitions = converter.findOffsetTransitions(
+        'Australia/Lord_Howe',
+        new Date('2024-03-20T00:00:00Z'),
+        new Date('2024-04-20T00:00:00Z')
+      );
+
+      expect(transitions).toHaveLength(1);
+      expect(transitions[0].offsetBefore - transitions[0].offsetAfter).toBe(30);
+    });
+
+    it('should return no transitions for zones without DST', () => {
+      const transitions = converter.findOffsetTransitions(
+        'Asia/Tokyo',
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2025-01-01T00:00:00Z')
+      );
+
+      expect(transitions).toEqual([]);
+    });
+
+    it('should throw error for invalid timezone', () => {
+      expect(() => converter.findOffsetTransitions('Invalid/Zone', new Date(), new Date()))
+        .toThrow('Invalid timezone identifier');
+    });
+  });
+
   describe('Error handling', () => {
     it('should throw error for invalid timezone in getCurrentTime', () => {
       expect(() => converter.getCurrentTime('Invalid/Timezone')).toThrow('Invalid timezone identifier');
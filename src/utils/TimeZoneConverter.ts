@@ -1,4 +1,8 @@
 import { DateTime } from 'luxon';
+import type { OffsetTransition } from '../types';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
 
 /**
  * TimeZoneConverter provides utilities for converting times between different time zones
@@ -24,6 +28,26 @@ export class TimeZoneConverter {
     }
   }
 
+  /**
+   * List every IANA timezone the browser knows
+   * Identifiers may be the older spellings ICU uses, e.g. "Asia/Calcutta" for "Asia/Kolkata"
+   * @returns Timezone identifiers, or an empty array when the browser cannot list them
+   */
+  getSupportedTimezones(): string[] {
+    if (typeof Intl.supportedValuesOf !== 'function') {
+      return [];
+    }
+    return Intl.supportedValuesOf('timeZone');
+  }
+
+  /**
+   * Get the timezone the device is set to
+   * @returns IANA timezone identifier, e.g. "Europe/London"
+   */
+  getSystemTimezone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
   /**
    * Get the current time in a specific timezone
    * @param timezone - IANA timezone identifier (e.g., "America/New_York")
@@ -130,4 +154,53 @@ export class TimeZoneConverter {
 
     return dt.offset;
   }
+
+  /**
+   * Find every change of UTC offset (such as the start or end of DST) in a period
+   * Offsets are sampled daily, then each change is narrowed down to the minute
+   * @param timezone - IANA timezone identifier
+   * @param start - Start of the period
+   * @param end - End of the period
+   * @returns Transitions in chronological order
+   * @throws Error if timezone is invalid
+   */
+  findOffsetTransitions(timezone: string, start: Date, end: Date): OffsetTransition[] {
+    if (!this.isValidTimezone(timezone)) {
+      throw new Error(`Invalid timezone identifier: ${timezone}`);
+    }
+
+    const offsetAt = (millis: number): number => DateTime.fromMillis(millis, { zone: timezone }).offset;
+    const transitions: OffsetTransition[] = [];
+    const endMillis = end.getTime();
+    let from = start.getTime();
+    let offset = offsetAt(from);
+
+    while (from < endMillis) {
+      const to = Math.min(from + MS_PER_DAY, endMillis);
+      const nextOffset = offsetAt(to);
+
+      if (nextOffset !== offset) {
+        // Offset at low is the old one and at high the new one
+        let low = from;
+        let high = to;
+        while (high - low > MS_PER_MINUTE) {
+          const middle = low + Math.floor((high - low) / 2);
+          if (offsetAt(middle) === offset) {
+            low = middle;
+          } else {
+            high = middle;
+          }
+        }
+
+        // Transitions happen on a whole minute
+        const at = Math.floor(high / MS_PER_MINUTE) * MS_PER_MINUTE;
+        transitions.push({ at: new Date(at), offsetBefore: offset, offsetAfter: nextOffset });
+      }
+
+      from = to;
+      offset = nextOffset;
+    }
+
+    return transitions;
+  }
 }
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import { parseBusyTimes } from './freebusy';
+import type { BusyTime } from '../types';
+
+describe('freebusy', () => {
+  const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+  const toIso = (busyTimes: BusyTime[]) =>
+    busyTimes.map(({ start, end }) => `${start.toISOString()}/${end.toISOString()}`);
+
+  const from = new Date('2024-01-01T00:00:00Z');
+
+  describe('parseBusyTimes', () => {
+    it('should read events in UTC, in a named timezone and floating', () => {
+      const text = calendar(
+        'BEGIN:VEVENT', 'UID:1', 'DTSTART:20240115T090000Z', 'DTEND:20240115T093000Z', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:2', 'DTSTART;TZID=America/New_York:20240115T090000', 'DURATION:PT1H', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:3', 'DTSTART:20240116T090000', 'DTEND:20240116T100000', 'END:VEVENT'
+      );
+
+      expect(toIso(parseBusyTimes(text, 'Europe/Paris', from).busyTimes)).toEqual([
+        '2024-01-15T09:00:00.000Z/2024-01-15T09:30:00.000Z',
+        '2024-01-15T14:00:00.000Z/2024-01-15T15:00:00.000Z',
+        '2024-01-16T08:00:00.000Z/2024-01-16T09:00:00.000Z'
+      ]);
+    });
+
+    it('should read free/busy periods and skip free ones', () => {
+      const text = calendar(
+        'BEGIN:VFREEBUSY',
+        'DTSTART:20240115T000000Z',
+        'DTEND:20240116T000000Z',
+        'FREEBUSY:20240115T090000Z/PT1H,20240115T130000Z/20240115T140000Z',
+        'FREEBUSY;FBTYPE=BUSY-TENTATIVE:20240115T150000Z/PT30M',
+        'FREEBUSY;FBTYPE=FREE:20240115T160000Z/PT1H',
+        'END:VFREEBUSY'
+      );
+
+      expect(toIso(parseBusyTimes(text, 'UTC', from).busyTimes)).toEqual([
+        '2024-01-15T09:00:00.000Z/2024-01-15T10:00:00.000Z',
+        '2024-01-15T13:00:00.000Z/2024-01-15T14:00:00.000Z',
+        '2024-01-15T15:00:00.000Z/2024-01-15T15:30:00.000Z'
+      ]);
+    });
+
+    it('should expand recurring events, skipping excluded and moved occurrences', () => {
+      const text = calendar(
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'DTSTART;TZID=Europe/London:20240115T100000',
+        'DTEND;TZID=Europe/London:20240115T101500',
+        'RRULE:FREQ=DAILY;COUNT=4',
+        'EXDATE;TZID=Europe/London:20240116T100000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'RECURRENCE-ID;TZID=Europe/London:20240117T100000',
+        'DTSTART;TZID=Europe/London:20240117T110000',
+        'DTEND;TZID=Europe/London:20240117T111500',
+        'END:VEVENT'
+      );
+
+      expect(toIso(parseBusyTimes(text, 'UTC', from).busyTimes)).toEqual([
+        '2024-01-15T10:00:00.000Z/2024-01-15T10:15:00.000Z',
+        '2024-01-17T11:00:00.000Z/2024-01-17T11:15:00.000Z',
+        '2024-01-18T10:00:00.000Z/2024-01-18T10:15:00.000Z'
+      ]);
+    });
+
+    it('should expand recurring events from the given date on', () => {
+      const text = calendar(
+        'BEGIN:VEVENT', 'UID:weekly', 'DTSTART:20200106T150000Z', 'DTEND:20200106T160000Z',
+        'RRULE:FREQ=WEEKLY', 'END:VEVENT'
+      );
+
+      const { busyTimes } = parseBusyTimes(text, 'UTC', from);
+      expect(busyTimes[0].start.toISOString()).toBe('2024-01-01T15:00:00.000Z');
+      expect(busyTimes).toHaveLength(53);
+    });
+
+    it('should ignore cancelled and free events, and make all-day events last the day', () => {
+      const text = calendar(
+        'BEGIN:VEVENT', 'UID:1', 'DTSTART:20240115T090000Z', 'DTEND:20240115T100000Z', 'STATUS:CANCELLED', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:2', 'DTSTART:20240115T110000Z', 'DTEND:20240115T120000Z', 'TRANSP:TRANSPARENT', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:3', 'DTSTART;VALUE=DATE:20240116', 'END:VEVENT'
+      );
+
+      expect(toIso(parseBusyTimes(text, 'Asia/Tokyo', from).busyTimes)).toEqual([
+        '2024-01-15T15:00:00.000Z/2024-01-16T15:00:00.000Z'
+      ]);
+    });
+
+    it('should merge overlapping busy times and ignore alarms', () => {
+      const text = calendar(
+        'BEGIN:VEVENT', 'UID:1', 'DTSTART:20240115T090000Z', 'DTEND:20240115T100000Z',
+        'BEGIN:VALARM', 'TRIGGER:-PT15M', 'DURATION:PT5M', 'END:VALARM', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:2', 'DTSTART:20240115T093000Z', 'DTEND:20240115T110000Z', 'END:VEVENT'
+      );
+
+      expect(toIso(parseBusyTimes(text, 'UTC', from).busyTimes)).toEqual([
+        '2024-01-15T09:00:00.000Z/2024-01-15T11:00:00.000Z'
+      ]);
+    });
+
+    it('should unfold long lines and accept prefixed timezone names', () => {
+      const text = calendar(
+        'BEGIN:VEVENT', 'UID:1',
+        'DTSTART;TZID="/mozilla.org/20050126_1/America/New_Yo',
+        ' rk":20240115T090000',
+        'DTEND;TZID="/mozilla.org/20050126_1/America/New_York":20240115T100000',
+        'END:VEVENT'
+      );
+
+      expect(toIso(parseBusyTimes(text, 'UTC', from).busyTimes)).toEqual([
+        '2024-01-15T14:00:00.000Z/2024-01-15T15:00:00.000Z'
+      ]);
+    });
+
+    it('should read Outlook timezone names and VTIMEZONE locations', () => {
+      const text = calendar(
+        'BEGIN:VTIMEZONE', 'TZID:Europe Custom', 'X-LIC-LOCATION:Europe/Berlin', 'END:VTIMEZONE',
+        'BEGIN:VEVENT', 'UID:1',
+        'DTSTART;TZID=Pacific Standard Time:20240115T090000',
+        'DTEND;TZID=Pacific Standard Time:20240115T100000',
+        'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:2', 'DTSTART;TZID="Europe Custom":20240116T090000', 'DURATION:PT1H', 'END:VEVENT'
+      );
+
+      expect(parseBusyTimes(text, 'UTC', from)).toEqual({
+        busyTimes: [
+          { start: new Date('2024-01-15T17:00:00Z'), end: new Date('2024-01-15T18:00:00Z') },
+          { start: new Date('2024-01-16T08:00:00Z'), end: new Date('2024-01-16T09:00:00Z') }
+        ],
+        warnings: []
+      });
+    });
+
+    it('should read unknown timezones in the default timezone, with a warning', () => {
+      const text = calendar('BEGIN:VEVENT', 'DTSTART;TZID=Mars/Olympus_Mons:20240115T090000', 'DURATION:PT1H', 'END:VEVENT');
+      const result = parseBusyTimes(text, 'Europe/Paris', from);
+
+      expect(toIso(result.busyTimes)).toEqual(['2024-01-15T08:00:00.000Z/2024-01-15T09:00:00.000Z']);
+      expect(result.warnings).toEqual(['Unknown timezone "Mars/Olympus_Mons": its times were read in Europe/Paris']);
+    });
+
+    it('should skip events it cannot read and keep the rest', () => {
+      const text = calendar(
+        'BEGIN:VEVENT', 'UID:1', 'SUMMARY:Hourly check', 'DTSTART:20240115T090000Z', 'DURATION:PT15M', 'RRULE:FREQ=HOURLY', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:2', 'DTSTART:tomorrow', 'END:VEVENT',
+        'BEGIN:VEVENT', 'UID:3', 'DTSTART:20240115T130000Z', 'DTEND:20240115T140000Z', 'END:VEVENT'
+      );
+      const result = parseBusyTimes(text, 'UTC', from);
+
+      expect(toIso(result.busyTimes)).toEqual(['2024-01-15T13:00:00.000Z/2024-01-15T14:00:00.000Z']);
+      expect(result.warnings).toEqual([
+        'Skipped "Hourly check": Unsupported RRULE frequency: HOURLY',
+        'Skipped event 2: Invalid date in calendar file: tomorrow'
+      ]);
+    });
+
+    it('should throw for files it cannot read', () => {
+      expect(() => parseBusyTimes('hello', 'UTC', from)).toThrow('Not an iCalendar file: BEGIN:VCALENDAR is missing');
+      expect(() => parseBusyTimes(calendar(
+        'BEGIN:VFREEBUSY', 'FREEBUSY:20240115T090000Z', 'END:VFREEBUSY'
+      ), 'UTC', from)).toThrow('Invalid free/busy period in calendar file: 20240115T090000Z');
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { DateTime, Duration } from 'luxon';
+import type { BusyTime, CalendarImport } from '../types';
+import { TimeZoneConverter } from './TimeZoneConverter';
+import { parseRRule, expandRRule } from './rrule';
+import windowsTimezonesData from '../data/windowsTimezones.json';
+
+/**
+ * IANA names for the Windows timezone names Outlook and Exchange use as TZIDs,
+ * e.g. "Pacific Standard Time" for America/Los_Angeles
+ */
+const WINDOWS_TIMEZONES = windowsTimezonesData as Record<string, string>;
+
+/**
+ * A content line of an iCalendar file, e.g. "DTSTART;TZID=Europe/London:20240117T090000"
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * The properties of a VEVENT needed to work out when it is busy
+ */
+interface CalendarEvent {
+  uid?: string;
+  summary?: string;
+  start?: ContentLine;
+  end?: ContentLine;
+  duration?: string;
+  rrule?: string;
+  exdates: ContentLine[];
+  recurrenceId?: ContentLine;
+  free: boolean; // cancelled or marked as free (TRANSP:TRANSPARENT)
+}
+
+/**
+ * What the values of a file are read with, and what went wrong along the way
+ */
+interface ImportContext {
+  defaultTimezone: string; // for floating times, and timezones that cannot be found
+  timezones: Map<string, string>; // IANA names for TZIDs, from the file's VTIMEZONE components
+  warnings: Set<string>;
+}
+
+const converter = new TimeZoneConverter();
+
+/**
+ * Join folded lines and split the file into content lines
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+}
+
+/**
+ * Split a content line into its name, parameters and value
+ * Parameter values may be quoted and contain ':' or ';'
+ */
+function parseContentLine(line: string): ContentLine {
+  const params: Record<string, string> = {};
+  let position = line.search(/[;:]/);
+  if (position === -1) {
+    return { name: line.trim().toUpperCase(), params, value: '' };
+  }
+
+  const name = line.slice(0, position).trim().toUpperCase();
+  while (line[position] === ';') {
+    const match = /^;([^=;:]+)=("[^"]*"|[^;:]*)/.exec(line.slice(position));
+    if (!match) {
+      break;
+    }
+    params[match[1].toUpperCase()] = match[2].replace(/^"|"$/g, '');
+    position += match[0].length;
+  }
+
+  return { name, params, value: line.slice(position + 1).trim() };
+}
+
+/**
+ * Find the IANA timezone for a TZID
+ * Exports often prefix the IANA name, e.g. "/mozilla.org/20050126_1/America/New_York",
+ * and Outlook uses Windows names such as "Pacific Standard Time". A TZID that
+ * cannot be found is read in the default timezone, with a warning.
+ */
+function resolveTimezone(tzid: string, context: ImportContext): string {
+  if (converter.isValidTimezone(tzid)) {
+    return tzid;
+  }
+
+  const location = context.timezones.get(tzid);
+  if (location) {
+    return location;
+  }
+
+  const windowsZone = WINDOWS_TIMEZONES[tzid.trim()];
+  if (windowsZone && converter.isValidTimezone(windowsZone)) {
+    return windowsZone;
+  }
+
+  const match = /([A-Za-z_-]+\/[A-Za-z_+-]+(?:\/[A-Za-z_-]+)?)$/.exec(tzid);
+  if (match && converter.isValidTimezone(match[1])) {
+    return match[1];
+  }
+
+  context.warnings.add(`Unknown timezone "${tzid}": its times were read in ${context.defaultTimezone}`);
+  return context.defaultTimezone;
+}
+
+/**
+ * Find the IANA names a file's VTIMEZONE components give for their TZIDs (X-LIC-LOCATION)
+ */
+function findTimezoneLocations(lines: ContentLine[]): Map<string, string> {
+  const locations = new Map<string, string>();
+  let tzid: string | undefined;
+  let inTimezone = false;
+
+  for (const line of lines) {
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VTIMEZONE') {
+      inTimezone = true;
+      tzid = undefined;
+    } else if (line.name === 'END' && line.value.toUpperCase() === 'VTIMEZONE') {
+      inTimezone = false;
+    } else if (inTimezone && line.name === 'TZID') {
+      tzid = line.value;
+    } else if (inTimezone && line.name === 'X-LIC-LOCATION' && tzid && converter.isValidTimezone(line.value)) {
+      locations.set(tzid, line.value);
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Parse a DATE or DATE-TIME value
+ * Floating times and dates are taken in the default timezone
+ */
+function parseDateValue(value: string, params: Record<string, string>, context: ImportContext): DateTime {
+  const zone = params.TZID ? resolveTimezone(params.TZID, context) : context.defaultTimezone;
+
+  const date = /^\d{8}$/.test(value)
+    ? DateTime.fromFormat(value, 'yyyyMMdd', { zone })
+    : /^\d{8}T\d{6}Z$/.test(value)
+      ? DateTime.fromFormat(value, "yyyyMMdd'T'HHmmss'Z'", { zone: 'utc' })
+      : DateTime.fromFormat(value, "yyyyMMdd'T'HHmmss", { zone });
+
+  if (!date.isValid) {
+    throw new Error(`Invalid date in calendar file: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Parse a DURATION value such as "PT1H30M" or "P1D"
+ */
+function parseDuration(value: string): Duration {
+  const duration = Duration.fromISO(value.replace(/^\+/, ''));
+  if (!duration.isValid) {
+    throw new Error(`Invalid duration in calendar file: ${value}`);
+  }
+  return duration;
+}
+
+/**
+ * Parse a FREEBUSY property, a list of periods given as start/end or start/duration
+ */
+function parseFreeBusy(line: ContentLine, context: ImportContext): BusyTime[] {
+  if ((line.params.FBTYPE ?? 'BUSY').toUpperCase() === 'FREE') {
+    return [];
+  }
+
+  return line.value.split(',').map(period => {
+    const [startValue, endValue] = period.split('/');
+    if (!startValue || !endValue) {
+      throw new Error(`Invalid free/busy period in calendar file: ${period}`);
+    }
+    const start = parseDateValue(startValue, line.params, context);
+    const end = /^[+-]?P/.test(endValue)
+      ? start.plus(parseDuration(endValue))
+      : parseDateValue(endValue, line.params, context);
+    return { start: start.toJSDate(), end: end.toJSDate() };
+  });
+}
+
+/**
+ * Name an event for a warning, by its summary or UID
+ */
+function describeEvent(event: CalendarEvent): string {
+  return event.summary ? `"${event.summary}"` : event.uid ? `event ${event.uid}` : 'an event';
+}
+
+/**
+ * Get the busy times of one event, expanding recurring events from a date on
+ * @param excluded - Start times (in milliseconds) of occurrences that were moved or cancelled
+ */
+function getEventBusyTimes(
+  event: CalendarEvent,
+  context: ImportContext,
+  from: DateTime,
+  excluded: Set<number>
+): BusyTime[] {
+  if (event.free || !event.start) {
+    return [];
+  }
+
+  const start = parseDateValue(event.start.value, event.start.params, context);
+  const allDay = event.start.params.VALUE === 'DATE' || /^\d{8}$/.test(event.start.value);
+
+  // Without an end, an all-day event lasts the day and any other event takes no time
+  const length = event.end
+    ? parseDateValue(event.end.value, event.end.params, context).diff(start)
+    : event.duration
+      ? parseDuration(event.duration)
+      : Duration.fromObject(allDay ? { days: 1 } : {});
+
+  const starts = event.rrule ? expandRRule(parseRRule(event.rrule), start, from) : [start];
+
+  for (const exdate of event.exdates) {
+    for (const value of exdate.value.split(',')) {
+      excluded.add(parseDateValue(value, exdate.params, context).toMillis());
+    }
+  }
+
+  return starts
+    .filter(occurrence => !excluded.has(occurrence.toMillis()))
+    .map(occurrence => ({ start: occurrence.toJSDate(), end: occurrence.plus(length).toJSDate() }))
+    .filter(busy => busy.end > busy.start);
+}
+
+/**
+ * Sort busy times and merge the ones that overlap or touch
+ */
+function mergeBusyTimes(busyTimes: BusyTime[]): BusyTime[] {
+  const sorted = [...busyTimes].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: BusyTime[] = [];
+
+  for (const busy of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && busy.start <= last.end) {
+      last.end = busy.end > last.end ? busy.end : last.end;
+    } else {
+      merged.push({ ...busy });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Read the busy times from an iCalendar file, parsed entirely in the browser
+ * Accepts calendar exports (VEVENT, including recurring events with RRULE,
+ * EXDATE and moved occurrences) and free/busy files (VFREEBUSY). Cancelled
+ * events and events marked as free are ignored. An event that cannot be read
+ * (e.g. an unsupported RRULE) is skipped, and a timezone that cannot be found
+ * is taken as the default timezone; both are reported as warnings.
+ * @param text - Contents of the .ics file
+ * @param defaultTimezone - Timezone for times without one, usually the participant's
+ * @param from - Recurring events are expanded from this date on, for one year (default: now)
+ * @returns Busy times in time order, with overlapping ones merged, and the warnings
+ * @throws Error if the file is not an iCalendar file or has an invalid free/busy period
+ */
+export function parseBusyTimes(text: string, defaultTimezone: string, from: Date = new Date()): CalendarImport {
+  const lines = unfoldLines(text).map(parseContentLine);
+  if (!lines.some(line => line.name === 'BEGIN' && line.value.toUpperCase() === 'VCALENDAR')) {
+    throw new Error('Not an iCalendar file: BEGIN:VCALENDAR is missing');
+  }
+
+  const context: ImportContext = { defaultTimezone, timezones: findTimezoneLocations(lines), warnings: new Set() };
+
+  const events: CalendarEvent[] = [];
+  const busyTimes: BusyTime[] = [];
+  const components: string[] = [];
+
+  for (const line of lines) {
+    if (line.name === 'BEGIN') {
+      components.push(line.value.toUpperCase());
+      if (line.value.toUpperCase() === 'VEVENT') {
+        events.push({ exdates: [], free: false });
+      }
+      continue;
+    }
+    if (line.name === 'END') {
+      components.pop();
+      continue;
+    }
+
+    const component = components[components.length - 1];
+    if (component === 'VFREEBUSY' && line.name === 'FREEBUSY') {
+      busyTimes.push(...parseFreeBusy(line, context));
+      continue;
+    }
+    if (component !== 'VEVENT') {
+      continue;
+    }
+
+    const event = events[events.length - 1];
+    switch (line.name) {
+      case 'UID':
+        event.uid = line.value;
+        break;
+      case 'SUMMARY':
+        event.summary = line.value;
+        break;
+      case 'DTSTART':
+        event.start = line;
+        break;
+      case 'DTEND':
+        event.end = line;
+        break;
+      case 'DURATION':
+        event.duration = line.value;
+        break;
+      case 'RRULE':
+        event.rrule = line.value;
+        break;
+      case 'EXDATE':
+        event.exdates.push(line);
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = line;
+        break;
+      case 'STATUS':
+        event.free ||= line.value.toUpperCase() === 'CANCELLED';
+        break;
+      case 'TRANSP':
+        event.free ||= line.value.toUpperCase() === 'TRANSPARENT';
+        break;
+    }
+  }
+
+  // One event that cannot be read is skipped rather than losing the rest of the calendar
+  const skipped = new Set<CalendarEvent>();
+  const skip = (event: CalendarEvent, err: unknown) => {
+    skipped.add(event);
+    context.warnings.add(`Skipped ${describeEvent(event)}: ${err instanceof Error ? err.message : String(err)}`);
+  };
+
+  // A moved or cancelled occurrence replaces that occurrence of its series
+  const excludedByUid = new Map<string, Set<number>>();
+  for (const event of events) {
+    if (event.uid && event.recurrenceId) {
+      try {
+        const excluded = excludedByUid.get(event.uid) ?? new Set<number>();
+        excluded.add(parseDateValue(event.recurrenceId.value, event.recurrenceId.params, context).toMillis());
+        excludedByUid.set(event.uid, excluded);
+      } catch (err) {
+        skip(event, err);
+      }
+    }
+  }
+
+  const fromDate = DateTime.fromJSDate(from);
+  for (const event of events.filter(candidate => !skipped.has(candidate))) {
+    const excluded = event.recurrenceId
+      ? new Set<number>()
+      : new Set(excludedByUid.get(event.uid ?? '') ?? []);
+    try {
+      busyTimes.push(...getEventBusyTimes(event, context, fromDate, excluded));
+    } catch (err) {
+      skip(event, err);
+    }
+  }
+
+  return { busyTimes: mergeBusyTimes(busyTimes), warnings: [...context.warnings] };
+}
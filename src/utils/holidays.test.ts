@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import type { City } from '../types';
+import { getEasterSunday, getPublicHolidays, findPublicHoliday, hasHolidayData, findMissingHolidayData } from './holidays';
+
+describe('holidays', () => {
+  const datesNamed = (country: string, region: string | undefined, year: number, name: string) =>
+    getPublicHolidays(country, region, year)
+      .filter(holiday => holiday.name === name)
+      .map(holiday => holiday.date);
+
+  describe('getEasterSunday', () => {
+    it('should calculate Western Easter', () => {
+      expect(getEasterSunday(2024).toISODate()).toBe('2024-03-31');
+      expect(getEasterSunday(2025).toISODate()).toBe('2025-04-20');
+      expect(getEasterSunday(2026).toISODate()).toBe('2026-04-05');
+    });
+  });
+
+  describe('getPublicHolidays', () => {
+    it('should resolve weekday and Easter-based rules', () => {
+      expect(datesNamed('United States', undefined, 2026, 'Thanksgiving Day')).toEqual(['2026-11-26']);
+      expect(datesNamed('United States', undefined, 2026, 'Memorial Day')).toEqual(['2026-05-25']);
+      expect(datesNamed('Canada', undefined, 2025, 'Victoria Day')).toEqual(['2025-05-19']);
+      expect(datesNamed('Germany', undefined, 2026, 'Whit Monday')).toEqual(['2026-05-25']);
+    });
+
+    it('should expand multi-day holidays', () => {
+      expect(datesNamed('China', undefined, 2025, 'Spring Festival')).toHaveLength(8);
+    });
+
+    it('should add regional holidays to the national ones', () => {
+      expect(datesNamed('Germany', 'Bavaria', 2026, 'Epiphany')).toEqual(['2026-01-06']);
+      expect(datesNamed('Germany', 'Berlin', 2026, 'Epiphany')).toEqual([]);
+      expect(datesNamed('Germany', 'Berlin', 2026, 'German Unity Day')).toEqual(['2026-10-03']);
+    });
+
+    it('should make up weekend holidays on the following working days', () => {
+      // Christmas 2027 is a Saturday and Boxing Day a Sunday
+      const substitutes = getPublicHolidays('United Kingdom', 'England', 2027)
+        .filter(holiday => holiday.name.endsWith('(substitute day)'));
+
+      expect(substitutes.map(holiday => holiday.date)).toEqual(['2027-12-27', '2027-12-28']);
+    });
+
+    it('should move US federal holidays to the nearest weekday', () => {
+      expect(datesNamed('United States', undefined, 2026, 'Independence Day (substitute day)')).toEqual(['2026-07-03']);
+      // New Year's Day 2028 is a Saturday, observed on Friday, December 31, 2027
+      expect(datesNamed('United States', undefined, 2027, "New Year's Day (substitute day)")).toEqual(['2027-12-31']);
+    });
+
+    it('should only substitute Sunday holidays in Japan', () => {
+      // Greenery Day 2025 is a Sunday; May 5 is already Children's Day
+      expect(datesNamed('Japan', undefined, 2025, 'Greenery Day (substitute day)')).toEqual(['2025-05-06']);
+    });
+
+    it('should return no holidays for countries without data', () => {
+      expect(getPublicHolidays('Test Country', undefined, 2025)).toEqual([]);
+    });
+
+    it('should return a copy of the cached holidays', () => {
+      const holidays = getPublicHolidays('Germany', 'Bavaria', 2026);
+      holidays.length = 0;
+
+      expect(getPublicHolidays('Germany', 'Bavaria', 2026).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('findPublicHoliday', () => {
+    const mumbai: City = { name: 'Mumbai', country: 'India', region: 'Maharashtra', timezone: 'Asia/Kolkata' };
+
+    it('should find the holiday on a local date', () => {
+      expect(findPublicHoliday(mumbai, DateTime.fromISO('2025-10-20', { zone: 'Asia/Kolkata' }))).toEqual({
+        date: '2025-10-20',
+        name: 'Diwali'
+      });
+      expect(findPublicHoliday(mumbai, DateTime.fromISO('2025-05-01', { zone: 'Asia/Kolkata' }))?.name).toBe('Maharashtra Day');
+    });
+
+    it('should return null on an ordinary day', () => {
+      expect(findPublicHoliday(mumbai, DateTime.fromISO('2025-10-21', { zone: 'Asia/Kolkata' }))).toBeNull();
+    });
+  });
+
+  describe('holiday data coverage', () => {
+    it('should cover every year for countries with only rule-based holidays', () => {
+      expect(hasHolidayData('Germany', 2040)).toBe(true);
+      expect(hasHolidayData('Test Country', 2040)).toBe(true);
+    });
+
+    it('should only cover the years dated holidays are listed for', () => {
+      expect(hasHolidayData('India', 2026)).toBe(true);
+      expect(hasHolidayData('India', 2027)).toBe(false);
+      expect(hasHolidayData('Japan', 2027)).toBe(true);
+    });
+
+    it('should list each country missing data once', () => {
+      const cities: City[] = [
+        { name: 'Mumbai', country: 'India', timezone: 'Asia/Kolkata' },
+        { name: 'Berlin', country: 'Germany', timezone: 'Europe/Berlin' },
+        { name: 'Delhi', country: 'India', timezone: 'Asia/Kolkata' },
+        { name: 'Shanghai', country: 'China', timezone: 'Asia/Shanghai' }
+      ];
+
+      expect(findMissingHolidayData(cities, 2027)).toEqual(['India', 'China']);
+      expect(findMissingHolidayData(cities, 2025)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { DateTime } from 'luxon';
+import type { City, PublicHoliday, Weekday } from '../types';
+import holidaysData from '../data/holidays.json';
+import { getWeekendDays } from './schedule';
+
+/**
+ * A holiday rule from the dataset. Exactly one way of finding the date is used:
+ * - date (and optionally until): a one-off holiday, or run of days, in a specific year
+ * - month and day: the same date every year
+ * - month, weekday and nth: the nth weekday of the month (-1 for the last)
+ * - month, weekday and onOrBefore: the last such weekday on or before a day of the month
+ * - easterOffset: days from Western Easter Sunday
+ */
+interface HolidayRule {
+  name: string;
+  date?: string;
+  until?: string;
+  month?: number;
+  day?: number;
+  weekday?: number;
+  nth?: number;
+  onOrBefore?: number;
+  easterOffset?: number;
+}
+
+/**
+ * How a holiday falling on the weekend is made up
+ * - following-weekday: the next working day that is not already a holiday
+ * - nearest-weekday: Saturday moves to Friday, Sunday to Monday
+ * - next-day-if-sunday: Sunday moves to the next day that is not already a holiday
+ */
+type SubstituteRule = 'following-weekday' | 'nearest-weekday' | 'next-day-if-sunday';
+
+interface CountryHolidays {
+  datedYears?: { from: number; to: number }; // years the one-off (date) holidays are listed for
+  substitute?: SubstituteRule;
+  holidays: HolidayRule[];
+  regions?: Record<string, HolidayRule[]>;
+}
+
+const HOLIDAYS = holidaysData as Record<string, CountryHolidays>;
+
+/**
+ * Holidays already worked out, by country, region and year
+ * Overlap checks look up the same few calendars for every participant and day.
+ */
+const holidayCache = new Map<string, PublicHoliday[]>();
+
+/**
+ * Get Western Easter Sunday for a year (anonymous Gregorian algorithm)
+ */
+export function getEasterSunday(year: number): DateTime {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return DateTime.utc(year, month, day);
+}
+
+/**
+ * Get the dates a rule falls on in a year
+ */
+function getRuleDates(rule: HolidayRule, year: number): DateTime[] {
+  if (rule.date) {
+    const start = DateTime.fromISO(rule.date, { zone: 'utc' });
+    const end = rule.until ? DateTime.fromISO(rule.until, { zone: 'utc' }) : start;
+    const dates: DateTime[] = [];
+    for (let day = start; day <= end; day = day.plus({ days: 1 })) {
+      if (day.year === year) {
+        dates.push(day);
+      }
+    }
+    return dates;
+  }
+
+  if (rule.easterOffset !== undefined) {
+    return [getEasterSunday(year).plus({ days: rule.easterOffset })];
+  }
+
+  if (rule.month === undefined) {
+    return [];
+  }
+
+  if (rule.day !== undefined) {
+    return [DateTime.utc(year, rule.month, rule.day)];
+  }
+
+  if (rule.weekday !== undefined && rule.onOrBefore !== undefined) {
+    const limit = DateTime.utc(year, rule.month, rule.onOrBefore);
+    return [limit.minus({ days: (limit.weekday - rule.weekday + 7) % 7 })];
+  }
+
+  if (rule.weekday !== undefined && rule.nth !== undefined) {
+    if (rule.nth < 0) {
+      const last = DateTime.utc(year, rule.month, 1).endOf('month').startOf('day');
+      return [last.minus({ days: (last.weekday - rule.weekday + 7) % 7 })];
+    }
+    const first = DateTime.utc(year, rule.month, 1);
+    return [first.plus({ days: (rule.weekday - first.weekday + 7) % 7 + (rule.nth - 1) * 7 })];
+  }
+
+  return [];
+}
+
+/**
+ * Add substitute days for holidays that fall on the weekend
+ * Holidays must be sorted by date
+ */
+function addSubstitutes(
+  holidays: PublicHoliday[],
+  rule: SubstituteRule,
+  weekend: Weekday[]
+): PublicHoliday[] {
+  const taken = new Set(holidays.map(holiday => holiday.date));
+  const substitutes: PublicHoliday[] = [];
+  const isFree = (day: DateTime) => !weekend.includes(day.weekday as Weekday) && !taken.has(day.toISODate()!);
+
+  for (const holiday of holidays) {
+    const day = DateTime.fromISO(holiday.date, { zone: 'utc' });
+    let substitute: DateTime | null = null;
+
+    if (rule === 'nearest-weekday' && weekend.includes(day.weekday as Weekday)) {
+      substitute = day.weekday === 6 ? day.minus({ days: 1 }) : day.plus({ days: 1 });
+    } else if (rule === 'following-weekday' && weekend.includes(day.weekday as Weekday)) {
+      substitute = day.plus({ days: 1 });
+      while (!isFree(substitute)) {
+        substitute = substitute.plus({ days: 1 });
+      }
+    } else if (rule === 'next-day-if-sunday' && day.weekday === 7) {
+      substitute = day.plus({ days: 1 });
+      while (taken.has(substitute.toISODate()!)) {
+        substitute = substitute.plus({ days: 1 });
+      }
+    }
+
+    if (substitute && !taken.has(substitute.toISODate()!)) {
+      taken.add(substitute.toISODate()!);
+      substitutes.push({ date: substitute.toISODate()!, name: `${holiday.name} (substitute day)` });
+    }
+  }
+
+  return [...holidays, ...substitutes].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Get the public holidays for a country, and optionally a region, in a year
+ * Regional holidays are added to the national ones. Weekend holidays are
+ * made up on a working day where the country does so.
+ * @param country - Country name as used in the city data
+ * @param region - State or province with extra holidays
+ * @param year - Calendar year
+ * @returns Holidays sorted by date, or an empty list for countries without data
+ */
+export function getPublicHolidays(country: string, region: string | undefined, year: number): PublicHoliday[] {
+  const key = `${country}|${region ?? ''}|${year}`;
+  let holidays = holidayCache.get(key);
+  if (!holidays) {
+    holidays = calculatePublicHolidays(country, region, year);
+    holidayCache.set(key, holidays);
+  }
+  return [...holidays];
+}
+
+/**
+ * Work out the public holidays for a country and region in a year
+ */
+function calculatePublicHolidays(country: string, region: string | undefined, year: number): PublicHoliday[] {
+  const calendar = HOLIDAYS[country];
+  if (!calendar) {
+    return [];
+  }
+
+  const rules = [...calendar.holidays, ...(region ? calendar.regions?.[region] ?? [] : [])];
+
+  // Compute neighbouring years too, so substitutes can cross New Year
+  const holidays = new Map<string, PublicHoliday>();
+  for (const ruleYear of [year - 1, year, year + 1]) {
+    for (const rule of rules) {
+      for (const date of getRuleDates(rule, ruleYear)) {
+        const isoDate = date.toISODate()!;
+        if (!holidays.has(isoDate)) {
+          holidays.set(isoDate, { date: isoDate, name: rule.name });
+        }
+      }
+    }
+  }
+
+  const sorted = [...holidays.values()].sort((a, b) => a.date.localeCompare(b.date));
+  const withSubstitutes = calendar.substitute
+    ? addSubstitutes(sorted, calendar.substitute, getWeekendDays(country))
+    : sorted;
+
+  return withSubstitutes.filter(holiday => holiday.date.startsWith(`${year}-`));
+}
+
+/**
+ * Find the public holiday on a local date in a city, if any
+ * @param city - City whose country and region select the calendar
+ * @param date - Local date in the city's timezone
+ * @returns The holiday, or null on an ordinary day
+ */
+export function findPublicHoliday(city: City, date: DateTime): PublicHoliday | null {
+  const isoDate = date.toISODate();
+  return getPublicHolidays(city.country, city.region, date.year)
+    .find(holiday => holiday.date === isoDate) ?? null;
+}
+
+/**
+ * Check whether the holiday data for a country covers a year
+ * Lunar and other irregular holidays are listed by date for a few years only;
+ * outside those years they would silently stop blocking days.
+ * @param country - Country name as used in the city data
+ * @param year - Calendar year
+ * @returns false when the country has dated holidays but none are listed for the year
+ */
+export function hasHolidayData(country: string, year: number): boolean {
+  const datedYears = HOLIDAYS[country]?.datedYears;
+  return !datedYears || (year >= datedYears.from && year <= datedYears.to);
+}
+
+/**
+ * Find the countries whose holiday data does not cover a year
+ * @param cities - Cities whose countries to check
+ * @param year - Calendar year
+ * @returns Country names, each once, in the order of the cities
+ */
+export function findMissingHolidayData(cities: City[], year: number): string[] {
+  return [...new Set(cities.map(city => city.country))].filter(country => !hasHolidayData(country, year));
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import { createMeetingEvent, createTimezoneComponent, getMeetingFileName } from './icalendar';
+import type { City, MeetingSuggestion, Participant } from '../types';
+
+describe('icalendar', () => {
+  const newYork: City = { name: 'New York', country: 'United States', timezone: 'America/New_York' };
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const tokyo: City = { name: 'Tokyo', country: 'Japan', timezone: 'Asia/Tokyo' };
+
+  const participants: Participant[] = [{ city: newYork }, { city: london }];
+
+  const createSuggestion = (iso: string, durationMinutes = 60): MeetingSuggestion => {
+    const start = DateTime.fromISO(iso, { zone: newYork.timezone });
+    return {
+      localTimes: [start, start.setZone(london.timezone)],
+      quality: 'Perfect Time',
+      durationMinutes
+    };
+  };
+
+  const stamp = new Date('2024-01-10T08:00:00Z');
+
+  describe('createMeetingEvent', () => {
+    it('should write the event in the organizer\'s timezone', () => {
+      const ics = createMeetingEvent(createSuggestion('2024-01-17T10:00', 90), participants, stamp);
+      const lines = ics.split('\r\n');
+
+      expect(lines[0]).toBe('BEGIN:VCALENDAR');
+      expect(lines).toContain('VERSION:2.0');
+      expect(lines).toContain('DTSTART;TZID=America/New_York:20240117T100000');
+      expect(lines).toContain('DTEND;TZID=America/New_York:20240117T113000');
+      expect(lines).toContain('DTSTAMP:20240110T080000Z');
+      expect(lines).toContain('SUMMARY:Meeting: New York\\, London');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should describe the time in every participant\'s city', () => {
+      const ics = createMeetingEvent(createSuggestion('2024-01-17T10:00'), participants, stamp);
+      const unfolded = ics.replace(/\r\n /g, '');
+
+      expect(unfolded).toContain(
+        'DESCRIPTION:Wednesday\\, Jan 17\\, 10:00 AM in New York\\nWednesday\\, Jan 17\\, 03:00 PM in London'
+      );
+    });
+
+    it('should give the same slot the same UID', () => {
+      const first = createMeetingEvent(createSuggestion('2024-01-17T10:00'), participants, stamp);
+      const second = createMeetingEvent(createSuggestion('2024-01-17T10:00'), participants, new Date());
+      const uid = (ics: string) => ics.split('\r\n').find(line => line.startsWith('UID:'));
+
+      expect(uid(first)).toBe('UID:20240117T150000Z-America-New-York-Europe-London@timezone-overlap-finder');
+      expect(uid(second)).toBe(uid(first));
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const manyCities: Participant[] = Array.from({ length: 8 }, () => ({ city: london }));
+      const start = DateTime.fromISO('2024-01-17T10:00', { zone: london.timezone });
+      const ics = createMeetingEvent(
+        { localTimes: manyCities.map(() => start), quality: 'Perfect Time', durationMinutes: 30 },
+        manyCities,
+        stamp
+      );
+
+      const lines = ics.split('\r\n');
+      expect(lines.some(line => line.startsWith(' '))).toBe(true);
+      for (const line of lines) {
+        expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      }
+    });
+
+    it('should throw without participants', () => {
+      expect(() => createMeetingEvent({ localTimes: [], quality: 'Perfect Time', durationMinutes: 30 }, [], stamp))
+        .toThrow('A meeting needs at least one participant');
+    });
+  });
+
+  describe('createTimezoneComponent', () => {
+    it('should list the clock changes around the meeting', () => {
+      const lines = createTimezoneComponent('America/New_York', DateTime.fromISO('2024-01-17T10:00:00Z'));
+      const text = lines.join('\n');
+
+      expect(lines[0]).toBe('BEGIN:VTIMEZONE');
+      expect(lines).toContain('TZID:America/New_York');
+      // Spring forward at 2 AM EST and fall back at 2 AM EDT
+      expect(text).toContain('BEGIN:DAYLIGHT\nDTSTART:20240310T020000\nTZOFFSETFROM:-0500\nTZOFFSETTO:-0400');
+      expect(text).toContain('BEGIN:STANDARD\nDTSTART:20241103T020000\nTZOFFSETFROM:-0400\nTZOFFSETTO:-0500');
+      expect(lines.filter(line => line === 'BEGIN:DAYLIGHT')).toHaveLength(2);
+      expect(lines.filter(line => line === 'BEGIN:STANDARD')).toHaveLength(2);
+    });
+
+    it('should describe a zone without clock changes with one STANDARD component', () => {
+      const lines = createTimezoneComponent(tokyo.timezone, DateTime.fromISO('2024-01-17T10:00:00Z'));
+
+      expect(lines.filter(line => line.startsWith('BEGIN:'))).toEqual(['BEGIN:VTIMEZONE', 'BEGIN:STANDARD']);
+      expect(lines).toContain('TZOFFSETFROM:+0900');
+      expect(lines).toContain('TZOFFSETTO:+0900');
+    });
+
+    it('should throw for an invalid timezone', () => {
+      expect(() => createTimezoneComponent('Invalid/Zone', DateTime.fromISO('2024-01-17T10:00:00Z')))
+        .toThrow('Invalid timezone identifier: Invalid/Zone');
+    });
+  });
+
+  describe('getMeetingFileName', () => {
+    it('should name the file after the organizer\'s local start time', () => {
+      expect(getMeetingFileName(createSuggestion('2024-01-17T10:00'))).toBe('meeting-2024-01-17-1000.ics');
+    });
+  });
+});
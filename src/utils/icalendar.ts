@@ -0,0 +1,181 @@
+import { DateTime } from 'luxon';
+import type { MeetingSuggestion, OffsetTransition, Participant } from '../types';
+import { TimeZoneConverter } from './TimeZoneConverter';
+import { getParticipantName, getParticipantTimezone } from './participants';
+
+const PRODUCT_ID = '-//Time Zone Overlap Finder//EN';
+const LOCAL_FORMAT = "yyyyMMdd'T'HHmmss";
+const UTC_FORMAT = "yyyyMMdd'T'HHmmss'Z'";
+
+// Lines longer than this many octets are folded (RFC 5545 section 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// Clock changes this far either side of the meeting are listed in the VTIMEZONE
+const TIMEZONE_RANGE = { years: 1 };
+
+/**
+ * Escape a TEXT value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, continued with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+
+  for (const character of line) {
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + character).length > limit) {
+      lines.push(current);
+      current = character;
+    } else {
+      current += character;
+    }
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+}
+
+/**
+ * Format a UTC offset in minutes as ±HHMM
+ */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+  return `${sign}${hours}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Build the STANDARD or DAYLIGHT component for one clock change
+ */
+function formatTransition(transition: OffsetTransition, timezone: string): string[] {
+  const after = DateTime.fromJSDate(transition.at, { zone: timezone });
+  const kind = after.isInDST ? 'DAYLIGHT' : 'STANDARD';
+
+  // DTSTART is the wall-clock time the change happens at, before it happens
+  const localStart = DateTime.fromJSDate(transition.at, { zone: 'utc' }).plus({ minutes: transition.offsetBefore });
+
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${localStart.toFormat(LOCAL_FORMAT)}`,
+    `TZOFFSETFROM:${formatOffset(transition.offsetBefore)}`,
+    `TZOFFSETTO:${formatOffset(transition.offsetAfter)}`,
+    `TZNAME:${escapeText(after.offsetNameShort ?? formatOffset(transition.offsetAfter))}`,
+    `END:${kind}`
+  ];
+}
+
+/**
+ * Build a VTIMEZONE component describing a timezone around a date
+ * Every clock change from a year before to a year after the date is listed;
+ * zones without clock changes get a single STANDARD component
+ * @param timezone - IANA timezone identifier
+ * @param around - The date the component must cover
+ * @returns The component's content lines
+ * @throws Error if the timezone is invalid
+ */
+export function createTimezoneComponent(timezone: string, around: DateTime): string[] {
+  const transitions = new TimeZoneConverter().findOffsetTransitions(
+    timezone,
+    around.minus(TIMEZONE_RANGE).toJSDate(),
+    around.plus(TIMEZONE_RANGE).toJSDate()
+  );
+
+  if (transitions.length === 0) {
+    const local = around.setZone(timezone);
+    const offset = formatOffset(local.offset);
+    return [
+      'BEGIN:VTIMEZONE',
+      `TZID:${timezone}`,
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `TZNAME:${escapeText(local.offsetNameShort ?? offset)}`,
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ];
+  }
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timezone}`,
+    ...transitions.flatMap(transition => formatTransition(transition, timezone)),
+    'END:VTIMEZONE'
+  ];
+}
+
+/**
+ * Create an iCalendar (.ics) file for a meeting suggestion
+ * The event is written in the organizer's (City A's) timezone with a
+ * matching VTIMEZONE, so calendars show it at the right time everywhere.
+ * @param suggestion - The chosen slot
+ * @param participants - Participants the suggestion was generated for, in the same order
+ * @param stamp - When the file is created (default: now)
+ * @returns The file contents, with CRLF line endings
+ * @throws Error if there are no participants or the organizer's timezone is invalid
+ */
+export function createMeetingEvent(
+  suggestion: MeetingSuggestion,
+  participants: Participant[],
+  stamp: Date = new Date()
+): string {
+  if (participants.length === 0 || suggestion.localTimes.length === 0) {
+    throw new Error('A meeting needs at least one participant');
+  }
+
+  const timezone = getParticipantTimezone(participants[0]);
+  const start = suggestion.localTimes[0].setZone(timezone);
+  const end = start.plus({ minutes: suggestion.durationMinutes });
+  const names = participants.map(getParticipantName);
+
+  // The same slot for the same cities always gets the same UID, so importing it again updates the event
+  const uid = `${start.toUTC().toFormat(UTC_FORMAT)}-${participants
+    .map(participant => getParticipantTimezone(participant).replace(/[^A-Za-z0-9]+/g, '-'))
+    .join('-')}@timezone-overlap-finder`;
+
+  const description = suggestion.localTimes
+    .map((time, index) => `${time.toFormat('cccc, LLL d, hh:mm a')} in ${names[index]}`)
+    .join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...createTimezoneComponent(timezone, start),
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${DateTime.fromJSDate(stamp, { zone: 'utc' }).toFormat(UTC_FORMAT)}`,
+    `DTSTART;TZID=${timezone}:${start.toFormat(LOCAL_FORMAT)}`,
+    `DTEND;TZID=${timezone}:${end.toFormat(LOCAL_FORMAT)}`,
+    `SUMMARY:${escapeText(`Meeting: ${names.join(', ')}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Get a file name for a meeting's .ics file, e.g. "meeting-2024-01-17-1000.ics"
+ * @param suggestion - The chosen slot
+ * @returns The file name, using the organizer's local time
+ */
+export function getMeetingFileName(suggestion: MeetingSuggestion): string {
+  return `meeting-${suggestion.localTimes[0].toFormat('yyyy-MM-dd-HHmm')}.ics`;
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getParticipantName, getParticipantTimezone } from './participants';
+import type { City } from '../types';
+
+describe('participants', () => {
+  const bangalore: City = { name: 'Bangalore', country: 'India', timezone: 'Asia/Kolkata' };
+
+  describe('getParticipantName', () => {
+    it('should show a named participant with their city', () => {
+      expect(getParticipantName({ name: 'Priya', city: bangalore })).toBe('Priya (Bangalore)');
+    });
+
+    it('should fall back to the city without a name', () => {
+      expect(getParticipantName({ city: bangalore })).toBe('Bangalore');
+      expect(getParticipantName({ name: '  ', city: bangalore })).toBe('Bangalore');
+      expect(getParticipantName({ name: 'bangalore', city: bangalore })).toBe('Bangalore');
+    });
+  });
+
+  describe('getParticipantTimezone', () => {
+    it('should use the city timezone unless the participant has their own', () => {
+      expect(getParticipantTimezone({ city: bangalore })).toBe('Asia/Kolkata');
+      expect(getParticipantTimezone({ city: bangalore, timezone: 'Europe/London' })).toBe('Europe/London');
+    });
+  });
+});
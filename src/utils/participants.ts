@@ -0,0 +1,19 @@
+import type { Participant } from '../types';
+
+/**
+ * Get the timezone a participant keeps, which is their city's unless set
+ */
+export function getParticipantTimezone(participant: Participant): string {
+  return participant.timezone ?? participant.city.timezone;
+}
+
+/**
+ * Get the name a participant is shown by, e.g. "Priya (Bangalore)"
+ * Participants without a name, or named after their city, are shown by their city.
+ */
+export function getParticipantName(participant: Participant): string {
+  const name = participant.name?.trim();
+  return name && name.toLowerCase() !== participant.city.name.toLowerCase()
+    ? `${name} (${participant.city.name})`
+    : participant.city.name;
+}
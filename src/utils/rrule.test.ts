@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import { parseRRule, expandRRule } from './rrule';
+
+describe('rrule', () => {
+  describe('parseRRule', () => {
+    it('should parse a weekly rule with days and a count', () => {
+      expect(parseRRule('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10')).toEqual({
+        freq: 'WEEKLY',
+        interval: 1,
+        count: 10,
+        byDay: [{ weekday: 1 }, { weekday: 3 }]
+      });
+    });
+
+    it('should parse ordinal weekdays, month days, months and an interval', () => {
+      expect(parseRRule('FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR,+2TU')).toEqual({
+        freq: 'MONTHLY',
+        interval: 2,
+        byDay: [{ weekday: 5, nth: -1 }, { weekday: 2, nth: 2 }]
+      });
+      expect(parseRRule('freq=yearly;bymonth=3,10;bymonthday=-1')).toMatchObject({
+        freq: 'YEARLY',
+        byMonth: [3, 10],
+        byMonthDay: [-1]
+      });
+    });
+
+    it('should parse UNTIL as a UTC date-time or an inclusive date', () => {
+      expect(parseRRule('FREQ=DAILY;UNTIL=20240301T170000Z').until?.toISOString()).toBe('2024-03-01T17:00:00.000Z');
+      expect(parseRRule('FREQ=DAILY;UNTIL=20240301').until?.toISOString()).toBe('2024-03-01T23:59:59.999Z');
+    });
+
+    it('should reject invalid and unsupported rules', () => {
+      expect(() => parseRRule('')).toThrow('Invalid RRULE: the rule is empty');
+      expect(() => parseRRule('BYDAY=MO')).toThrow('Invalid RRULE: FREQ is required');
+      expect(() => parseRRule('FREQ=HOURLY')).toThrow('Unsupported RRULE frequency: HOURLY');
+      expect(() => parseRRule('FREQ=MONTHLY;BYSETPOS=-1')).toThrow('Unsupported RRULE part: BYSETPOS');
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('Invalid RRULE BYDAY: XX');
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow('needs FREQ=MONTHLY or FREQ=YEARLY');
+      expect(() => parseRRule('FREQ=DAILY;COUNT=5;UNTIL=20240301')).toThrow('COUNT and UNTIL cannot both be set');
+      expect(() => parseRRule('FREQ=DAILY;INTERVAL=0')).toThrow('Invalid RRULE INTERVAL: 0');
+    });
+  });
+
+  describe('expandRRule', () => {
+    // Monday Jan 15, 2024 at 9 AM in New York
+    const start = DateTime.fromObject({ year: 2024, month: 1, day: 15, hour: 9 }, { zone: 'America/New_York' });
+    const dates = (times: DateTime[]) => times.map(time => time.toISODate());
+
+    it('should keep the local time across a clock change', () => {
+      const times = expandRRule(parseRRule('FREQ=WEEKLY;COUNT=10'), start);
+
+      expect(times).toHaveLength(10);
+      expect(times.every(time => time.hour === 9 && time.zoneName === 'America/New_York')).toBe(true);
+      // 9 AM is 14:00 UTC in winter and 13:00 UTC after DST starts on Mar 10
+      expect(times[0].toUTC().hour).toBe(14);
+      expect(times[9].toUTC().hour).toBe(13);
+    });
+
+    it('should expand weekdays within each week', () => {
+      const times = expandRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=4'), start);
+
+      expect(dates(times)).toEqual(['2024-01-15', '2024-01-18', '2024-01-29', '2024-02-01']);
+    });
+
+    it('should skip days before the first occurrence', () => {
+      const wednesday = start.set({ day: 17 });
+      const times = expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,FR;COUNT=3'), wednesday);
+
+      expect(dates(times)).toEqual(['2024-01-19', '2024-01-22', '2024-01-26']);
+    });
+
+    it('should expand ordinal weekdays and month days', () => {
+      expect(dates(expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3'), start)))
+        .toEqual(['2024-01-26', '2024-02-23', '2024-03-29']);
+      expect(dates(expandRRule(parseRRule('FREQ=MONTHLY;BYMONTHDAY=31;COUNT=3'), start)))
+        .toEqual(['2024-01-31', '2024-03-31', '2024-05-31']);
+      expect(dates(expandRRule(parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1;COUNT=2'), start)))
+        .toEqual(['2024-02-29', '2025-02-28']);
+    });
+
+    it('should filter daily rules by weekday', () => {
+      expect(dates(expandRRule(parseRRule('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;COUNT=6'), start)))
+        .toEqual(['2024-01-15', '2024-01-16', '2024-01-17', '2024-01-18', '2024-01-19', '2024-01-22']);
+    });
+
+    it('should stop at UNTIL', () => {
+      const times = expandRRule(parseRRule('FREQ=DAILY;UNTIL=20240117T140000Z'), start);
+
+      expect(dates(times)).toEqual(['2024-01-15', '2024-01-16', '2024-01-17']);
+    });
+
+    it('should expand open-ended rules for one year', () => {
+      const times = expandRRule(parseRRule('FREQ=WEEKLY'), start);
+
+      expect(times).toHaveLength(53);
+      expect(times[times.length - 1].toISODate()).toBe('2025-01-13');
+    });
+
+    it('should only return occurrences from a later date, counting earlier ones', () => {
+      const from = DateTime.fromISO('2026-03-01', { zone: 'Europe/London' });
+
+      const open = expandRRule(parseRRule('FREQ=DAILY'), start, from);
+      expect(open[0].toISODate()).toBe('2026-03-01');
+      expect(open).toHaveLength(365);
+
+      const counted = expandRRule(parseRRule('FREQ=WEEKLY;COUNT=4'), start, start.plus({ days: 14 }));
+      expect(dates(counted)).toEqual(['2024-01-29', '2024-02-05']);
+    });
+
+    it('should stop looking when a rule never matches', () => {
+      expect(expandRRule(parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30;COUNT=2'), start)).toEqual([]);
+    });
+  });
+});
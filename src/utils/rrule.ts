@@ -0,0 +1,272 @@
+import { DateTime } from 'luxon';
+import type { RecurrenceFrequency, RecurrenceRule, Weekday } from '../types';
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const WEEKDAY_CODES: Record<string, Weekday> = {
+  MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6, SU: 7
+};
+
+// WKST only changes weekly rules with an interval and BYDAY; weeks start on Monday here
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'];
+
+/**
+ * How far rules without COUNT or UNTIL are expanded
+ */
+export const OPEN_ENDED_HORIZON = { years: 1 };
+
+/**
+ * Most occurrences a rule is expanded to
+ */
+export const MAX_OCCURRENCES = 500;
+
+// Rules that never match stop looking after this long
+const SEARCH_LIMIT = { years: 10 };
+
+/**
+ * Parse a whole number within a range
+ */
+function parseInteger(value: string, part: string, min: number, max: number): number {
+  const number = Number(value);
+  if (!/^[+-]?\d+$/.test(value) || number < min || number > max) {
+    throw new Error(`Invalid RRULE ${part}: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Parse an UNTIL value, either a UTC date-time or a date (inclusive)
+ */
+function parseUntil(value: string): Date {
+  const dateTime = DateTime.fromFormat(value, "yyyyMMdd'T'HHmmss'Z'", { zone: 'utc' });
+  if (dateTime.isValid) {
+    return dateTime.toJSDate();
+  }
+
+  const date = DateTime.fromFormat(value, 'yyyyMMdd', { zone: 'utc' });
+  if (date.isValid) {
+    return date.endOf('day').toJSDate();
+  }
+
+  throw new Error(`Invalid RRULE UNTIL: ${value}`);
+}
+
+/**
+ * Parse an RFC 5545 recurrence rule
+ * Supports FREQ (DAILY, WEEKLY, MONTHLY or YEARLY), INTERVAL, COUNT, UNTIL,
+ * BYDAY, BYMONTHDAY and BYMONTH; a leading "RRULE:" is optional
+ * @param text - The rule, e.g. "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10"
+ * @returns The parsed rule
+ * @throws Error if the rule is invalid or uses an unsupported part
+ */
+export function parseRRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (body === '') {
+    throw new Error('Invalid RRULE: the rule is empty');
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || !value) {
+      throw new Error(`Invalid RRULE part: ${part}`);
+    }
+    const name = key.trim().toUpperCase();
+    if (!SUPPORTED_PARTS.includes(name)) {
+      throw new Error(`Unsupported RRULE part: ${name}`);
+    }
+    parts.set(name, value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (!freq) {
+    throw new Error('Invalid RRULE: FREQ is required');
+  }
+  if (!FREQUENCIES.includes(freq as RecurrenceFrequency)) {
+    throw new Error(`Unsupported RRULE frequency: ${freq}`);
+  }
+
+  const rule: RecurrenceRule = {
+    freq: freq as RecurrenceFrequency,
+    interval: parts.has('INTERVAL') ? parseInteger(parts.get('INTERVAL')!, 'INTERVAL', 1, 1000) : 1
+  };
+
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new Error('Invalid RRULE: COUNT and UNTIL cannot both be set');
+  }
+  if (parts.has('COUNT')) {
+    rule.count = parseInteger(parts.get('COUNT')!, 'COUNT', 1, MAX_OCCURRENCES);
+  }
+  if (parts.has('UNTIL')) {
+    rule.until = parseUntil(parts.get('UNTIL')!);
+  }
+
+  if (parts.has('BYDAY')) {
+    rule.byDay = parts.get('BYDAY')!.split(',').map(value => {
+      const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value);
+      if (!match) {
+        throw new Error(`Invalid RRULE BYDAY: ${value}`);
+      }
+      if (!match[1]) {
+        return { weekday: WEEKDAY_CODES[match[2]] };
+      }
+      if (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') {
+        throw new Error(`Invalid RRULE BYDAY: ${value} needs FREQ=MONTHLY or FREQ=YEARLY`);
+      }
+      const nth = parseInteger(match[1], 'BYDAY', -5, 5);
+      if (nth === 0) {
+        throw new Error(`Invalid RRULE BYDAY: ${value}`);
+      }
+      return { weekday: WEEKDAY_CODES[match[2]], nth };
+    });
+  }
+
+  if (parts.has('BYMONTHDAY')) {
+    rule.byMonthDay = parts.get('BYMONTHDAY')!.split(',').map(value => {
+      const day = parseInteger(value, 'BYMONTHDAY', -31, 31);
+      if (day === 0) {
+        throw new Error(`Invalid RRULE BYMONTHDAY: ${value}`);
+      }
+      return day;
+    });
+  }
+
+  if (parts.has('BYMONTH')) {
+    rule.byMonth = parts.get('BYMONTH')!.split(',').map(value => parseInteger(value, 'BYMONTH', 1, 12));
+  }
+
+  if (rule.freq === 'YEARLY' && rule.byDay && !rule.byMonth) {
+    throw new Error('Unsupported RRULE: BYDAY with FREQ=YEARLY needs BYMONTH');
+  }
+
+  return rule;
+}
+
+/**
+ * Get the days of a month that match the rule's BYMONTHDAY and BYDAY
+ * Without either, the day of the month of the first occurrence is used
+ */
+function getMonthDays(monthStart: DateTime, rule: RecurrenceRule, start: DateTime): DateTime[] {
+  const daysInMonth = monthStart.daysInMonth ?? 31;
+  const allDays = Array.from({ length: daysInMonth }, (_, index) => monthStart.plus({ days: index }));
+
+  if (rule.byMonthDay) {
+    const days = rule.byMonthDay
+      .map(day => (day > 0 ? day : daysInMonth + 1 + day))
+      .filter(day => day >= 1 && day <= daysInMonth)
+      .map(day => allDays[day - 1]);
+    return rule.byDay
+      ? days.filter(day => rule.byDay!.some(({ weekday }) => weekday === day.weekday))
+      : days;
+  }
+
+  if (rule.byDay) {
+    return rule.byDay.flatMap(({ weekday, nth }) => {
+      const matching = allDays.filter(day => day.weekday === weekday);
+      if (nth === undefined) {
+        return matching;
+      }
+      const day = nth > 0 ? matching[nth - 1] : matching[matching.length + nth];
+      return day ? [day] : [];
+    });
+  }
+
+  return start.day <= daysInMonth ? [allDays[start.day - 1]] : [];
+}
+
+/**
+ * Get the first day of one period of the rule (a day, week, month or year)
+ */
+function getPeriodStart(rule: RecurrenceRule, start: DateTime, period: number): DateTime {
+  const steps = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return start.startOf('day').plus({ days: steps });
+    case 'WEEKLY':
+      return start.startOf('week').plus({ weeks: steps });
+    case 'MONTHLY':
+      return start.startOf('month').plus({ months: steps });
+    case 'YEARLY':
+      return start.startOf('year').plus({ years: steps });
+  }
+}
+
+/**
+ * Get the candidate days of one period of the rule
+ */
+function getPeriodDays(rule: RecurrenceRule, start: DateTime, periodStart: DateTime): DateTime[] {
+  switch (rule.freq) {
+    case 'DAILY': {
+      const matchesWeekday = !rule.byDay || rule.byDay.some(({ weekday }) => weekday === periodStart.weekday);
+      const matchesMonthDay = !rule.byMonthDay ||
+        getMonthDays(periodStart.startOf('month'), { ...rule, byDay: undefined }, start)
+          .some(day => day.day === periodStart.day);
+      return matchesWeekday && matchesMonthDay ? [periodStart] : [];
+    }
+    case 'WEEKLY': {
+      const weekdays = rule.byDay ? rule.byDay.map(({ weekday }) => weekday) : [start.weekday];
+      return weekdays.map(weekday => periodStart.plus({ days: weekday - 1 }));
+    }
+    case 'MONTHLY':
+      return getMonthDays(periodStart, rule, start);
+    case 'YEARLY':
+      return (rule.byMonth ?? [start.month]).flatMap(month => {
+        const monthStart = periodStart.set({ month });
+        return rule.byMonthDay || rule.byDay
+          ? getMonthDays(monthStart, rule, start)
+          : getMonthDays(monthStart, { ...rule, byMonthDay: [start.day] }, start);
+      });
+  }
+}
+
+/**
+ * Expand a recurrence rule into its occurrences
+ * Every occurrence keeps the wall-clock time of the first one in its
+ * timezone, so the time in UTC moves when the clocks change.
+ * Rules without COUNT or UNTIL are expanded for one year.
+ * @param rule - The parsed rule
+ * @param start - The first occurrence (DTSTART), in the timezone the series is created in
+ * @param from - Only return occurrences from this time on; earlier ones still count towards COUNT,
+ * and open-ended rules are expanded for one year after it (default: the first occurrence)
+ * @returns Occurrences in chronological order, at most 500
+ */
+export function expandRRule(rule: RecurrenceRule, start: DateTime, from: DateTime = start): DateTime[] {
+  const openEnded = rule.count === undefined && rule.until === undefined;
+  const until = rule.until ? DateTime.fromJSDate(rule.until) : null;
+  const searchFrom = from > start ? from : start;
+  const searchEnd = searchFrom.plus(openEnded ? OPEN_ENDED_HORIZON : SEARCH_LIMIT);
+  const maxCount = rule.count ?? Infinity;
+  const occurrences: DateTime[] = [];
+  let count = 0;
+
+  for (let period = 0; ; period++) {
+    // Periods only move forward, so one starting past the end stops the search
+    const periodStart = getPeriodStart(rule, start, period);
+    if (periodStart > searchEnd || (until && periodStart > until)) {
+      return occurrences;
+    }
+
+    const times = getPeriodDays(rule, start, periodStart)
+      .filter(day => !rule.byMonth || rule.byMonth.includes(day.month))
+      .map(day => day.set({ hour: start.hour, minute: start.minute, second: start.second, millisecond: 0 }))
+      .sort((a, b) => a.toMillis() - b.toMillis())
+      .filter((time, index, sorted) => index === 0 || time.toMillis() !== sorted[index - 1].toMillis());
+
+    for (const time of times) {
+      if (time < start) {
+        continue;
+      }
+      if ((until && time > until) || (openEnded && time > searchEnd)) {
+        return occurrences;
+      }
+      count++;
+      if (time >= searchFrom) {
+        occurrences.push(time);
+      }
+      if (count >= maxCount || occurrences.length >= MAX_OCCURRENCES) {
+        return occurrences;
+      }
+    }
+  }
+}
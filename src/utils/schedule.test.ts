@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { City, Participant } from '../types';
+import { getWeekendDays, getDaysOff, getNonWorkingDayKind, getHoursForWeekday } from './schedule';
+
+describe('schedule', () => {
+  const london: City = { name: 'London', country: 'United Kingdom', timezone: 'Europe/London' };
+  const telAviv: City = { name: 'Tel Aviv', country: 'Israel', timezone: 'Asia/Jerusalem' };
+  const fallback = { start: 9, end: 18 };
+
+  describe('getWeekendDays', () => {
+    it('should default to Saturday and Sunday', () => {
+      expect(getWeekendDays('United Kingdom')).toEqual([6, 7]);
+      expect(getWeekendDays('Unknown Country')).toEqual([6, 7]);
+    });
+
+    it('should use country-specific weekends', () => {
+      expect(getWeekendDays('Israel')).toEqual([5, 6]);
+      expect(getWeekendDays('Saudi Arabia')).toEqual([5, 6]);
+    });
+  });
+
+  describe('getDaysOff and getNonWorkingDayKind', () => {
+    it('should use the country weekend when the schedule has no days off', () => {
+      const participant: Participant = { city: telAviv };
+
+      expect(getDaysOff(participant)).toEqual([5, 6]);
+      expect(getNonWorkingDayKind(participant, 5)).toBe('weekend');
+      expect(getNonWorkingDayKind(participant, 7)).toBeNull();
+    });
+
+    it('should let the schedule replace the country weekend', () => {
+      const participant: Participant = { city: london, schedule: { daysOff: [1, 7] } };
+
+      expect(getNonWorkingDayKind(participant, 1)).toBe('day-off');
+      expect(getNonWorkingDayKind(participant, 6)).toBeNull();
+    });
+  });
+
+  describe('getHoursForWeekday', () => {
+    it('should prefer per-weekday hours over the participant\'s hours', () => {
+      const participant: Participant = {
+        city: london,
+        workingHours: { start: 8, end: 16 },
+        schedule: { hours: { 5: { start: 9, end: 13 } } }
+      };
+
+      expect(getHoursForWeekday(participant, 5, fallback)).toEqual({ start: 9, end: 13 });
+      expect(getHoursForWeekday(participant, 4, fallback)).toEqual({ start: 8, end: 16 });
+    });
+
+    it('should fall back to the given hours and return null on days off', () => {
+      const participant: Participant = { city: london };
+
+      expect(getHoursForWeekday(participant, 2, fallback)).toBe(fallback);
+      expect(getHoursForWeekday(participant, 6, fallback)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import type { Participant, Weekday, WorkingHours, NonWorkingDay } from '../types';
+import weekendsData from '../data/weekends.json';
+
+const DEFAULT_WEEKEND = weekendsData.default as Weekday[];
+const COUNTRY_WEEKENDS = weekendsData.countries as Record<string, Weekday[]>;
+
+/**
+ * Full weekday names indexed by ISO weekday (Monday = 1)
+ */
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  1: 'Monday',
+  2: 'Tuesday',
+  3: 'Wednesday',
+  4: 'Thursday',
+  5: 'Friday',
+  6: 'Saturday',
+  7: 'Sunday'
+};
+
+/**
+ * Get the default weekend for a country
+ * Countries without a rule use Saturday and Sunday
+ */
+export function getWeekendDays(country: string): Weekday[] {
+  return COUNTRY_WEEKENDS[country] ?? DEFAULT_WEEKEND;
+}
+
+/**
+ * Get the weekdays a participant does not work, from their schedule or their country's weekend
+ */
+export function getDaysOff(participant: Participant): Weekday[] {
+  return participant.schedule?.daysOff ?? getWeekendDays(participant.city.country);
+}
+
+/**
+ * Explain why a weekday is a non-working day for a participant
+ * @returns 'day-off' for the participant's own schedule, 'weekend' for the country default, or null on a working day
+ */
+export function getNonWorkingDayKind(participant: Participant, weekday: Weekday): NonWorkingDay['kind'] | null {
+  if (!getDaysOff(participant).includes(weekday)) {
+    return null;
+  }
+  return participant.schedule?.daysOff ? 'day-off' : 'weekend';
+}
+
+/**
+ * Get a participant's working hours for a weekday
+ * @param fallback - Hours used when the participant has none of their own
+ * @returns The hours for the weekday, or null on a non-working day
+ */
+export function getHoursForWeekday(
+  participant: Participant,
+  weekday: Weekday,
+  fallback: WorkingHours
+): WorkingHours | null {
+  if (getNonWorkingDayKind(participant, weekday)) {
+    return null;
+  }
+  return participant.schedule?.hours?.[weekday] ?? participant.workingHours ?? fallback;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { encodeScenario, decodeScenario } from './shareUrl';
+import { CityDatabase } from './CityDatabase';
+import type { SharedScenario } from '../types';
+
+describe('shareUrl', () => {
+  const cityDatabase = new CityDatabase();
+  const london = cityDatabase.getCityByName('London')!;
+  const tokyo = cityDatabase.getCityByName('Tokyo')!;
+
+  const scenario: SharedScenario = {
+    participants: [
+      { city: london, timezone: 'America/New_York', workingHours: { start: 8, end: 17, startMinute: 30, breaks: [{ start: 12, end: 13 }] } },
+      {
+        name: 'Kenji',
+        city: tokyo,
+        workingHours: { start: 9, end: 18 },
+        schedule: { daysOff: [6, 7] },
+        preferences: { meetingHours: { start: 10, end: 12 } }
+      },
+      { city: null, workingHours: { start: 9, end: 18 } }
+    ],
+    customHoursEnabled: true,
+    selectedDate: new Date(2024, 0, 17),
+    meetingDurationMinutes: 60,
+    slotStep: 15
+  };
+
+  describe('encodeScenario', () => {
+    it('should encode every participant and setting', () => {
+      const params = new URLSearchParams(encodeScenario(scenario));
+
+      expect(params.get('c0')).toBe('London');
+      expect(params.get('h0')).toBe('08:30-17:00');
+      expect(params.get('b0')).toBe('12:00-13:00');
+      expect(params.get('z0')).toBe('America/New_York');
+      expect(params.get('c1')).toBe('Tokyo');
+      expect(params.get('n1')).toBe('Kenji');
+      expect(params.has('h1')).toBe(false);
+      expect(params.get('o1')).toBe('6,7');
+      expect(params.get('m1')).toBe('10:00-12:00');
+      expect(params.get('c2')).toBe('');
+      expect(params.get('custom')).toBe('1');
+      expect(params.get('date')).toBe('2024-01-17');
+      expect(params.get('len')).toBe('60');
+      expect(params.get('step')).toBe('15');
+    });
+
+    it('should leave out hours while custom hours are off', () => {
+      const query = encodeScenario({ ...scenario, customHoursEnabled: false });
+
+      expect(query).not.toMatch(/[hbozm]\d=|custom/);
+      expect(query).toContain('n1=Kenji');
+    });
+  });
+
+  describe('decodeScenario', () => {
+    it('should restore an encoded scenario', () => {
+      const { scenario: restored, problems } = decodeScenario(encodeScenario(scenario), 10, cityDatabase);
+
+      expect(problems).toEqual([]);
+      expect(restored).toEqual(scenario);
+    });
+
+    it('should tell a timezone location from a city with the same alias', () => {
+      // "Saigon" is both an alias of Ho Chi Minh City and the Asia/Saigon location
+      const database = new CityDatabase(
+        [{ name: 'Ho Chi Minh City', aliases: ['Saigon'], country: 'Vietnam', timezone: 'Asia/Bangkok' }],
+        ['Asia/Saigon']
+      );
+      const hoChiMinhCity = database.getAllCities()[0];
+      const hours = { start: 9, end: 18 };
+      const saigon = database.getCityByName('Asia/Saigon')!;
+      expect(saigon).toMatchObject({ name: 'Saigon', timezone: 'Asia/Saigon' });
+
+      const query = encodeScenario({
+        participants: [
+          { city: saigon, workingHours: hours },
+          { city: hoChiMinhCity, workingHours: hours }
+        ],
+        customHoursEnabled: false
+      });
+      expect(new URLSearchParams(query).get('c0')).toBe('Asia/Saigon');
+
+      const { scenario } = decodeScenario(query, 10, database);
+      expect(scenario?.participants.map(participant => participant.city)).toEqual([saigon, hoChiMinhCity]);
+    });
+
+    it('should return no scenario for a URL without one', () => {
+      expect(decodeScenario('', 10, cityDatabase)).toEqual({ scenario: null, problems: [] });
+    });
+
+    it('should fill in missing participants and default hours', () => {
+      const { scenario: restored } = decodeScenario('?c1=Tokyo', 10, cityDatabase);
+
+      expect(restored?.participants).toEqual([
+        { city: null, workingHours: { start: 9, end: 18 } },
+        { city: tokyo, workingHours: { start: 9, end: 18 } }
+      ]);
+      expect(restored?.customHoursEnabled).toBe(false);
+    });
+
+    it('should switch custom hours on when the link has custom hours', () => {
+      const { scenario: restored } = decodeScenario('c0=London&h0=07:00-15:00&c1=Tokyo', 10, cityDatabase);
+
+      expect(restored?.customHoursEnabled).toBe(true);
+      expect(restored?.participants[0].workingHours).toEqual({ start: 7, end: 15 });
+    });
+
+    it('should skip what it cannot use and describe it', () => {
+      const { scenario: restored, problems } = decodeScenario(
+        'c0=Atlantis&h0=25:00-18:00&z0=Mars/Base&c1=Tokyo&b1=20:00-21:00&o1=8&m1=14:00-10:00&date=soon&len=50&step=45&theme=dark&c12=Paris',
+        10,
+        cityDatabase
+      );
+
+      expect(restored?.participants.map(participant => participant.city)).toEqual([null, tokyo]);
+      expect(restored?.participants[1].workingHours).toEqual({ start: 9, end: 18 });
+      expect(restored?.selectedDate).toBeUndefined();
+      expect(problems).toEqual([
+        'Ignored unknown link parameter "theme"',
+        'Ignored City M: at most 10 cities can be compared',
+        'Unknown city "Atlantis" for City A',
+        'Ignored invalid working hours "25:00-18:00" for City A',
+        'Ignored unknown timezone "Mars/Base" for City A',
+        'Ignored invalid breaks "20:00-21:00" for City B',
+        'Ignored invalid days off "8" for City B',
+        'Ignored invalid meeting hours "14:00-10:00" for City B',
+        'Ignored invalid date "soon"',
+        'Ignored invalid meeting length "50"',
+        'Ignored invalid suggestion step "45"'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { DateTime } from 'luxon';
+import type { City, ParticipantInput, SharedScenario, SharedScenarioResult, SlotStep, TimeOfDayRange, Weekday, WorkingHours } from '../types';
+import { CityDatabase } from './CityDatabase';
+import { TimeZoneConverter } from './TimeZoneConverter';
+import { getStartMinutes, getEndMinutes, areBreaksValid, fromMinutes, haveSameHours, MINUTES_PER_DAY } from './workingHours';
+import { DEFAULT_WORKING_HOURS } from '../calculators/OverlapCalculator';
+import { SLOT_STEPS, MEETING_DURATIONS } from '../calculators/MeetingSuggester';
+
+/**
+ * Per-participant parameters, followed by the participant's index:
+ * c0=London (city, or the IANA timezone of a place that is only a timezone,
+ * e.g. c0=Asia/Saigon, as its name may also be another city's alias), n0=Priya (display name), h0=09:00-18:00 (working hours),
+ * b0=12:00-13:00,15:00-16:00 (breaks), o0=6,7 (days off, ISO weekdays),
+ * z0=America/New_York (timezone kept), m0=10:00-12:00 (preferred meeting hours)
+ */
+const PARTICIPANT_PARAM = /^([cnhbozm])(\d+)$/;
+
+/**
+ * Participants are labelled "City A", "City B", ... in notices
+ */
+const getParticipantLabel = (index: number): string => `City ${String.fromCharCode(65 + index)}`;
+
+/**
+ * Identify a city in a link: timezone locations, which have no country,
+ * by their timezone so they are not taken for a city of the same name
+ */
+const getCityParam = (city: City): string => (city.country ? city.name : city.timezone);
+
+/**
+ * Format minutes since midnight as HH:mm; the end of the day is 24:00
+ */
+function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Format a range as HH:mm-HH:mm
+ */
+function formatRange(range: TimeOfDayRange): string {
+  return `${formatTime(getStartMinutes(range))}-${formatTime(getEndMinutes(range))}`;
+}
+
+/**
+ * Parse HH:mm-HH:mm, returning null if it is not a valid range
+ */
+function parseRange(value: string): TimeOfDayRange | null {
+  const match = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number);
+  const start = startHour * 60 + startMinute;
+  const end = endHour * 60 + endMinute;
+  if (startMinute > 59 || endMinute > 59 || start >= MINUTES_PER_DAY || end > MINUTES_PER_DAY || start === end) {
+    return null;
+  }
+
+  return fromMinutes(start, end);
+}
+
+/**
+ * Encode a scenario as URL query parameters
+ * Only settings that differ from the defaults are included, and busy times
+ * are left out so nobody's calendar ends up in a link.
+ * @param scenario - Participants and settings to share
+ * @returns The query string, without a leading "?"
+ */
+export function encodeScenario(scenario: SharedScenario): string {
+  const params = new URLSearchParams();
+
+  scenario.participants.forEach((participant, index) => {
+    params.set(`c${index}`, participant.city ? getCityParam(participant.city) : '');
+    if (participant.name?.trim()) {
+      params.set(`n${index}`, participant.name.trim());
+    }
+
+    if (!scenario.customHoursEnabled) {
+      return;
+    }
+    // Breaks have their own parameter, so only the start and end are compared
+    if (!haveSameHours({ ...participant.workingHours, breaks: undefined }, DEFAULT_WORKING_HOURS)) {
+      params.set(`h${index}`, formatRange(participant.workingHours));
+    }
+    if (participant.workingHours.breaks?.length) {
+      params.set(`b${index}`, participant.workingHours.breaks.map(formatRange).join(','));
+    }
+    if (participant.schedule?.daysOff) {
+      params.set(`o${index}`, participant.schedule.daysOff.join(','));
+    }
+    if (participant.timezone) {
+      params.set(`z${index}`, participant.timezone);
+    }
+    if (participant.preferences?.meetingHours) {
+      params.set(`m${index}`, formatRange(participant.preferences.meetingHours));
+    }
+  });
+
+  if (scenario.customHoursEnabled) {
+    params.set('custom', '1');
+  }
+  if (scenario.selectedDate) {
+    params.set('date', DateTime.fromJSDate(scenario.selectedDate).toISODate() ?? '');
+  }
+  if (scenario.meetingDurationMinutes !== undefined) {
+    params.set('len', String(scenario.meetingDurationMinutes));
+  }
+  if (scenario.slotStep !== undefined) {
+    params.set('step', String(scenario.slotStep));
+  }
+
+  return params.toString();
+}
+
+/**
+ * Decode a scenario from URL query parameters
+ * Anything that cannot be used (an unknown city, invalid hours, an unknown
+ * parameter) is skipped and described in the problems, so a broken link
+ * still opens with everything else restored.
+ * @param query - The query string, with or without a leading "?"
+ * @param maxParticipants - Most participants to restore (default: 10)
+ * @param cityDatabase - Cities to look names up in
+ * @returns The scenario, or null when the query has no scenario, and the problems found
+ */
+export function decodeScenario(
+  query: string,
+  maxParticipants: number = 10,
+  cityDatabase: CityDatabase = new CityDatabase()
+): SharedScenarioResult {
+  const params = new URLSearchParams(query);
+  const converter = new TimeZoneConverter();
+  const problems: string[] = [];
+  const byParticipant = new Map<number, Map<string, string>>();
+  let hasScenario = false;
+
+  for (const [key, value] of params) {
+    const match = PARTICIPANT_PARAM.exec(key);
+    if (match) {
+      const index = Number(match[2]);
+      if (index >= maxParticipants) {
+        problems.push(`Ignored ${getParticipantLabel(index)}: at most ${maxParticipants} cities can be compared`);
+        continue;
+      }
+      const fields = byParticipant.get(index) ?? new Map<string, string>();
+      fields.set(match[1], value);
+      byParticipant.set(index, fields);
+      hasScenario = true;
+    } else if (['custom', 'date', 'len', 'step'].includes(key)) {
+      hasScenario = true;
+    } else {
+      problems.push(`Ignored unknown link parameter "${key}"`);
+    }
+  }
+
+  if (!hasScenario) {
+    return { scenario: null, problems };
+  }
+
+  const count = Math.max(2, ...[...byParticipant.keys()].map(index => index + 1));
+  let customHoursEnabled = params.get('custom') === '1';
+
+  const participants = Array.from({ length: count }, (_, index): ParticipantInput => {
+    const fields = byParticipant.get(index) ?? new Map<string, string>();
+    const label = getParticipantLabel(index);
+    const participant: ParticipantInput = { city: null, workingHours: DEFAULT_WORKING_HOURS };
+
+    const cityName = fields.get('c');
+    if (cityName) {
+      participant.city = cityDatabase.getCityByName(cityName);
+      if (!participant.city) {
+        problems.push(`Unknown city "${cityName}" for ${label}`);
+      }
+    }
+
+    const name = fields.get('n')?.trim();
+    if (name) {
+      participant.name = name;
+    }
+
+    let workingHours: WorkingHours = DEFAULT_WORKING_HOURS;
+    const hoursValue = fields.get('h');
+    if (hoursValue !== undefined) {
+      const range = parseRange(hoursValue);
+      if (range) {
+        workingHours = range;
+      } else {
+        problems.push(`Ignored invalid working hours "${hoursValue}" for ${label}`);
+      }
+    }
+
+    const breaksValue = fields.get('b');
+    if (breaksValue !== undefined) {
+      const breaks = breaksValue.split(',').map(parseRange);
+      const withBreaks = { ...workingHours, breaks: breaks as TimeOfDayRange[] };
+      if (breaks.every(Boolean) && areBreaksValid(withBreaks)) {
+        workingHours = withBreaks;
+      } else {
+        problems.push(`Ignored invalid breaks "${breaksValue}" for ${label}`);
+      }
+    }
+    participant.workingHours = workingHours;
+
+    const daysOffValue = fields.get('o');
+    if (daysOffValue !== undefined) {
+      const daysOff = daysOffValue === '' ? [] : daysOffValue.split(',').map(Number);
+      if (daysOff.every(day => Number.isInteger(day) && day >= 1 && day <= 7)) {
+        participant.schedule = { daysOff: [...new Set(daysOff)].sort((a, b) => a - b) as Weekday[] };
+      } else {
+        problems.push(`Ignored invalid days off "${daysOffValue}" for ${label}`);
+      }
+    }
+
+    const timezoneValue = fields.get('z');
+    if (timezoneValue !== undefined) {
+      if (converter.isValidTimezone(timezoneValue)) {
+        participant.timezone = timezoneValue;
+      } else {
+        problems.push(`Ignored unknown timezone "${timezoneValue}" for ${label}`);
+      }
+    }
+
+    const meetingHoursValue = fields.get('m');
+    if (meetingHoursValue !== undefined) {
+      const range = parseRange(meetingHoursValue);
+      if (range && getStartMinutes(range) < getEndMinutes(range)) {
+        participant.preferences = { meetingHours: range };
+      } else {
+        problems.push(`Ignored invalid meeting hours "${meetingHoursValue}" for ${label}`);
+      }
+    }
+
+    // Custom hours in a link only make sense with custom hours switched on
+    if (participant.workingHours !== DEFAULT_WORKING_HOURS || participant.schedule || participant.timezone || participant.preferences) {
+      customHoursEnabled = true;
+    }
+
+    return participant;
+  });
+
+  const scenario: SharedScenario = { participants, customHoursEnabled };
+
+  const dateValue = params.get('date');
+  if (dateValue !== null) {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(dateValue) ? DateTime.fromISO(dateValue) : null;
+    if (date?.isValid) {
+      scenario.selectedDate = date.toJSDate();
+    } else {
+      problems.push(`Ignored invalid date "${dateValue}"`);
+    }
+  }
+
+  const lengthValue = params.get('len');
+  if (lengthValue !== null) {
+    if (MEETING_DURATIONS.includes(Number(lengthValue))) {
+      scenario.meetingDurationMinutes = Number(lengthValue);
+    } else {
+      problems.push(`Ignored invalid meeting length "${lengthValue}"`);
+    }
+  }
+
+  const stepValue = params.get('step');
+  if (stepValue !== null) {
+    if (SLOT_STEPS.includes(Number(stepValue) as SlotStep)) {
+      scenario.slotStep = Number(stepValue) as SlotStep;
+    } else {
+      problems.push(`Ignored invalid suggestion step "${stepValue}"`);
+    }
+  }
+
+  return { scenario, problems };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { loadTeams, saveTeam, deleteTeam, hasCustomHours, TEAMS_STORAGE_KEY } from './teams';
+import type { City, Team } from '../types';
+
+describe('teams', () => {
+  const london: City = { name: 'London', country: 'United Kingdom', region: 'England', timezone: 'Europe/London' };
+  const bangalore: City = { name: 'Bangalore', country: 'India', timezone: 'Asia/Kolkata' };
+
+  const team: Team = {
+    name: 'Platform',
+    members: [
+      { name: 'Priya', city: bangalore, workingHours: { start: 10, end: 19 }, notes: 'Prefers mornings' },
+      { name: 'Sam', city: london, workingHours: { start: 9, end: 18 } }
+    ]
+  };
+
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should save and load teams sorted by name', () => {
+    saveTeam(team);
+    saveTeam({ name: 'Design', members: [team.members[1]] });
+
+    expect(loadTeams().map(saved => saved.name)).toEqual(['Design', 'Platform']);
+    expect(loadTeams()[1]).toEqual(team);
+  });
+
+  it('should replace a team with the same name in any case', () => {
+    saveTeam(team);
+    const teams = saveTeam({ name: ' platform ', members: [team.members[0]] });
+
+    expect(teams).toHaveLength(1);
+    expect(teams[0].name).toBe('platform');
+    expect(teams[0].members).toHaveLength(1);
+  });
+
+  it('should tidy member names and notes', () => {
+    const [saved] = saveTeam({
+      name: 'Support',
+      members: [{ name: '  ', city: london, workingHours: { start: 9, end: 18 }, notes: '   ' }]
+    });
+
+    expect(saved.members[0]).toEqual({ name: 'London', city: london, workingHours: { start: 9, end: 18 } });
+  });
+
+  it('should delete a team', () => {
+    saveTeam(team);
+
+    expect(deleteTeam('PLATFORM')).toEqual([]);
+    expect(loadTeams()).toEqual([]);
+  });
+
+  it('should skip stored data it cannot read', () => {
+    window.localStorage.setItem(TEAMS_STORAGE_KEY, 'not json');
+    expect(loadTeams()).toEqual([]);
+
+    window.localStorage.setItem(TEAMS_STORAGE_KEY, JSON.stringify([team, { name: 'Broken', members: [{ name: 'X' }] }]));
+    expect(loadTeams()).toEqual([team]);
+
+    const badSchedule = { ...team.members[1], schedule: { daysOff: [9], hours: { 1: { start: 9 } } } };
+    window.localStorage.setItem(TEAMS_STORAGE_KEY, JSON.stringify([team, { name: 'Broken', members: [badSchedule] }]));
+    expect(loadTeams()).toEqual([team]);
+  });
+
+  it('should throw for a team without a name or members', () => {
+    expect(() => saveTeam({ ...team, name: ' ' })).toThrow('Team name must not be empty');
+    expect(() => saveTeam({ ...team, members: [] })).toThrow('A team needs at least one member');
+  });
+
+  it('should explain when the browser refuses to store teams', () => {
+    const full = { getItem: () => null, setItem: () => { throw new Error('QuotaExceededError'); } } as unknown as Storage;
+
+    expect(() => saveTeam(team, full)).toThrow('Unable to save teams. Your browser may be blocking local storage.');
+  });
+
+  it('should load stored schedules, timezones and preferences', () => {
+    const scheduled: Team = {
+      name: 'Weekends',
+      members: [{
+        ...team.members[1],
+        timezone: 'America/New_York',
+        schedule: { daysOff: [5, 6], hours: { 7: { start: 10, end: 16 } } },
+        preferences: { meetingHours: { start: 10, end: 12 } }
+      }]
+    };
+    window.localStorage.setItem(TEAMS_STORAGE_KEY, JSON.stringify([scheduled]));
+
+    expect(loadTeams()).toEqual([scheduled]);
+  });
+
+  it('should cope with a browser that blocks local storage', () => {
+    const blocked = vi.spyOn(window, 'localStorage', 'get').mockImplementation(() => {
+      throw new DOMException('The operation is insecure.', 'SecurityError');
+    });
+
+    try {
+      expect(loadTeams()).toEqual([]);
+      expect(() => saveTeam(team)).toThrow('Unable to save teams. Your browser may be blocking local storage.');
+      expect(() => deleteTeam('Platform')).toThrow('Unable to save teams');
+    } finally {
+      blocked.mockRestore();
+    }
+  });
+
+  it('should tell whether a member has hours of their own', () => {
+    const defaults = { start: 9, end: 18 };
+
+    expect(hasCustomHours(team.members[1], defaults)).toBe(false);
+    expect(hasCustomHours(team.members[0], defaults)).toBe(true);
+    expect(hasCustomHours({ ...team.members[1], schedule: { daysOff: [5, 6] } }, defaults)).toBe(true);
+    expect(hasCustomHours({ ...team.members[1], timezone: 'America/New_York' }, defaults)).toBe(true);
+    expect(hasCustomHours({ ...team.members[1], preferences: { meetingHours: { start: 9, end: 12 } } }, defaults)).toBe(true);
+  });
+});
@@ -0,0 +1,205 @@
+import type { City, Team, TeamMember, WorkingHours, WeeklySchedule, ParticipantPreferences, TimeOfDayRange } from '../types';
+import { haveSameHours } from './workingHours';
+
+/**
+ * localStorage key the saved teams are kept under
+ */
+export const TEAMS_STORAGE_KEY = 'timezone-overlap-finder.teams';
+
+/**
+ * Check that a stored value looks like a start/end range
+ */
+function isRange(value: unknown): value is TimeOfDayRange {
+  const range = value as TimeOfDayRange;
+  return !!range && typeof range.start === 'number' && typeof range.end === 'number';
+}
+
+/**
+ * Check that a stored value looks like working hours, with any breaks
+ */
+function isWorkingHours(value: unknown): value is WorkingHours {
+  const hours = value as WorkingHours;
+  return isRange(hours) && (hours.breaks === undefined || (Array.isArray(hours.breaks) && hours.breaks.every(isRange)));
+}
+
+/**
+ * Check that a stored value looks like a weekly schedule
+ */
+function isSchedule(value: unknown): value is WeeklySchedule {
+  const schedule = value as WeeklySchedule;
+  if (!schedule || typeof schedule !== 'object') {
+    return false;
+  }
+
+  const isWeekday = (day: unknown) => Number.isInteger(day) && (day as number) >= 1 && (day as number) <= 7;
+  return (
+    (schedule.daysOff === undefined || (Array.isArray(schedule.daysOff) && schedule.daysOff.every(isWeekday))) &&
+    (schedule.hours === undefined || (
+      typeof schedule.hours === 'object' &&
+      schedule.hours !== null &&
+      Object.entries(schedule.hours).every(([day, hours]) => isWeekday(Number(day)) && isWorkingHours(hours))
+    ))
+  );
+}
+
+/**
+ * Check that a stored value looks like meeting preferences
+ */
+function isPreferences(value: unknown): value is ParticipantPreferences {
+  const preferences = value as ParticipantPreferences;
+  return (
+    !!preferences &&
+    typeof preferences === 'object' &&
+    (preferences.meetingHours === undefined || isRange(preferences.meetingHours))
+  );
+}
+
+/**
+ * Check that a stored value looks like a city
+ */
+function isCity(value: unknown): value is City {
+  const city = value as City;
+  return !!city && typeof city.name === 'string' && typeof city.country === 'string' && typeof city.timezone === 'string';
+}
+
+/**
+ * Check that a stored value looks like a team member
+ */
+function isTeamMember(value: unknown): value is TeamMember {
+  const member = value as TeamMember;
+  return (
+    !!member &&
+    typeof member.name === 'string' &&
+    isCity(member.city) &&
+    (member.timezone === undefined || typeof member.timezone === 'string') &&
+    isWorkingHours(member.workingHours) &&
+    (member.schedule === undefined || isSchedule(member.schedule)) &&
+    (member.preferences === undefined || isPreferences(member.preferences)) &&
+    (member.notes === undefined || typeof member.notes === 'string')
+  );
+}
+
+/**
+ * Check that a stored value looks like a team
+ */
+function isTeam(value: unknown): value is Team {
+  const team = value as Team;
+  return (
+    !!team &&
+    typeof team.name === 'string' &&
+    team.name.trim() !== '' &&
+    Array.isArray(team.members) &&
+    team.members.every(isTeamMember)
+  );
+}
+
+/**
+ * Get the storage to use, or null when the browser blocks local storage
+ * Reading window.localStorage itself throws when storage is disabled
+ */
+function getStorage(storage: Storage | undefined): Storage | null {
+  if (storage) {
+    return storage;
+  }
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the saved teams
+ * Entries that cannot be read (e.g. edited by hand) are skipped
+ * @param storage - Where the teams are kept (default: localStorage)
+ * @returns The teams, sorted by name, or none when storage is blocked
+ */
+export function loadTeams(storage?: Storage): Team[] {
+  try {
+    const available = getStorage(storage);
+    const stored: unknown = JSON.parse(available?.getItem(TEAMS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter(isTeam).sort((a, b) => a.name.localeCompare(b.name))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a team, replacing any team with the same name
+ * @param team - The team to save
+ * @param storage - Where the teams are kept (default: localStorage)
+ * @returns Every saved team, sorted by name
+ * @throws Error if the team has no name or members, or the browser refuses to store it
+ */
+export function saveTeam(team: Team, storage?: Storage): Team[] {
+  const name = team.name.trim();
+  if (name === '') {
+    throw new Error('Team name must not be empty');
+  }
+  if (team.members.length === 0) {
+    throw new Error('A team needs at least one member');
+  }
+
+  const members = team.members.map(member => {
+    const saved: TeamMember = { ...member, name: member.name.trim() || member.city.name };
+    const notes = member.notes?.trim();
+    if (notes) {
+      saved.notes = notes;
+    } else {
+      delete saved.notes;
+    }
+    return saved;
+  });
+
+  const teams = [
+    ...loadTeams(storage).filter(existing => existing.name.toLowerCase() !== name.toLowerCase()),
+    { name, members }
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  writeTeams(teams, storage);
+  return teams;
+}
+
+/**
+ * Delete a saved team
+ * @param name - Name of the team, in any case
+ * @param storage - Where the teams are kept (default: localStorage)
+ * @returns The remaining teams, sorted by name
+ * @throws Error if the browser refuses to store the change
+ */
+export function deleteTeam(name: string, storage?: Storage): Team[] {
+  const teams = loadTeams(storage).filter(team => team.name.toLowerCase() !== name.trim().toLowerCase());
+  writeTeams(teams, storage);
+  return teams;
+}
+
+/**
+ * Write the teams to storage
+ */
+function writeTeams(teams: Team[], storage: Storage | undefined): void {
+  try {
+    const available = getStorage(storage);
+    if (!available) {
+      throw new Error('Local storage is not available');
+    }
+    available.setItem(TEAMS_STORAGE_KEY, JSON.stringify(teams));
+  } catch {
+    throw new Error('Unable to save teams. Your browser may be blocking local storage.');
+  }
+}
+
+/**
+ * Check whether a team member has hours, days off, a timezone or meeting preferences of their own
+ * @param member - The team member
+ * @param defaultHours - Hours everyone gets without custom hours
+ */
+export function hasCustomHours(member: TeamMember, defaultHours: WorkingHours): boolean {
+  return (
+    member.schedule !== undefined ||
+    member.timezone !== undefined ||
+    member.preferences !== undefined ||
+    !haveSameHours(member.workingHours, defaultHours)
+  );
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { parseUtcOffset, formatUtcOffset, findCitiesByTimezone, TimezoneCityIndex } from './timezoneSearch';
+import { CityDatabase } from './CityDatabase';
+
+describe('timezoneSearch', () => {
+  const cities = new CityDatabase().getAllCities();
+  const winter = new Date(2024, 0, 17);
+  const summer = new Date(2024, 6, 17);
+  const pacific = ['Los Angeles', 'San Francisco', 'Seattle', 'Vancouver'];
+
+  const names = (query: string, date: Date) =>
+    findCitiesByTimezone(query, cities, date)?.map(group => [group.label, group.cities.map(city => city.name)]);
+
+  describe('parseUtcOffset', () => {
+    it.each([
+      ['UTC+5:30', 330],
+      ['GMT-3', -180],
+      ['utc +0545', 345],
+      ['UTC−8', -480],
+      ['GMT', 0],
+      ['UTC+14', 840]
+    ])('should read %s', (query, offset) => {
+      expect(parseUtcOffset(query)).toBe(offset);
+    });
+
+    it.each(['UTC+15', 'GMT-13', 'UTC+5:75', 'London', '+5:30'])('should not read %s', (query) => {
+      expect(parseUtcOffset(query)).toBeNull();
+    });
+  });
+
+  describe('formatUtcOffset', () => {
+    it('should leave out whole-hour minutes', () => {
+      expect([330, -180, 0, 345].map(formatUtcOffset)).toEqual(['UTC+5:30', 'UTC-3', 'UTC+0', 'UTC+5:45']);
+    });
+  });
+
+  describe('findCitiesByTimezone', () => {
+    it('should find the cities on an abbreviation', () => {
+      expect(names('pst', winter)).toEqual([['PST · Pacific Time (UTC-8)', pacific]]);
+      expect(names('JST', summer)).toEqual([['JST · Japan Standard Time (UTC+9)', ['Tokyo', 'Osaka']]]);
+    });
+
+    it('should say which abbreviation is in use on the date', () => {
+      expect(names('PST', summer)).toEqual([
+        ['PDT · Pacific Time (UTC-7), not PST on this date', pacific]
+      ]);
+      expect(names('PT', summer)).toEqual([['PDT · Pacific Time (UTC-7)', pacific]]);
+    });
+
+    it('should list every meaning of an ambiguous abbreviation, those in use first', () => {
+      expect(names('IST', winter)).toEqual([
+        ['IST · Israel Time (UTC+2)', ['Tel Aviv', 'Jerusalem']],
+        ['IST · India Standard Time (UTC+5:30)', ['Mumbai', 'Delhi', 'Bangalore', 'Kolkata']],
+        ['GMT · Irish Time (UTC+0), not IST on this date', ['Dublin']]
+      ]);
+      expect(names('CST', summer)).toEqual([
+        ['CST · Central Time (UTC-6)', ['Mexico City']],
+        ['CST · China Standard Time (UTC+8)', ['Shanghai', 'Beijing']],
+        ['CDT · Central Time (UTC-5), not CST on this date', ['Chicago']]
+      ]);
+    });
+
+    it('should find the cities on a UTC offset on the date', () => {
+      expect(names('UTC+5:30', winter)).toEqual([['UTC+5:30', ['Mumbai', 'Delhi', 'Bangalore', 'Kolkata', 'Colombo']]]);
+      expect(names('GMT-3', summer)?.[0][1]).toEqual(expect.arrayContaining(['São Paulo', 'Buenos Aires']));
+      expect(names('UTC+1', winter)?.[0][1]).toContain('Paris');
+      expect(names('UTC+1', summer)?.[0][1]).toContain('London');
+    });
+
+    it('should give no groups when no city matches', () => {
+      expect(names('UTC+14', winter)).toEqual([]);
+      expect(names('NST', winter)).toEqual([]);
+    });
+
+    it('should not treat other searches as timezones', () => {
+      expect(findCitiesByTimezone('London', cities, winter)).toBeNull();
+      expect(findCitiesByTimezone('Istanbul', cities, winter)).toBeNull();
+    });
+  });
+
+  describe('TimezoneCityIndex', () => {
+    it('should list cities in the order given, whatever their timezone', () => {
+      const index = new TimezoneCityIndex([
+        { name: 'Madrid', country: 'Spain', timezone: 'Europe/Madrid' },
+        { name: 'Paris', country: 'France', timezone: 'Europe/Paris' },
+        { name: 'Barcelona', country: 'Spain', timezone: 'Europe/Madrid' }
+      ]);
+
+      expect(index.search('UTC+1', winter)?.[0].cities.map(city => city.name)).toEqual(['Madrid', 'Paris', 'Barcelona']);
+      expect(index.search('CET', winter)?.[0].cities.map(city => city.name)).toEqual(['Madrid', 'Paris', 'Barcelona']);
+    });
+
+    it('should answer later searches on other dates', () => {
+      const index = new TimezoneCityIndex(cities);
+
+      expect(index.search('UTC+1', winter)?.[0].cities.map(city => city.name)).toContain('Paris');
+      expect(index.search('UTC+1', summer)?.[0].cities.map(city => city.name)).toContain('London');
+      expect(index.search('UTC+1', summer)?.[0].cities.map(city => city.name)).not.toContain('Paris');
+    });
+  });
+});
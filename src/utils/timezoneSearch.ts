@@ -0,0 +1,179 @@
+import { DateTime } from 'luxon';
+import type { City, TimezoneMatch } from '../types';
+import abbreviationsData from '../data/timezoneAbbreviations.json';
+
+/**
+ * A timezone known by its abbreviations, e.g. Pacific Time as PST, PDT or PT
+ * Several timezones can share an abbreviation (IST is India, Israel and Irish summer time).
+ */
+interface TimezoneAbbreviation {
+  name: string;
+  standard: string;
+  daylight?: string; // only for timezones with daylight saving time
+  generic?: string; // either half of the year, e.g. PT
+  zones: string[];
+}
+
+const ABBREVIATIONS = abbreviationsData as TimezoneAbbreviation[];
+
+/**
+ * Offsets go from UTC-12 to UTC+14
+ */
+const MIN_OFFSET_MINUTES = -12 * 60;
+const MAX_OFFSET_MINUTES = 14 * 60;
+
+/**
+ * Read a UTC offset such as "UTC+5:30", "GMT-3", "utc +0530" or "UTC"
+ * @param query - Search string
+ * @returns Offset in minutes east of UTC, or null when the query is not an offset
+ */
+export function parseUtcOffset(query: string): number | null {
+  const match = /^(?:utc|gmt)(?:\s*([+\-−])\s*(\d{1,2})(?::?(\d{2}))?)?$/i.exec(query.trim());
+  if (!match) {
+    return null;
+  }
+  if (!match[1]) {
+    return 0;
+  }
+
+  const hours = Number(match[2]);
+  const minutes = Number(match[3] ?? 0);
+  const offset = (match[1] === '+' ? 1 : -1) * (hours * 60 + minutes);
+  if (minutes > 59 || offset < MIN_OFFSET_MINUTES || offset > MAX_OFFSET_MINUTES) {
+    return null;
+  }
+  return offset;
+}
+
+/**
+ * Format an offset as UTC+5:30, UTC-3 or UTC+0
+ * @param minutes - Offset in minutes east of UTC
+ */
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+  return `UTC${sign}${hours}${rest ? `:${String(rest).padStart(2, '0')}` : ''}`;
+}
+
+/**
+ * Get the timezones an abbreviation can mean
+ */
+function findAbbreviationMeanings(query: string): TimezoneAbbreviation[] {
+  const typed = query.trim().toUpperCase();
+  return ABBREVIATIONS.filter(entry => [entry.standard, entry.daylight, entry.generic].includes(typed));
+}
+
+/**
+ * TimezoneCityIndex groups cities by timezone once, so a timezone search works
+ * out each timezone's offset once rather than once per city. The offsets for
+ * the last date searched are kept for the next search.
+ */
+export class TimezoneCityIndex {
+  private citiesByZone = new Map<string, City[]>();
+  private positions = new Map<City, number>();
+  private offsets = new Map<string, number>();
+  private offsetsTime: number | null = null; // the instant the offsets were worked out for
+
+  /**
+   * @param cities - Cities to search, in the order matches are listed
+   */
+  constructor(cities: City[]) {
+    cities.forEach((city, position) => {
+      const zoneCities = this.citiesByZone.get(city.timezone);
+      if (zoneCities) {
+        zoneCities.push(city);
+      } else {
+        this.citiesByZone.set(city.timezone, [city]);
+      }
+      this.positions.set(city, position);
+    });
+  }
+
+  /**
+   * Find the cities a timezone abbreviation ("PST", "CET", "IST") or UTC offset
+   * ("UTC+5:30", "GMT-3") refers to on a date
+   * Daylight saving time depends on the date: in July "PST" finds Los Angeles
+   * under "PDT · Pacific Time (UTC-7), not PST on this date", and "UTC-7" finds it too.
+   * An abbreviation with several meanings gives one group per meaning, so the
+   * user can choose between them; groups using the typed abbreviation come first.
+   * @param query - Search string
+   * @param date - Date the offsets are worked out for
+   * @returns One group per meaning (empty if no city uses it), or null when the
+   * query is neither an abbreviation nor an offset
+   */
+  search(query: string, date: Date): TimezoneMatch[] | null {
+    const offset = parseUtcOffset(query);
+    if (offset !== null) {
+      const matching = this.inListOrder(
+        [...this.citiesByZone].flatMap(([zone, cities]) => (this.getOffset(zone, date) === offset ? cities : []))
+      );
+      return matching.length > 0 ? [{ label: formatUtcOffset(offset), cities: matching }] : [];
+    }
+
+    const meanings = findAbbreviationMeanings(query);
+    if (meanings.length === 0) {
+      return null;
+    }
+
+    // Cities in a timezone can be on different halves of the year (Mexico City has no
+    // daylight saving time, Chicago does), so group by the abbreviation in use on the date
+    const typed = query.trim().toUpperCase();
+    const groups = new Map<string, TimezoneMatch & { inUse: boolean }>();
+    for (const meaning of meanings) {
+      const cities = this.inListOrder(meaning.zones.flatMap(zone => this.citiesByZone.get(zone) ?? []));
+      for (const city of cities) {
+        const local = DateTime.fromJSDate(date).setZone(city.timezone);
+        const current = local.isInDST && meaning.daylight ? meaning.daylight : meaning.standard;
+        const inUse = current === typed || meaning.generic === typed;
+        const label = `${current} · ${meaning.name} (${formatUtcOffset(local.offset)})${inUse ? '' : `, not ${typed} on this date`}`;
+
+        const group = groups.get(label) ?? { label, cities: [], inUse };
+        group.cities.push(city);
+        groups.set(label, group);
+      }
+    }
+
+    return [...groups.values()]
+      .sort((a, b) => Number(b.inUse) - Number(a.inUse))
+      .map(({ label, cities: grouped }) => ({ label, cities: grouped }));
+  }
+
+  /**
+   * Get a timezone's offset at the date, worked out once per timezone and date
+   */
+  private getOffset(zone: string, date: Date): number {
+    if (this.offsetsTime !== date.getTime()) {
+      this.offsets.clear();
+      this.offsetsTime = date.getTime();
+    }
+
+    let offset = this.offsets.get(zone);
+    if (offset === undefined) {
+      offset = DateTime.fromJSDate(date).setZone(zone).offset;
+      this.offsets.set(zone, offset);
+    }
+    return offset;
+  }
+
+  /**
+   * Put matched cities back in the order they were given in
+   */
+  private inListOrder(cities: City[]): City[] {
+    return cities.sort((a, b) => this.positions.get(a)! - this.positions.get(b)!);
+  }
+}
+
+/**
+ * Find the cities a timezone abbreviation ("PST", "CET", "IST") or UTC offset
+ * ("UTC+5:30", "GMT-3") refers to on a date
+ * Builds a TimezoneCityIndex for the cities; keep one to search the same cities again.
+ * @param query - Search string
+ * @param cities - Cities to search
+ * @param date - Date the offsets are worked out for
+ * @returns One group per meaning (empty if no city uses it), or null when the
+ * query is neither an abbreviation nor an offset
+ */
+export function findCitiesByTimezone(query: string, cities: City[], date: Date): TimezoneMatch[] | null {
+  return new TimezoneCityIndex(cities).search(query, date);
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import {
+  getStartMinutes,
+  getEndMinutes,
+  fromMinutes,
+  formatMinutesOfDay,
+  formatDuration,
+  getTotalDuration,
+  getWorkingSegments,
+  areBreaksValid,
+  haveSameHours
+} from './workingHours';
+import type { OverlapWindow } from '../types';
+
+describe('workingHours', () => {
+  describe('getStartMinutes and getEndMinutes', () => {
+    it('should treat whole-hour values as starting on the hour', () => {
+      const hours = { start: 9, end: 18 };
+
+      expect(getStartMinutes(hours)).toBe(9 * 60);
+      expect(getEndMinutes(hours)).toBe(18 * 60);
+    });
+
+    it('should include minute fields when present', () => {
+      const hours = { start: 8, startMinute: 30, end: 17, endMinute: 45 };
+
+      expect(getStartMinutes(hours)).toBe(8 * 60 + 30);
+      expect(getEndMinutes(hours)).toBe(17 * 60 + 45);
+    });
+  });
+
+  describe('getWorkingSegments', () => {
+    it('should return the whole day when there are no breaks', () => {
+      expect(getWorkingSegments({ start: 9, end: 18 })).toEqual([{ start: 540, end: 1080 }]);
+    });
+
+    it('should split the day around breaks in time order', () => {
+      const hours = {
+        start: 9,
+        end: 19,
+        breaks: [{ start: 16, end: 17 }, { start: 14, end: 15, endMinute: 30 }]
+      };
+
+      expect(getWorkingSegments(hours)).toEqual([
+        { start: 540, end: 840 },
+        { start: 930, end: 960 },
+        { start: 1020, end: 1140 }
+      ]);
+    });
+
+    it('should place breaks after midnight on the next day for overnight shifts', () => {
+      const hours = { start: 22, end: 6, breaks: [{ start: 2, end: 3 }] };
+
+      expect(getWorkingSegments(hours)).toEqual([
+        { start: 1320, end: 1560 },
+        { start: 1620, end: 1800 }
+      ]);
+    });
+
+    it('should handle a break that spans midnight', () => {
+      const hours = { start: 20, end: 4, breaks: [{ start: 23, startMinute: 30, end: 0, endMinute: 30 }] };
+
+      expect(getWorkingSegments(hours)).toEqual([
+        { start: 1200, end: 1410 },
+        { start: 1470, end: 1680 }
+      ]);
+    });
+  });
+
+  describe('areBreaksValid', () => {
+    it('should accept breaks within working hours', () => {
+      expect(areBreaksValid({ start: 9, end: 18, breaks: [{ start: 12, end: 13 }] })).toBe(true);
+      expect(areBreaksValid({ start: 22, end: 6, breaks: [{ start: 1, end: 2 }] })).toBe(true);
+    });
+
+    it('should reject breaks outside working hours', () => {
+      expect(areBreaksValid({ start: 9, end: 18, breaks: [{ start: 17, end: 19 }] })).toBe(false);
+      expect(areBreaksValid({ start: 9, end: 18, breaks: [{ start: 7, end: 8 }] })).toBe(false);
+    });
+
+    it('should reject empty breaks', () => {
+      expect(areBreaksValid({ start: 9, end: 18, breaks: [{ start: 12, end: 12 }] })).toBe(false);
+    });
+  });
+
+  describe('haveSameHours', () => {
+    it('should treat missing minutes as zero', () => {
+      expect(haveSameHours({ start: 9, end: 18 }, { start: 9, startMinute: 0, end: 18, breaks: [] })).toBe(true);
+    });
+
+    it('should compare start, end and breaks', () => {
+      expect(haveSameHours({ start: 9, end: 18 }, { start: 9, startMinute: 30, end: 18 })).toBe(false);
+      expect(haveSameHours(
+        { start: 9, end: 18, breaks: [{ start: 12, end: 13 }] },
+        { start: 9, end: 18, breaks: [{ start: 12, end: 13, endMinute: 30 }] }
+      )).toBe(false);
+    });
+  });
+
+  describe('fromMinutes', () => {
+    it('should omit minute fields for whole hours', () => {
+      expect(fromMinutes(9 * 60, 18 * 60)).toEqual({ start: 9, end: 18 });
+    });
+
+    it('should split minutes into hour and minute fields', () => {
+      expect(fromMinutes(9 * 60 + 45, 18 * 60 + 15)).toEqual({
+        start: 9,
+        startMinute: 45,
+        end: 18,
+        endMinute: 15
+      });
+    });
+  });
+
+  describe('formatMinutesOfDay', () => {
+    it('should format whole hours without minutes', () => {
+      expect(formatMinutesOfDay(0)).toBe('12 AM');
+      expect(formatMinutesOfDay(9 * 60)).toBe('9 AM');
+      expect(formatMinutesOfDay(12 * 60)).toBe('12 PM');
+      expect(formatMinutesOfDay(18 * 60)).toBe('6 PM');
+      expect(formatMinutesOfDay(24 * 60)).toBe('12 AM');
+    });
+
+    it('should format minutes with two digits', () => {
+      expect(formatMinutesOfDay(8 * 60 + 30)).toBe('8:30 AM');
+      expect(formatMinutesOfDay(21 * 60 + 5)).toBe('9:05 PM');
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format whole hours without minutes', () => {
+      expect(formatDuration(60)).toBe('1h');
+      expect(formatDuration(8 * 60)).toBe('8h');
+    });
+
+    it('should format hours and minutes', () => {
+      expect(formatDuration(90)).toBe('1h 30m');
+    });
+
+    it('should format durations under an hour in minutes', () => {
+      expect(formatDuration(45)).toBe('45m');
+      expect(formatDuration(0)).toBe('0m');
+    });
+  });
+
+  describe('getTotalDuration', () => {
+    const window = (durationMinutes: number): OverlapWindow => {
+      const start = DateTime.fromISO('2024-01-15T09:00:00Z', { zone: 'UTC' });
+      const end = start.plus({ minutes: durationMinutes });
+      return { overlapInUTC: { start, end }, localOverlaps: [{ start, end }], durationMinutes };
+    };
+
+    it('should add up the minutes of every window', () => {
+      expect(getTotalDuration({ hasOverlap: true, windows: [window(90), window(45)] })).toBe(135);
+    });
+
+    it('should fall back to the overlap duration without windows', () => {
+      expect(getTotalDuration({ hasOverlap: true, durationMinutes: 60 })).toBe(60);
+    });
+
+    it('should be zero without an overlap', () => {
+      expect(getTotalDuration({ hasOverlap: false, durationMinutes: 60 })).toBe(0);
+    });
+  });
+});
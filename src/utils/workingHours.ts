@@ -0,0 +1,182 @@
+import type { WorkingHours, TimeOfDayRange, OverlapResult } from '../types';
+
+/**
+ * Helpers for working with minute-precision working hours.
+ * WorkingHours stores whole hours plus optional minutes, so values created
+ * before minutes were supported (e.g. { start: 9, end: 18 }) keep working.
+ */
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Get the start of working hours (or a break) in minutes since midnight
+ */
+export function getStartMinutes(hours: TimeOfDayRange): number {
+  return hours.start * 60 + (hours.startMinute ?? 0);
+}
+
+/**
+ * Get the end of working hours (or a break) in minutes since midnight
+ */
+export function getEndMinutes(hours: TimeOfDayRange): number {
+  return hours.end * 60 + (hours.endMinute ?? 0);
+}
+
+/**
+ * Check whether working hours run past midnight into the next day (e.g. 22:00-06:00)
+ */
+export function isOvernight(hours: WorkingHours): boolean {
+  return getEndMinutes(hours) < getStartMinutes(hours);
+}
+
+/**
+ * Get a break as minutes relative to the start of the shift's day
+ * Breaks after midnight in an overnight shift are moved onto the next day
+ */
+function getBreakMinutes(hours: WorkingHours, workBreak: TimeOfDayRange): { start: number; end: number } {
+  let start = getStartMinutes(workBreak);
+  let end = getEndMinutes(workBreak);
+
+  if (isOvernight(hours) && start < getStartMinutes(hours)) {
+    start += MINUTES_PER_DAY;
+    end += MINUTES_PER_DAY;
+  }
+
+  if (end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Check that every break is non-empty and falls within the working day
+ */
+export function areBreaksValid(hours: WorkingHours): boolean {
+  const dayStart = getStartMinutes(hours);
+  const dayEnd = isOvernight(hours) ? getEndMinutes(hours) + MINUTES_PER_DAY : getEndMinutes(hours);
+
+  return (hours.breaks ?? []).every(workBreak => {
+    if (getStartMinutes(workBreak) === getEndMinutes(workBreak)) {
+      return false;
+    }
+    const { start, end } = getBreakMinutes(hours, workBreak);
+    return start >= dayStart && end <= dayEnd;
+  });
+}
+
+/**
+ * Split working hours into the segments actually worked, removing breaks
+ * Segments are minutes relative to the start of the shift's day, so an
+ * overnight segment ends after 1440
+ */
+export function getWorkingSegments(hours: WorkingHours): { start: number; end: number }[] {
+  const dayStart = getStartMinutes(hours);
+  const dayEnd = getEndMinutes(hours) <= dayStart ? getEndMinutes(hours) + MINUTES_PER_DAY : getEndMinutes(hours);
+
+  const breaks = (hours.breaks ?? [])
+    .map(workBreak => getBreakMinutes(hours, workBreak))
+    .sort((a, b) => a.start - b.start);
+
+  const segments: { start: number; end: number }[] = [];
+  let cursor = dayStart;
+
+  for (const workBreak of breaks) {
+    const breakStart = Math.max(workBreak.start, dayStart);
+    const breakEnd = Math.min(workBreak.end, dayEnd);
+
+    if (breakStart > cursor) {
+      segments.push({ start: cursor, end: Math.min(breakStart, dayEnd) });
+    }
+    cursor = Math.max(cursor, breakEnd);
+  }
+
+  if (cursor < dayEnd) {
+    segments.push({ start: cursor, end: dayEnd });
+  }
+
+  return segments;
+}
+
+/**
+ * Check whether two sets of working hours start, end and break at the same times
+ */
+export function haveSameHours(a: WorkingHours, b: WorkingHours): boolean {
+  const breaksA = a.breaks ?? [];
+  const breaksB = b.breaks ?? [];
+
+  return (
+    getStartMinutes(a) === getStartMinutes(b) &&
+    getEndMinutes(a) === getEndMinutes(b) &&
+    breaksA.length === breaksB.length &&
+    breaksA.every((workBreak, index) =>
+      getStartMinutes(workBreak) === getStartMinutes(breaksB[index]) &&
+      getEndMinutes(workBreak) === getEndMinutes(breaksB[index])
+    )
+  );
+}
+
+/**
+ * Build working hours from start and end minutes since midnight
+ * Minute fields are only set when they are non-zero
+ */
+export function fromMinutes(startMinutes: number, endMinutes: number): TimeOfDayRange {
+  const hours: TimeOfDayRange = {
+    start: Math.floor(startMinutes / 60),
+    end: Math.floor(endMinutes / 60)
+  };
+
+  if (startMinutes % 60 !== 0) {
+    hours.startMinute = startMinutes % 60;
+  }
+
+  if (endMinutes % 60 !== 0) {
+    hours.endMinute = endMinutes % 60;
+  }
+
+  return hours;
+}
+
+/**
+ * Add up the shared minutes of every window in an overlap
+ * Falls back to durationMinutes for results without a window list
+ */
+export function getTotalDuration(overlap: OverlapResult): number {
+  if (!overlap.hasOverlap) {
+    return 0;
+  }
+  if (!overlap.windows || overlap.windows.length === 0) {
+    return overlap.durationMinutes ?? 0;
+  }
+  return overlap.windows.reduce((total, window) => total + window.durationMinutes, 0);
+}
+
+/**
+ * Format minutes since midnight as a 12-hour clock time
+ * Whole hours are shown without minutes (e.g. "9 AM", "8:30 AM")
+ */
+export function formatMinutesOfDay(minutes: number): string {
+  const hour = Math.floor(minutes / 60) % 24;
+  const minute = minutes % 60;
+  const period = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+
+  return minute === 0
+    ? `${displayHour} ${period}`
+    : `${displayHour}:${String(minute).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Format a duration in minutes as hours and minutes
+ * Whole hours are shown without minutes (e.g. "3h", "3h 30m", "45m")
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remainder = Math.round(minutes % 60);
+
+  if (hours === 0) {
+    return `${remainder}m`;
+  }
+
+  return remainder === 0 ? `${hours}h` : `${hours}h ${remainder}m`;
+}